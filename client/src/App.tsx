@@ -7,7 +7,13 @@ import { Toaster as Sonner } from "sonner";
 import { WhopProvider } from "@/context/WhopContext";
 import Home from "@/pages/home";
 import Compatibility from "@/pages/compatibility";
+import GroupCompatibility from "@/pages/group-compatibility";
+import CompatibilityScreening from "@/pages/compatibility-screening";
+import CompatibilityReadings from "@/pages/compatibility-readings";
+import Circle from "@/pages/circle";
+import CircleContact from "@/pages/circle-contact";
 import Cues from "@/pages/cues";
+import CueAdmin from "@/pages/cue-admin";
 import Explore from "@/pages/explore";
 import CueChats from "@/pages/cuechats";
 import Learn from "@/pages/learn";
@@ -26,6 +32,11 @@ function ExperienceView() {
         <Switch>
           <Route path="/experiences/:experienceId" component={Home} />
           <Route path="/experiences/:experienceId/compatibility" component={Compatibility} />
+          <Route path="/experiences/:experienceId/compatibility/group" component={GroupCompatibility} />
+          <Route path="/experiences/:experienceId/compatibility/screening" component={CompatibilityScreening} />
+          <Route path="/experiences/:experienceId/compatibility/readings" component={CompatibilityReadings} />
+          <Route path="/experiences/:experienceId/circle" component={Circle} />
+          <Route path="/experiences/:experienceId/circle/:contactId" component={CircleContact} />
           <Route path="/experiences/:experienceId/cues" component={Cues} />
           <Route path="/experiences/:experienceId/explore" component={Explore} />
           <Route path="/experiences/:experienceId/cuechats" component={CueChats} />
@@ -50,7 +61,13 @@ function DashboardView() {
         <Switch>
           <Route path="/dashboard/:companyId" component={Home} />
           <Route path="/dashboard/:companyId/compatibility" component={Compatibility} />
+          <Route path="/dashboard/:companyId/compatibility/group" component={GroupCompatibility} />
+          <Route path="/dashboard/:companyId/compatibility/screening" component={CompatibilityScreening} />
+          <Route path="/dashboard/:companyId/compatibility/readings" component={CompatibilityReadings} />
+          <Route path="/dashboard/:companyId/circle" component={Circle} />
+          <Route path="/dashboard/:companyId/circle/:contactId" component={CircleContact} />
           <Route path="/dashboard/:companyId/cues" component={Cues} />
+          <Route path="/dashboard/:companyId/cues/manage" component={CueAdmin} />
           <Route path="/dashboard/:companyId/explore" component={Explore} />
           <Route path="/dashboard/:companyId/cuechats" component={CueChats} />
           <Route path="/dashboard/:companyId/learn" component={Learn} />
@@ -70,6 +87,11 @@ function StandaloneView() {
       <Switch>
         <Route path="/" component={Home} />
         <Route path="/compatibility" component={Compatibility} />
+        <Route path="/compatibility/group" component={GroupCompatibility} />
+        <Route path="/compatibility/screening" component={CompatibilityScreening} />
+        <Route path="/compatibility/readings" component={CompatibilityReadings} />
+        <Route path="/circle" component={Circle} />
+        <Route path="/circle/:contactId" component={CircleContact} />
         <Route path="/cues" component={Cues} />
         <Route path="/explore" component={Explore} />
         <Route path="/cuechats" component={CueChats} />
@@ -0,0 +1,108 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { CalculationProfile } from '@/lib/numerology';
+import { ProfileData } from '@/components/ProfileSetup';
+import { useWhopContext } from '@/context/WhopContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface CalculationProfilePickerProps {
+  profile: ProfileData;
+  isAdmin?: boolean;
+}
+
+export function CalculationProfilePicker({ profile, isAdmin = false }: CalculationProfilePickerProps) {
+  const { experienceId } = useWhopContext();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ profiles: CalculationProfile[] }>({
+    queryKey: ['/api/calculation-profiles'],
+  });
+  const profiles = data?.profiles ?? [];
+  const selected = profiles.find(p => p.id === profile.calculationProfile);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (calculationProfile: string) => {
+      const response = await apiRequest('PUT', `/api/profile/${profile.odisId}`, { calculationProfile });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/me'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/profile/${profile.odisId}`] });
+      toast({
+        title: "Calculation profile updated",
+        description: "Your numbers have been recalculated.",
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to update calculation profile:', error);
+      toast({
+        title: "Update failed",
+        description: "Could not change your calculation profile. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const experienceDefaultMutation = useMutation({
+    mutationFn: async (calculationProfile: string) => {
+      const response = await apiRequest('PUT', `/api/experiences/${experienceId}/calculation-profile`, { calculationProfile });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/experiences/${experienceId}/settings`] });
+      toast({
+        title: "Experience default updated",
+        description: `New members will start on ${selected?.name ?? 'this profile'}.`,
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to update experience default:', error);
+      toast({
+        title: "Update failed",
+        description: "Only experience admins can change the default calculation profile.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col gap-2" data-testid="calculation-profile-picker">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-gray-9" />
+        <Select
+          value={profile.calculationProfile}
+          onValueChange={(value) => updateProfileMutation.mutate(value)}
+          disabled={updateProfileMutation.isPending || profiles.length === 0}
+        >
+          <SelectTrigger className="h-8 w-[200px] text-2" data-testid="select-calculation-profile">
+            <SelectValue placeholder="Calculation profile" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(p => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isAdmin && experienceId && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-1"
+            onClick={() => experienceDefaultMutation.mutate(profile.calculationProfile)}
+            disabled={experienceDefaultMutation.isPending}
+            data-testid="button-set-experience-default"
+          >
+            Make experience default
+          </Button>
+        )}
+      </div>
+      {selected && <p className="text-1 text-gray-10 max-w-sm">{selected.description}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { circleRelationships, circleRelationshipLabels, type CircleContact, type CircleRelationship } from '@shared/circle';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { TimePicker } from '@/components/ui/time-picker';
+import { Loader2, AlertTriangle } from 'lucide-react';
+
+interface CircleContactFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact?: CircleContact | null;   // Editing when set, adding otherwise
+}
+
+// Contact birth dates are stored as UTC midnight; DatePicker works in local time
+export function toPickerDate(isoDate: string): Date {
+  const date = new Date(isoDate);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function CircleContactForm({ open, onOpenChange, contact }: CircleContactFormProps) {
+  const [name, setName] = useState('');
+  const [birthDate, setBirthDate] = useState<Date | undefined>(undefined);
+  const [birthTime, setBirthTime] = useState('');
+  const [birthLocation, setBirthLocation] = useState('');
+  const [relationship, setRelationship] = useState<CircleRelationship>('friend');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(contact?.name ?? '');
+    setBirthDate(contact ? toPickerDate(contact.birthDate) : undefined);
+    setBirthTime(contact?.birthTime ?? '');
+    setBirthLocation(contact?.birthLocation ?? '');
+    setRelationship(contact?.relationship ?? 'friend');
+  }, [open, contact]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name,
+        birthDate: birthDate ? format(birthDate, 'yyyy-MM-dd') : undefined,
+        birthTime,
+        birthLocation,
+        relationship,
+      };
+      const response = contact
+        ? await apiRequest('PUT', `/api/circle/${contact.id}`, data)
+        : await apiRequest('POST', '/api/circle', data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/circle'] });
+      if (contact) queryClient.invalidateQueries({ queryKey: ['/api/circle', contact.id] });
+      onOpenChange(false);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { saveMutation.reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-md" data-testid="dialog-circle-contact">
+        <DialogHeader>
+          <DialogTitle>{contact ? `Edit ${contact.name}` : 'Add to your circle'}</DialogTitle>
+          <DialogDescription>
+            Save someone once and pick them from compatibility checks and CueChats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="contact-name" className="text-2">Full name</Label>
+            <Input
+              id="contact-name"
+              variant="frosted"
+              placeholder="Their full birth name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-contact-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-2">Birth date</Label>
+            <DatePicker
+              value={birthDate}
+              onChange={setBirthDate}
+              fromYear={1920}
+              toYear={new Date().getFullYear()}
+              data-testid="input-contact-birth-date"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-2">Birth time <span className="text-gray-10">(optional)</span></Label>
+              <TimePicker value={birthTime} onChange={setBirthTime} data-testid="input-contact-birth-time" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact-location" className="text-2">Birthplace <span className="text-gray-10">(optional)</span></Label>
+              <Input
+                id="contact-location"
+                variant="frosted"
+                placeholder="City, Country"
+                value={birthLocation}
+                onChange={(e) => setBirthLocation(e.target.value)}
+                data-testid="input-contact-location"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-2">Relationship</Label>
+            <Select value={relationship} onValueChange={(value) => setRelationship(value as CircleRelationship)}>
+              <SelectTrigger data-testid="select-contact-relationship">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {circleRelationships.map(tag => (
+                  <SelectItem key={tag} value={tag}>{circleRelationshipLabels[tag]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {saveMutation.isError && (
+            <div className="text-2 text-red-11 flex items-center gap-2" data-testid="error-contact-form">
+              <AlertTriangle className="w-4 h-4" />
+              Couldn't save this person. Please check the details and try again.
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            variant="gold"
+            className="w-full"
+            disabled={!name.trim() || !birthDate || saveMutation.isPending}
+            data-testid="button-save-contact"
+          >
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : contact ? 'Save changes' : 'Add to circle'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
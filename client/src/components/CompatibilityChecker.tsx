@@ -1,34 +1,28 @@
 import { useState, useEffect } from 'react';
-import { useMutation } from '@tanstack/react-query';
-import { calculateComprehensiveCompatibility, type ComprehensiveCompatibility } from '@/lib/numerology';
-import { apiRequest } from '@/lib/queryClient';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { formatCalendarDate, relationshipDateKinds, type ComprehensiveCompatibility, type RelationshipModelId, type RelationshipDateKind } from '@/lib/numerology';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { NavLink } from '@/components/NavLink';
+import { circleRelationshipLabels, getRelationshipModelForContact, type CircleContact } from '@shared/circle';
+import { CompatibilityResult, type CompatibilityInsights } from '@/components/CompatibilityResult';
+import { toPickerDate } from '@/components/CircleContactForm';
+import { RelationshipModelSelect } from '@/components/RelationshipModelSelect';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { DatePicker } from '@/components/ui/date-picker';
-import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { 
-  Users, Heart, Sparkles, ArrowRight, Star, Zap, Brain, 
-  MessageCircle, TrendingUp, Sun, Target, Loader2,
-  CheckCircle, AlertTriangle, Lightbulb, HeartHandshake, Info
-} from 'lucide-react';
+import { Users, ArrowRight, Loader2, AlertTriangle, Info, History } from 'lucide-react';
 
 interface CompatibilityCheckerProps {
   userBirthDate: Date;
   userName: string;
   userFullName?: string;
-}
-
-interface AIInsights {
-  overviewNarrative: string;
-  emotionalConnection: string;
-  communicationDynamic: string;
-  growthPotential: string;
-  dailyLifeTogether: string;
-  advice: string;
+  calculationProfile?: string;
 }
 
 type AnalysisPhase = 'idle' | 'calculating' | 'analyzing' | 'generating' | 'complete';
@@ -41,24 +35,47 @@ const analysisMessages: Record<AnalysisPhase, string> = {
   complete: 'Analysis complete!',
 };
 
-export function CompatibilityChecker({ userBirthDate, userName, userFullName }: CompatibilityCheckerProps) {
+export function CompatibilityChecker({ userBirthDate, userName, userFullName, calculationProfile }: CompatibilityCheckerProps) {
   const [targetName, setTargetName] = useState('');
   const [targetDate, setTargetDate] = useState<Date | undefined>(undefined);
+  const [relationshipModel, setRelationshipModel] = useState<RelationshipModelId>('general');
+  const [sharedDate, setSharedDate] = useState<Date | undefined>(undefined);
+  const [sharedDateKind, setSharedDateKind] = useState<RelationshipDateKind>('met');
+  const [saveReading, setSaveReading] = useState(false);
   const [result, setResult] = useState<ComprehensiveCompatibility | null>(null);
-  const [aiInsights, setAiInsights] = useState<AIInsights | null>(null);
+  const [comparedPerson, setComparedPerson] = useState<{ name: string; birthDate: string } | null>(null);
+  const [aiInsights, setAiInsights] = useState<CompatibilityInsights | null>(null);
   const [phase, setPhase] = useState<AnalysisPhase>('idle');
   const [progress, setProgress] = useState(0);
 
-  const aiMutation = useMutation({
-    mutationFn: async (data: { person1: any; person2: any; overallScore: number; level: string }) => {
+  // The circle is only available when signed in; the picker hides otherwise
+  const { data: circleData } = useQuery<{ contacts: CircleContact[] }>({
+    queryKey: ['/api/circle'],
+  });
+  const circle = circleData?.contacts ?? [];
+  const isSignedIn = circleData !== undefined;
+
+  const pickFromCircle = (contactId: string) => {
+    const contact = circle.find(c => c.id === contactId);
+    if (!contact) return;
+    setTargetName(contact.name);
+    setTargetDate(toPickerDate(contact.birthDate));
+    setRelationshipModel(getRelationshipModelForContact(contact.relationship));
+  };
+
+  const compatibilityMutation = useMutation({
+    mutationFn: async (data: { person1: { name: string; birthDate: string }; person2: { name: string; birthDate: string }; calculationProfile?: string; relationshipModel: RelationshipModelId; relationshipDate?: string; relationshipDateKind?: RelationshipDateKind; save: boolean }) => {
       const response = await apiRequest('POST', '/api/compatibility', data);
-      const json = await response.json();
-      return json.insights as AIInsights;
+      return await response.json() as { compatibility: ComprehensiveCompatibility; insights: CompatibilityInsights; readingId: string | null };
     },
-    onSuccess: (insights) => {
+    onSuccess: ({ compatibility, insights, readingId }) => {
+      setResult(compatibility);
       setAiInsights(insights);
       setPhase('complete');
       setProgress(100);
+      if (readingId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/compatibility/readings'] });
+      }
     },
     onError: () => {
       setPhase('complete');
@@ -89,105 +106,27 @@ export function CompatibilityChecker({ userBirthDate, userName, userFullName }:
     setResult(null);
     setAiInsights(null);
 
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
     const person1Name = userFullName || userName;
-    
-    const compatibility = calculateComprehensiveCompatibility(
-      person1Name,
-      userBirthDate,
-      targetName,
-      targetDate
-    );
-    
-    setResult(compatibility);
-    setPhase('analyzing');
-    setProgress(30);
+    const targetBirthDate = format(targetDate, 'yyyy-MM-dd');
+    setComparedPerson({ name: targetName, birthDate: targetBirthDate });
 
-    await new Promise(resolve => setTimeout(resolve, 600));
-    
-    setPhase('generating');
-    setProgress(60);
-
-    aiMutation.mutate({
-      person1: {
-        name: person1Name,
-        birthDate: userBirthDate.toISOString(),
-        lifePathNumber: compatibility.person1Profile.lifePathNumber,
-        expressionNumber: compatibility.person1Profile.expressionNumber,
-        soulUrgeNumber: compatibility.person1Profile.soulUrgeNumber,
-        personalityNumber: compatibility.person1Profile.personalityNumber,
-        attitudeNumber: compatibility.person1Profile.attitudeNumber,
-        dayOfBirthNumber: compatibility.person1Profile.dayOfBirthNumber,
-        westernZodiac: compatibility.person1Profile.westernZodiac.sign,
-        westernElement: compatibility.person1Profile.westernZodiac.element,
-        chineseZodiac: compatibility.person1Profile.chineseZodiac.animal,
-        chineseElement: compatibility.person1Profile.chineseZodiac.element,
-        energySignature: compatibility.person1Profile.energySignature,
-      },
-      person2: {
-        name: targetName,
-        birthDate: targetDate.toISOString(),
-        lifePathNumber: compatibility.person2Profile.lifePathNumber,
-        expressionNumber: compatibility.person2Profile.expressionNumber,
-        soulUrgeNumber: compatibility.person2Profile.soulUrgeNumber,
-        personalityNumber: compatibility.person2Profile.personalityNumber,
-        attitudeNumber: compatibility.person2Profile.attitudeNumber,
-        dayOfBirthNumber: compatibility.person2Profile.dayOfBirthNumber,
-        westernZodiac: compatibility.person2Profile.westernZodiac.sign,
-        westernElement: compatibility.person2Profile.westernZodiac.element,
-        chineseZodiac: compatibility.person2Profile.chineseZodiac.animal,
-        chineseElement: compatibility.person2Profile.chineseZodiac.element,
-        energySignature: compatibility.person2Profile.energySignature,
-      },
-      overallScore: compatibility.overallScore,
-      level: compatibility.level,
+    // Scores and insights both come from the server; the phases only pace the progress bar
+    compatibilityMutation.mutate({
+      person1: { name: person1Name, birthDate: formatCalendarDate(userBirthDate) },
+      person2: { name: targetName, birthDate: targetBirthDate },
+      calculationProfile,
+      relationshipModel,
+      ...(sharedDate && { relationshipDate: format(sharedDate, 'yyyy-MM-dd'), relationshipDateKind: sharedDateKind }),
+      save: isSignedIn && saveReading,
     });
-  };
 
-  const isAnalyzing = phase !== 'idle' && phase !== 'complete';
-
-  const getLevelColor = (level: string) => {
-    switch (level) {
-      case 'Ideal': case 'Excellent': return 'bg-green-9 text-white';
-      case 'Harmonious': case 'Good': return 'bg-green-7 text-white';
-      case 'Neutral': case 'Moderate': return 'bg-amber-7 text-white';
-      case 'Challenging': case 'Low': return 'bg-red-7 text-white';
-      case 'Avoid': return 'bg-red-9 text-white';
-      default: return 'bg-gray-7 text-white';
-    }
-  };
-
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'bg-green-9';
-    if (score >= 60) return 'bg-green-7';
-    if (score >= 45) return 'bg-amber-7';
-    return 'bg-red-7';
-  };
-
-  const getDimensionIcon = (dimension: string) => {
-    switch (dimension) {
-      case 'lifePath': return Star;
-      case 'expression': return MessageCircle;
-      case 'soulUrge': return Heart;
-      case 'personality': return Brain;
-      case 'attitude': return Zap;
-      case 'dayOfBirth': return Sun;
-      default: return Star;
-    }
+    await new Promise(resolve => setTimeout(resolve, 800));
+    setPhase(current => (current === 'calculating' ? 'analyzing' : current));
+    await new Promise(resolve => setTimeout(resolve, 600));
+    setPhase(current => (current === 'analyzing' ? 'generating' : current));
   };
 
-  const getDimensionLabel = (dimension: string) => {
-    switch (dimension) {
-      case 'lifePath': return 'Life Path';
-      case 'expression': return 'Expression';
-      case 'soulUrge': return 'Soul Urge';
-      case 'personality': return 'Personality';
-      case 'attitude': return 'Attitude';
-      case 'dayOfBirth': return 'Day of Birth';
-      default: return dimension;
-    }
-  };
+  const isAnalyzing = phase !== 'idle' && phase !== 'complete';
 
   return (
     <Card variant="frosted" className="overflow-hidden relative" data-testid="card-compatibility">
@@ -210,6 +149,23 @@ export function CompatibilityChecker({ userBirthDate, userName, userFullName }:
       <CardContent className="space-y-6 relative">
         {/* Input Form */}
         <div className="space-y-4 p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+          {circle.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-2">From your circle</Label>
+              <Select onValueChange={pickFromCircle} disabled={isAnalyzing}>
+                <SelectTrigger data-testid="select-circle-contact">
+                  <SelectValue placeholder="Pick someone you've saved" />
+                </SelectTrigger>
+                <SelectContent>
+                  {circle.map(contact => (
+                    <SelectItem key={contact.id} value={contact.id}>
+                      {contact.name} · {circleRelationshipLabels[contact.relationship]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="targetName" className="text-2">Their Full Name</Label>
@@ -235,6 +191,46 @@ export function CompatibilityChecker({ userBirthDate, userName, userFullName }:
               />
             </div>
           </div>
+          <div className="space-y-2">
+            <Label className="text-2">Relationship Type</Label>
+            <RelationshipModelSelect value={relationshipModel} onChange={setRelationshipModel} disabled={isAnalyzing} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-2">Shared Date <span className="text-gray-10">(optional)</span></Label>
+            <div className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-3">
+              <Select value={sharedDateKind} onValueChange={(value) => setSharedDateKind(value as RelationshipDateKind)} disabled={isAnalyzing}>
+                <SelectTrigger data-testid="select-shared-date-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(relationshipDateKinds) as RelationshipDateKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{relationshipDateKinds[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <DatePicker
+                value={sharedDate}
+                onChange={setSharedDate}
+                disabled={isAnalyzing}
+                fromYear={1900}
+                toYear={new Date().getFullYear() + 5}
+                data-testid="input-shared-date"
+              />
+            </div>
+            <p className="text-1 text-gray-10">Adds a reading of the relationship itself, as if it were born that day.</p>
+          </div>
+          {isSignedIn && (
+            <label htmlFor="save-reading" className="flex items-center gap-2 text-2 text-gray-11 cursor-pointer">
+              <Checkbox
+                id="save-reading"
+                checked={saveReading}
+                onCheckedChange={(checked) => setSaveReading(checked === true)}
+                disabled={isAnalyzing}
+                data-testid="checkbox-save-reading"
+              />
+              Save this reading to My Readings
+            </label>
+          )}
           <Button
             variant="gold"
             className="w-full"
@@ -276,221 +272,35 @@ export function CompatibilityChecker({ userBirthDate, userName, userFullName }:
         )}
 
         {/* Results */}
-        {phase === 'complete' && result && (
-          <div className="space-y-6 animate-fade-in" data-testid="compatibility-result">
-            
-            {/* Overall Score Header */}
-            <div className="text-center p-6 rounded-xl bg-gradient-to-br from-gray-a3 to-gray-a2 border border-gray-a4">
-              <div className="flex items-center justify-center gap-6 mb-4">
-                <div className="text-center">
-                  <p className="text-2 font-medium text-gray-12 mb-1">{userName}</p>
-                  <Badge variant="outline" size="sm">LP {result.person1Profile.lifePathNumber}</Badge>
-                </div>
-                
-                <div className="relative">
-                  <div className={`w-24 h-24 rounded-full flex items-center justify-center text-6 font-bold ${getScoreColor(result.overallScore)} text-white shadow-lg`}>
-                    {result.overallScore}%
-                  </div>
-                  <Sparkles className="absolute -top-1 -right-1 w-6 h-6 text-amber-9" />
-                </div>
-                
-                <div className="text-center">
-                  <p className="text-2 font-medium text-gray-12 mb-1">{targetName.split(' ')[0]}</p>
-                  <Badge variant="outline" size="sm">LP {result.person2Profile.lifePathNumber}</Badge>
-                </div>
-              </div>
-              
-              <Badge className={`text-3 px-4 py-2 ${getLevelColor(result.level)}`} size="lg">
-                {result.level} Match
-              </Badge>
-              
-              {aiInsights && (
-                <p className="text-2 text-gray-11 mt-4 max-w-xl mx-auto leading-relaxed">
-                  {aiInsights.overviewNarrative}
-                </p>
-              )}
-            </div>
-
-            {/* Tabbed Content */}
-            <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-3 mb-4">
-                <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
-                <TabsTrigger value="dimensions" data-testid="tab-dimensions">Dimensions</TabsTrigger>
-                <TabsTrigger value="zodiac" data-testid="tab-zodiac">Zodiac</TabsTrigger>
-              </TabsList>
-
-              {/* Overview Tab */}
-              <TabsContent value="overview" className="space-y-4">
-                {/* AI Insights */}
-                {aiInsights && (
-                  <div className="space-y-4">
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <div className="p-4 rounded-lg bg-pink-a2 border border-pink-a4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Heart className="w-4 h-4 text-pink-9" />
-                          <p className="text-2 font-medium text-gray-12">Emotional Connection</p>
-                        </div>
-                        <p className="text-2 text-gray-11">{aiInsights.emotionalConnection}</p>
-                      </div>
-                      <div className="p-4 rounded-lg bg-blue-a2 border border-blue-a4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <MessageCircle className="w-4 h-4 text-blue-9" />
-                          <p className="text-2 font-medium text-gray-12">Communication</p>
-                        </div>
-                        <p className="text-2 text-gray-11">{aiInsights.communicationDynamic}</p>
-                      </div>
-                    </div>
-                    <div className="grid md:grid-cols-2 gap-4">
-                      <div className="p-4 rounded-lg bg-violet-a2 border border-violet-a4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <TrendingUp className="w-4 h-4 text-violet-9" />
-                          <p className="text-2 font-medium text-gray-12">Growth Potential</p>
-                        </div>
-                        <p className="text-2 text-gray-11">{aiInsights.growthPotential}</p>
-                      </div>
-                      <div className="p-4 rounded-lg bg-green-a2 border border-green-a4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Users className="w-4 h-4 text-green-9" />
-                          <p className="text-2 font-medium text-gray-12">Daily Life Together</p>
-                        </div>
-                        <p className="text-2 text-gray-11">{aiInsights.dailyLifeTogether}</p>
-                      </div>
-                    </div>
-                    <div className="p-4 rounded-lg bg-amber-a2 border border-amber-a4">
-                      <div className="flex items-center gap-2 mb-2">
-                        <Lightbulb className="w-4 h-4 text-amber-9" />
-                        <p className="text-2 font-medium text-gray-12">Key Advice</p>
-                      </div>
-                      <p className="text-2 text-gray-11">{aiInsights.advice}</p>
-                    </div>
-                  </div>
-                )}
-
-                {/* Strengths & Challenges */}
-                <div className="grid md:grid-cols-2 gap-4">
-                  <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
-                    <div className="flex items-center gap-2 mb-3">
-                      <CheckCircle className="w-5 h-5 text-green-9" />
-                      <h4 className="text-3 font-medium text-gray-12">Strengths</h4>
-                    </div>
-                    <ul className="space-y-2">
-                      {result.strengths.map((strength, i) => (
-                        <li key={i} className="text-2 text-gray-11 flex items-start gap-2">
-                          <span className="text-green-9 mt-0.5">+</span>
-                          {strength}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-
-                  <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
-                    <div className="flex items-center gap-2 mb-3">
-                      <AlertTriangle className="w-5 h-5 text-amber-9" />
-                      <h4 className="text-3 font-medium text-gray-12">Challenges</h4>
-                    </div>
-                    <ul className="space-y-2">
-                      {result.challenges.length > 0 ? result.challenges.map((challenge, i) => (
-                        <li key={i} className="text-2 text-gray-11 flex items-start gap-2">
-                          <span className="text-amber-9 mt-0.5">!</span>
-                          {challenge}
-                        </li>
-                      )) : (
-                        <li className="text-2 text-gray-10">No major challenges identified</li>
-                      )}
-                    </ul>
-                  </div>
-                </div>
-              </TabsContent>
-
-              {/* Dimensions Tab */}
-              <TabsContent value="dimensions" className="space-y-3">
-                {Object.entries(result.dimensions).map(([key, dim]) => {
-                  const Icon = getDimensionIcon(key);
-                  return (
-                    <div key={key} className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
-                      <div className="flex items-center justify-between gap-3 mb-2">
-                        <div className="flex items-center gap-3">
-                          <Icon className="w-5 h-5 text-gray-10" />
-                          <span className="text-2 font-medium text-gray-12">{getDimensionLabel(key)}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline" size="sm">{dim.person1Value}</Badge>
-                          <span className="text-1 text-gray-9">vs</span>
-                          <Badge variant="outline" size="sm">{dim.person2Value}</Badge>
-                          <Badge className={getLevelColor(dim.level)} size="sm">{dim.score}%</Badge>
-                        </div>
-                      </div>
-                      <Progress value={dim.score} className="h-1.5 mb-2" />
-                      <p className="text-1 text-gray-10">{dim.insight}</p>
-                    </div>
-                  );
-                })}
-              </TabsContent>
-
-              {/* Zodiac Tab */}
-              <TabsContent value="zodiac" className="space-y-4">
-                <div className="grid md:grid-cols-2 gap-4">
-                  {/* Chinese Zodiac */}
-                  <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex items-center gap-2">
-                        <Target className="w-5 h-5 text-red-9" />
-                        <h4 className="text-3 font-medium text-gray-12">Chinese Zodiac</h4>
-                      </div>
-                      <Badge className={getLevelColor(result.zodiac.chineseLevel)} size="sm">
-                        {result.zodiac.chineseScore}%
-                      </Badge>
-                    </div>
-                    <div className="flex items-center justify-center gap-4 mb-3 py-2">
-                      <div className="text-center">
-                        <p className="text-3 font-medium text-gray-12">{result.person1Profile.chineseZodiac.animal}</p>
-                        <p className="text-1 text-gray-10">{result.person1Profile.chineseZodiac.element}</p>
-                      </div>
-                      <HeartHandshake className="w-5 h-5 text-gray-9" />
-                      <div className="text-center">
-                        <p className="text-3 font-medium text-gray-12">{result.person2Profile.chineseZodiac.animal}</p>
-                        <p className="text-1 text-gray-10">{result.person2Profile.chineseZodiac.element}</p>
-                      </div>
-                    </div>
-                    <p className="text-1 text-gray-11">{result.zodiac.chineseInsight}</p>
-                  </div>
-
-                  {/* Western Zodiac */}
-                  <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
-                    <div className="flex items-center justify-between mb-3">
-                      <div className="flex items-center gap-2">
-                        <Star className="w-5 h-5 text-amber-9" />
-                        <h4 className="text-3 font-medium text-gray-12">Western Zodiac</h4>
-                      </div>
-                      <Badge className={getLevelColor(result.zodiac.westernLevel)} size="sm">
-                        {result.zodiac.westernScore}%
-                      </Badge>
-                    </div>
-                    <div className="flex items-center justify-center gap-4 mb-3 py-2">
-                      <div className="text-center">
-                        <p className="text-3 font-medium text-gray-12">{result.person1Profile.westernZodiac.sign}</p>
-                        <p className="text-1 text-gray-10">{result.person1Profile.westernZodiac.element}</p>
-                      </div>
-                      <HeartHandshake className="w-5 h-5 text-gray-9" />
-                      <div className="text-center">
-                        <p className="text-3 font-medium text-gray-12">{result.person2Profile.westernZodiac.sign}</p>
-                        <p className="text-1 text-gray-10">{result.person2Profile.westernZodiac.element}</p>
-                      </div>
-                    </div>
-                    <p className="text-1 text-gray-11">{result.zodiac.westernInsight}</p>
-                  </div>
-                </div>
-
-                {/* Element Harmony */}
-                <div className="p-4 rounded-lg bg-gradient-to-r from-violet-a2 to-amber-a2 border border-gray-a4 text-center">
-                  <p className="text-2 font-medium text-gray-12 mb-1">Element Harmony</p>
-                  <p className="text-2 text-gray-11">{result.zodiac.elementHarmony}</p>
-                </div>
-              </TabsContent>
-            </Tabs>
+        {phase === 'complete' && compatibilityMutation.isError && (
+          <div className="p-4 rounded-lg bg-red-a3 border border-red-a6 text-2 text-red-11 flex items-center gap-2" data-testid="compatibility-error">
+            <AlertTriangle className="w-4 h-4" />
+            We couldn't analyze this pairing. Please try again.
           </div>
         )}
 
+        {phase === 'complete' && result && comparedPerson && (
+          <>
+            <CompatibilityResult
+              result={result}
+              insights={aiInsights}
+              person1={{ name: userName, fullName: userFullName, birthDate: formatCalendarDate(userBirthDate) }}
+              person2={comparedPerson}
+              calculationProfile={calculationProfile}
+            />
+            {compatibilityMutation.data?.readingId && (
+              <NavLink
+                to="/compatibility/readings"
+                className="flex items-center justify-center gap-1 text-2 text-amber-11 hover:underline"
+                data-testid="link-saved-reading"
+              >
+                <History className="w-4 h-4" />
+                Saved to My Readings
+              </NavLink>
+            )}
+          </>
+        )}
+
         {/* Relationship Insights Section */}
         <div className="mt-8 p-6 rounded-xl bg-gray-a2 border border-gray-a4 space-y-6">
           <div className="flex items-start gap-3">
@@ -0,0 +1,366 @@
+import { relationshipModels, relationshipDateKinds, type ComprehensiveCompatibility, type CalculationType } from '@/lib/numerology';
+import { animalRelationLabels } from '@shared/chineseRelations';
+import { westernAspectLabels } from '@shared/westernAspects';
+import { ShowTheMath } from '@/components/ShowTheMath';
+import { JointTimingCalendar } from '@/components/JointTimingCalendar';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Users, Heart, Sparkles, Star, Zap, Brain, MessageCircle, TrendingUp, Sun, Target,
+  CheckCircle, AlertTriangle, Lightbulb, HeartHandshake, CalendarHeart
+} from 'lucide-react';
+
+export interface CompatibilityInsights {
+  overviewNarrative: string;
+  emotionalConnection: string;
+  communicationDynamic: string;
+  growthPotential: string;
+  dailyLifeTogether: string;
+  advice: string;
+}
+
+interface CompatibilityResultProps {
+  result: ComprehensiveCompatibility;
+  insights: CompatibilityInsights | null;
+  person1: { name: string; fullName?: string; birthDate: string };
+  person2: { name: string; birthDate: string };
+  calculationProfile?: string;
+}
+
+export function getLevelColor(level: string) {
+  switch (level) {
+    case 'Ideal': case 'Excellent': return 'bg-green-9 text-white';
+    case 'Harmonious': case 'Good': return 'bg-green-7 text-white';
+    case 'Neutral': case 'Moderate': return 'bg-amber-7 text-white';
+    case 'Challenging': case 'Low': return 'bg-red-7 text-white';
+    case 'Avoid': return 'bg-red-9 text-white';
+    default: return 'bg-gray-7 text-white';
+  }
+}
+
+function getScoreColor(score: number) {
+  if (score >= 80) return 'bg-green-9';
+  if (score >= 60) return 'bg-green-7';
+  if (score >= 45) return 'bg-amber-7';
+  return 'bg-red-7';
+}
+
+function getDimensionIcon(dimension: string) {
+  switch (dimension) {
+    case 'lifePath': return Star;
+    case 'expression': return MessageCircle;
+    case 'soulUrge': return Heart;
+    case 'personality': return Brain;
+    case 'attitude': return Zap;
+    case 'dayOfBirth': return Sun;
+    default: return Star;
+  }
+}
+
+function getDimensionLabel(dimension: string) {
+  switch (dimension) {
+    case 'lifePath': return 'Life Path';
+    case 'expression': return 'Expression';
+    case 'soulUrge': return 'Soul Urge';
+    case 'personality': return 'Personality';
+    case 'attitude': return 'Attitude';
+    case 'dayOfBirth': return 'Day of Birth';
+    default: return dimension;
+  }
+}
+
+// Score header plus Overview / Dimensions / Zodiac tabs for one pairing. Shared by
+// the live checker and saved readings, so reopening a reading needs no new request.
+export function CompatibilityResult({ result, insights, person1, person2, calculationProfile }: CompatibilityResultProps) {
+  return (
+    <div className="space-y-6 animate-fade-in" data-testid="compatibility-result">
+      
+      {/* Overall Score Header */}
+      <div className="text-center p-6 rounded-xl bg-gradient-to-br from-gray-a3 to-gray-a2 border border-gray-a4">
+        <div className="flex items-center justify-center gap-6 mb-4">
+          <div className="text-center">
+            <p className="text-2 font-medium text-gray-12 mb-1">{person1.name}</p>
+            <Badge variant="outline" size="sm">LP {result.person1Profile.lifePathNumber}</Badge>
+          </div>
+          
+          <div className="relative">
+            <div className={`w-24 h-24 rounded-full flex items-center justify-center text-6 font-bold ${getScoreColor(result.overallScore)} text-white shadow-lg`}>
+              {result.overallScore}%
+            </div>
+            <Sparkles className="absolute -top-1 -right-1 w-6 h-6 text-amber-9" />
+          </div>
+          
+          <div className="text-center">
+            <p className="text-2 font-medium text-gray-12 mb-1">{person2.name.split(' ')[0]}</p>
+            <Badge variant="outline" size="sm">LP {result.person2Profile.lifePathNumber}</Badge>
+          </div>
+        </div>
+        
+        <Badge className={`text-3 px-4 py-2 ${getLevelColor(result.level)}`} size="lg">
+          {result.level} Match
+        </Badge>
+        {result.relationshipModel && result.relationshipModel !== 'general' && (
+          <p className="text-1 text-gray-10 mt-2" data-testid="text-relationship-model">
+            Scored as a {relationshipModels[result.relationshipModel].name.toLowerCase()} relationship
+          </p>
+        )}
+        
+        {insights && (
+          <p className="text-2 text-gray-11 mt-4 max-w-xl mx-auto leading-relaxed">
+            {insights.overviewNarrative}
+          </p>
+        )}
+      </div>
+
+      {/* Tabbed Content */}
+      <Tabs defaultValue="overview" className="w-full">
+        <TabsList className="grid w-full grid-cols-4 mb-4">
+          <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
+          <TabsTrigger value="dimensions" data-testid="tab-dimensions">Dimensions</TabsTrigger>
+          <TabsTrigger value="zodiac" data-testid="tab-zodiac">Zodiac</TabsTrigger>
+          <TabsTrigger value="timing" data-testid="tab-timing">Timing</TabsTrigger>
+        </TabsList>
+
+        {/* Overview Tab */}
+        <TabsContent value="overview" className="space-y-4">
+          {/* AI Insights */}
+          {insights && (
+            <div className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="p-4 rounded-lg bg-pink-a2 border border-pink-a4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Heart className="w-4 h-4 text-pink-9" />
+                    <p className="text-2 font-medium text-gray-12">Emotional Connection</p>
+                  </div>
+                  <p className="text-2 text-gray-11">{insights.emotionalConnection}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-blue-a2 border border-blue-a4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <MessageCircle className="w-4 h-4 text-blue-9" />
+                    <p className="text-2 font-medium text-gray-12">Communication</p>
+                  </div>
+                  <p className="text-2 text-gray-11">{insights.communicationDynamic}</p>
+                </div>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="p-4 rounded-lg bg-violet-a2 border border-violet-a4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <TrendingUp className="w-4 h-4 text-violet-9" />
+                    <p className="text-2 font-medium text-gray-12">Growth Potential</p>
+                  </div>
+                  <p className="text-2 text-gray-11">{insights.growthPotential}</p>
+                </div>
+                <div className="p-4 rounded-lg bg-green-a2 border border-green-a4">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Users className="w-4 h-4 text-green-9" />
+                    <p className="text-2 font-medium text-gray-12">Daily Life Together</p>
+                  </div>
+                  <p className="text-2 text-gray-11">{insights.dailyLifeTogether}</p>
+                </div>
+              </div>
+              <div className="p-4 rounded-lg bg-amber-a2 border border-amber-a4">
+                <div className="flex items-center gap-2 mb-2">
+                  <Lightbulb className="w-4 h-4 text-amber-9" />
+                  <p className="text-2 font-medium text-gray-12">Key Advice</p>
+                </div>
+                <p className="text-2 text-gray-11">{insights.advice}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Relationship Number (only when a shared date was given) */}
+          {result.composite && (
+            <div className="p-4 rounded-lg bg-gradient-to-r from-pink-a2 to-violet-a2 border border-gray-a4" data-testid="card-relationship-number">
+              <div className="flex items-center justify-between gap-2 mb-3 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <CalendarHeart className="w-5 h-5 text-pink-9" />
+                  <h4 className="text-3 font-medium text-gray-12">Relationship Number</h4>
+                </div>
+                <span className="text-1 text-gray-10">
+                  {relationshipDateKinds[result.composite.kind]} · {result.composite.date}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <Badge variant="outline" size="sm">LP {result.composite.lifePathNumber} · {result.composite.title}</Badge>
+                <Badge variant="outline" size="sm">{result.composite.chineseZodiac.element} {result.composite.chineseZodiac.animal}</Badge>
+                <Badge variant="outline" size="sm">{result.composite.energySignature}</Badge>
+              </div>
+              <p className="text-2 text-gray-11 mb-3">{result.composite.insight}</p>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {[result.composite.person1, result.composite.person2].map((fit, i) => (
+                  <div key={i} className="p-3 rounded-md bg-gray-a2 border border-gray-a4">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <p className="text-2 font-medium text-gray-12 truncate">{fit.name.split(' ')[0]}</p>
+                      <Badge className={`${getScoreColor(fit.score)} text-white`} size="sm">{fit.score}%</Badge>
+                    </div>
+                    <p className="text-1 text-gray-11">{fit.lifePath.insight}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Strengths & Challenges */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+              <div className="flex items-center gap-2 mb-3">
+                <CheckCircle className="w-5 h-5 text-green-9" />
+                <h4 className="text-3 font-medium text-gray-12">Strengths</h4>
+              </div>
+              <ul className="space-y-2">
+                {result.strengths.map((strength, i) => (
+                  <li key={i} className="text-2 text-gray-11 flex items-start gap-2">
+                    <span className="text-green-9 mt-0.5">+</span>
+                    {strength}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+              <div className="flex items-center gap-2 mb-3">
+                <AlertTriangle className="w-5 h-5 text-amber-9" />
+                <h4 className="text-3 font-medium text-gray-12">Challenges</h4>
+              </div>
+              <ul className="space-y-2">
+                {result.challenges.length > 0 ? result.challenges.map((challenge, i) => (
+                  <li key={i} className="text-2 text-gray-11 flex items-start gap-2">
+                    <span className="text-amber-9 mt-0.5">!</span>
+                    {challenge}
+                  </li>
+                )) : (
+                  <li className="text-2 text-gray-10">No major challenges identified</li>
+                )}
+              </ul>
+            </div>
+          </div>
+        </TabsContent>
+
+        {/* Dimensions Tab */}
+        <TabsContent value="dimensions" className="space-y-3">
+          {Object.entries(result.dimensions).map(([key, dim]) => {
+            const Icon = getDimensionIcon(key);
+            return (
+              <div key={key} className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <div className="flex items-center gap-3">
+                    <Icon className="w-5 h-5 text-gray-10" />
+                    <span className="text-2 font-medium text-gray-12">{getDimensionLabel(key)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" size="sm">{dim.person1Value}</Badge>
+                    <span className="text-1 text-gray-9">vs</span>
+                    <Badge variant="outline" size="sm">{dim.person2Value}</Badge>
+                    <Badge className={getLevelColor(dim.level)} size="sm">{dim.score}%</Badge>
+                  </div>
+                </div>
+                <Progress value={dim.score} className="h-1.5 mb-2" />
+                <p className="text-1 text-gray-10">{dim.insight}</p>
+                <div className="grid md:grid-cols-2 gap-3 mt-3">
+                  <ShowTheMath
+                    type={key as CalculationType}
+                    fullName={person1.fullName || person1.name}
+                    birthDate={person1.birthDate}
+                    calculationProfile={calculationProfile}
+                    title={`Show the math for ${person1.name}`}
+                  />
+                  <ShowTheMath
+                    type={key as CalculationType}
+                    fullName={person2.name}
+                    birthDate={person2.birthDate}
+                    calculationProfile={calculationProfile}
+                    title={`Show the math for ${person2.name.split(' ')[0]}`}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </TabsContent>
+
+        {/* Zodiac Tab */}
+        <TabsContent value="zodiac" className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            {/* Chinese Zodiac */}
+            <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Target className="w-5 h-5 text-red-9" />
+                  <h4 className="text-3 font-medium text-gray-12">Chinese Zodiac</h4>
+                </div>
+                <Badge className={getLevelColor(result.zodiac.chineseLevel)} size="sm">
+                  {result.zodiac.chineseScore}%
+                </Badge>
+              </div>
+              <div className="flex items-center justify-center gap-4 mb-3 py-2">
+                <div className="text-center">
+                  <p className="text-3 font-medium text-gray-12">{result.person1Profile.chineseZodiac.animal}</p>
+                  <p className="text-1 text-gray-10">{result.person1Profile.chineseZodiac.element}</p>
+                </div>
+                <HeartHandshake className="w-5 h-5 text-gray-9" />
+                <div className="text-center">
+                  <p className="text-3 font-medium text-gray-12">{result.person2Profile.chineseZodiac.animal}</p>
+                  <p className="text-1 text-gray-10">{result.person2Profile.chineseZodiac.element}</p>
+                </div>
+              </div>
+              {/* Readings saved before relations were tracked have no list */}
+              {(result.zodiac.chineseRelations ?? []).length > 0 && (
+                <div className="flex flex-wrap justify-center gap-1 mb-2" data-testid="list-chinese-relations">
+                  {result.zodiac.chineseRelations.map(relation => (
+                    <Badge key={relation} variant="outline" size="sm">{animalRelationLabels[relation]}</Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-1 text-gray-11">{result.zodiac.chineseInsight}</p>
+            </div>
+
+            {/* Western Zodiac */}
+            <div className="p-4 rounded-lg bg-gray-a2 border border-gray-a4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Star className="w-5 h-5 text-amber-9" />
+                  <h4 className="text-3 font-medium text-gray-12">Western Zodiac</h4>
+                </div>
+                <Badge className={getLevelColor(result.zodiac.westernLevel)} size="sm">
+                  {result.zodiac.westernScore}%
+                </Badge>
+              </div>
+              <div className="flex items-center justify-center gap-4 mb-3 py-2">
+                <div className="text-center">
+                  <p className="text-3 font-medium text-gray-12">{result.person1Profile.westernZodiac.sign}</p>
+                  <p className="text-1 text-gray-10">{result.person1Profile.westernZodiac.element}</p>
+                </div>
+                <HeartHandshake className="w-5 h-5 text-gray-9" />
+                <div className="text-center">
+                  <p className="text-3 font-medium text-gray-12">{result.person2Profile.westernZodiac.sign}</p>
+                  <p className="text-1 text-gray-10">{result.person2Profile.westernZodiac.element}</p>
+                </div>
+              </div>
+              {result.zodiac.westernAspect && (
+                <div className="flex justify-center mb-2">
+                  <Badge variant="outline" size="sm" data-testid="badge-western-aspect">{westernAspectLabels[result.zodiac.westernAspect]}</Badge>
+                </div>
+              )}
+              <p className="text-1 text-gray-11">{result.zodiac.westernInsight}</p>
+            </div>
+          </div>
+
+          {/* Element Harmony */}
+          <div className="p-4 rounded-lg bg-gradient-to-r from-violet-a2 to-amber-a2 border border-gray-a4 text-center">
+            <p className="text-2 font-medium text-gray-12 mb-1">Element Harmony</p>
+            <p className="text-2 text-gray-11">{result.zodiac.elementHarmony}</p>
+          </div>
+        </TabsContent>
+
+        {/* Timing Tab - fetched only once opened */}
+        <TabsContent value="timing">
+          <JointTimingCalendar
+            person1={{ name: person1.fullName || person1.name, birthDate: person1.birthDate }}
+            person2={person2}
+            calculationProfile={calculationProfile}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import {
+  cueTypes,
+  cueVerifications,
+  cueVerificationLabels,
+  cueDatePrecisionLabels,
+  type CueInput,
+  type CueType,
+  type CueProvenance,
+  type CueVerification,
+  type CueDatePrecision,
+} from '@shared/cueCatalog';
+import { apiRequest } from '@/lib/queryClient';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, AlertTriangle } from 'lucide-react';
+
+export type CatalogCue = Omit<CueInput, 'provenance'> & { id: number; provenance: CueProvenance };
+
+interface CueEditorFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companyId: string;
+  cue?: CatalogCue | null;           // Editing when set, adding otherwise
+  onSaved: (cue: CatalogCue, warnings: string[]) => void;
+}
+
+// apiRequest errors read "<status>: <body>"; show the server's error text
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export function CueEditorForm({ open, onOpenChange, companyId, cue, onSaved }: CueEditorFormProps) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CueType>('Brand');
+  const [foundedOrBirth, setFoundedOrBirth] = useState('');
+  const [category, setCategory] = useState('');
+  const [country, setCountry] = useState('');
+  const [description, setDescription] = useState('');
+  const [source, setSource] = useState('');
+  const [status, setStatus] = useState<CueVerification>('estimated');
+  const [datePrecision, setDatePrecision] = useState<CueDatePrecision>('day');
+
+  useEffect(() => {
+    if (!open) return;
+    setName(cue?.name ?? '');
+    setType(cue?.type ?? 'Brand');
+    setFoundedOrBirth(cue?.foundedOrBirth ?? '');
+    setCategory(cue?.category ?? '');
+    setCountry(cue?.country ?? '');
+    setDescription(cue?.description ?? '');
+    setSource(cue?.provenance.source ?? '');
+    setStatus(cue?.provenance.status ?? 'estimated');
+    setDatePrecision(cue?.provenance.datePrecision ?? 'day');
+  }, [open, cue]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name, type, foundedOrBirth, category, country, description, source, status, datePrecision };
+      const response = cue
+        ? await apiRequest('PUT', `/api/companies/${companyId}/cues/${cue.id}`, data)
+        : await apiRequest('POST', `/api/companies/${companyId}/cues`, data);
+      return await response.json() as { cue: CatalogCue; warnings: string[] };
+    },
+    onSuccess: (result) => {
+      onSaved(result.cue, result.warnings);
+      onOpenChange(false);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { saveMutation.reset(); onOpenChange(next); }}>
+      <DialogContent className="max-w-md" data-testid="dialog-cue-editor">
+        <DialogHeader>
+          <DialogTitle>{cue ? `Edit ${cue.name}` : 'Add a cue'}</DialogTitle>
+          <DialogDescription>
+            Life path, energy signature and zodiac signs are recalculated from the date on save.
+            Saving marks the cue as reviewed now.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="cue-name" className="text-2">Name</Label>
+            <Input
+              id="cue-name"
+              variant="frosted"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-cue-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-2">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as CueType)}>
+                <SelectTrigger data-testid="select-cue-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cueTypes.map(t => (
+                    <SelectItem key={t} value={t}>{t}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cue-date" className="text-2">Founded / born</Label>
+              <Input
+                id="cue-date"
+                variant="frosted"
+                placeholder="YYYY-MM-DD or YYYY"
+                value={foundedOrBirth}
+                onChange={(e) => setFoundedOrBirth(e.target.value)}
+                data-testid="input-cue-date"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="cue-category" className="text-2">Category <span className="text-gray-10">(optional)</span></Label>
+              <Input
+                id="cue-category"
+                variant="frosted"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                data-testid="input-cue-category"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cue-country" className="text-2">Country <span className="text-gray-10">(optional)</span></Label>
+              <Input
+                id="cue-country"
+                variant="frosted"
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                data-testid="input-cue-country"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-2">Verification</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as CueVerification)}>
+                <SelectTrigger data-testid="select-cue-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {cueVerifications.map(v => (
+                    <SelectItem key={v} value={v}>{cueVerificationLabels[v]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-2">Date precision</Label>
+              <Select value={datePrecision} onValueChange={(value) => setDatePrecision(value as CueDatePrecision)}>
+                <SelectTrigger data-testid="select-cue-precision">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(cueDatePrecisionLabels) as CueDatePrecision[]).map(p => (
+                    <SelectItem key={p} value={p}>{cueDatePrecisionLabels[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cue-source" className="text-2">Source <span className="text-gray-10">(optional)</span></Label>
+            <Input
+              id="cue-source"
+              variant="frosted"
+              placeholder="Where the date comes from"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              data-testid="input-cue-source"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cue-description" className="text-2">Description <span className="text-gray-10">(optional)</span></Label>
+            <Textarea
+              id="cue-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              data-testid="input-cue-description"
+            />
+          </div>
+
+          {saveMutation.isError && (
+            <div className="text-2 text-red-11 flex items-center gap-2" data-testid="error-cue-editor">
+              <AlertTriangle className="w-4 h-4" />
+              {getApiErrorMessage(saveMutation.error)}
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            variant="gold"
+            className="w-full"
+            disabled={!name.trim() || !foundedOrBirth.trim() || saveMutation.isPending}
+            data-testid="button-save-cue"
+          >
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : cue ? 'Save changes' : 'Add cue'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Button } from '@/components/ui/button';
+
+export type CueFacet = 'type' | 'lifePath' | 'animal' | 'element' | 'sign' | 'country' | 'category' | 'decade';
+
+export type CueFacetCounts = Record<CueFacet, Array<{ value: string; count: number }>>;
+export type CueFacetSelection = Partial<Record<CueFacet, string[]>>;
+
+const facetLabels: Record<CueFacet, string> = {
+  type: 'Type',
+  lifePath: 'Life Path',
+  animal: 'Chinese Animal',
+  element: 'Element',
+  sign: 'Western Sign',
+  country: 'Country',
+  category: 'Category',
+  decade: 'Decade',
+};
+
+const facetOrder = Object.keys(facetLabels) as CueFacet[];
+
+// Longer lists show their top values until expanded
+const COLLAPSED_VALUES = 6;
+
+function formatFacetValue(facet: CueFacet, value: string): string {
+  if (facet === 'decade') {
+    const year = Number(value);
+    return year < 0 ? `${-year}s BC` : `${value}s`;
+  }
+  if (facet === 'lifePath') return `Life Path ${value}`;
+  return value;
+}
+
+interface CueFacetSidebarProps {
+  facets?: CueFacetCounts;
+  selection: CueFacetSelection;
+  onToggle: (facet: CueFacet, value: string) => void;
+  disabled?: boolean;
+}
+
+export function CueFacetSidebar({ facets, selection, onToggle, disabled }: CueFacetSidebarProps) {
+  const [expanded, setExpanded] = useState<Partial<Record<CueFacet, boolean>>>({});
+
+  return (
+    <Card variant="frosted" data-testid="sidebar-cue-facets">
+      <CardContent className="p-4 space-y-5">
+        {/* Each facet is counted without its own selection (see facetBasis) */}
+        <p className="text-1 text-gray-10" data-testid="text-facet-basis">
+          Counts show matches for each value given your other filters.
+        </p>
+        {facetOrder.map(facet => {
+          const selected = selection[facet] ?? [];
+          // Keep selected values listed even when nothing else matches them
+          const values = [
+            ...(facets?.[facet] ?? []),
+            ...selected
+              .filter(value => !facets?.[facet].some(f => f.value === value))
+              .map(value => ({ value, count: 0 })),
+          ];
+          if (values.length === 0) return null;
+
+          const isExpanded = expanded[facet] ?? false;
+          const shown = isExpanded ? values : values.slice(0, COLLAPSED_VALUES);
+
+          return (
+            <div key={facet} className="space-y-2" data-testid={`facet-${facet}`}>
+              <h4 className="text-2 font-semibold text-gray-12">{facetLabels[facet]}</h4>
+              <div className="space-y-1.5">
+                {shown.map(({ value, count }) => {
+                  const id = `facet-${facet}-${value}`;
+                  return (
+                    <label key={value} htmlFor={id} className="flex items-center gap-2 text-2 text-gray-11 cursor-pointer">
+                      <Checkbox
+                        id={id}
+                        checked={selected.includes(value)}
+                        onCheckedChange={() => onToggle(facet, value)}
+                        disabled={disabled}
+                        data-testid={`checkbox-${id}`}
+                      />
+                      <span className="flex-1 truncate">{formatFacetValue(facet, value)}</span>
+                      <span className="text-1 text-gray-10">{count.toLocaleString()}</span>
+                    </label>
+                  );
+                })}
+              </div>
+              {values.length > COLLAPSED_VALUES && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto px-0 text-1 text-amber-11"
+                  onClick={() => setExpanded(prev => ({ ...prev, [facet]: !isExpanded }))}
+                  data-testid={`button-expand-facet-${facet}`}
+                >
+                  {isExpanded ? 'Show less' : `Show all ${values.length}`}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,11 @@ import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { 
   calculateComprehensiveProfile,
-  calculateDailyEnergyScore 
+  calculateDailyEnergyScore,
+  calculatePersonalDay,
+  calculateUniversalDay,
+  calendarToday,
+  getCalculationProfile
 } from '@/lib/numerology';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -25,56 +29,20 @@ interface DailyEnergyResponse {
   affirmation: string;
 }
 
-function calculatePersonalDay(birthDate: Date): number {
-  const today = new Date();
-  const birthMonth = birthDate.getMonth() + 1;
-  const birthDay = birthDate.getDate();
-  const currentMonth = today.getMonth() + 1;
-  const currentDay = today.getDate();
-  const currentYear = today.getFullYear();
-  
-  let personalYear = birthMonth + birthDay + currentYear;
-  while (personalYear > 9 && personalYear !== 11 && personalYear !== 22 && personalYear !== 33) {
-    personalYear = personalYear.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  let personalMonth = personalYear + currentMonth;
-  while (personalMonth > 9 && personalMonth !== 11 && personalMonth !== 22 && personalMonth !== 33) {
-    personalMonth = personalMonth.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  let personalDay = personalMonth + currentDay;
-  while (personalDay > 9 && personalDay !== 11 && personalDay !== 22 && personalDay !== 33) {
-    personalDay = personalDay.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  return personalDay;
-}
-
-function calculateUniversalDay(): number {
-  const today = new Date();
-  const month = today.getMonth() + 1;
-  const day = today.getDate();
-  const year = today.getFullYear();
-  
-  let sum = month + day + year;
-  while (sum > 9 && sum !== 11 && sum !== 22 && sum !== 33) {
-    sum = sum.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  return sum;
-}
-
 export function DailyEnergy({ profile }: DailyEnergyProps) {
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
   
-  const energyScore = calculateDailyEnergyScore(profile.birthDate);
-  const personalDayNumber = calculatePersonalDay(profile.birthDate);
-  const universalDayNumber = calculateUniversalDay();
+  const today = calendarToday();
+  const energyScore = calculateDailyEnergyScore(profile.birthDate, today, calculationProfile);
+  const personalDayNumber = calculatePersonalDay(profile.birthDate, today, calculationProfile);
+  const universalDayNumber = calculateUniversalDay(today, calculationProfile);
   const todayDate = new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
   const todayKey = new Date().toISOString().split('T')[0];
 
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { calendarToday, formatCalendarDate } from '@/lib/numerology';
+import { apiRequest } from '@/lib/queryClient';
+import { timingActivities, type ActivityType, type JointCalendar, type JointDay, type JointDayStatus } from '@shared/timing';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, AlertTriangle } from 'lucide-react';
+
+interface JointTimingCalendarProps {
+  person1: { name: string; birthDate: string };
+  person2: { name: string; birthDate: string };
+  calculationProfile?: string;
+}
+
+const windowOptions = [30, 60, 90];
+
+const statusLabels: Record<JointDayStatus, string> = {
+  bothStrong: 'Strong for both',
+  oneStrong: 'Strong for one',
+  clash: 'Clash',
+  neutral: 'Neutral',
+};
+
+const statusColors: Record<JointDayStatus, string> = {
+  bothStrong: 'bg-green-a3 border-green-a6 text-green-11',
+  oneStrong: 'bg-amber-a3 border-amber-a6 text-amber-11',
+  clash: 'bg-red-a3 border-red-a6 text-red-11',
+  neutral: 'bg-gray-a2 border-gray-a4 text-gray-11',
+};
+
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+// Both people's days overlaid for the coming weeks; the server scores each day
+// with the same personal-day rules as Best Days and the event planner
+export function JointTimingCalendar({ person1, person2, calculationProfile }: JointTimingCalendarProps) {
+  const [activity, setActivity] = useState<ActivityType>('general');
+  const [days, setDays] = useState(30);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const todayKey = formatCalendarDate(calendarToday());
+
+  const { data, isLoading, isError } = useQuery<JointCalendar>({
+    queryKey: ['/api/compatibility/timing', person1.name, person1.birthDate, person2.name, person2.birthDate, calculationProfile, activity, days],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/compatibility/timing', {
+        person1, person2, activity, days, start: todayKey, calculationProfile,
+      });
+      const { calendar } = await response.json();
+      return calendar;
+    },
+  });
+
+  const selectedDay: JointDay | undefined = data?.days.find(day => day.date === selectedDate);
+  const bestTogether = data?.days
+    .filter(day => day.status === 'bothStrong')
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5) ?? [];
+
+  return (
+    <div className="space-y-4" data-testid="joint-timing-calendar">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={activity} onValueChange={(value) => setActivity(value as ActivityType)}>
+          <SelectTrigger className="sm:w-[220px]" data-testid="select-joint-activity">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(timingActivities).map(a => (
+              <SelectItem key={a.id} value={a.id}>{a.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="sm:w-[160px]" data-testid="select-joint-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {windowOptions.map(option => (
+              <SelectItem key={option} value={String(option)}>Next {option} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-amber-9" />
+        </div>
+      ) : isError || !data ? (
+        <div className="p-4 rounded-lg bg-red-a3 border border-red-a6 text-2 text-red-11 flex items-center gap-2" data-testid="error-joint-timing">
+          <AlertTriangle className="w-4 h-4" />
+          Couldn't load your shared calendar. Please try again.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(statusLabels) as JointDayStatus[]).map(status => (
+              <Badge key={status} variant="outline" size="sm" className={statusColors[status]} data-testid={`badge-joint-count-${status}`}>
+                {statusLabels[status]} · {data.counts[status]}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((d, i) => (
+              <div key={i} className="text-1 text-gray-11 font-medium py-1">{d}</div>
+            ))}
+            {Array(new Date(`${data.startDate}T00:00:00Z`).getUTCDay()).fill(null).map((_, j) => (
+              <div key={`empty-${j}`} className="p-2" />
+            ))}
+            {data.days.map(day => {
+              const dayOfMonth = parseInt(day.date.substring(8));
+              return (
+                <button
+                  key={day.date}
+                  type="button"
+                  onClick={() => setSelectedDate(day.date === selectedDate ? null : day.date)}
+                  className={`p-2 rounded border text-2 ${statusColors[day.status]} ${day.date === selectedDate ? 'ring-2 ring-amber-9' : ''} ${day.date === todayKey ? 'font-bold' : ''}`}
+                  title={statusLabels[day.status]}
+                  data-testid={`joint-day-${day.date}`}
+                >
+                  {dayOfMonth === 1 ? formatDay(day.date, { month: 'short' }) : dayOfMonth}
+                </button>
+              );
+            })}
+          </div>
+
+          {selectedDay ? (
+            <div className={`p-4 rounded-lg border ${statusColors[selectedDay.status]}`} data-testid="card-joint-day">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-3 font-medium">{formatDay(selectedDay.date, { weekday: 'long', month: 'long', day: 'numeric' })}</span>
+                <Badge variant="secondary" size="sm">{statusLabels[selectedDay.status]}</Badge>
+              </div>
+              <p className="text-1 mb-3 opacity-80">Universal Day {selectedDay.universalDay} · {selectedDay.dayAnimal} day</p>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {selectedDay.people.map((person, i) => (
+                  <div key={i} className="p-3 rounded-md bg-gray-a2 border border-gray-a4 text-gray-12">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-2 font-medium truncate">{person.name.split(' ')[0]}</span>
+                      <Badge variant="outline" size="sm">{person.score}</Badge>
+                    </div>
+                    <p className="text-1 text-gray-11 mb-1">Personal Day {person.personalDay} · {person.theme}</p>
+                    <ul className="text-1 text-gray-11 space-y-0.5">
+                      {person.reasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <h4 className="text-2 font-medium text-gray-12 mb-2">Best days together for {timingActivities[data.activity].label.toLowerCase()}</h4>
+              {bestTogether.length === 0 ? (
+                <p className="text-2 text-gray-11">No days in this window are strong for both of you. Try a longer window or another activity.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {bestTogether.map(day => (
+                    <button
+                      key={day.date}
+                      type="button"
+                      onClick={() => setSelectedDate(day.date)}
+                      className={`px-3 py-2 rounded-lg border text-2 ${statusColors.bothStrong}`}
+                      data-testid={`button-best-together-${day.date}`}
+                    >
+                      {formatDay(day.date, { weekday: 'short', month: 'short', day: 'numeric' })} · {day.score}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-1 text-gray-10 mt-3">Tap a day to see how it sits with each of you.</p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { PinnaclesAndChallenges, LifeCyclePeriod } from '@/lib/numerology';
+import { pinnacleContent, challengeContent, lifeCyclePhaseLabels } from '@/lib/pinnacleContent';
+import { getNumberContent } from '@/lib/numerologyContent';
+import { ProfileData } from '@/components/ProfileSetup';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Mountain, Flag, Shield } from 'lucide-react';
+
+interface LifeCycleTimelineProps {
+  profile: ProfileData;
+}
+
+// The open-ended final cycle is drawn as a nine-year span
+const FINAL_CYCLE_SPAN = 9;
+
+function formatAges(period: LifeCyclePeriod): string {
+  return period.endAge === null ? `Age ${period.startAge}+` : `Ages ${period.startAge}–${period.endAge}`;
+}
+
+export function LifeCycleTimeline({ profile }: LifeCycleTimelineProps) {
+  const { data, isLoading } = useQuery<{ cycles: PinnaclesAndChallenges }>({
+    queryKey: [`/api/profile/${profile.odisId}`, 'pinnacles'],
+    enabled: !!profile.odisId,
+  });
+  const [selectedPhase, setSelectedPhase] = useState<number | null>(null);
+
+  const cycles = data?.cycles;
+  const activePhase = selectedPhase ?? cycles?.currentPhase ?? 1;
+  const pinnacle = cycles?.pinnacles[activePhase - 1];
+  const challenge = cycles?.challenges[activePhase - 1];
+  // Master numbers without their own write-up (e.g. 44) read as their root digit
+  const pinnacleInfo = pinnacle
+    ? pinnacleContent[pinnacle.number] ?? pinnacleContent[getNumberContent(pinnacle.number)]
+    : undefined;
+  const challengeInfo = challenge ? challengeContent[challenge.number] : undefined;
+
+  return (
+    <Card variant="frosted" className="overflow-hidden relative" data-testid="card-life-cycles">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-a2 via-transparent to-transparent pointer-events-none" />
+
+      <CardContent className="relative p-6 sm:p-8">
+        <div className="flex items-center justify-between gap-4 mb-5">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 rounded-xl bg-gold-gradient flex items-center justify-center flex-shrink-0">
+              <Mountain className="w-6 h-6 text-gray-1" />
+            </div>
+            <div>
+              <h2 className="text-5 font-semibold">Life Cycles</h2>
+              <p className="text-2 text-gray-10">Your Pinnacles and Challenges</p>
+            </div>
+          </div>
+          {cycles && <Badge variant="outline">Age {cycles.currentAge}</Badge>}
+        </div>
+
+        {isLoading || !cycles ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-5 w-3/4" />
+            <Skeleton className="h-5 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-1.5 mb-6" data-testid="timeline-life-cycles">
+              {cycles.pinnacles.map((period) => {
+                const span = period.endAge === null ? FINAL_CYCLE_SPAN : period.endAge - period.startAge;
+                const isCurrent = period.phase === cycles.currentPhase;
+                const isSelected = period.phase === activePhase;
+                const progress = isCurrent
+                  ? Math.min(100, ((cycles.currentAge - period.startAge) / span) * 100)
+                  : null;
+
+                return (
+                  <button
+                    key={period.phase}
+                    onClick={() => setSelectedPhase(period.phase)}
+                    style={{ flexGrow: span, flexBasis: 0 }}
+                    className={`relative min-w-0 text-left p-2 sm:p-3 rounded-lg border transition-all hover-elevate active-elevate-2 ${
+                      isSelected ? 'bg-amber-a3 border-amber-a6' : 'bg-gray-a3 border-gray-a4'
+                    }`}
+                    data-testid={`button-cycle-${period.phase}`}
+                  >
+                    <p className="text-0 sm:text-1 text-gray-10 truncate">{formatAges(period)}</p>
+                    <p className={`text-5 font-bold ${isCurrent ? 'text-amber-11' : 'text-gray-12'}`}>{period.number}</p>
+                    {isCurrent && (
+                      <p className="text-0 text-amber-10 uppercase tracking-wider font-medium truncate">Now</p>
+                    )}
+                    {progress !== null && (
+                      <div
+                        className="absolute bottom-0 left-0 h-1 rounded-b-lg bg-amber-9"
+                        style={{ width: `${progress}%` }}
+                      />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="rounded-xl bg-gray-a2 border border-gray-a4 p-4 sm:p-5" data-testid="panel-pinnacle">
+                <div className="flex items-center gap-2 mb-2 flex-wrap">
+                  <Flag className="w-4 h-4 text-amber-9" />
+                  <p className="text-2 font-semibold text-gray-11 uppercase tracking-wider">
+                    {lifeCyclePhaseLabels[activePhase]} · Pinnacle {pinnacle?.number}
+                  </p>
+                </div>
+                <h3 className="text-4 font-semibold text-gray-12 mb-2">{pinnacleInfo?.title}</h3>
+                <p className="text-2 text-gray-11 mb-3">{pinnacleInfo?.description}</p>
+                <p className="text-2 text-gray-10">{pinnacleInfo?.opportunities}</p>
+              </div>
+
+              <div className="rounded-xl bg-gray-a2 border border-gray-a4 p-4 sm:p-5" data-testid="panel-challenge">
+                <div className="flex items-center gap-2 mb-2 flex-wrap">
+                  <Shield className="w-4 h-4 text-violet-9" />
+                  <p className="text-2 font-semibold text-gray-11 uppercase tracking-wider">
+                    Challenge {challenge?.number}
+                  </p>
+                </div>
+                <h3 className="text-4 font-semibold text-gray-12 mb-2">{challengeInfo?.title}</h3>
+                <p className="text-2 text-gray-11 mb-3">{challengeInfo?.description}</p>
+                <p className="text-2 text-gray-10">{challengeInfo?.growth}</p>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,12 @@
 import { useState, useEffect, useRef } from 'react';
 import { Sparkles, Star, Moon, Sun, Zap } from 'lucide-react';
-import { calculateComprehensiveProfile } from '@/lib/numerology';
+import {
+  calculateComprehensiveProfile,
+  calculatePersonalDay,
+  calculateUniversalDay,
+  calendarToday,
+  getCalculationProfile
+} from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
 
 interface LoadingScreenProps {
@@ -19,47 +25,6 @@ const loadingStages = [
   { message: 'Finalizing your profile...', icon: Sun, duration: 500 },
 ];
 
-// Calculate personal day number
-function calculatePersonalDay(birthDate: Date): number {
-  const today = new Date();
-  const birthMonth = birthDate.getMonth() + 1;
-  const birthDay = birthDate.getDate();
-  const currentMonth = today.getMonth() + 1;
-  const currentDay = today.getDate();
-  const currentYear = today.getFullYear();
-  
-  let personalYear = birthMonth + birthDay + currentYear;
-  while (personalYear > 9 && personalYear !== 11 && personalYear !== 22 && personalYear !== 33) {
-    personalYear = personalYear.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  let personalMonth = personalYear + currentMonth;
-  while (personalMonth > 9 && personalMonth !== 11 && personalMonth !== 22 && personalMonth !== 33) {
-    personalMonth = personalMonth.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  let personalDay = personalMonth + currentDay;
-  while (personalDay > 9 && personalDay !== 11 && personalDay !== 22 && personalDay !== 33) {
-    personalDay = personalDay.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  
-  return personalDay;
-}
-
-// Calculate universal day number
-function calculateUniversalDay(): number {
-  const today = new Date();
-  const month = today.getMonth() + 1;
-  const day = today.getDate();
-  const year = today.getFullYear();
-  
-  let sum = month + day + year;
-  while (sum > 9 && sum !== 11 && sum !== 22 && sum !== 33) {
-    sum = sum.toString().split('').reduce((a, b) => a + parseInt(b), 0);
-  }
-  return sum;
-}
-
 export function LoadingScreen({ onComplete, profile }: LoadingScreenProps) {
   const [currentStage, setCurrentStage] = useState(0);
   const [progress, setProgress] = useState(0);
@@ -96,15 +61,19 @@ export function LoadingScreen({ onComplete, profile }: LoadingScreenProps) {
         // If cache check fails, continue with generation
       }
 
+      const calculationProfile = getCalculationProfile(profile.calculationProfile);
+
       const fullProfile = calculateComprehensiveProfile(
         profile.fullName,
         profile.birthDate,
         profile.birthTime,
-        profile.birthLocation
+        profile.birthLocation,
+        calculationProfile
       );
 
-      const personalDayNumber = calculatePersonalDay(profile.birthDate);
-      const universalDayNumber = calculateUniversalDay();
+      const today = calendarToday();
+      const personalDayNumber = calculatePersonalDay(profile.birthDate, today, calculationProfile);
+      const universalDayNumber = calculateUniversalDay(today, calculationProfile);
       const todayDate = new Date().toLocaleDateString('en-US', { 
         weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' 
       });
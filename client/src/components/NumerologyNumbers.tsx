@@ -1,4 +1,4 @@
-import { calculateComprehensiveProfile } from '@/lib/numerology';
+import { calculateComprehensiveProfile, getCalculationProfile } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Sparkles, Heart, Brain, Target, Hash } from 'lucide-react';
@@ -8,11 +8,13 @@ interface NumerologyNumbersProps {
 }
 
 export function NumerologyNumbers({ profile }: NumerologyNumbersProps) {
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const numbers = [
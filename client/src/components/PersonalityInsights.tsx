@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import { calculateComprehensiveProfile } from '@/lib/numerology';
+import { calculateComprehensiveProfile, getCalculationProfile } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -22,11 +22,13 @@ interface PersonalityResponse {
 }
 
 export function PersonalityInsights({ profile }: PersonalityInsightsProps) {
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const aiProfileData = {
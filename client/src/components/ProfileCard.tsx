@@ -1,6 +1,7 @@
 import { 
   calculateComprehensiveProfile, 
   getNumberMeaning,
+  getCalculationProfile,
   type FullProfile 
 } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
@@ -22,11 +23,13 @@ const elementIcons: Record<string, typeof Flame> = {
 };
 
 export function ProfileCard({ profile }: ProfileCardProps) {
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const lifePathMeaning = getNumberMeaning(fullProfile.lifePathNumber);
@@ -1,6 +1,7 @@
 import { 
   calculateComprehensiveProfile, 
-  getNumberMeaning 
+  getNumberMeaning,
+  getCalculationProfile
 } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
 import { Card, CardContent } from '@/components/ui/card';
@@ -48,11 +49,14 @@ export function ProfileHeader({ profile }: ProfileHeaderProps) {
     },
   });
 
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
+
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const lifePathMeaning = getNumberMeaning(fullProfile.lifePathNumber);
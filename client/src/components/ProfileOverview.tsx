@@ -2,13 +2,16 @@ import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { 
   calculateComprehensiveProfile, 
-  getNumberMeaning 
+  getNumberMeaning,
+  getCalculationProfile
 } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
+import { CalculationProfilePicker } from '@/components/CalculationProfilePicker';
+import type { BaziChart, BaziPillar } from '@shared/bazi';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Heart, Sparkles, Brain, Target, Calendar, Star, Zap, Hash, Sun, TrendingUp, ChevronRight, Lock, Crown } from 'lucide-react';
+import { Heart, Sparkles, Brain, Target, Calendar, Star, Zap, Hash, Sun, TrendingUp, ChevronRight, Lock, Crown, Columns, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface WhopUserData {
@@ -21,6 +24,7 @@ interface ProfileOverviewProps {
   profile: ProfileData;
   whopUser?: WhopUserData | null;
   isPro?: boolean;
+  isAdmin?: boolean;
 }
 
 function getWesternZodiacImage(sign: string): string {
@@ -60,6 +64,49 @@ function NumberCard({ number, label, type, icon: Icon, iconColor, bgColor, onCli
   );
 }
 
+const elementColors: Record<string, { text: string; bar: string }> = {
+  'Wood': { text: 'text-green-11', bar: 'bg-green-9' },
+  'Fire': { text: 'text-red-11', bar: 'bg-red-9' },
+  'Earth': { text: 'text-amber-11', bar: 'bg-amber-9' },
+  'Metal': { text: 'text-gray-11', bar: 'bg-gray-9' },
+  'Water': { text: 'text-blue-11', bar: 'bg-blue-9' },
+};
+
+interface PillarCardProps {
+  label: string;
+  pillar: BaziPillar | null;
+  highlight?: boolean;
+}
+
+function PillarCard({ label, pillar, highlight = false }: PillarCardProps) {
+  return (
+    <div
+      className={`text-center p-2 sm:p-3 rounded-lg ${highlight ? 'bg-amber-a3 border border-amber-a5' : 'bg-gray-a3'}`}
+      data-testid={`pillar-${label.toLowerCase()}`}
+    >
+      <p className="text-0 sm:text-1 text-gray-10 uppercase tracking-wider mb-2">{label}</p>
+      {pillar ? (
+        <>
+          <p className={`text-5 sm:text-6 font-bold leading-none ${elementColors[pillar.element]?.text}`}>{pillar.stemChinese}</p>
+          <p className="text-1 text-gray-11 mt-1">{pillar.yinYang} {pillar.element}</p>
+          <p className={`text-5 sm:text-6 font-bold leading-none mt-3 ${elementColors[pillar.branchElement]?.text}`}>{pillar.branchChinese}</p>
+          <p className="text-1 text-gray-11 mt-1">{pillar.animal}</p>
+        </>
+      ) : (
+        <p className="text-1 text-gray-9 py-6">Add birth time</p>
+      )}
+    </div>
+  );
+}
+
+const karmicDebtSourceLabels: Record<string, string> = {
+  lifePath: 'Life Path',
+  expression: 'Expression',
+  soulUrge: 'Soul Urge',
+  personality: 'Personality',
+  dayOfBirth: 'Day of Birth',
+};
+
 interface MembershipInfo {
   hasMembership: boolean;
   membershipId: string | null;
@@ -69,13 +116,15 @@ interface MembershipInfo {
   cancelAtPeriodEnd: boolean;
 }
 
-export function ProfileOverview({ profile, whopUser, isPro = false }: ProfileOverviewProps) {
+export function ProfileOverview({ profile, whopUser, isPro = false, isAdmin = false }: ProfileOverviewProps) {
   const [, setLocation] = useLocation();
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const { data: membership } = useQuery<MembershipInfo>({
@@ -85,6 +134,13 @@ export function ProfileOverview({ profile, whopUser, isPro = false }: ProfileOve
     refetchOnMount: true,
   });
 
+  const { data: baziData } = useQuery<{ chart: BaziChart }>({
+    queryKey: [`/api/profile/${profile.odisId}`, 'bazi'],
+    enabled: !!profile.odisId,
+  });
+  const bazi = baziData?.chart;
+  const baziTotal = bazi ? Object.values(bazi.elementBalance).reduce((sum, count) => sum + count, 0) : 0;
+
   const lifePathMeaning = getNumberMeaning(fullProfile.lifePathNumber);
   const firstName = profile.fullName.split(' ')[0];
   const initials = profile.fullName.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
@@ -125,6 +181,9 @@ export function ProfileOverview({ profile, whopUser, isPro = false }: ProfileOve
                     {profile.birthDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
                   </p>
                 </div>
+                <div className="mt-2">
+                  <CalculationProfilePicker profile={profile} isAdmin={isAdmin} />
+                </div>
               </div>
             </div>
 
@@ -281,6 +340,119 @@ export function ProfileOverview({ profile, whopUser, isPro = false }: ProfileOve
               </div>
             </div>
           </div>
+
+          <div className="rounded-xl bg-gray-a2 border border-gray-a4 p-4 sm:p-5" data-testid="section-karmic-numbers">
+            <div className="flex items-center gap-2 mb-4 flex-wrap">
+              <Clock className="w-4 h-4 text-red-9" />
+              <p className="text-2 font-semibold text-gray-11 uppercase tracking-wider">Karmic Numbers</p>
+              {!isPro && (
+                <span className="ml-auto flex items-center gap-1 text-0 text-amber-9">
+                  <Lock className="w-3 h-3" />
+                  Pro
+                </span>
+              )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <button
+                onClick={() => setLocation(`/number/hiddenpassion/${fullProfile.hiddenPassionNumber}`)}
+                className="flex items-center gap-3 p-3 rounded-lg bg-gray-a3 hover-elevate active-elevate-2 text-left"
+                data-testid="button-hiddenpassion-number"
+              >
+                <div className="w-9 h-9 rounded-lg bg-pink-a3 flex items-center justify-center flex-shrink-0">
+                  <Hash className="w-4 h-4 text-pink-9" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-1 text-gray-10">Hidden Passion</p>
+                  <p className="text-4 font-bold text-gray-12">{fullProfile.hiddenPassionNumber}</p>
+                </div>
+              </button>
+
+              <div className="p-3 rounded-lg bg-gray-a3">
+                <p className="text-1 text-gray-10 mb-2">Karmic Debt</p>
+                {fullProfile.karmicDebts.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {fullProfile.karmicDebts.map((debt) => (
+                      <button
+                        key={debt.source}
+                        onClick={() => setLocation(`/number/karmicdebt/${debt.number}`)}
+                        data-testid={`button-karmicdebt-${debt.source}`}
+                      >
+                        <Badge variant="outline" size="sm" className="cursor-pointer">
+                          {debt.number} · {karmicDebtSourceLabels[debt.source]}
+                        </Badge>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-2 text-gray-11">None</p>
+                )}
+              </div>
+
+              <div className="p-3 rounded-lg bg-gray-a3">
+                <p className="text-1 text-gray-10 mb-2">Karmic Lessons</p>
+                {fullProfile.karmicLessons.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {fullProfile.karmicLessons.map((lesson) => (
+                      <button
+                        key={lesson}
+                        onClick={() => setLocation(`/number/karmiclesson/${lesson}`)}
+                        data-testid={`button-karmiclesson-${lesson}`}
+                      >
+                        <Badge variant="outline" size="sm" className="cursor-pointer">{lesson}</Badge>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-2 text-gray-11">None</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {bazi && (
+            <div className="rounded-xl bg-gray-a2 border border-gray-a4 p-4 sm:p-5" data-testid="section-bazi-chart">
+              <div className="flex items-center gap-2 mb-4 flex-wrap">
+                <Columns className="w-4 h-4 text-red-9" />
+                <p className="text-2 font-semibold text-gray-11 uppercase tracking-wider">Four Pillars</p>
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="grid grid-cols-4 gap-2 sm:gap-3">
+                  <PillarCard label="Hour" pillar={bazi.hour} />
+                  <PillarCard label="Day" pillar={bazi.day} highlight />
+                  <PillarCard label="Month" pillar={bazi.month} />
+                  <PillarCard label="Year" pillar={bazi.year} />
+                </div>
+                <div className="flex flex-col gap-4">
+                  <div>
+                    <p className="text-1 text-gray-9 uppercase tracking-wider font-medium">Day Master</p>
+                    <p className="text-3 font-semibold text-gray-12" data-testid="text-day-master">
+                      {bazi.dayMaster.stemChinese} {bazi.dayMaster.yinYang} {bazi.dayMaster.element} · {bazi.dayMaster.image}
+                    </p>
+                    <p className="text-2 text-gray-10 mt-1">{bazi.dayMaster.description}</p>
+                  </div>
+                  <div className="space-y-2">
+                    {Object.entries(bazi.elementBalance).map(([element, count]) => (
+                      <div key={element} className="flex items-center gap-3" data-testid={`element-balance-${element.toLowerCase()}`}>
+                        <span className={`w-12 text-1 font-medium ${elementColors[element]?.text}`}>{element}</span>
+                        <div className="flex-1 h-2 rounded-full bg-gray-a4 overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${elementColors[element]?.bar}`}
+                            style={{ width: `${baziTotal ? (count / baziTotal) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="w-4 text-1 text-gray-10 text-right">{count}</span>
+                      </div>
+                    ))}
+                  </div>
+                  {bazi.missingElements.length > 0 && (
+                    <p className="text-1 text-gray-10">
+                      Missing: {bazi.missingElements.join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -8,6 +8,7 @@ import { TimePicker } from '@/components/ui/time-picker';
 import { Calendar, Sparkles, ArrowRight, ArrowLeft, Clock, MapPin, User, Loader2 } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { useWhopContext } from '@/context/WhopContext';
 import { format } from 'date-fns';
 
 export interface ProfileData {
@@ -16,6 +17,7 @@ export interface ProfileData {
   birthDate: Date;
   birthTime: string;
   birthLocation: string;
+  calculationProfile: string;
 }
 
 interface ProfileSetupProps {
@@ -23,6 +25,7 @@ interface ProfileSetupProps {
 }
 
 export function ProfileSetup({ onComplete }: ProfileSetupProps) {
+  const { experienceId } = useWhopContext();
   const [fullName, setFullName] = useState('');
   const [birthDate, setBirthDate] = useState<Date | undefined>(undefined);
   const [birthTime, setBirthTime] = useState('');
@@ -68,7 +71,9 @@ export function ProfileSetup({ onComplete }: ProfileSetupProps) {
 
   const createProfileMutation = useMutation({
     mutationFn: async (data: { fullName: string; birthDate: string; birthTime: string; birthLocation: string }) => {
-      const response = await apiRequest('POST', '/api/profile', {
+      // The experience id lets the server apply the experience's default calculation profile
+      const url = experienceId ? `/api/profile?experienceId=${encodeURIComponent(experienceId)}` : '/api/profile';
+      const response = await apiRequest('POST', url, {
         fullName: data.fullName,
         birthDate: data.birthDate,
         birthTime: data.birthTime || '12:00',
@@ -84,6 +89,7 @@ export function ProfileSetup({ onComplete }: ProfileSetupProps) {
         birthDate: new Date(user.birthDate),
         birthTime: user.birthTime || '12:00',
         birthLocation: user.birthLocation || 'Unknown',
+        calculationProfile: user.calculationProfile || 'standard',
       });
     },
     onError: (error) => {
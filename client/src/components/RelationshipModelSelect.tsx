@@ -0,0 +1,27 @@
+import { relationshipModels, type RelationshipModelId } from '@/lib/numerology';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface RelationshipModelSelectProps {
+  value: RelationshipModelId;
+  onChange: (value: RelationshipModelId) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Picks the scoring model (weights, level cut-offs and wording) for a comparison
+export function RelationshipModelSelect({ value, onChange, disabled, className }: RelationshipModelSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as RelationshipModelId)} disabled={disabled}>
+      <SelectTrigger className={className} data-testid="select-relationship-model">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(relationshipModels).map(model => (
+          <SelectItem key={model.id} value={model.id}>
+            {model.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
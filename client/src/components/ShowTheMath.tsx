@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { CalculationTrace, CalculationType, TraceComponent } from '@/lib/numerology';
+import { apiRequest } from '@/lib/queryClient';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Calculator, ChevronDown } from 'lucide-react';
+
+interface ShowTheMathProps {
+  type: CalculationType;
+  fullName: string;
+  birthDate: string;
+  targetDate?: string;
+  calculationProfile?: string;
+  title?: string;
+}
+
+function formatComponent(component: TraceComponent): string {
+  return [component.value, ...component.reductions].join(' → ');
+}
+
+export function TraceDetails({ trace }: { trace: CalculationTrace }) {
+  const addends = trace.components.map(component => component.reduced);
+
+  return (
+    <div className="space-y-3" data-testid={`trace-${trace.type}`}>
+      {trace.letters && (
+        <div className="flex flex-wrap gap-1">
+          {trace.letters.map((letter, i) => (
+            <div
+              key={i}
+              className={`w-7 text-center rounded-md py-1 ${letter.counted ? 'bg-gray-a4' : 'bg-gray-a2 opacity-40'}`}
+            >
+              <p className="text-1 font-medium text-gray-12">{letter.letter}</p>
+              <p className="text-0 text-gray-10">{letter.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {trace.components.map((component, i) => (
+          <div key={i} className="flex items-center justify-between gap-3 text-2">
+            <span className="text-gray-10">{component.label}</span>
+            <span className="font-mono text-gray-12">
+              {formatComponent(component)}
+              {component.reduced > 9 && component.reductions.length > 0 && (
+                <span className="text-amber-11"> (master)</span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pt-2 border-t border-gray-a4 text-2">
+        <span className="font-mono text-gray-11">
+          {addends.length > 1 ? `${addends.join(' + ')} = ${trace.total}` : trace.total}
+        </span>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" size="sm" className="font-mono">{trace.compound}</Badge>
+          {trace.masterPreserved && <Badge variant="warning" size="sm">Master number kept</Badge>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ShowTheMath({ type, fullName, birthDate, targetDate, calculationProfile, title = 'Show the math' }: ShowTheMathProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: trace, isLoading, isError } = useQuery<CalculationTrace>({
+    queryKey: ['/api/numerology/trace', type, fullName, birthDate, targetDate, calculationProfile],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/numerology/trace', { type, fullName, birthDate, targetDate, calculationProfile });
+      const data = await response.json();
+      return data.trace;
+    },
+    enabled: isOpen,
+  });
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger
+        className="flex items-center gap-2 text-1 text-gray-10 hover:text-gray-12 transition-colors"
+        data-testid={`button-show-math-${type}`}
+      >
+        <Calculator className="w-3.5 h-3.5" />
+        {title}
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 p-3 rounded-lg bg-gray-a2 border border-gray-a4">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : isError || !trace ? (
+          <p className="text-1 text-gray-10">Couldn't load the calculation.</p>
+        ) : (
+          <TraceDetails trace={trace} />
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,4 +1,4 @@
-import { calculateComprehensiveProfile } from '@/lib/numerology';
+import { calculateComprehensiveProfile, getCalculationProfile } from '@/lib/numerology';
 import { ProfileData } from '@/components/ProfileSetup';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -18,11 +18,13 @@ const elementIcons: Record<string, typeof Flame> = {
 };
 
 export function ZodiacInfo({ profile }: ZodiacInfoProps) {
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
   const fullProfile = calculateComprehensiveProfile(
     profile.fullName,
     profile.birthDate,
     profile.birthTime,
-    profile.birthLocation
+    profile.birthLocation,
+    calculationProfile
   );
 
   const ElementIcon = elementIcons[fullProfile.westernZodiac.element] || Star;
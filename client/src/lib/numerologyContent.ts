@@ -64,6 +64,28 @@ export interface MaturityContent {
   laterLifeGoals: string;
 }
 
+export interface KarmicDebtContent {
+  number: number;
+  title: string;
+  description: string;
+  lesson: string;
+  pathForward: string;
+}
+
+export interface KarmicLessonContent {
+  number: number;
+  title: string;
+  description: string;
+  remedy: string;
+}
+
+export interface HiddenPassionContent {
+  number: number;
+  title: string;
+  description: string;
+  expression: string;
+}
+
 export const lifePathContent: Record<number, LifePathContent> = {
   1: {
     number: 1,
@@ -784,6 +806,151 @@ export const maturityContent: Record<number, MaturityContent> = {
   }
 };
 
+export const karmicDebtContent: Record<number, KarmicDebtContent> = {
+  13: {
+    number: 13,
+    title: "The Debt of Discipline",
+    description: "Karmic Debt 13 appears when a core number is reached through 13 on its way down to 4. It points to a history of taking shortcuts, avoiding effort or leaving others to carry the load. In this life the work you try to avoid tends to come back to you until it is done properly.",
+    lesson: "The lesson of 13 is that lasting results only come from focused, patient effort. Frustration, setbacks and the feeling that everything takes longer than it should are the signs that this debt is active. Laziness, cutting corners and giving up halfway make it heavier.",
+    pathForward: "Commit to one thing at a time and finish it. Build routines, keep promises to yourself and accept that slow progress is still progress. When you stop looking for the easy way, the 13 transforms into the steady, reliable builder energy of the 4."
+  },
+  14: {
+    number: 14,
+    title: "The Debt of Freedom",
+    description: "Karmic Debt 14 appears when a core number is reached through 14 on its way down to 5. It points to a history of abusing freedom, whether through overindulgence, broken commitments or treating people and pleasures as disposable.",
+    lesson: "The lesson of 14 is moderation. Sudden changes, losses that seem to come out of nowhere and a pull toward excess in food, substances, spending or relationships are the signs that this debt is active. Instability is the teacher.",
+    pathForward: "Embrace change without being ruled by it. Keep your commitments, moderate your appetites and let go of what you cannot control. When freedom is used responsibly, the 14 becomes the adaptable, adventurous energy of the 5 at its best."
+  },
+  16: {
+    number: 16,
+    title: "The Debt of Humility",
+    description: "Karmic Debt 16 appears when a core number is reached through 16 on its way down to 7. It points to a history of ego, vanity or misused love, often at the expense of others. In this life, structures built on pride have a way of collapsing.",
+    lesson: "The lesson of 16 is humility and authentic connection. Sudden falls, broken relationships and moments where everything you relied on is stripped away are the signs that this debt is active. Each collapse clears space for something truer.",
+    pathForward: "Lead with honesty rather than image. Let go of the need to be admired, and build relationships on genuine care. When the ego softens, the 16 becomes the wise, spiritually grounded energy of the 7."
+  },
+  19: {
+    number: 19,
+    title: "The Debt of Independence",
+    description: "Karmic Debt 19 appears when a core number is reached through 19 on its way down to 1. It points to a history of misusing power and putting yourself above others. In this life you are often left to stand on your own until you learn to ask for and accept help.",
+    lesson: "The lesson of 19 is interdependence. Feeling isolated, being forced to handle everything alone and struggling when others try to support you are the signs that this debt is active. Stubborn self-reliance makes it heavier.",
+    pathForward: "Stay independent but stop going it alone. Share credit, ask for help and use your strength in service of others. When you balance self-reliance with connection, the 19 becomes the confident, pioneering energy of the 1."
+  }
+};
+
+export const karmicLessonContent: Record<number, KarmicLessonContent> = {
+  1: {
+    number: 1,
+    title: "Lesson of Self-Confidence",
+    description: "With no 1 in your name, you may find it hard to assert yourself, make decisions or take the lead. You often wait for others to go first or doubt your own judgment.",
+    remedy: "Practice making decisions on your own and sticking with them. Take the initiative in small ways every day until standing up for yourself feels natural."
+  },
+  2: {
+    number: 2,
+    title: "Lesson of Patience and Cooperation",
+    description: "With no 2 in your name, you may struggle with patience, tact and attention to detail. Working closely with others or waiting for results can feel uncomfortable.",
+    remedy: "Slow down and listen more than you speak. Seek out partnerships and teamwork, and practice seeing situations through other people's eyes."
+  },
+  3: {
+    number: 3,
+    title: "Lesson of Self-Expression",
+    description: "With no 3 in your name, you may find it difficult to express your feelings, share your ideas or let yourself play. Self-doubt can keep your creativity hidden.",
+    remedy: "Give yourself regular creative outlets such as writing, art, music or conversation. Share your ideas before they feel perfect, and let joy be a priority."
+  },
+  4: {
+    number: 4,
+    title: "Lesson of Discipline",
+    description: "With no 4 in your name, you may resist routine, structure and sustained effort. Organization and follow-through do not come naturally, so projects can stall halfway.",
+    remedy: "Build simple systems and routines that make consistency easier. Break big goals into steps and take pride in finishing what you start."
+  },
+  5: {
+    number: 5,
+    title: "Lesson of Adaptability",
+    description: "With no 5 in your name, you may fear change, avoid risk and hold on to the familiar longer than you should. New experiences can feel more threatening than exciting.",
+    remedy: "Deliberately seek out new experiences, places and people. Treat change as an opportunity to grow, and practice saying yes to the unknown."
+  },
+  6: {
+    number: 6,
+    title: "Lesson of Responsibility",
+    description: "With no 6 in your name, you may struggle with commitment to family, home or community, or find it hard to give and receive care in a balanced way.",
+    remedy: "Honor your commitments to the people close to you. Practice showing up consistently, and let yourself be supported as well as supportive."
+  },
+  7: {
+    number: 7,
+    title: "Lesson of Inner Wisdom",
+    description: "With no 7 in your name, you may avoid introspection, accept things at face value or struggle to trust your intuition. Quiet time alone can feel uncomfortable.",
+    remedy: "Make space for reflection, study and spiritual practice. Question what you are told, dig deeper and learn to trust the wisdom that comes from within."
+  },
+  8: {
+    number: 8,
+    title: "Lesson of Personal Power",
+    description: "With no 8 in your name, you may have a complicated relationship with money, authority and ambition, either avoiding them or mishandling them.",
+    remedy: "Learn the practical side of finances and business. Set ambitious goals, take ownership of your results and see power as a tool for good."
+  },
+  9: {
+    number: 9,
+    title: "Lesson of Compassion",
+    description: "With no 9 in your name, you may find it hard to see the bigger picture, let go of the past or extend understanding to people unlike yourself.",
+    remedy: "Broaden your perspective through travel, service and the arts. Practice forgiveness and generosity, and look for ways to contribute to causes beyond yourself."
+  }
+};
+
+export const hiddenPassionContent: Record<number, HiddenPassionContent> = {
+  1: {
+    number: 1,
+    title: "Passion for Leadership",
+    description: "Hidden Passion 1 reveals a deep drive to lead, achieve and be your own person. Beneath the surface you are ambitious, determined and happiest when you are in charge of your own direction.",
+    expression: "You come alive when starting new ventures, competing and breaking new ground. Make sure your drive for independence leaves room for other people's ideas."
+  },
+  2: {
+    number: 2,
+    title: "Passion for Connection",
+    description: "Hidden Passion 2 reveals a deep desire for harmony, partnership and emotional closeness. You are highly sensitive to other people and quietly driven to bring them together.",
+    expression: "You come alive in close relationships, collaborative work and peacemaking roles. Protect your sensitivity by choosing supportive people and environments."
+  },
+  3: {
+    number: 3,
+    title: "Passion for Creativity",
+    description: "Hidden Passion 3 reveals a deep love of self-expression, imagination and communication. Words, art and humor are where your energy naturally flows.",
+    expression: "You come alive when writing, performing, designing or entertaining. Give your creativity focus so your many talents turn into finished work."
+  },
+  4: {
+    number: 4,
+    title: "Passion for Order",
+    description: "Hidden Passion 4 reveals a deep need for structure, reliability and tangible results. You quietly love building things properly and seeing hard work pay off.",
+    expression: "You come alive when organizing, planning and creating systems that last. Stay open to new approaches so your love of order does not become rigidity."
+  },
+  5: {
+    number: 5,
+    title: "Passion for Freedom",
+    description: "Hidden Passion 5 reveals a deep craving for variety, adventure and sensory experience. Routine drains you, while change and discovery recharge you.",
+    expression: "You come alive when traveling, learning, meeting new people and trying new things. Channel your restlessness into experiences that also build your future."
+  },
+  6: {
+    number: 6,
+    title: "Passion for Love and Service",
+    description: "Hidden Passion 6 reveals a deep devotion to family, home and the wellbeing of others. Caring for people is not just something you do; it is who you are.",
+    expression: "You come alive when nurturing, teaching, healing or creating beautiful spaces. Remember to care for yourself with the same devotion you give others."
+  },
+  7: {
+    number: 7,
+    title: "Passion for Truth",
+    description: "Hidden Passion 7 reveals a deep hunger for knowledge, meaning and understanding. You are drawn to the mysteries of life and the questions others overlook.",
+    expression: "You come alive when researching, analyzing, studying and reflecting. Share your insights so your wisdom reaches the people who need it."
+  },
+  8: {
+    number: 8,
+    title: "Passion for Achievement",
+    description: "Hidden Passion 8 reveals a deep drive toward success, authority and material mastery. You instinctively understand power, money and how to get things done.",
+    expression: "You come alive when leading organizations, managing resources and pursuing ambitious goals. Keep your values at the centre of your success."
+  },
+  9: {
+    number: 9,
+    title: "Passion for Humanity",
+    description: "Hidden Passion 9 reveals a deep compassion for the world and a desire to make a difference. Causes larger than yourself give your life meaning.",
+    expression: "You come alive when serving others, creating meaningful art or working for change. Let go of perfectionism about the world and focus on the good you can do."
+  }
+};
+
 export function getNumberContent(number: number): number {
   if (number === 11 || number === 22 || number === 33) {
     return number;
@@ -0,0 +1,152 @@
+export interface PinnacleContent {
+  number: number;
+  title: string;
+  description: string;
+  opportunities: string;
+}
+
+export interface ChallengeContent {
+  number: number;
+  title: string;
+  description: string;
+  growth: string;
+}
+
+export const pinnacleContent: Record<number, PinnacleContent> = {
+  1: {
+    number: 1,
+    title: "The Pinnacle of Independence",
+    description: "This is a season for standing on your own two feet. Life pushes you to make your own decisions, trust your judgment and step out from behind others. Circumstances reward initiative and can feel lonely when you wait for permission.",
+    opportunities: "Start the business, take the lead role, move out on your own. Anything that builds self-reliance and lets you pioneer something new is strongly supported during this period."
+  },
+  2: {
+    number: 2,
+    title: "The Pinnacle of Partnership",
+    description: "This is a season of cooperation, patience and sensitivity. Progress comes through relationships rather than force, and the quiet work of supporting, listening and mediating carries more weight than it appears.",
+    opportunities: "Build partnerships, deepen your closest relationships and develop diplomacy. Success arrives through teamwork, attention to detail and letting things unfold at their natural pace."
+  },
+  3: {
+    number: 3,
+    title: "The Pinnacle of Expression",
+    description: "This is a season of creativity, social connection and joy. Your voice, ideas and personality are your greatest assets, and life keeps handing you stages on which to use them.",
+    opportunities: "Write, perform, teach, create and socialize. Communication-based work flourishes. The risk is scattering your energy, so choose a few creative outlets and see them through."
+  },
+  4: {
+    number: 4,
+    title: "The Pinnacle of Foundation",
+    description: "This is a season of hard work, discipline and building. Results come slowly but they last, and the structures you put in place now support you for decades.",
+    opportunities: "Buy property, build systems, master a craft and organize your finances. Consistency beats brilliance in this period; steady daily effort compounds into real security."
+  },
+  5: {
+    number: 5,
+    title: "The Pinnacle of Freedom",
+    description: "This is a season of change, travel and expansion. Routines break, opportunities appear suddenly and you are asked to adapt quickly and embrace the unfamiliar.",
+    opportunities: "Travel, relocate, change careers and broaden your experience. Stay curious but grounded, because the freedom of this period rewards those who use it with purpose rather than restlessness."
+  },
+  6: {
+    number: 6,
+    title: "The Pinnacle of Responsibility",
+    description: "This is a season centred on home, family and service. Commitments to loved ones and community take priority, and you are often the person others lean on.",
+    opportunities: "Marry, raise a family, create a beautiful home or step into a caring profession. Balance your generosity with boundaries so responsibility stays a joy rather than a burden."
+  },
+  7: {
+    number: 7,
+    title: "The Pinnacle of Wisdom",
+    description: "This is a season of reflection, study and inner growth. The outer world may feel quieter as life turns your attention toward understanding yourself and the deeper questions.",
+    opportunities: "Study, specialize, research and develop your spiritual practice. Solitude is productive now; the insight you gain becomes the expertise others seek from you later."
+  },
+  8: {
+    number: 8,
+    title: "The Pinnacle of Achievement",
+    description: "This is a season of ambition, authority and material results. Career and finances move to the foreground, and you are tested on how well you handle power and money.",
+    opportunities: "Pursue leadership, negotiate, invest and scale what you have built. Integrity is the key to this period; handled ethically, it can bring lasting recognition and abundance."
+  },
+  9: {
+    number: 9,
+    title: "The Pinnacle of Completion",
+    description: "This is a season of compassion, endings and a wider perspective. Life asks you to let go of what no longer serves you and to give back from everything you have learned.",
+    opportunities: "Mentor, volunteer, create art with meaning and work on causes larger than yourself. Releasing old attachments gracefully opens space for your most fulfilling chapters."
+  },
+  11: {
+    number: 11,
+    title: "The Pinnacle of Illumination",
+    description: "This is a master season of inspiration, intuition and heightened sensitivity. You may find yourself in the public eye or in a role where your vision uplifts others.",
+    opportunities: "Teach, inspire, create and trust your intuition. Nervous energy runs high, so grounding practices help you channel this powerful period into meaningful work."
+  },
+  22: {
+    number: 22,
+    title: "The Pinnacle of Mastery",
+    description: "This is a master season of large-scale building. You have the rare chance to turn a big vision into a concrete reality that serves many people.",
+    opportunities: "Launch ambitious projects, lead organizations and build institutions. The pressure is considerable, but disciplined effort now can create a legacy that outlives you."
+  },
+  33: {
+    number: 33,
+    title: "The Pinnacle of Compassion",
+    description: "This is a master season of healing, teaching and unconditional love. Others are drawn to you for guidance and comfort, and your influence is felt through care rather than control.",
+    opportunities: "Teach, heal, counsel and serve. Protect your own wellbeing so you can keep giving; this period asks you to lead with love on a larger stage than ever before."
+  }
+};
+
+export const challengeContent: Record<number, ChallengeContent> = {
+  0: {
+    number: 0,
+    title: "The Challenge of Choice",
+    description: "A zero challenge means no single obstacle dominates. Instead, you may meet every challenge at some point, or none at all; the test is in the choices you make with so much freedom.",
+    growth: "Develop a strong inner compass. Without an obvious lesson to push against, your growth comes from choosing wisely and taking responsibility for the direction of your life."
+  },
+  1: {
+    number: 1,
+    title: "The Challenge of Self-Assertion",
+    description: "You may struggle to stand up for yourself, or swing the other way into stubbornness and domination. Other people's opinions can feel louder than your own.",
+    growth: "Build confidence without ego. Learn to state what you want clearly and to act on your own judgment while staying open to others."
+  },
+  2: {
+    number: 2,
+    title: "The Challenge of Sensitivity",
+    description: "You may be easily hurt, overly cautious or too dependent on the approval of others. Small slights can feel large, and fear of conflict can keep you silent.",
+    growth: "Develop emotional resilience and healthy boundaries. Your sensitivity is a gift once you stop letting it dictate your decisions."
+  },
+  3: {
+    number: 3,
+    title: "The Challenge of Expression",
+    description: "You may hold back your feelings and creativity, or scatter them superficially. Self-doubt about your voice can lead to either silence or constant chatter.",
+    growth: "Express yourself honestly and with focus. Commit to one creative outlet and let people see the real you rather than a performance."
+  },
+  4: {
+    number: 4,
+    title: "The Challenge of Discipline",
+    description: "You may resist structure and routine, or become rigid and overly controlling. Work can feel like either a burden to avoid or an obsession.",
+    growth: "Find the middle path between chaos and rigidity. Build steady habits, finish what you start and stay flexible when plans need to change."
+  },
+  5: {
+    number: 5,
+    title: "The Challenge of Freedom",
+    description: "You may crave change so much that you cannot commit, or fear change so much that you feel trapped. Impulsiveness and overindulgence are common pitfalls.",
+    growth: "Learn responsible freedom. Embrace new experiences while keeping your commitments, and moderate the habits that drain your energy."
+  },
+  6: {
+    number: 6,
+    title: "The Challenge of Responsibility",
+    description: "You may take on too much for others or hold them to impossible standards. Perfectionism and the need to be needed can strain your closest relationships.",
+    growth: "Accept people as they are, including yourself. Serve from choice rather than obligation, and let others carry their own responsibilities."
+  },
+  7: {
+    number: 7,
+    title: "The Challenge of Trust",
+    description: "You may withdraw, overthink or struggle to trust people and life itself. Skepticism can isolate you and make it hard to accept help.",
+    growth: "Balance analysis with faith. Open up to a few trusted people and let spiritual or reflective practice replace suspicion with understanding."
+  },
+  8: {
+    number: 8,
+    title: "The Challenge of Power",
+    description: "You may focus too much on money and status, or avoid them out of fear. Control, recognition and material security become charged issues.",
+    growth: "Develop a healthy relationship with power and money. Use authority fairly, measure success by more than wealth and let go of the need to control everything."
+  }
+};
+
+export const lifeCyclePhaseLabels: Record<number, string> = {
+  1: "First Cycle",
+  2: "Second Cycle",
+  3: "Third Cycle",
+  4: "Final Cycle"
+};
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { circleRelationshipLabels, type CircleContact } from '@shared/circle';
+import { formatCalendarDate, getNumberMeaning, type FullProfile, type ComprehensiveCompatibility } from '@/lib/numerology';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { CompatibilityResult } from '@/components/CompatibilityResult';
+import { CircleContactForm, toPickerDate } from '@/components/CircleContactForm';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Pencil, AlertTriangle, Heart, Sparkles, MapPin, Clock } from 'lucide-react';
+
+interface MeApiResponse {
+  user?: {
+    odisId: string;
+    fullName: string;
+    birthDate: string;
+    calculationProfile?: string;
+  };
+}
+
+interface ContactResponse {
+  contact: CircleContact;
+  profile: FullProfile;
+  compatibility: ComprehensiveCompatibility;
+}
+
+export default function CircleContactPage() {
+  const { contactId } = useParams<{ contactId: string }>();
+  const [editOpen, setEditOpen] = useState(false);
+
+  const { data: meData } = useQuery<MeApiResponse>({
+    queryKey: ['/api/me'],
+    queryFn: async () => {
+      const response = await fetch('/api/me');
+      if (!response.ok) return {};
+      return response.json();
+    },
+  });
+
+  // Profile and compatibility are computed by the server under the owner's calculation profile
+  const { data, isLoading, isError } = useQuery<ContactResponse>({
+    queryKey: ['/api/circle', contactId],
+    enabled: !!contactId,
+  });
+
+  const user = meData?.user;
+  const contact = data?.contact;
+  const profile = data?.profile;
+
+  const coreNumbers = profile ? [
+    { label: 'Life Path', value: profile.lifePathNumber },
+    { label: 'Expression', value: profile.expressionNumber },
+    { label: 'Soul Urge', value: profile.soulUrgeNumber },
+    { label: 'Personality', value: profile.personalityNumber },
+    { label: 'Attitude', value: profile.attitudeNumber },
+    { label: 'Day of Birth', value: profile.dayOfBirthNumber },
+    { label: 'Maturity', value: profile.maturityNumber },
+    { label: 'Hidden Passion', value: profile.hiddenPassionNumber },
+  ] : [];
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-circle-contact">
+        <div className="container mx-auto max-w-4xl space-y-8">
+          <NavLink to="/circle" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12">
+            <ArrowLeft className="w-4 h-4" />
+            My Circle
+          </NavLink>
+
+          {isLoading ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : isError || !contact || !profile ? (
+            <div className="p-4 rounded-lg bg-red-a3 border border-red-a6 text-2 text-red-11 flex items-center gap-2" data-testid="error-contact">
+              <AlertTriangle className="w-4 h-4" />
+              This person isn't in your circle.
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-4 flex-wrap">
+                <div>
+                  <Badge variant="outline" size="sm" className="mb-2">{circleRelationshipLabels[contact.relationship]}</Badge>
+                  <h1 className="text-6 md:text-7 font-semibold" data-testid="text-contact-name">{contact.name}</h1>
+                  <div className="flex items-center gap-4 mt-2 text-2 text-gray-11 flex-wrap">
+                    <span>{toPickerDate(contact.birthDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}</span>
+                    {contact.birthTime && (
+                      <span className="inline-flex items-center gap-1"><Clock className="w-3 h-3" />{contact.birthTime}</span>
+                    )}
+                    {contact.birthLocation && (
+                      <span className="inline-flex items-center gap-1"><MapPin className="w-3 h-3" />{contact.birthLocation}</span>
+                    )}
+                  </div>
+                </div>
+                <Button variant="outline" onClick={() => setEditOpen(true)} data-testid="button-edit-contact">
+                  <Pencil className="w-4 h-4" />
+                  Edit
+                </Button>
+              </div>
+
+              <Card variant="frosted" data-testid="card-contact-profile">
+                <CardHeader>
+                  <CardTitle className="text-4 flex items-center gap-2">
+                    <Sparkles className="w-5 h-5 text-amber-9" />
+                    {profile.energySignature}
+                  </CardTitle>
+                  <CardDescription>"{getNumberMeaning(profile.lifePathNumber).title}"</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {coreNumbers.map(item => (
+                      <div key={item.label} className="text-center p-3 rounded-md bg-gray-a3 border border-gray-5/30">
+                        <p className="text-4 font-semibold">{item.value}</p>
+                        <p className="text-0 text-gray-10">{item.label}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid sm:grid-cols-2 gap-3">
+                    <div className="p-4 rounded-lg bg-gray-a2 border border-gray-5/30">
+                      <p className="text-0 text-gray-10 uppercase tracking-wider mb-1">Chinese Zodiac</p>
+                      <p className="text-3 font-medium">{profile.chineseZodiac.element} {profile.chineseZodiac.animal}</p>
+                      <p className="text-1 text-gray-11">{profile.chineseZodiac.yinYang} · {profile.chineseZodiac.traits.slice(0, 3).join(', ')}</p>
+                    </div>
+                    <div className="p-4 rounded-lg bg-gray-a2 border border-gray-5/30">
+                      <p className="text-0 text-gray-10 uppercase tracking-wider mb-1">Western Zodiac</p>
+                      <p className="text-3 font-medium">{profile.westernZodiac.sign}</p>
+                      <p className="text-1 text-gray-11">
+                        {profile.westernZodiac.element} · {profile.westernZodiac.modality} · ruled by {profile.westernZodiac.rulingPlanet}
+                      </p>
+                    </div>
+                  </div>
+
+                  {(profile.karmicDebts.length > 0 || profile.karmicLessons.length > 0) && (
+                    <div className="flex flex-wrap gap-2">
+                      {profile.karmicDebts.map(debt => (
+                        <Badge key={`${debt.source}-${debt.number}`} variant="outline" size="sm">
+                          Karmic Debt {debt.number} ({debt.source})
+                        </Badge>
+                      ))}
+                      {profile.karmicLessons.length > 0 && (
+                        <Badge variant="outline" size="sm">Karmic Lessons {profile.karmicLessons.join(', ')}</Badge>
+                      )}
+                    </div>
+                  )}
+
+                  <p className="text-2 text-gray-11 leading-relaxed">{profile.personality.paragraph}</p>
+
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="text-2 font-semibold mb-2">Strengths</h4>
+                      <ul className="space-y-1">
+                        {profile.personality.strengths.map((strength, i) => (
+                          <li key={i} className="text-2 text-gray-11">+ {strength}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div>
+                      <h4 className="text-2 font-semibold mb-2">Challenges</h4>
+                      <ul className="space-y-1">
+                        {profile.personality.challenges.map((challenge, i) => (
+                          <li key={i} className="text-2 text-gray-11">! {challenge}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {user && data && (
+                <Card variant="frosted" data-testid="card-contact-compatibility">
+                  <CardHeader>
+                    <CardTitle className="text-4 flex items-center gap-2">
+                      <Heart className="w-5 h-5 text-pink-9" />
+                      You & {contact.name.split(' ')[0]}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <CompatibilityResult
+                      result={data.compatibility}
+                      insights={null}
+                      person1={{ name: user.fullName.split(' ')[0], fullName: user.fullName, birthDate: formatCalendarDate(new Date(user.birthDate)) }}
+                      person2={{ name: contact.name, birthDate: formatCalendarDate(new Date(contact.birthDate)) }}
+                      calculationProfile={user.calculationProfile}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <CircleContactForm open={editOpen} onOpenChange={setEditOpen} contact={contact} />
+    </>
+  );
+}
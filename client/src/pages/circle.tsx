@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { circleRelationshipLabels, type CircleContact } from '@shared/circle';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { CircleContactForm, toPickerDate } from '@/components/CircleContactForm';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, UserPlus, Pencil, Trash2, AlertTriangle, Users, ChevronRight } from 'lucide-react';
+
+export default function CirclePage() {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<CircleContact | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CircleContact | null>(null);
+
+  const { data, isLoading, isError } = useQuery<{ contacts: CircleContact[] }>({
+    queryKey: ['/api/circle'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/circle/${id}`);
+    },
+    onSuccess: () => {
+      setPendingDelete(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/circle'] });
+    },
+  });
+
+  const contacts = data?.contacts ?? [];
+
+  const openForm = (contact: CircleContact | null) => {
+    setEditing(contact);
+    setFormOpen(true);
+  };
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-circle">
+        <div className="container mx-auto max-w-4xl space-y-8">
+          <div className="text-center">
+            <NavLink to="/compatibility" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              Back to compatibility
+            </NavLink>
+            <h1 className="text-6 md:text-7 font-semibold mb-4">
+              My <span className="gradient-text">Circle</span>
+            </h1>
+            <p className="text-gray-11 text-3 max-w-2xl mx-auto">
+              The people you check in on most, saved once for quick comparisons.
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="gold" onClick={() => openForm(null)} disabled={isError} data-testid="button-add-contact">
+              <UserPlus className="w-4 h-4" />
+              Add person
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : isError ? (
+            <div className="p-4 rounded-lg bg-red-a3 border border-red-a6 text-2 text-red-11 flex items-center gap-2" data-testid="error-circle">
+              <AlertTriangle className="w-4 h-4" />
+              Sign in to manage your circle.
+            </div>
+          ) : contacts.length === 0 ? (
+            <Card variant="frosted" className="text-center" data-testid="card-circle-empty">
+              <CardContent className="py-12">
+                <Users className="w-8 h-8 text-gray-10 mx-auto mb-4" />
+                <p className="text-gray-11 text-2">Add your partner, family or coworkers to compare with them in one tap.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid sm:grid-cols-2 gap-3" data-testid="list-circle">
+              {contacts.map(contact => (
+                <Card key={contact.id} variant="frosted" data-testid={`card-contact-${contact.id}`}>
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <NavLink to={`/circle/${contact.id}`} className="flex-1 min-w-0 group" data-testid={`link-contact-${contact.id}`}>
+                      <div className="flex items-center gap-2">
+                        <p className="text-3 font-medium text-gray-12 truncate group-hover:text-amber-11">{contact.name}</p>
+                        <ChevronRight className="w-4 h-4 text-gray-10 shrink-0" />
+                      </div>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Badge variant="outline" size="sm">{circleRelationshipLabels[contact.relationship]}</Badge>
+                        <span className="text-1 text-gray-10">
+                          {toPickerDate(contact.birthDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                      </div>
+                    </NavLink>
+                    <Button variant="ghost" size="icon" onClick={() => openForm(contact)} data-testid={`button-edit-contact-${contact.id}`}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setPendingDelete(contact)} data-testid={`button-delete-contact-${contact.id}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <CircleContactForm open={formOpen} onOpenChange={setFormOpen} contact={editing} />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They'll be removed from your circle. Saved readings with them are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              data-testid="button-confirm-delete-contact"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
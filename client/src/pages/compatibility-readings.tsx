@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { ComprehensiveCompatibility } from '@/lib/numerology';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { CompatibilityResult, getLevelColor, type CompatibilityInsights } from '@/components/CompatibilityResult';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, History, Pencil, Trash2, Check, X, Loader2, AlertTriangle, Heart } from 'lucide-react';
+
+interface ReadingSummary {
+  id: string;
+  title: string;
+  person1: { name: string; birthDate: string };
+  person2: { name: string; birthDate: string };
+  calculationProfile: string;
+  overallScore: number;
+  level: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface Reading extends ReadingSummary {
+  compatibility: ComprehensiveCompatibility;
+  insights: CompatibilityInsights | null;
+}
+
+export default function CompatibilityReadingsPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ReadingSummary | null>(null);
+
+  const { data, isLoading, isError } = useQuery<{ readings: ReadingSummary[] }>({
+    queryKey: ['/api/compatibility/readings'],
+  });
+
+  // Opening a saved reading only loads what was stored; no new AI request is made
+  const { data: readingData, isLoading: isReadingLoading } = useQuery<{ reading: Reading }>({
+    queryKey: ['/api/compatibility/readings', selectedId],
+    enabled: !!selectedId,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const response = await apiRequest('PATCH', `/api/compatibility/readings/${id}`, { title });
+      return await response.json();
+    },
+    onSuccess: (_result, { id }) => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/compatibility/readings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/compatibility/readings', id] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/compatibility/readings/${id}`);
+    },
+    onSuccess: (_result, id) => {
+      if (selectedId === id) setSelectedId(null);
+      setPendingDelete(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/compatibility/readings'] });
+    },
+  });
+
+  const readings = data?.readings ?? [];
+  const reading = selectedId ? readingData?.reading : undefined;
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-compatibility-readings">
+        <div className="container mx-auto max-w-4xl space-y-8">
+          <div className="text-center">
+            <NavLink to="/compatibility" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              Back to compatibility
+            </NavLink>
+            <h1 className="text-6 md:text-7 font-semibold mb-4">
+              My <span className="gradient-text">Readings</span>
+            </h1>
+            <p className="text-gray-11 text-3 max-w-2xl mx-auto">
+              Every compatibility check you run is saved here with its scores and insights.
+            </p>
+          </div>
+
+          {selectedId ? (
+            <Card variant="frosted" data-testid="card-saved-reading">
+              <CardHeader>
+                <Button variant="ghost" size="sm" className="self-start" onClick={() => setSelectedId(null)} data-testid="button-back-to-readings">
+                  <ArrowLeft className="w-4 h-4" />
+                  All readings
+                </Button>
+                {reading && (
+                  <>
+                    <CardTitle className="text-4">{reading.title}</CardTitle>
+                    <CardDescription>
+                      Saved {format(new Date(reading.createdAt), 'MMM d, yyyy')}
+                    </CardDescription>
+                  </>
+                )}
+              </CardHeader>
+              <CardContent>
+                {isReadingLoading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-amber-9" />
+                  </div>
+                ) : reading ? (
+                  <CompatibilityResult
+                    result={reading.compatibility}
+                    insights={reading.insights}
+                    person1={{ name: reading.person1.name.split(' ')[0], fullName: reading.person1.name, birthDate: reading.person1.birthDate }}
+                    person2={reading.person2}
+                    calculationProfile={reading.calculationProfile}
+                  />
+                ) : (
+                  <p className="text-2 text-gray-11 text-center py-8">This reading is no longer available.</p>
+                )}
+              </CardContent>
+            </Card>
+          ) : isLoading ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : isError ? (
+            <div className="p-4 rounded-lg bg-red-a3 border border-red-a6 text-2 text-red-11 flex items-center gap-2" data-testid="error-readings">
+              <AlertTriangle className="w-4 h-4" />
+              Sign in to see your saved readings.
+            </div>
+          ) : readings.length === 0 ? (
+            <Card variant="frosted" className="text-center" data-testid="card-readings-empty">
+              <CardContent className="py-12">
+                <History className="w-8 h-8 text-gray-10 mx-auto mb-4" />
+                <p className="text-gray-11 text-2 mb-6">No saved readings yet.</p>
+                <NavLink to="/compatibility" className="inline-flex items-center gap-1 text-2 text-amber-11 hover:underline">
+                  <Heart className="w-4 h-4" />
+                  Run a compatibility check
+                </NavLink>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3" data-testid="list-readings">
+              {readings.map(item => (
+                <Card key={item.id} variant="frosted" data-testid={`card-reading-${item.id}`}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className={`w-12 h-12 rounded-full flex items-center justify-center text-3 font-bold shrink-0 ${getLevelColor(item.level)}`}>
+                      {item.overallScore}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      {editing?.id === item.id ? (
+                        <form
+                          className="flex items-center gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            if (editing.title.trim()) renameMutation.mutate(editing);
+                          }}
+                        >
+                          <Input
+                            variant="frosted"
+                            value={editing.title}
+                            maxLength={100}
+                            autoFocus
+                            onChange={(e) => setEditing({ id: item.id, title: e.target.value })}
+                            data-testid={`input-rename-${item.id}`}
+                          />
+                          <Button type="submit" variant="ghost" size="icon" disabled={!editing.title.trim() || renameMutation.isPending} data-testid={`button-save-title-${item.id}`}>
+                            {renameMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                          </Button>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => setEditing(null)}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </form>
+                      ) : (
+                        <button className="text-left w-full" onClick={() => setSelectedId(item.id)} data-testid={`button-open-reading-${item.id}`}>
+                          <p className="text-3 font-medium text-gray-12 truncate">{item.title}</p>
+                          <p className="text-1 text-gray-10">
+                            {item.person1.name} & {item.person2.name} · {format(new Date(item.createdAt), 'MMM d, yyyy')}
+                          </p>
+                        </button>
+                      )}
+                    </div>
+
+                    <Badge variant="outline" size="sm" className="hidden sm:inline-flex">{item.level}</Badge>
+                    {editing?.id !== item.id && (
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing({ id: item.id, title: item.title })} data-testid={`button-rename-${item.id}`}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setPendingDelete(item)} data-testid={`button-delete-${item.id}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this reading?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its insights will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
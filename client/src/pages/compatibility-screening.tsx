@@ -0,0 +1,326 @@
+import { useState, useMemo } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+  dimensionLabels,
+  screeningResultsToCsv,
+  type DimensionKey,
+  type ScreeningFormat,
+  type ScreeningResult,
+  type ScreeningResultRow,
+} from '@shared/screening';
+import { formatCalendarDate, type RelationshipModelId } from '@/lib/numerology';
+import { apiRequest } from '@/lib/queryClient';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { UpgradeModal } from '@/components/UpgradeModal';
+import { RelationshipModelSelect } from '@/components/RelationshipModelSelect';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Upload, Download, Loader2, AlertTriangle, Crown, Sparkles, ArrowUpDown, FileSpreadsheet } from 'lucide-react';
+
+interface MeApiResponse {
+  user?: {
+    odisId: string;
+    fullName: string;
+    birthDate: string;
+    calculationProfile?: string;
+    isPro?: boolean;
+  };
+  needsOnboarding?: boolean;
+}
+
+type SortKey = 'rank' | 'name' | 'overallScore' | DimensionKey;
+
+const dimensionKeys = Object.keys(dimensionLabels) as DimensionKey[];
+
+function getSortValue(row: ScreeningResultRow, key: SortKey): number | string {
+  if (key === 'rank' || key === 'name' || key === 'overallScore') return row[key];
+  return row.dimensions[key].score;
+}
+
+function getScoreClass(score: number) {
+  if (score >= 80) return 'text-green-11 font-semibold';
+  if (score >= 60) return 'text-green-10';
+  if (score >= 45) return 'text-amber-11';
+  return 'text-red-11';
+}
+
+export default function CompatibilityScreeningPage() {
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+  const [anchorMode, setAnchorMode] = useState<'me' | 'other'>('me');
+  const [anchorName, setAnchorName] = useState('');
+  const [anchorBirthDate, setAnchorBirthDate] = useState<Date | undefined>(undefined);
+  const [file, setFile] = useState<{ name: string; content: string; format: ScreeningFormat } | null>(null);
+  const [relationshipModel, setRelationshipModel] = useState<RelationshipModelId>('business');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'rank', direction: 'asc' });
+
+  const { data: meData, isLoading } = useQuery<MeApiResponse>({
+    queryKey: ['/api/me'],
+    queryFn: async () => {
+      const response = await fetch('/api/me');
+      if (!response.ok) return { needsOnboarding: true };
+      return response.json();
+    },
+  });
+
+  const user = meData?.user;
+  const isPro = user?.isPro ?? false;
+
+  const anchor = anchorMode === 'me' && user
+    ? { name: user.fullName, birthDate: formatCalendarDate(new Date(user.birthDate)) }
+    : anchorName.trim() && anchorBirthDate
+      ? { name: anchorName.trim(), birthDate: format(anchorBirthDate, 'yyyy-MM-dd') }
+      : null;
+
+  const screenMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/compatibility/screen', {
+        anchor,
+        format: file?.format,
+        content: file?.content,
+        calculationProfile: user?.calculationProfile,
+        relationshipModel,
+      });
+      return await response.json() as ScreeningResult;
+    },
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    screenMutation.reset();
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const content = await selected.text();
+    const isJson = selected.name.toLowerCase().endsWith('.json') || content.trimStart().startsWith('[');
+    setFile({ name: selected.name, content, format: isJson ? 'json' : 'csv' });
+  };
+
+  const result = screenMutation.data;
+
+  const sortedRows = useMemo(() => {
+    if (!result) return [];
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...result.results].sort((a, b) => {
+      const x = getSortValue(a, sort.key);
+      const y = getSortValue(b, sort.key);
+      return (x < y ? -1 : x > y ? 1 : 0) * direction;
+    });
+  }, [result, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => current.key === key
+      ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      // Scores read best-first, rank and name read top-down
+      : { key, direction: key === 'rank' || key === 'name' ? 'asc' : 'desc' });
+  };
+
+  const downloadCsv = () => {
+    if (!result) return;
+    const blob = new Blob([screeningResultsToCsv(sortedRows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `compatibility-screening-${formatCalendarDate(new Date())}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const SortableHead = ({ sortKey, label }: { sortKey: SortKey; label: string }) => (
+    <TableHead>
+      <button className="inline-flex items-center gap-1 hover:text-gray-12" onClick={() => toggleSort(sortKey)} data-testid={`sort-${sortKey}`}>
+        {label}
+        <ArrowUpDown className={`w-3 h-3 ${sort.key === sortKey ? 'text-amber-9' : 'opacity-40'}`} />
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-compatibility-screening">
+        <div className="container mx-auto max-w-6xl space-y-8">
+          <div className="text-center">
+            <NavLink to="/compatibility" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              One-to-one compatibility
+            </NavLink>
+            <h1 className="text-6 md:text-7 font-semibold mb-4">
+              Bulk <span className="gradient-text">Screening</span>
+            </h1>
+            <p className="text-gray-11 text-3 max-w-2xl mx-auto">
+              Upload a list of candidates and rank them all against one anchor profile.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : !isPro ? (
+            <Card variant="frosted" className="text-center" data-testid="card-screening-locked">
+              <CardContent className="py-12">
+                <div className="flex items-center justify-center gap-2 mb-4">
+                  <Crown className="w-5 h-5 text-amber-9" />
+                  <Badge variant="secondary" size="sm">Pro Feature</Badge>
+                </div>
+                <p className="text-gray-11 text-2 mb-6 max-w-md mx-auto">
+                  Upgrade to screen candidates in bulk.
+                </p>
+                <Button variant="gold" size="lg" onClick={() => setShowUpgradeModal(true)} data-testid="button-unlock-screening">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Upgrade to Pro
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card variant="frosted" data-testid="card-screening-upload">
+                <CardHeader>
+                  <CardTitle className="text-4 flex items-center gap-2">
+                    <FileSpreadsheet className="w-5 h-5 text-amber-9" />
+                    Upload Candidates
+                  </CardTitle>
+                  <CardDescription>
+                    CSV with name and birth date columns (YYYY-MM-DD or MM/DD/YYYY), or a JSON array of {'{ name, birthDate }'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label className="text-2">Compare against</Label>
+                    <div className="flex gap-2">
+                      <Button variant={anchorMode === 'me' ? 'gold' : 'outline'} size="sm" onClick={() => setAnchorMode('me')} disabled={!user} data-testid="button-anchor-me">
+                        Me
+                      </Button>
+                      <Button variant={anchorMode === 'other' ? 'gold' : 'outline'} size="sm" onClick={() => setAnchorMode('other')} data-testid="button-anchor-other">
+                        Someone else
+                      </Button>
+                    </div>
+                    {anchorMode === 'other' && (
+                      <div className="grid sm:grid-cols-2 gap-2">
+                        <Input
+                          variant="frosted"
+                          placeholder="Anchor full name"
+                          value={anchorName}
+                          onChange={(e) => setAnchorName(e.target.value)}
+                          data-testid="input-anchor-name"
+                        />
+                        <DatePicker value={anchorBirthDate} onChange={setAnchorBirthDate} data-testid="input-anchor-birth-date" />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-2">Relationship type</Label>
+                    <RelationshipModelSelect value={relationshipModel} onChange={setRelationshipModel} className="sm:w-[220px]" />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="screening-file" className="text-2">File</Label>
+                    <Input
+                      id="screening-file"
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      onChange={(e) => handleFile(e.target.files?.[0])}
+                      data-testid="input-screening-file"
+                    />
+                  </div>
+
+                  <Button
+                    variant="gold"
+                    className="w-full"
+                    onClick={() => screenMutation.mutate()}
+                    disabled={!anchor || !file || screenMutation.isPending}
+                    data-testid="button-run-screening"
+                  >
+                    {screenMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Upload className="w-4 h-4" /> Screen Candidates</>}
+                  </Button>
+
+                  {screenMutation.isError && (
+                    <div className="text-red-9 text-2 flex items-center gap-2" data-testid="error-screening">
+                      <AlertTriangle className="w-4 h-4" />
+                      {screenMutation.error.message}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {result && (
+                <Card variant="frosted" data-testid="card-screening-results">
+                  <CardHeader>
+                    <div className="flex items-center justify-between gap-4 flex-wrap">
+                      <div>
+                        <CardTitle className="text-4">Ranked Results</CardTitle>
+                        <CardDescription>
+                          {result.results.length} of {result.totalRows} rows scored against {result.anchor.name}
+                        </CardDescription>
+                      </div>
+                      <Button variant="outline" onClick={downloadCsv} disabled={result.results.length === 0} data-testid="button-download-csv">
+                        <Download className="w-4 h-4" />
+                        Download CSV
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {result.errors.length > 0 && (
+                      <div className="p-3 rounded-lg bg-red-a2 border border-red-a4 space-y-1" data-testid="list-screening-errors">
+                        <p className="text-2 font-medium text-red-11">{result.errors.length} row{result.errors.length === 1 ? '' : 's'} skipped</p>
+                        {result.errors.map((error, i) => (
+                          <p key={i} className="text-1 text-gray-11">
+                            {error.line > 0 ? `Line ${error.line}: ` : ''}{error.message}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+
+                    {result.results.length > 0 && (
+                      <Table data-testid="table-screening-results">
+                        <TableHeader>
+                          <TableRow>
+                            <SortableHead sortKey="rank" label="#" />
+                            <SortableHead sortKey="name" label="Name" />
+                            <TableHead>Birth Date</TableHead>
+                            <SortableHead sortKey="overallScore" label="Overall" />
+                            <TableHead>Level</TableHead>
+                            {dimensionKeys.map(key => (
+                              <SortableHead key={key} sortKey={key} label={dimensionLabels[key]} />
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sortedRows.map(row => (
+                            <TableRow key={row.line} data-testid={`row-screening-${row.line}`}>
+                              <TableCell>{row.rank}</TableCell>
+                              <TableCell className="font-medium">{row.name}</TableCell>
+                              <TableCell className="text-gray-11">{row.birthDate}</TableCell>
+                              <TableCell className={getScoreClass(row.overallScore)}>{row.overallScore}%</TableCell>
+                              <TableCell><Badge variant="outline" size="sm">{row.level}</Badge></TableCell>
+                              {dimensionKeys.map(key => (
+                                <TableCell key={key} className={getScoreClass(row.dimensions[key].score)} title={row.dimensions[key].level}>
+                                  {row.dimensions[key].score}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <UpgradeModal open={showUpgradeModal} onOpenChange={setShowUpgradeModal} />
+    </>
+  );
+}
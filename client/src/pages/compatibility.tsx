@@ -7,13 +7,14 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { NavLink } from '@/components/NavLink';
-import { Heart, Sparkles, Lock, Crown } from 'lucide-react';
+import { Heart, Sparkles, Lock, Crown, Users, FileSpreadsheet, History, UserRound } from 'lucide-react';
 import { UpgradeModal } from '@/components/UpgradeModal';
 
 interface UserProfile {
   name: string;
   fullName: string;
   birthDate: Date;
+  calculationProfile?: string;
 }
 
 interface MeApiResponse {
@@ -21,6 +22,7 @@ interface MeApiResponse {
     odisId: string;
     fullName: string;
     birthDate: string;
+    calculationProfile?: string;
     isPro?: boolean;
   };
   needsOnboarding?: boolean;
@@ -50,6 +52,7 @@ export default function Compatibility() {
     fullName: meData.user.fullName,
     name: meData.user.fullName.split(' ')[0],
     birthDate: new Date(meData.user.birthDate),
+    calculationProfile: meData.user.calculationProfile,
   } : null;
 
   if (isLoading) {
@@ -111,6 +114,40 @@ export default function Compatibility() {
             <p className="text-gray-11 text-3 max-w-2xl mx-auto">
               Discover how your energy aligns with the people in your life.
             </p>
+            <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 mt-4">
+              <NavLink
+                to="/compatibility/group"
+                className="inline-flex items-center gap-1 text-2 text-amber-11 hover:underline"
+                data-testid="link-group-compatibility"
+              >
+                <Users className="w-4 h-4" />
+                Compare a whole team
+              </NavLink>
+              <NavLink
+                to="/compatibility/screening"
+                className="inline-flex items-center gap-1 text-2 text-amber-11 hover:underline"
+                data-testid="link-compatibility-screening"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Screen a list of candidates
+              </NavLink>
+              <NavLink
+                to="/compatibility/readings"
+                className="inline-flex items-center gap-1 text-2 text-amber-11 hover:underline"
+                data-testid="link-compatibility-readings"
+              >
+                <History className="w-4 h-4" />
+                My Readings
+              </NavLink>
+              <NavLink
+                to="/circle"
+                className="inline-flex items-center gap-1 text-2 text-amber-11 hover:underline"
+                data-testid="link-circle"
+              >
+                <UserRound className="w-4 h-4" />
+                My Circle
+              </NavLink>
+            </div>
           </div>
 
           {isPro ? (
@@ -118,6 +155,7 @@ export default function Compatibility() {
               userBirthDate={profile.birthDate} 
               userName={profile.name}
               userFullName={profile.fullName}
+              calculationProfile={profile.calculationProfile}
             />
           ) : (
             <Card variant="frosted" className="text-center" data-testid="card-compatibility-locked">
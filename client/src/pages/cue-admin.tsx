@@ -0,0 +1,491 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { MAX_CUE_IMPORT_ROWS, cueVerificationLabels, type CueImportFormat, type CueImportResult } from '@shared/cueCatalog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useWhopContext } from '@/context/WhopContext';
+import { useToast } from '@/hooks/use-toast';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { CueEditorForm, getApiErrorMessage, type CatalogCue } from '@/components/CueEditorForm';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+  AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft, Search, Plus, Pencil, Trash2, GitMerge, Upload, Eye, Loader2,
+  AlertTriangle, ShieldAlert, FileSpreadsheet, ChevronLeft, ChevronRight,
+} from 'lucide-react';
+
+interface CuesResponse {
+  items: CatalogCue[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const pageSize = 20;
+
+// Cue lists, details and stats all live under /api/cues*
+function invalidateCueQueries() {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/cues') });
+}
+
+export default function CueAdminPage() {
+  const { companyId } = useWhopContext();
+  const { toast } = useToast();
+
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<CatalogCue | null>(null);
+  const [merging, setMerging] = useState<CatalogCue | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<CatalogCue | null>(null);
+  const [file, setFile] = useState<{ name: string; content: string; format: CueImportFormat } | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const { data: access, isLoading: isLoadingAccess } = useQuery<{ canManage: boolean }>({
+    queryKey: [`/api/companies/${companyId}/cues/access`],
+    enabled: !!companyId,
+  });
+  const isAdmin = access?.canManage ?? false;
+
+  const params = new URLSearchParams({ page: page.toString(), pageSize: pageSize.toString() });
+  if (debouncedSearch) params.set('q', debouncedSearch);
+  const { data: cuesData, isLoading, isFetching } = useQuery<CuesResponse>({
+    queryKey: [`/api/cues?${params.toString()}`],
+    enabled: isAdmin,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/companies/${companyId}/cues/${id}`);
+    },
+    onSuccess: () => {
+      setPendingDelete(null);
+      invalidateCueQueries();
+      toast({ title: 'Cue deleted' });
+    },
+    onError: (error) => {
+      toast({ title: 'Delete failed', description: getApiErrorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceId }: { targetId: number; sourceId: number }) => {
+      const response = await apiRequest('POST', `/api/companies/${companyId}/cues/${targetId}/merge`, { sourceId });
+      return await response.json() as { cue: CatalogCue; removedId: number };
+    },
+    onSuccess: (result) => {
+      setMerging(null);
+      invalidateCueQueries();
+      toast({ title: 'Cues merged', description: `Kept ${result.cue.name} (#${result.cue.id}) and removed #${result.removedId}.` });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest('POST', `/api/companies/${companyId}/cues/import`, {
+        format: file?.format,
+        content: file?.content,
+        dryRun,
+      });
+      return await response.json() as CueImportResult;
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        invalidateCueQueries();
+        toast({ title: 'Import complete', description: `${result.inserted} cues added.` });
+      }
+    },
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    importMutation.reset();
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const content = await selected.text();
+    const isJson = selected.name.toLowerCase().endsWith('.json') || content.trimStart().startsWith('[');
+    setFile({ name: selected.name, content, format: isJson ? 'json' : 'csv' });
+  };
+
+  const openEditor = (cue: CatalogCue | null) => {
+    setEditing(cue);
+    setEditorOpen(true);
+  };
+
+  const openMerge = (cue: CatalogCue) => {
+    mergeMutation.reset();
+    setMergeTargetId('');
+    setMerging(cue);
+  };
+
+  const importResult = importMutation.data;
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-cue-admin">
+        <div className="container mx-auto max-w-6xl space-y-8">
+          <div className="text-center">
+            <NavLink to="/cues" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              Back to Cues
+            </NavLink>
+            <h1 className="text-6 md:text-7 font-semibold mb-4">
+              Manage <span className="gradient-text">Cues</span>
+            </h1>
+            <p className="text-gray-11 text-3 max-w-2xl mx-auto">
+              Add, correct, merge and remove catalog entries, or import them in bulk.
+            </p>
+          </div>
+
+          {!companyId || (!isLoadingAccess && !isAdmin) ? (
+            <Card variant="frosted" className="text-center" data-testid="card-cue-admin-denied">
+              <CardContent className="py-12">
+                <ShieldAlert className="w-8 h-8 text-gray-10 mx-auto mb-4" />
+                <p className="text-gray-11 text-2">The cue catalog is shared by every community, so only admins of the app owner's company can manage it from that company's dashboard.</p>
+              </CardContent>
+            </Card>
+          ) : isLoadingAccess ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : (
+            <Tabs defaultValue="catalog">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="catalog" data-testid="tab-cue-catalog">Catalog</TabsTrigger>
+                <TabsTrigger value="import" data-testid="tab-cue-import">Bulk import</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="catalog">
+                <Card variant="frosted">
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-10" />
+                        <Input
+                          variant="frosted"
+                          placeholder="Search by name, category or description"
+                          className="pl-10"
+                          value={search}
+                          onChange={(e) => setSearch(e.target.value)}
+                          data-testid="input-admin-cue-search"
+                        />
+                      </div>
+                      <Button variant="gold" onClick={() => openEditor(null)} data-testid="button-add-cue">
+                        <Plus className="w-4 h-4" />
+                        Add cue
+                      </Button>
+                    </div>
+
+                    {isLoading ? (
+                      <div className="animate-pulse text-gray-11 text-center py-8">Loading...</div>
+                    ) : !cuesData || cuesData.items.length === 0 ? (
+                      <p className="text-gray-11 text-2 text-center py-8">No cues match this search.</p>
+                    ) : (
+                      <>
+                        <Table data-testid="table-admin-cues">
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>#</TableHead>
+                              <TableHead>Name</TableHead>
+                              <TableHead>Type</TableHead>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Category</TableHead>
+                              <TableHead>Country</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {cuesData.items.map(cue => (
+                              <TableRow key={cue.id} data-testid={`row-admin-cue-${cue.id}`}>
+                                <TableCell className="text-gray-10">{cue.id}</TableCell>
+                                <TableCell className="font-medium">{cue.name}</TableCell>
+                                <TableCell><Badge variant="outline" size="sm">{cue.type}</Badge></TableCell>
+                                <TableCell className="text-gray-11">{cue.foundedOrBirth}</TableCell>
+                                <TableCell className="text-gray-11">{cue.category ?? '—'}</TableCell>
+                                <TableCell className="text-gray-11">{cue.country ?? '—'}</TableCell>
+                                <TableCell>
+                                  <Badge
+                                    variant="outline"
+                                    size="sm"
+                                    className={cue.provenance.status === 'verified' ? 'bg-green-a3 border-green-a6 text-green-11' : 'bg-amber-a3 border-amber-a6 text-amber-11'}
+                                    title={cue.provenance.source}
+                                  >
+                                    {cueVerificationLabels[cue.provenance.status]}
+                                  </Badge>
+                                </TableCell>
+                                <TableCell className="text-right whitespace-nowrap">
+                                  <Button variant="ghost" size="icon" onClick={() => openEditor(cue)} title="Edit" data-testid={`button-edit-cue-${cue.id}`}>
+                                    <Pencil className="w-4 h-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="icon" onClick={() => openMerge(cue)} title="Merge into another cue" data-testid={`button-merge-cue-${cue.id}`}>
+                                    <GitMerge className="w-4 h-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="icon" onClick={() => setPendingDelete(cue)} title="Delete" data-testid={`button-delete-cue-${cue.id}`}>
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+
+                        <div className="flex items-center justify-between text-2 text-gray-11">
+                          <span>{cuesData.total.toLocaleString()} cues</span>
+                          <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || isFetching} data-testid="button-admin-prev-page">
+                              <ChevronLeft className="w-4 h-4" />
+                            </Button>
+                            <span>Page {cuesData.page} of {cuesData.totalPages}</span>
+                            <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page >= cuesData.totalPages || isFetching} data-testid="button-admin-next-page">
+                              <ChevronRight className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="import" className="space-y-4">
+                <Card variant="frosted" data-testid="card-cue-import">
+                  <CardHeader>
+                    <CardTitle className="text-4 flex items-center gap-2">
+                      <FileSpreadsheet className="w-5 h-5 text-amber-9" />
+                      Import Cues
+                    </CardTitle>
+                    <CardDescription>
+                      CSV with name, type, foundedOrBirth, category, country and description columns, or a JSON array of the same fields. Optional source, status (verified, estimated or generated) and datePrecision (day or year) columns record provenance; rows without them import as estimates. Up to {MAX_CUE_IMPORT_ROWS.toLocaleString()} rows; preview first to check errors and duplicates.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="cue-import-file" className="text-2">File</Label>
+                      <Input
+                        id="cue-import-file"
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                        data-testid="input-cue-import-file"
+                      />
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => importMutation.mutate(true)}
+                        disabled={!file || importMutation.isPending}
+                        data-testid="button-preview-import"
+                      >
+                        <Eye className="w-4 h-4" />
+                        Preview
+                      </Button>
+                      <Button
+                        variant="gold"
+                        className="flex-1"
+                        onClick={() => importMutation.mutate(false)}
+                        disabled={!file || !importResult?.dryRun || importResult.rows.length === 0 || importMutation.isPending}
+                        data-testid="button-run-import"
+                      >
+                        {importMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Upload className="w-4 h-4" /> Import {importResult?.dryRun ? importResult.rows.length : ''} cues</>}
+                      </Button>
+                    </div>
+
+                    {importMutation.isError && (
+                      <div className="text-red-9 text-2 flex items-center gap-2" data-testid="error-cue-import">
+                        <AlertTriangle className="w-4 h-4" />
+                        {getApiErrorMessage(importMutation.error)}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {importResult && (
+                  <Card variant="frosted" data-testid="card-cue-import-result">
+                    <CardHeader>
+                      <CardTitle className="text-4">{importResult.dryRun ? 'Preview' : 'Imported'}</CardTitle>
+                      <CardDescription>
+                        {importResult.dryRun
+                          ? `${importResult.rows.length} of ${importResult.totalRows} rows would be added. Nothing has been saved yet.`
+                          : `${importResult.inserted} of ${importResult.totalRows} rows added.`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline" size="sm" className="bg-green-a3 border-green-a6 text-green-11">{importResult.rows.length} new</Badge>
+                        <Badge variant="outline" size="sm" className="bg-amber-a3 border-amber-a6 text-amber-11">{importResult.duplicates.length} duplicates</Badge>
+                        <Badge variant="outline" size="sm" className="bg-red-a3 border-red-a6 text-red-11">{importResult.errors.length} errors</Badge>
+                        <Badge variant="outline" size="sm">{importResult.warnings.length} warnings</Badge>
+                      </div>
+
+                      {importResult.errors.length > 0 && (
+                        <div className="p-3 rounded-lg bg-red-a2 border border-red-a4 space-y-1" data-testid="list-cue-import-errors">
+                          <p className="text-2 font-medium text-red-11">Rejected rows</p>
+                          {importResult.errors.map((error, i) => (
+                            <p key={i} className="text-1 text-gray-11">
+                              {error.line > 0 ? `Line ${error.line}: ` : ''}{error.message}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      {importResult.duplicates.length > 0 && (
+                        <div className="p-3 rounded-lg bg-amber-a2 border border-amber-a4 space-y-1" data-testid="list-cue-import-duplicates">
+                          <p className="text-2 font-medium text-amber-11">Skipped as duplicates (same name and date)</p>
+                          {importResult.duplicates.map(duplicate => (
+                            <p key={duplicate.line} className="text-1 text-gray-11">
+                              Line {duplicate.line}: {duplicate.name} ({duplicate.foundedOrBirth}) matches{' '}
+                              {duplicate.existingId !== undefined ? `cue #${duplicate.existingId}` : `line ${duplicate.duplicateOfLine}`}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      {importResult.warnings.length > 0 && (
+                        <div className="p-3 rounded-lg bg-gray-a2 border border-gray-a4 space-y-1" data-testid="list-cue-import-warnings">
+                          <p className="text-2 font-medium text-gray-12">Warnings</p>
+                          {importResult.warnings.map((warning, i) => (
+                            <p key={i} className="text-1 text-gray-11">Line {warning.line}: {warning.message}</p>
+                          ))}
+                        </div>
+                      )}
+
+                      {importResult.dryRun && importResult.rows.length > 0 && (
+                        <Table data-testid="table-cue-import-preview">
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Line</TableHead>
+                              <TableHead>Name</TableHead>
+                              <TableHead>Type</TableHead>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Category</TableHead>
+                              <TableHead>Country</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {importResult.rows.map(row => (
+                              <TableRow key={row.line}>
+                                <TableCell className="text-gray-10">{row.line}</TableCell>
+                                <TableCell className="font-medium">{row.cue.name}</TableCell>
+                                <TableCell>{row.cue.type}</TableCell>
+                                <TableCell className="text-gray-11">{row.cue.foundedOrBirth}</TableCell>
+                                <TableCell className="text-gray-11">{row.cue.category ?? '—'}</TableCell>
+                                <TableCell className="text-gray-11">{row.cue.country ?? '—'}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </div>
+      </main>
+
+      {companyId && (
+        <CueEditorForm
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          companyId={companyId}
+          cue={editing}
+          onSaved={(cue, warnings) => {
+            invalidateCueQueries();
+            toast({
+              title: editing ? 'Cue updated' : 'Cue added',
+              description: warnings.length > 0 ? warnings.join('. ') : `${cue.name} (#${cue.id})`,
+            });
+          }}
+        />
+      )}
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent className="max-w-md" data-testid="dialog-merge-cue">
+          <DialogHeader>
+            <DialogTitle>Merge {merging?.name}</DialogTitle>
+            <DialogDescription>
+              Enter the id of the cue to keep. Its empty category, country or description are filled from #{merging?.id}, which is then deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (merging) mergeMutation.mutate({ targetId: parseInt(mergeTargetId), sourceId: merging.id });
+            }}
+          >
+            <Input
+              variant="frosted"
+              inputMode="numeric"
+              placeholder="Cue id to keep"
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value.replace(/\D/g, ''))}
+              data-testid="input-merge-target"
+            />
+            {mergeMutation.isError && (
+              <div className="text-2 text-red-11 flex items-center gap-2" data-testid="error-merge-cue">
+                <AlertTriangle className="w-4 h-4" />
+                {getApiErrorMessage(mergeMutation.error)}
+              </div>
+            )}
+            <Button
+              type="submit"
+              variant="gold"
+              className="w-full"
+              disabled={!mergeTargetId || mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              {mergeMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Merge'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The cue is removed from the catalog for everyone. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              data-testid="button-confirm-delete-cue"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
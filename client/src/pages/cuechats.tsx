@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { circleRelationshipLabels, type CircleContact } from '@shared/circle';
 import { Navigation } from '@/components/Navigation';
 import { StarField } from '@/components/StarField';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -7,7 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { UpgradeModal } from '@/components/UpgradeModal';
-import { MessageCircle, Send, Bot, User, AlertCircle, RotateCcw, Sparkles, Plus, Play, Lock, Crown } from 'lucide-react';
+import { MessageCircle, Send, Bot, User, AlertCircle, RotateCcw, Sparkles, Plus, Play, Lock, Crown, Check } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface ChatMessage {
@@ -19,6 +20,7 @@ interface ChatMessage {
 interface ChatSession {
   systemContext: string;
   firstName: string;
+  circleNames: string[];
 }
 
 const exampleMessages: ChatMessage[] = [
@@ -187,6 +189,17 @@ export default function CueChats() {
   });
   const isPro = profileData?.isPro ?? false;
 
+  // People from the user's circle the assistant should know about this session
+  const { data: circleData } = useQuery<{ contacts: CircleContact[] }>({
+    queryKey: ['/api/circle'],
+  });
+  const circle = circleData?.contacts ?? [];
+  const [selectedContactIds, setSelectedContactIds] = useState<string[]>([]);
+
+  const toggleContact = (id: string) => {
+    setSelectedContactIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -217,7 +230,7 @@ export default function CueChats() {
       const response = await fetch('/api/chat/init', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ odisId }),
+        body: JSON.stringify({ odisId, contactIds: selectedContactIds }),
         credentials: 'include',
       });
 
@@ -227,6 +240,7 @@ export default function CueChats() {
         setChatSession({
           systemContext: data.systemContext,
           firstName: data.firstName,
+          circleNames: circle.filter(c => selectedContactIds.includes(c.id)).map(c => c.name.split(' ')[0]),
         });
         setShowPreview(false);
         setTimeout(() => inputRef.current?.focus(), 100);
@@ -342,7 +356,9 @@ export default function CueChats() {
                   <div>
                     <CardTitle className="text-4">CueChat AI</CardTitle>
                     <CardDescription className="text-2 text-gray-11">
-                      {chatSession ? `Chatting with ${chatSession.firstName}` : 'Powered by your energy profile'}
+                      {chatSession
+                        ? `Chatting with ${chatSession.firstName}${chatSession.circleNames.length > 0 ? ` · knows ${chatSession.circleNames.join(', ')}` : ''}`
+                        : 'Powered by your energy profile'}
                     </CardDescription>
                   </div>
                 </div>
@@ -383,6 +399,30 @@ export default function CueChats() {
                       <ChatBubble key={i} msg={msg} index={i} isExample />
                     ))}
                     
+                    {isPro && circle.length > 0 && (
+                      <div className="pt-4 text-center space-y-2" data-testid="circle-selection">
+                        <p className="text-1 text-gray-11">Bring people from your circle into the conversation</p>
+                        <div className="flex flex-wrap justify-center gap-2">
+                          {circle.map(contact => {
+                            const selected = selectedContactIds.includes(contact.id);
+                            return (
+                              <Button
+                                key={contact.id}
+                                variant={selected ? 'gold' : 'outline'}
+                                size="sm"
+                                onClick={() => toggleContact(contact.id)}
+                                title={circleRelationshipLabels[contact.relationship]}
+                                data-testid={`button-circle-${contact.id}`}
+                              >
+                                {selected && <Check className="w-3 h-3" />}
+                                {contact.name}
+                              </Button>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex justify-center pt-4">
                       <Button
                         variant="gold"
@@ -6,10 +6,15 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { UpgradeModal } from '@/components/UpgradeModal';
+import { NavLink } from '@/components/NavLink';
+import { CueFacetSidebar, type CueFacet, type CueFacetCounts, type CueFacetSelection } from '@/components/CueFacetSidebar';
+import { useWhopContext } from '@/context/WhopContext';
+import { calculateWesternZodiac } from '@/lib/numerology';
+import { westernAspectLabels, type SignAspectAnalysis } from '@shared/westernAspects';
+import { cueVerificationLabels, cueDatePrecisionLabels, YEAR_ONLY_NOTE, type CueProvenance } from '@shared/cueCatalog';
 import { 
   Database, 
   Search, 
@@ -23,7 +28,11 @@ import {
   Globe,
   Loader2,
   Crown,
-  Lock
+  Lock,
+  Settings,
+  ShieldCheck,
+  AlertTriangle,
+  SlidersHorizontal
 } from 'lucide-react';
 
 // Western Zodiac Images
@@ -94,6 +103,7 @@ interface Cue {
   description?: string;
   lifePathNumber: number;
   energySignature: string;
+  provenance: CueProvenance;
 }
 
 interface EnhancedCue extends Cue {
@@ -117,6 +127,7 @@ interface CuesResponse {
   pageSize: number;
   totalPages: number;
   hasMore: boolean;
+  facets: CueFacetCounts;
 }
 
 interface CuesStats {
@@ -159,6 +170,14 @@ function formatDate(dateStr: string): string {
   }
 }
 
+// Year-only cues are stored as January 1st; don't present that as a real day
+function formatCueDate(cue: Pick<Cue, 'foundedOrBirth' | 'provenance'>): string {
+  if (cue.provenance.datePrecision === 'year') {
+    return cue.foundedOrBirth.replace(/^(-?\d+)-.*$/, '$1');
+  }
+  return formatDate(cue.foundedOrBirth);
+}
+
 function CueCardSkeleton() {
   return (
     <Card variant="glass">
@@ -180,25 +199,29 @@ const FEATURED_CUE_NAMES = ['Apple Inc.', 'Microsoft', 'Google', 'Amazon', 'Meta
 
 export default function Cues() {
   const [searchQuery, setSearchQuery] = useState('');
-  const [typeFilter, setTypeFilter] = useState<string>('');
-  const [lifePathFilter, setLifePathFilter] = useState<string>('');
+  const [facetSelection, setFacetSelection] = useState<CueFacetSelection>({});
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [showFacets, setShowFacets] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedCueId, setSelectedCueId] = useState<number | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const pageSize = 24;
+  const { companyId } = useWhopContext();
 
   const savedOdisId = localStorage.getItem('gg33-odis-id');
-  const { data: profileData } = useQuery<{ isPro?: boolean }>({
+  const { data: profileData } = useQuery<{ isPro?: boolean; user?: { birthDate: string } }>({
     queryKey: ['/api/profile', savedOdisId],
     enabled: !!savedOdisId,
   });
   const isPro = profileData?.isPro ?? false;
+  const userSign = profileData?.user ? calculateWesternZodiac(new Date(profileData.user.birthDate)).sign : null;
 
   const debouncedSearch = useDebounce(searchQuery, 300);
 
-  const { data: selectedCueData, isLoading: isLoadingCue } = useQuery<{ cue: EnhancedCue }>({
-    queryKey: [`/api/cues/${selectedCueId}`],
+  // With a saved profile the cue comes back with how the user's sign aspects it
+  const { data: selectedCueData, isLoading: isLoadingCue } = useQuery<{ cue: EnhancedCue; aspect: SignAspectAnalysis | null }>({
+    queryKey: [userSign ? `/api/cues/${selectedCueId}?sign=${userSign}` : `/api/cues/${selectedCueId}`],
     enabled: selectedCueId !== null,
   });
 
@@ -215,22 +238,25 @@ export default function Cues() {
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearch, typeFilter, lifePathFilter]);
+  }, [debouncedSearch, facetSelection, verifiedOnly]);
 
   // Build query URL
   const cuesUrl = useMemo(() => {
     const params = new URLSearchParams();
     if (debouncedSearch) params.set('q', debouncedSearch);
-    if (typeFilter) params.set('type', typeFilter);
-    if (lifePathFilter) params.set('lifePath', lifePathFilter);
+    Object.entries(facetSelection).forEach(([facet, values]) => {
+      if (values.length > 0) params.set(facet, values.join(','));
+    });
+    if (verifiedOnly) params.set('verified', 'true');
     params.set('page', currentPage.toString());
     params.set('pageSize', pageSize.toString());
     return `/api/cues?${params.toString()}`;
-  }, [debouncedSearch, typeFilter, lifePathFilter, currentPage]);
+  }, [debouncedSearch, facetSelection, verifiedOnly, currentPage]);
 
-  // Fetch cues
+  // Fetch cues; keep the last facet counts on screen while the next page loads
   const { data: cuesData, isLoading, isError, isFetching } = useQuery<CuesResponse>({
     queryKey: [cuesUrl],
+    placeholderData: (previous) => previous,
   });
 
   // Fetch stats
@@ -238,21 +264,21 @@ export default function Cues() {
     queryKey: ['/api/cues-stats'],
   });
 
-  const handleTypeFilter = useCallback((type: string) => {
-    setTypeFilter(prev => prev === type ? '' : type);
+  const handleFacetToggle = useCallback((facet: CueFacet, value: string) => {
+    setFacetSelection(prev => {
+      const current = prev[facet] ?? [];
+      const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+      return { ...prev, [facet]: next };
+    });
   }, []);
 
-  const handleLifePathChange = useCallback((value: string) => {
-    setLifePathFilter(value === 'all' ? '' : value);
-  }, []);
+  const hasFacetSelection = Object.values(facetSelection).some(values => values.length > 0);
 
   const goToPage = useCallback((page: number) => {
     setCurrentPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
-  const lifePathNumbers = [1, 2, 3, 4, 5, 6, 7, 8, 9, 11, 22, 33];
-
   return (
     <>
       <StarField />
@@ -273,6 +299,13 @@ export default function Cues() {
               Explore our database of brands, cities, and notable people with their calculated energy signatures.
             </p>
             
+            {companyId && (
+              <NavLink to="/cues/manage" className="inline-flex items-center gap-1 text-2 text-amber-11 hover:text-amber-12 mt-4" data-testid="link-manage-cues">
+                <Settings className="w-4 h-4" />
+                Manage cues
+              </NavLink>
+            )}
+
             {/* Stats badges */}
             {statsData && (
               <div className="flex flex-wrap justify-center gap-3 mt-6">
@@ -295,75 +328,47 @@ export default function Cues() {
           {/* Search and Filters */}
           <Card variant="frosted">
             <CardContent className="p-6">
-              <div className="flex flex-col gap-4">
-                <div className="flex flex-col md:flex-row gap-4">
-                  <div className="relative flex-1">
-                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-10" />
-                    <Input
-                      variant="frosted"
-                      placeholder={isPro ? "Search brands, cities, people..." : "Upgrade to Pro to search"}
-                      className="pl-10"
-                      value={searchQuery}
-                      onChange={(e) => isPro && setSearchQuery(e.target.value)}
-                      disabled={!isPro}
-                      data-testid="input-search-cues"
-                    />
-                  </div>
-                  <Select value={lifePathFilter || 'all'} onValueChange={handleLifePathChange} disabled={!isPro}>
-                    <SelectTrigger className="w-full md:w-[180px]" data-testid="select-life-path" disabled={!isPro}>
-                      <SelectValue placeholder="Life Path #" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Life Paths</SelectItem>
-                      {lifePathNumbers.map(num => (
-                        <SelectItem key={num} value={num.toString()}>
-                          Life Path {num}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex gap-2 flex-wrap">
-                  <Button 
-                    variant={typeFilter === 'Brand' ? 'gold' : 'outline'} 
-                    size="sm"
-                    onClick={() => isPro && handleTypeFilter('Brand')}
+              <div className="flex flex-col md:flex-row gap-4">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-10" />
+                  <Input
+                    variant="frosted"
+                    placeholder={isPro ? "Search brands, cities, people..." : "Upgrade to Pro to search"}
+                    className="pl-10"
+                    value={searchQuery}
+                    onChange={(e) => isPro && setSearchQuery(e.target.value)}
                     disabled={!isPro}
-                    data-testid="button-filter-brands"
-                  >
-                    <Building2 className="w-4 h-4 mr-1" />
-                    Brands
-                    {statsData && <span className="ml-1 opacity-60">({statsData.byType.Brand})</span>}
-                  </Button>
+                    data-testid="input-search-cues"
+                  />
+                </div>
+                <div className="flex gap-2 flex-wrap items-center">
                   <Button 
-                    variant={typeFilter === 'Location' ? 'gold' : 'outline'} 
+                    variant="outline" 
                     size="sm"
-                    onClick={() => isPro && handleTypeFilter('Location')}
-                    disabled={!isPro}
-                    data-testid="button-filter-locations"
+                    className="lg:hidden"
+                    onClick={() => setShowFacets(prev => !prev)}
+                    data-testid="button-toggle-facets"
                   >
-                    <MapPin className="w-4 h-4 mr-1" />
-                    Locations
-                    {statsData && <span className="ml-1 opacity-60">({statsData.byType.Location})</span>}
+                    <SlidersHorizontal className="w-4 h-4 mr-1" />
+                    Filters
                   </Button>
                   <Button 
-                    variant={typeFilter === 'Person' ? 'gold' : 'outline'} 
+                    variant={verifiedOnly ? 'gold' : 'outline'} 
                     size="sm"
-                    onClick={() => isPro && handleTypeFilter('Person')}
+                    onClick={() => isPro && setVerifiedOnly(prev => !prev)}
                     disabled={!isPro}
-                    data-testid="button-filter-people"
+                    data-testid="button-filter-verified"
                   >
-                    <User className="w-4 h-4 mr-1" />
-                    People
-                    {statsData && <span className="ml-1 opacity-60">({statsData.byType.Person})</span>}
+                    <ShieldCheck className="w-4 h-4 mr-1" />
+                    Verified only
                   </Button>
-                  {(typeFilter || lifePathFilter || searchQuery) && (
+                  {(hasFacetSelection || verifiedOnly || searchQuery) && (
                     <Button 
                       variant="ghost" 
                       size="sm"
                       onClick={() => {
-                        setTypeFilter('');
-                        setLifePathFilter('');
+                        setFacetSelection({});
+                        setVerifiedOnly(false);
                         setSearchQuery('');
                       }}
                       data-testid="button-clear-filters"
@@ -376,241 +381,267 @@ export default function Cues() {
             </CardContent>
           </Card>
 
-          {/* Results Info */}
-          {cuesData && (
-            <div className="flex items-center justify-between text-2 text-gray-11">
-              <span data-testid="text-results-count">
-                Showing {((cuesData.page - 1) * cuesData.pageSize) + 1}-
-                {Math.min(cuesData.page * cuesData.pageSize, cuesData.total)} of {cuesData.total.toLocaleString()} results
-              </span>
-              {isFetching && !isLoading && (
-                <Loader2 className="w-4 h-4 animate-spin text-amber-9" />
+          <div className="grid lg:grid-cols-[240px_1fr] gap-6 items-start">
+            {/* Facet sidebar */}
+            <aside className={`${showFacets ? 'block' : 'hidden'} lg:block lg:sticky lg:top-24 lg:max-h-[calc(100vh-7rem)] lg:overflow-y-auto`}>
+              <CueFacetSidebar
+                facets={cuesData?.facets}
+                selection={facetSelection}
+                onToggle={handleFacetToggle}
+                disabled={!isPro}
+              />
+            </aside>
+
+            <div className="space-y-8 min-w-0">
+              {/* Results Info */}
+              {cuesData && (
+                <div className="flex items-center justify-between text-2 text-gray-11">
+                  <span data-testid="text-results-count">
+                    Showing {((cuesData.page - 1) * cuesData.pageSize) + 1}-
+                    {Math.min(cuesData.page * cuesData.pageSize, cuesData.total)} of {cuesData.total.toLocaleString()} results
+                  </span>
+                  {isFetching && !isLoading && (
+                    <Loader2 className="w-4 h-4 animate-spin text-amber-9" />
+                  )}
+                </div>
               )}
-            </div>
-          )}
-
-          {/* Loading State */}
-          {isLoading && (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {Array.from({ length: 12 }).map((_, i) => (
-                <CueCardSkeleton key={i} />
-              ))}
-            </div>
-          )}
-
-          {/* Error State */}
-          {isError && (
-            <Card variant="glass" className="text-center py-12">
-              <CardContent>
-                <p className="text-red-400">Failed to load cues. Please try again.</p>
-                <Button 
-                  variant="outline" 
-                  className="mt-4"
-                  onClick={() => window.location.reload()}
-                >
-                  Retry
-                </Button>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Empty State */}
-          {!isLoading && cuesData?.items.length === 0 && (
-            <Card variant="glass" className="text-center py-12">
-              <CardContent>
-                <Search className="w-12 h-12 mx-auto text-gray-10 mb-4" />
-                <h3 className="text-4 font-semibold mb-2">No Results Found</h3>
-                <p className="text-gray-11 text-2">
-                  Try adjusting your search or filters.
-                </p>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Results Grid */}
-          {!isLoading && cuesData && cuesData.items.length > 0 && (
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {(isPro ? cuesData.items : cuesData.items.filter(cue => FEATURED_CUE_NAMES.includes(cue.name)).slice(0, 6)).map((cue) => {
-                const TypeIcon = getTypeIcon(cue.type);
-                return (
-                  <Card 
-                    key={cue.id} 
-                    variant="glass" 
-                    className="hover:border-amber-6/30 transition-colors cursor-pointer"
-                    onClick={() => handleCueClick(cue.id)}
-                    data-testid={`card-cue-${cue.id}`}
-                  >
-                    <CardHeader className="pb-2">
-                      <div className="flex items-start justify-between gap-2">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <TypeIcon className="w-4 h-4 text-gray-10 shrink-0" />
-                          <CardTitle className="text-4 truncate">{cue.name}</CardTitle>
-                        </div>
-                        <Badge variant="secondary" size="sm" className="shrink-0">
-                          LP {cue.lifePathNumber}
-                        </Badge>
-                      </div>
-                      <div className="flex flex-wrap items-center gap-2 mt-1">
-                        <Badge variant="outline" size="sm" className="text-1">
-                          {cue.type}
-                        </Badge>
-                        {cue.category && (
-                          <Badge variant="outline" size="sm" className="text-1">
-                            {cue.category}
-                          </Badge>
-                        )}
-                      </div>
-                    </CardHeader>
-                    <CardContent className="space-y-2">
-                      <div className="flex items-center gap-2 text-2 text-amber-11 font-medium">
-                        <Sparkles className="w-3 h-3" />
-                        <span>{cue.energySignature}</span>
-                      </div>
-                      <div className="flex flex-wrap items-center gap-3 text-1 text-gray-11">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-3 h-3" />
-                          <span>{formatDate(cue.foundedOrBirth)}</span>
-                        </div>
-                        {cue.country && (
-                          <div className="flex items-center gap-1">
-                            <Globe className="w-3 h-3" />
-                            <span>{cue.country}</span>
-                          </div>
-                        )}
-                      </div>
-                      {cue.description && (
-                        <p className="text-1 text-gray-11 line-clamp-2">{cue.description}</p>
-                      )}
-                    </CardContent>
-                  </Card>
-                );
-              })}
-            </div>
-          )}
-
-          {/* Upgrade CTA for non-Pro users */}
-          {!isPro && cuesData && cuesData.items.length > 0 && (
-            <Card variant="frosted" className="text-center py-8">
-              <CardContent className="space-y-4">
-                <div className="w-16 h-16 mx-auto rounded-xl bg-gradient-to-br from-amber-8 to-amber-9 flex items-center justify-center mb-4 shadow-lg shadow-amber-9/30">
-                  <Lock className="w-8 h-8 text-white" />
+
+              {/* Loading State */}
+              {isLoading && (
+                <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {Array.from({ length: 12 }).map((_, i) => (
+                    <CueCardSkeleton key={i} />
+                  ))}
                 </div>
-                <div className="flex items-center justify-center gap-2 mb-2">
-                  <Crown className="w-5 h-5 text-amber-9" />
-                  <Badge variant="secondary" size="sm">Pro Feature</Badge>
+              )}
+
+              {/* Error State */}
+              {isError && (
+                <Card variant="glass" className="text-center py-12">
+                  <CardContent>
+                    <p className="text-red-400">Failed to load cues. Please try again.</p>
+                    <Button 
+                      variant="outline" 
+                      className="mt-4"
+                      onClick={() => window.location.reload()}
+                    >
+                      Retry
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Empty State */}
+              {!isLoading && cuesData?.items.length === 0 && (
+                <Card variant="glass" className="text-center py-12">
+                  <CardContent>
+                    <Search className="w-12 h-12 mx-auto text-gray-10 mb-4" />
+                    <h3 className="text-4 font-semibold mb-2">No Results Found</h3>
+                    <p className="text-gray-11 text-2">
+                      Try adjusting your search or filters.
+                    </p>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Results Grid */}
+              {!isLoading && cuesData && cuesData.items.length > 0 && (
+                <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {(isPro ? cuesData.items : cuesData.items.filter(cue => FEATURED_CUE_NAMES.includes(cue.name)).slice(0, 6)).map((cue) => {
+                    const TypeIcon = getTypeIcon(cue.type);
+                    return (
+                      <Card 
+                        key={cue.id} 
+                        variant="glass" 
+                        className="hover:border-amber-6/30 transition-colors cursor-pointer"
+                        onClick={() => handleCueClick(cue.id)}
+                        data-testid={`card-cue-${cue.id}`}
+                      >
+                        <CardHeader className="pb-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <TypeIcon className="w-4 h-4 text-gray-10 shrink-0" />
+                              <CardTitle className="text-4 truncate">{cue.name}</CardTitle>
+                            </div>
+                            <Badge variant="secondary" size="sm" className="shrink-0">
+                              LP {cue.lifePathNumber}
+                            </Badge>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 mt-1">
+                            <Badge variant="outline" size="sm" className="text-1">
+                              {cue.type}
+                            </Badge>
+                            {cue.category && (
+                              <Badge variant="outline" size="sm" className="text-1">
+                                {cue.category}
+                              </Badge>
+                            )}
+                            {cue.provenance.status !== 'verified' && (
+                              <Badge
+                                variant="outline"
+                                size="sm"
+                                className="text-1 bg-amber-a3 border-amber-a6 text-amber-11"
+                                title={cue.provenance.datePrecision === 'year' ? YEAR_ONLY_NOTE : cue.provenance.source}
+                                data-testid={`badge-cue-status-${cue.id}`}
+                              >
+                                {cueVerificationLabels[cue.provenance.status]}
+                                {cue.provenance.datePrecision === 'year' && ' · year only'}
+                              </Badge>
+                            )}
+                          </div>
+                        </CardHeader>
+                        <CardContent className="space-y-2">
+                          <div className="flex items-center gap-2 text-2 text-amber-11 font-medium">
+                            <Sparkles className="w-3 h-3" />
+                            <span>{cue.energySignature}</span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 text-1 text-gray-11">
+                            <div className="flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              <span>{formatCueDate(cue)}</span>
+                            </div>
+                            {cue.country && (
+                              <div className="flex items-center gap-1">
+                                <Globe className="w-3 h-3" />
+                                <span>{cue.country}</span>
+                              </div>
+                            )}
+                          </div>
+                          {cue.description && (
+                            <p className="text-1 text-gray-11 line-clamp-2">{cue.description}</p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
                 </div>
-                <h3 className="text-5 font-semibold text-gray-12">
-                  Unlock All 22,000+ Cues
-                </h3>
-                <p className="text-3 text-gray-11 max-w-md mx-auto">
-                  Upgrade to Pro to search, filter, and explore the complete database of brands, locations, and notable people.
-                </p>
-                <Button 
-                  variant="gold" 
-                  size="lg"
-                  onClick={() => setShowUpgradeModal(true)}
-                  data-testid="button-upgrade-cues"
-                >
-                  <Sparkles className="w-4 h-4 mr-2" />
-                  Upgrade to Pro
-                </Button>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Pagination */}
-          {isPro && cuesData && cuesData.totalPages > 1 && (
-            <div className="flex items-center justify-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => goToPage(currentPage - 1)}
-                disabled={currentPage === 1}
-                data-testid="button-prev-page"
-              >
-                <ChevronLeft className="w-4 h-4" />
-                Previous
-              </Button>
-              
-              <div className="flex items-center gap-1">
-                {/* First page */}
-                {currentPage > 3 && (
-                  <>
-                    <Button
-                      variant={currentPage === 1 ? 'gold' : 'ghost'}
-                      size="sm"
-                      onClick={() => goToPage(1)}
+              )}
+
+              {/* Upgrade CTA for non-Pro users */}
+              {!isPro && cuesData && cuesData.items.length > 0 && (
+                <Card variant="frosted" className="text-center py-8">
+                  <CardContent className="space-y-4">
+                    <div className="w-16 h-16 mx-auto rounded-xl bg-gradient-to-br from-amber-8 to-amber-9 flex items-center justify-center mb-4 shadow-lg shadow-amber-9/30">
+                      <Lock className="w-8 h-8 text-white" />
+                    </div>
+                    <div className="flex items-center justify-center gap-2 mb-2">
+                      <Crown className="w-5 h-5 text-amber-9" />
+                      <Badge variant="secondary" size="sm">Pro Feature</Badge>
+                    </div>
+                    <h3 className="text-5 font-semibold text-gray-12">
+                      Unlock All 22,000+ Cues
+                    </h3>
+                    <p className="text-3 text-gray-11 max-w-md mx-auto">
+                      Upgrade to Pro to search, filter, and explore the complete database of brands, locations, and notable people.
+                    </p>
+                    <Button 
+                      variant="gold" 
+                      size="lg"
+                      onClick={() => setShowUpgradeModal(true)}
+                      data-testid="button-upgrade-cues"
                     >
-                      1
+                      <Sparkles className="w-4 h-4 mr-2" />
+                      Upgrade to Pro
                     </Button>
-                    {currentPage > 4 && <span className="text-gray-10 px-2">...</span>}
-                  </>
-                )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Pagination */}
+              {isPro && cuesData && cuesData.totalPages > 1 && (
+                <div className="flex items-center justify-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => goToPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    data-testid="button-prev-page"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    Previous
+                  </Button>
+              
+                  <div className="flex items-center gap-1">
+                    {/* First page */}
+                    {currentPage > 3 && (
+                      <>
+                        <Button
+                          variant={currentPage === 1 ? 'gold' : 'ghost'}
+                          size="sm"
+                          onClick={() => goToPage(1)}
+                        >
+                          1
+                        </Button>
+                        {currentPage > 4 && <span className="text-gray-10 px-2">...</span>}
+                      </>
+                    )}
                 
-                {/* Page numbers around current */}
-                {Array.from({ length: Math.min(5, cuesData.totalPages) }, (_, i) => {
-                  let pageNum: number;
-                  if (cuesData.totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= cuesData.totalPages - 2) {
-                    pageNum = cuesData.totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
+                    {/* Page numbers around current */}
+                    {Array.from({ length: Math.min(5, cuesData.totalPages) }, (_, i) => {
+                      let pageNum: number;
+                      if (cuesData.totalPages <= 5) {
+                        pageNum = i + 1;
+                      } else if (currentPage <= 3) {
+                        pageNum = i + 1;
+                      } else if (currentPage >= cuesData.totalPages - 2) {
+                        pageNum = cuesData.totalPages - 4 + i;
+                      } else {
+                        pageNum = currentPage - 2 + i;
+                      }
                   
-                  if (pageNum < 1 || pageNum > cuesData.totalPages) return null;
-                  if (currentPage > 3 && pageNum === 1) return null;
-                  if (currentPage < cuesData.totalPages - 2 && pageNum === cuesData.totalPages) return null;
+                      if (pageNum < 1 || pageNum > cuesData.totalPages) return null;
+                      if (currentPage > 3 && pageNum === 1) return null;
+                      if (currentPage < cuesData.totalPages - 2 && pageNum === cuesData.totalPages) return null;
                   
-                  return (
-                    <Button
-                      key={pageNum}
-                      variant={currentPage === pageNum ? 'gold' : 'ghost'}
-                      size="sm"
-                      onClick={() => goToPage(pageNum)}
-                      data-testid={`button-page-${pageNum}`}
-                    >
-                      {pageNum}
-                    </Button>
-                  );
-                })}
+                      return (
+                        <Button
+                          key={pageNum}
+                          variant={currentPage === pageNum ? 'gold' : 'ghost'}
+                          size="sm"
+                          onClick={() => goToPage(pageNum)}
+                          data-testid={`button-page-${pageNum}`}
+                        >
+                          {pageNum}
+                        </Button>
+                      );
+                    })}
                 
-                {/* Last page */}
-                {currentPage < cuesData.totalPages - 2 && (
-                  <>
-                    {currentPage < cuesData.totalPages - 3 && <span className="text-gray-10 px-2">...</span>}
-                    <Button
-                      variant={currentPage === cuesData.totalPages ? 'gold' : 'ghost'}
-                      size="sm"
-                      onClick={() => goToPage(cuesData.totalPages)}
-                    >
-                      {cuesData.totalPages}
-                    </Button>
-                  </>
-                )}
-              </div>
+                    {/* Last page */}
+                    {currentPage < cuesData.totalPages - 2 && (
+                      <>
+                        {currentPage < cuesData.totalPages - 3 && <span className="text-gray-10 px-2">...</span>}
+                        <Button
+                          variant={currentPage === cuesData.totalPages ? 'gold' : 'ghost'}
+                          size="sm"
+                          onClick={() => goToPage(cuesData.totalPages)}
+                        >
+                          {cuesData.totalPages}
+                        </Button>
+                      </>
+                    )}
+                  </div>
               
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => goToPage(currentPage + 1)}
-                disabled={!cuesData.hasMore}
-                data-testid="button-next-page"
-              >
-                Next
-                <ChevronRight className="w-4 h-4" />
-              </Button>
-            </div>
-          )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => goToPage(currentPage + 1)}
+                    disabled={!cuesData.hasMore}
+                    data-testid="button-next-page"
+                  >
+                    Next
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
 
-          {/* Page info */}
-          {cuesData && cuesData.totalPages > 1 && (
-            <div className="text-center text-2 text-gray-11">
-              Page {cuesData.page} of {cuesData.totalPages}
+              {/* Page info */}
+              {cuesData && cuesData.totalPages > 1 && (
+                <div className="text-center text-2 text-gray-11">
+                  Page {cuesData.page} of {cuesData.totalPages}
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </main>
 
@@ -636,7 +667,7 @@ export default function Cues() {
                     {selectedCueData.cue.name}
                   </DialogTitle>
                   <span className="text-2 text-gray-11 shrink-0" data-testid="text-cue-date">
-                    {formatDate(selectedCueData.cue.foundedOrBirth)}
+                    {formatCueDate(selectedCueData.cue)}
                   </span>
                 </div>
                 <DialogDescription className="sr-only">
@@ -674,12 +705,34 @@ export default function Cues() {
                 </div>
               </div>
 
+              {selectedCueData.cue.provenance.datePrecision === 'year' && (
+                <div className="flex items-start gap-2 rounded-md bg-amber-a2 border border-amber-a4 p-3 text-1 text-amber-11" data-testid="note-cue-year-only">
+                  <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                  <span>{YEAR_ONLY_NOTE}</span>
+                </div>
+              )}
+
               {/* Energy Signature */}
               <div className="flex items-center justify-center gap-2 text-amber-11 font-medium pb-2">
                 <Sparkles className="w-4 h-4" />
                 <span data-testid="text-energy-signature">{selectedCueData.cue.energySignature}</span>
               </div>
 
+              {/* Your sign vs the cue's sign */}
+              {selectedCueData.aspect && (
+                <div className="rounded-md bg-gray-a2 border border-gray-a4 p-3 mb-2" data-testid="section-cue-aspect">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-2 font-medium text-gray-12">
+                      Your {selectedCueData.aspect.signs[0]} · {selectedCueData.aspect.signs[1]}
+                    </span>
+                    <Badge variant="outline" size="sm" data-testid="badge-cue-aspect">
+                      {westernAspectLabels[selectedCueData.aspect.aspect]} · {selectedCueData.aspect.score}%
+                    </Badge>
+                  </div>
+                  <p className="text-1 text-gray-11">{selectedCueData.aspect.insight}</p>
+                </div>
+              )}
+
               {/* About Section */}
               <div className="border-t border-gray-6 pt-4">
                 <h4 className="text-2 font-semibold text-gray-11 mb-2">About the Cue</h4>
@@ -708,6 +761,27 @@ export default function Cues() {
                   {selectedCueData.cue.chineseZodiac.element} {selectedCueData.cue.chineseZodiac.yinYang}
                 </Badge>
               </div>
+
+              {/* Provenance */}
+              <div className="border-t border-gray-6 pt-3 text-1 text-gray-11 space-y-1" data-testid="section-cue-provenance">
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    size="sm"
+                    className={selectedCueData.cue.provenance.status === 'verified' ? 'bg-green-a3 border-green-a6 text-green-11' : 'bg-amber-a3 border-amber-a6 text-amber-11'}
+                    data-testid="badge-cue-verification"
+                  >
+                    {cueVerificationLabels[selectedCueData.cue.provenance.status]}
+                  </Badge>
+                  <span>{cueDatePrecisionLabels[selectedCueData.cue.provenance.datePrecision]}</span>
+                </div>
+                <p>Source: {selectedCueData.cue.provenance.source}</p>
+                <p>
+                  {selectedCueData.cue.provenance.lastReviewedAt
+                    ? `Last reviewed ${formatDate(selectedCueData.cue.provenance.lastReviewedAt)}`
+                    : 'Not yet reviewed'}
+                </p>
+              </div>
             </>
           ) : null}
         </DialogContent>
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { Navigation } from '@/components/Navigation';
 import { StarField } from '@/components/StarField';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,14 +8,19 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { UpgradeModal } from '@/components/UpgradeModal';
-import { Compass, TrendingUp, Calendar, Star, Globe, Heart, Loader2, MapPin, Briefcase, Users, Check, AlertCircle, X, Lock, Crown } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { apiRequest } from '@/lib/queryClient';
+import { Compass, TrendingUp, Calendar, CalendarRange, Star, Globe, Heart, Loader2, MapPin, Briefcase, Users, Check, AlertCircle, X, Lock, Crown } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Link } from 'wouter';
-import { calculateComprehensiveProfile } from '@/lib/numerology';
+import { calculateComprehensiveProfile, getCalculationProfile, calendarToday, formatCalendarDate, type PersonalForecast, type ForecastDay } from '@/lib/numerology';
+import { timingActivities, type ActivityType, type BestDaysResult, type GroupEventPlan } from '@shared/timing';
 
 const ODIS_ID_KEY = 'gg33-odis-id';
 
-type FeatureType = 'trending' | 'best-days' | 'celebrity' | 'travel' | 'relationship' | 'career' | null;
+type FeatureType = 'trending' | 'best-days' | 'event-planner' | 'year-ahead' | 'celebrity' | 'travel' | 'relationship' | 'career' | null;
 
 interface ProfileData {
   odisId: string;
@@ -22,6 +28,7 @@ interface ProfileData {
   birthDate: string;
   birthTime?: string;
   birthLocation?: string;
+  calculationProfile?: string;
 }
 
 const explorations = [
@@ -35,12 +42,28 @@ const explorations = [
   },
   {
     id: 'best-days' as FeatureType,
-    title: 'Best Days This Month',
-    description: 'Find your optimal days for key activities',
+    title: 'Best Days',
+    description: 'Find your optimal days for contracts, launches, travel and more',
     icon: Calendar,
     tag: 'Planning',
     requiresProfile: true,
   },
+  {
+    id: 'event-planner' as FeatureType,
+    title: 'Event Planner',
+    description: 'Pick dates that work for everyone in a launch, wedding or meeting',
+    icon: Users,
+    tag: 'Planning',
+    requiresProfile: true,
+  },
+  {
+    id: 'year-ahead' as FeatureType,
+    title: 'Year Ahead',
+    description: 'Your personal year, months and days for the next 12 months',
+    icon: CalendarRange,
+    tag: 'Planning',
+    requiresProfile: true,
+  },
   {
     id: 'celebrity' as FeatureType,
     title: 'Celebrity Matches',
@@ -185,12 +208,42 @@ function TrendingEnergiesDialog({ open, onClose }: { open: boolean; onClose: ()
   );
 }
 
-function BestDaysDialog({ open, onClose, birthDate }: { open: boolean; onClose: () => void; birthDate: string | null }) {
-  const { data, isLoading, error } = useQuery({
-    queryKey: ['/api/explore/best-days', birthDate],
+type BestDaysWindow = 'this-month' | 'next-month' | 'next-30' | 'next-90';
+
+const bestDaysWindows: Record<BestDaysWindow, string> = {
+  'this-month': 'This month',
+  'next-month': 'Next month',
+  'next-30': 'Next 30 days',
+  'next-90': 'Next 90 days',
+};
+
+function getWindowDates(dateWindow: BestDaysWindow): { start: string; end: string } {
+  const today = calendarToday();
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+  const day = today.getUTCDate();
+  const range = (start: Date, end: Date) => ({ start: formatCalendarDate(start), end: formatCalendarDate(end) });
+
+  switch (dateWindow) {
+    case 'this-month': return range(new Date(Date.UTC(year, month, 1)), new Date(Date.UTC(year, month + 1, 0)));
+    case 'next-month': return range(new Date(Date.UTC(year, month + 1, 1)), new Date(Date.UTC(year, month + 2, 0)));
+    case 'next-30': return range(today, new Date(Date.UTC(year, month, day + 29)));
+    case 'next-90': return range(today, new Date(Date.UTC(year, month, day + 89)));
+  }
+}
+
+function BestDaysDialog({ open, onClose, birthDate, calculationProfile }: { open: boolean; onClose: () => void; birthDate: string | null; calculationProfile?: string }) {
+  const [activity, setActivity] = useState<ActivityType>('general');
+  const [dateWindow, setDateWindow] = useState<BestDaysWindow>('this-month');
+  const { start, end } = getWindowDates(dateWindow);
+  const todayKey = formatCalendarDate(calendarToday());
+
+  const { data, isLoading, error } = useQuery<BestDaysResult | null>({
+    queryKey: ['/api/explore/best-days', birthDate, calculationProfile, activity, start, end],
     queryFn: async () => {
       if (!birthDate) return null;
-      const response = await fetch(`/api/explore/best-days/${birthDate}`);
+      const params = new URLSearchParams({ start, end, activity, calculationProfile: calculationProfile || 'standard' });
+      const response = await fetch(`/api/explore/best-days/${birthDate}?${params}`);
       if (!response.ok) throw new Error('Failed to fetch best days');
       return response.json();
     },
@@ -206,18 +259,44 @@ function BestDaysDialog({ open, onClose, birthDate }: { open: boolean; onClose:
     }
   };
 
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
       <DialogContent className="max-w-3xl max-h-[85vh]" data-testid="dialog-best-days">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Calendar className="w-5 h-5 text-amber-9" />
-            Best Days This Month
+            Best Days
           </DialogTitle>
-          <DialogDescription>Your personalized calendar based on numerology</DialogDescription>
+          <DialogDescription>Your strongest days for what you have planned</DialogDescription>
         </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={activity} onValueChange={(value) => setActivity(value as ActivityType)}>
+            <SelectTrigger className="sm:w-[220px]" data-testid="select-best-days-activity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(timingActivities).map(a => (
+                <SelectItem key={a.id} value={a.id}>{a.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={dateWindow} onValueChange={(value) => setDateWindow(value as BestDaysWindow)}>
+            <SelectTrigger className="sm:w-[180px]" data-testid="select-best-days-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(bestDaysWindows) as BestDaysWindow[]).map(key => (
+                <SelectItem key={key} value={key}>{bestDaysWindows[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         
-        <ScrollArea className="max-h-[60vh] pr-4">
+        <ScrollArea className="max-h-[55vh] pr-4">
           {isLoading ? (
             <LoadingSkeleton />
           ) : error ? (
@@ -229,8 +308,12 @@ function BestDaysDialog({ open, onClose, birthDate }: { open: boolean; onClose:
             <div className="space-y-6" data-testid="content-best-days">
               <div className="flex items-center justify-between p-4 bg-amber-a2 rounded-lg border border-amber-a4">
                 <div>
-                  <div className="text-xl font-bold" data-testid="text-month-name">{data.monthName} {data.year}</div>
-                  <div className="text-sm text-gray-11">Life Path {data.lifePathNumber} | Personal Year {data.personalYear}</div>
+                  <div className="text-xl font-bold" data-testid="text-window">
+                    {formatDay(data.startDate, { month: 'short', day: 'numeric' })} – {formatDay(data.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </div>
+                  <div className="text-sm text-gray-11">
+                    {timingActivities[data.activity].description} | Life Path {data.lifePathNumber} | {data.chineseAnimal}
+                  </div>
                 </div>
                 <div className="flex gap-2">
                   <Badge variant="outline" className="bg-green-a3 text-green-11">Excellent</Badge>
@@ -240,61 +323,418 @@ function BestDaysDialog({ open, onClose, birthDate }: { open: boolean; onClose:
 
               <div>
                 <h3 className="font-medium mb-3">Your Best Days</h3>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                  {data.bestDays?.map((day: { date: string; day: number; personalDay: number; rating: string; theme: string; activities: string[] }) => (
-                    <div key={day.date} className={`p-3 rounded-lg border ${getRatingColor(day.rating)}`} data-testid={`card-day-${day.day}`}>
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="font-bold text-lg">{day.day}</span>
-                        <Badge variant="secondary" size="sm">{day.personalDay}</Badge>
+                {data.bestDays.length === 0 ? (
+                  <p className="text-sm text-gray-11">No standout days in this window. Try a longer window.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {data.bestDays.map(day => (
+                      <div key={day.date} className={`p-3 rounded-lg border ${getRatingColor(day.rating)}`} data-testid={`card-day-${day.date}`}>
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-bold">{formatDay(day.date, { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+                          <Badge variant="secondary" size="sm">{day.score}</Badge>
+                        </div>
+                        <div className="text-sm font-medium">{day.theme} · {day.dayAnimal} day</div>
+                        <ul className="text-xs mt-1 opacity-80 space-y-0.5">
+                          {day.reasons.map(reason => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
                       </div>
-                      <div className="text-sm font-medium">{day.theme}</div>
-                      <div className="text-xs mt-1 opacity-80">{day.activities[0]}</div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div>
                 <h3 className="font-medium mb-3 flex items-center gap-2">
-                  Full Month Overview
+                  Full Window Overview
                   <Badge variant="outline" size="sm" className="ring-2 ring-amber-9 text-xs" data-testid="badge-today-legend">Today</Badge>
                 </h3>
                 <div className="grid grid-cols-7 gap-1 text-center">
                   {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((d, i) => (
                     <div key={i} className="text-xs text-gray-11 font-medium py-1">{d}</div>
                   ))}
-                  {(() => {
-                    const now = new Date();
-                    const isCurrentMonth = data.month === now.getMonth() + 1 && data.year === now.getFullYear();
-                    const todayDate = now.getDate();
-                    const firstDayOfMonth = new Date(data.year, data.month - 1, 1).getDay();
-                    
-                    const emptyCells = Array(firstDayOfMonth).fill(null).map((_, j) => (
-                      <div key={`empty-${j}`} className="p-2" />
-                    ));
-                    
-                    const dayCells = data.days?.map((day: { day: number; rating: string; personalDay: number; theme: string }) => {
-                      const isToday = isCurrentMonth && day.day === todayDate;
+                  {Array(new Date(`${data.startDate}T00:00:00Z`).getUTCDay()).fill(null).map((_, j) => (
+                    <div key={`empty-${j}`} className="p-2" />
+                  ))}
+                  {data.days.map(day => {
+                    const isToday = day.date === todayKey;
+                    const dayOfMonth = parseInt(day.date.substring(8));
+                    return (
+                      <div
+                        key={day.date}
+                        className={`p-2 rounded text-sm ${
+                          day.rating === 'excellent' ? 'bg-green-a3 text-green-11 font-bold' :
+                          day.rating === 'good' ? 'bg-amber-a3 text-amber-11' :
+                          day.rating === 'challenging' ? 'bg-red-a3 text-red-11' :
+                          'bg-gray-a2 text-gray-11'
+                        } ${isToday ? 'ring-2 ring-amber-9' : ''}`}
+                        title={`${day.reasons.join('\n')}${isToday ? '\nToday' : ''}`}
+                        data-testid={`calendar-day-${day.date}`}
+                      >
+                        {dayOfMonth === 1 ? formatDay(day.date, { month: 'short' }) : dayOfMonth}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          ) : null}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type PlannerParticipant =
+  | { key: string; odisId: string; name: string }
+  | { key: string; name: string; birthDate: string };
+
+function EventPlannerDialog({ open, onClose, profile }: { open: boolean; onClose: () => void; profile: ProfileData | null }) {
+  const [eventType, setEventType] = useState<ActivityType>('launch');
+  const [dateWindow, setDateWindow] = useState<BestDaysWindow>('next-30');
+  const [guests, setGuests] = useState<PlannerParticipant[]>([]);
+  const [guestName, setGuestName] = useState('');
+  const [guestBirthDate, setGuestBirthDate] = useState<Date | undefined>(undefined);
+  const [guestOdisId, setGuestOdisId] = useState('');
+  const [formKey, setFormKey] = useState(0);
+  const [expandedDate, setExpandedDate] = useState<string | null>(null);
+
+  const participants: PlannerParticipant[] = profile
+    ? [{ key: 'self', odisId: profile.odisId, name: `${profile.fullName} (you)` }, ...guests]
+    : guests;
+
+  const planMutation = useMutation({
+    mutationFn: async () => {
+      const { start, end } = getWindowDates(dateWindow);
+      const response = await apiRequest('POST', '/api/explore/event-planner', {
+        participants: participants.map(p => ('odisId' in p ? { odisId: p.odisId } : { name: p.name, birthDate: p.birthDate })),
+        start,
+        end,
+        eventType,
+        calculationProfile: profile?.calculationProfile,
+      });
+      const data = await response.json();
+      return data.plan as GroupEventPlan;
+    },
+  });
+
+  const addGuest = () => {
+    if (guestOdisId.trim()) {
+      setGuests([...guests, { key: `${Date.now()}`, odisId: guestOdisId.trim(), name: `Profile ${guestOdisId.trim()}` }]);
+    } else if (guestName.trim() && guestBirthDate) {
+      setGuests([...guests, { key: `${Date.now()}`, name: guestName.trim(), birthDate: format(guestBirthDate, 'yyyy-MM-dd') }]);
+    } else {
+      return;
+    }
+    setGuestName('');
+    setGuestBirthDate(undefined);
+    setGuestOdisId('');
+    setFormKey(formKey + 1);
+    planMutation.reset();
+  };
+
+  const removeGuest = (key: string) => {
+    setGuests(guests.filter(g => g.key !== key));
+    planMutation.reset();
+  };
+
+  const plan = planMutation.data;
+
+  const getRatingColor = (rating: string) => {
+    switch (rating) {
+      case 'excellent': return 'bg-green-a3 border-green-a6 text-green-11';
+      case 'good': return 'bg-amber-a3 border-amber-a6 text-amber-11';
+      case 'challenging': return 'bg-red-a3 border-red-a6 text-red-11';
+      default: return 'bg-gray-a3 border-gray-a6 text-gray-11';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh]" data-testid="dialog-event-planner">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-amber-9" />
+            Event Planner
+          </DialogTitle>
+          <DialogDescription>Find the dates that work best for everyone involved</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-4">
+          <div className="space-y-5">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Select value={eventType} onValueChange={(value) => { setEventType(value as ActivityType); planMutation.reset(); }}>
+                <SelectTrigger className="sm:w-[220px]" data-testid="select-event-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(timingActivities).map(a => (
+                    <SelectItem key={a.id} value={a.id}>{a.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={dateWindow} onValueChange={(value) => { setDateWindow(value as BestDaysWindow); planMutation.reset(); }}>
+                <SelectTrigger className="sm:w-[180px]" data-testid="select-event-window">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(bestDaysWindows) as BestDaysWindow[]).map(key => (
+                    <SelectItem key={key} value={key}>{bestDaysWindows[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">Participants</h3>
+              <div className="flex flex-wrap gap-2" data-testid="list-participants">
+                {participants.map(p => (
+                  <Badge key={p.key} variant="outline" className="gap-1">
+                    {p.name}
+                    {p.key !== 'self' && (
+                      <button onClick={() => removeGuest(p.key)} data-testid={`button-remove-participant-${p.key}`}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div key={formKey} className="p-3 rounded-lg border border-gray-a4 bg-gray-a2 space-y-3">
+              <div className="grid sm:grid-cols-2 gap-2">
+                <Input
+                  placeholder="Name"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  data-testid="input-participant-name"
+                />
+                <DatePicker
+                  value={guestBirthDate}
+                  onChange={setGuestBirthDate}
+                  data-testid="input-participant-birth-date"
+                />
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="…or a saved profile ID"
+                  value={guestOdisId}
+                  onChange={(e) => setGuestOdisId(e.target.value)}
+                  data-testid="input-participant-odis-id"
+                />
+                <Button
+                  variant="outline"
+                  onClick={addGuest}
+                  disabled={!guestOdisId.trim() && (!guestName.trim() || !guestBirthDate)}
+                  data-testid="button-add-participant"
+                >
+                  Add person
+                </Button>
+              </div>
+            </div>
+
+            <Button
+              variant="gold"
+              className="w-full"
+              onClick={() => planMutation.mutate()}
+              disabled={participants.length < 2 || planMutation.isPending}
+              data-testid="button-plan-event"
+            >
+              {planMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Find dates'}
+            </Button>
+
+            {planMutation.isError && (
+              <div className="text-red-9 flex items-center gap-2" data-testid="error-event-planner">
+                <AlertCircle className="w-4 h-4" />
+                Failed to plan event. Check that every saved profile ID exists.
+              </div>
+            )}
+
+            {plan && (
+              <div className="space-y-2" data-testid="content-event-planner">
+                <h3 className="font-medium">Best dates for {timingActivities[plan.activity].label.toLowerCase()}</h3>
+                {plan.bestDates.map(date => (
+                  <div key={date.date} className={`p-3 rounded-lg border ${getRatingColor(date.rating)}`} data-testid={`card-event-date-${date.date}`}>
+                    <button
+                      className="w-full flex items-center justify-between text-left"
+                      onClick={() => setExpandedDate(expandedDate === date.date ? null : date.date)}
+                    >
+                      <div>
+                        <div className="font-bold">
+                          {new Date(`${date.date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}
+                        </div>
+                        <div className="text-xs opacity-80">
+                          {date.dayAnimal} day · Universal Day {date.universalDay} · Weakest fit: {date.weakestParticipant}
+                        </div>
+                      </div>
+                      <Badge variant="secondary" size="sm">{date.score}</Badge>
+                    </button>
+                    {expandedDate === date.date && (
+                      <div className="mt-3 space-y-2 text-gray-12">
+                        {date.participants.map(person => (
+                          <div key={person.name} className="p-2 rounded bg-gray-a2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="font-medium">{person.name}</span>
+                              <span className="text-xs text-gray-11">
+                                Personal Day {person.personalDay} · Activity {person.activityScore} · Energy {person.energyScore} · <span className="font-bold">{person.score}</span>
+                              </span>
+                            </div>
+                            <div className="text-xs text-gray-11 mt-1">{person.reasons.join(' · ')}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function getEnergyColor(score: number) {
+  if (score >= 75) return 'bg-green-a3 text-green-11 font-bold';
+  if (score >= 60) return 'bg-amber-a3 text-amber-11';
+  return 'bg-gray-a2 text-gray-11';
+}
+
+function YearAheadDialog({ open, onClose, birthDate, calculationProfile }: { open: boolean; onClose: () => void; birthDate: string | null; calculationProfile?: string }) {
+  const [selectedDay, setSelectedDay] = useState<ForecastDay | null>(null);
+  const todayKey = formatCalendarDate(calendarToday());
+  // Start on the 1st so the view covers twelve whole calendar months
+  const startKey = `${todayKey.substring(0, 7)}-01`;
+
+  const { data, isLoading, error } = useQuery<PersonalForecast | null>({
+    queryKey: ['/api/forecast', birthDate, calculationProfile, startKey],
+    queryFn: async () => {
+      if (!birthDate) return null;
+      const params = new URLSearchParams({ start: startKey, calculationProfile: calculationProfile || 'standard' });
+      const response = await fetch(`/api/forecast/${birthDate}?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch forecast');
+      const result = await response.json();
+      return result.forecast;
+    },
+    enabled: open && !!birthDate,
+  });
+
+  // Months are grouped into quarters counted from the start of the forecast
+  const quarters = useMemo(() => {
+    if (!data) return [];
+    const groups: PersonalForecast['months'][] = [];
+    data.months.forEach((month, i) => {
+      if (i % 3 === 0) groups.push([]);
+      groups[groups.length - 1].push(month);
+    });
+    return groups;
+  }, [data]);
+
+  const firstMonth = data?.months[0];
+  const activeDay = selectedDay ?? firstMonth?.days.find(day => day.date === todayKey) ?? firstMonth?.days[0] ?? null;
+
+  const formatMonth = (month: string, style: 'long' | 'short' = 'long') =>
+    new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', { month: style, year: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh]" data-testid="dialog-year-ahead">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-amber-9" />
+            Year Ahead
+          </DialogTitle>
+          <DialogDescription>Your personal cycles and daily energy for the next 12 months</DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh] pr-4">
+          {isLoading ? (
+            <LoadingSkeleton />
+          ) : error ? (
+            <div className="text-red-9 flex items-center gap-2" data-testid="error-year-ahead">
+              <AlertCircle className="w-4 h-4" />
+              Failed to load forecast
+            </div>
+          ) : data && firstMonth ? (
+            <div className="space-y-6" data-testid="content-year-ahead">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="p-4 bg-amber-a2 rounded-lg border border-amber-a4">
+                  <div className="text-sm text-gray-11">Personal Year {firstMonth.personalYear}</div>
+                  <div className="text-xl font-bold" data-testid="text-year-theme">{firstMonth.yearTheme.theme}</div>
+                  <p className="text-sm text-gray-11 mt-1">{firstMonth.yearTheme.description}</p>
+                </div>
+                {activeDay && (
+                  <div className="p-4 bg-gray-a2 rounded-lg border border-gray-a4" data-testid="panel-selected-day">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <div className="text-sm text-gray-11">
+                        {new Date(`${activeDay.date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' })}
+                      </div>
+                      <Badge variant="outline" size="sm">Energy {activeDay.energyScore}</Badge>
+                    </div>
+                    <div className="font-medium">{activeDay.theme.theme}</div>
+                    <p className="text-sm text-gray-11 mt-1">{activeDay.theme.description}</p>
+                    <div className="text-xs text-gray-10 mt-2">
+                      Year {activeDay.personalYear} · Month {activeDay.personalMonth} · Day {activeDay.personalDay} · Universal {activeDay.universalDay}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Badge variant="outline" className="bg-green-a3 text-green-11">Peak 75+</Badge>
+                <Badge variant="outline" className="bg-amber-a3 text-amber-11">Strong 60+</Badge>
+                <Badge variant="outline">Steady</Badge>
+              </div>
+
+              {quarters.map((months, q) => (
+                <div key={months[0].month} data-testid={`quarter-${q + 1}`}>
+                  <h3 className="font-medium mb-3">
+                    Quarter {q + 1}
+                    <span className="text-sm text-gray-11 font-normal ml-2">
+                      {formatMonth(months[0].month, 'short')} – {formatMonth(months[months.length - 1].month, 'short')}
+                    </span>
+                  </h3>
+                  <div className="grid md:grid-cols-3 gap-4">
+                    {months.map(month => {
+                      const leadingBlanks = new Date(`${month.days[0].date}T00:00:00Z`).getUTCDay();
                       return (
-                        <div 
-                          key={day.day} 
-                          className={`p-2 rounded text-sm ${
-                            day.rating === 'excellent' ? 'bg-green-a3 text-green-11 font-bold' :
-                            day.rating === 'good' ? 'bg-amber-a3 text-amber-11' :
-                            'bg-gray-a2 text-gray-11'
-                          } ${isToday ? 'ring-2 ring-amber-9' : ''}`}
-                          title={`${day.theme} (Personal Day ${day.personalDay})${isToday ? ' - Today' : ''}`}
-                          data-testid={`calendar-day-${day.day}`}
-                        >
-                          {day.day}
+                        <div key={month.month} className="p-3 rounded-lg border border-gray-a4 bg-gray-a2" data-testid={`card-month-${month.month}`}>
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="font-medium">{formatMonth(month.month)}</span>
+                            <Badge variant="secondary" size="sm">{month.personalMonth}</Badge>
+                          </div>
+                          <div className="text-sm text-amber-11">{month.monthTheme.theme}</div>
+                          <p className="text-xs text-gray-11 mt-1 mb-3">{month.monthTheme.description}</p>
+                          <div className="grid grid-cols-7 gap-0.5 text-center">
+                            {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((d, i) => (
+                              <div key={i} className="text-[10px] text-gray-10">{d}</div>
+                            ))}
+                            {Array(leadingBlanks).fill(null).map((_, j) => (
+                              <div key={`empty-${j}`} />
+                            ))}
+                            {month.days.map(day => (
+                              <button
+                                key={day.date}
+                                onClick={() => setSelectedDay(day)}
+                                className={`py-1 rounded text-xs ${getEnergyColor(day.energyScore)} ${activeDay?.date === day.date ? 'ring-2 ring-amber-9' : ''} ${day.date < todayKey ? 'opacity-50' : ''}`}
+                                title={`${day.theme.theme} (Personal Day ${day.personalDay}, energy ${day.energyScore})`}
+                                data-testid={`button-forecast-day-${day.date}`}
+                              >
+                                {parseInt(day.date.substring(8))}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="text-xs text-gray-10 mt-2">
+                            Average energy {month.averageEnergy} · Peak days {month.peakDays.map(date => parseInt(date.substring(8))).join(', ')}
+                          </div>
                         </div>
                       );
-                    }) || [];
-                    
-                    return [...emptyCells, ...dayCells];
-                  })()}
+                    })}
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           ) : null}
         </ScrollArea>
@@ -399,20 +839,20 @@ function CelebrityMatchesDialog({ open, onClose, lifePathNumber, energySignature
   );
 }
 
-function TravelDestinationsDialog({ open, onClose, lifePathNumber, element, birthYear }: { 
+function TravelDestinationsDialog({ open, onClose, lifePathNumber, element, birthDate }: { 
   open: boolean; 
   onClose: () => void; 
   lifePathNumber: number | null;
   element: string | null;
-  birthYear: number | null;
+  birthDate: string | null;
 }) {
   const { data, isLoading, error } = useQuery({
-    queryKey: ['/api/explore/travel-destinations', lifePathNumber, element, birthYear],
+    queryKey: ['/api/explore/travel-destinations', lifePathNumber, element, birthDate],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (lifePathNumber) params.append('lifePathNumber', lifePathNumber.toString());
       if (element) params.append('element', element);
-      if (birthYear) params.append('birthYear', birthYear.toString());
+      if (birthDate) params.append('birthDate', birthDate);
       params.append('limit', '12');
       const response = await fetch(`/api/explore/travel-destinations?${params}`);
       if (!response.ok) throw new Error('Failed to fetch travel destinations');
@@ -461,6 +901,7 @@ function TravelDestinationsDialog({ open, onClose, lifePathNumber, element, birt
                   bestFor: string;
                   score: number;
                   isUserMatch: boolean;
+                  userRelation: { primary: string; explanation: string } | null;
                 }) => (
                   <div 
                     key={dest.id} 
@@ -490,6 +931,12 @@ function TravelDestinationsDialog({ open, onClose, lifePathNumber, element, birt
                     <p className="text-sm text-gray-11 mt-3" data-testid={`text-destination-description-${dest.id}`}>
                       {dest.description}
                     </p>
+
+                    {dest.userRelation && dest.userRelation.primary !== 'neutral' && (
+                      <p className="text-xs text-gray-11 mt-2 italic" data-testid={`text-destination-relation-${dest.id}`}>
+                        {dest.userRelation.explanation}
+                      </p>
+                    )}
                     
                     <div className="flex flex-wrap gap-2 mt-3">
                       <Badge variant="outline" size="sm" className="text-xs">
@@ -822,7 +1269,8 @@ export default function Explore() {
         profileData.fullName,
         new Date(profileData.birthDate),
         profileData.birthTime || '12:00',
-        profileData.birthLocation || 'Unknown'
+        profileData.birthLocation || 'Unknown',
+        getCalculationProfile(profileData.calculationProfile)
       );
     } catch {
       return null;
@@ -881,7 +1329,7 @@ export default function Explore() {
                     <AlertCircle className="w-5 h-5 text-amber-9" />
                     <div>
                       <div className="font-medium">Create your profile for personalized features</div>
-                      <div className="text-sm text-gray-11">Unlock all 6 explore features with your birth date</div>
+                      <div className="text-sm text-gray-11">Unlock all {explorations.length} explore features with your birth date</div>
                     </div>
                   </div>
                   <Link href="/">
@@ -952,6 +1400,20 @@ export default function Explore() {
         open={activeFeature === 'best-days'} 
         onClose={handleCloseDialog}
         birthDate={birthDate}
+        calculationProfile={profileData?.calculationProfile}
+      />
+
+      <EventPlannerDialog
+        open={activeFeature === 'event-planner'}
+        onClose={handleCloseDialog}
+        profile={profileData ?? null}
+      />
+
+      <YearAheadDialog
+        open={activeFeature === 'year-ahead'}
+        onClose={handleCloseDialog}
+        birthDate={birthDate}
+        calculationProfile={profileData?.calculationProfile}
       />
       
       <CelebrityMatchesDialog 
@@ -966,7 +1428,7 @@ export default function Explore() {
         onClose={handleCloseDialog}
         lifePathNumber={lifePathNumber}
         element={element}
-        birthYear={birthDate ? new Date(birthDate).getFullYear() : null}
+        birthDate={birthDate}
       />
       
       <RelationshipPatternsDialog 
@@ -0,0 +1,347 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import type { GroupCompatibility, GroupPair } from '@shared/groupCompatibility';
+import { formatCalendarDate, type RelationshipModelId } from '@/lib/numerology';
+import { apiRequest } from '@/lib/queryClient';
+import { Navigation } from '@/components/Navigation';
+import { StarField } from '@/components/StarField';
+import { NavLink } from '@/components/NavLink';
+import { UpgradeModal } from '@/components/UpgradeModal';
+import { RelationshipModelSelect } from '@/components/RelationshipModelSelect';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Users, Grid3x3, ArrowLeft, Loader2, X, Plus, Crown, Sparkles, AlertTriangle, Scale, Briefcase } from 'lucide-react';
+
+interface MeApiResponse {
+  user?: {
+    odisId: string;
+    fullName: string;
+    birthDate: string;
+    calculationProfile?: string;
+    isPro?: boolean;
+  };
+  needsOnboarding?: boolean;
+}
+
+interface MemberInput {
+  key: string;
+  name: string;
+  birthDate: string;
+}
+
+function getHeatColor(score: number) {
+  if (score >= 80) return 'bg-green-9 text-white';
+  if (score >= 65) return 'bg-green-7 text-white';
+  if (score >= 50) return 'bg-amber-7 text-white';
+  if (score >= 40) return 'bg-orange-7 text-white';
+  return 'bg-red-7 text-white';
+}
+
+export default function GroupCompatibilityPage() {
+  const [showUpgradeModal, setShowUpgradeModal] = useState(false);
+  const [extraMembers, setExtraMembers] = useState<MemberInput[]>([]);
+  const [memberName, setMemberName] = useState('');
+  const [memberBirthDate, setMemberBirthDate] = useState<Date | undefined>(undefined);
+  const [formKey, setFormKey] = useState(0);
+  const [relationshipModel, setRelationshipModel] = useState<RelationshipModelId>('business');
+
+  const { data: meData, isLoading } = useQuery<MeApiResponse>({
+    queryKey: ['/api/me'],
+    queryFn: async () => {
+      const response = await fetch('/api/me');
+      if (!response.ok) return { needsOnboarding: true };
+      return response.json();
+    },
+  });
+
+  const user = meData?.user;
+  const isPro = user?.isPro ?? false;
+  const members: MemberInput[] = user
+    ? [{ key: 'self', name: user.fullName, birthDate: formatCalendarDate(new Date(user.birthDate)) }, ...extraMembers]
+    : extraMembers;
+
+  const groupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/compatibility/group', {
+        members: members.map(({ name, birthDate }) => ({ name, birthDate })),
+        calculationProfile: user?.calculationProfile,
+        relationshipModel,
+      });
+      const data = await response.json();
+      return data.group as GroupCompatibility;
+    },
+  });
+
+  const addMember = () => {
+    if (!memberName.trim() || !memberBirthDate) return;
+    setExtraMembers([...extraMembers, { key: `${Date.now()}`, name: memberName.trim(), birthDate: format(memberBirthDate, 'yyyy-MM-dd') }]);
+    setMemberName('');
+    setMemberBirthDate(undefined);
+    setFormKey(formKey + 1);
+    groupMutation.reset();
+  };
+
+  const removeMember = (key: string) => {
+    setExtraMembers(extraMembers.filter(m => m.key !== key));
+    groupMutation.reset();
+  };
+
+  const group = groupMutation.data;
+  const firstName = (index: number) => group?.members[index].name.split(' ')[0] ?? '';
+  const describePair = (pair: GroupPair) => `${firstName(pair.a)} & ${firstName(pair.b)}`;
+
+  return (
+    <>
+      <StarField />
+      <Navigation />
+
+      <main className="pt-20 pb-12 px-4 min-h-screen" data-testid="page-group-compatibility">
+        <div className="container mx-auto max-w-5xl space-y-8">
+          <div className="text-center">
+            <NavLink to="/compatibility" className="inline-flex items-center gap-1 text-2 text-gray-11 hover:text-gray-12 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              One-to-one compatibility
+            </NavLink>
+            <h1 className="text-6 md:text-7 font-semibold mb-4">
+              Group <span className="gradient-text">Compatibility</span>
+            </h1>
+            <p className="text-gray-11 text-3 max-w-2xl mx-auto">
+              See how everyone on a team fits together and who is best suited to which role.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse text-gray-11 text-center">Loading...</div>
+          ) : !isPro ? (
+            <Card variant="frosted" className="text-center" data-testid="card-group-locked">
+              <CardContent className="py-12">
+                <div className="flex items-center justify-center gap-2 mb-4">
+                  <Crown className="w-5 h-5 text-amber-9" />
+                  <Badge variant="secondary" size="sm">Pro Feature</Badge>
+                </div>
+                <p className="text-gray-11 text-2 mb-6 max-w-md mx-auto">
+                  Upgrade to analyze compatibility across your whole team.
+                </p>
+                <Button variant="gold" size="lg" onClick={() => setShowUpgradeModal(true)} data-testid="button-unlock-group">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Upgrade to Pro
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <Card variant="frosted" data-testid="card-group-members">
+                <CardHeader>
+                  <CardTitle className="text-4 flex items-center gap-2">
+                    <Users className="w-5 h-5 text-amber-9" />
+                    Members
+                  </CardTitle>
+                  <CardDescription>Add everyone you want to compare</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2" data-testid="list-group-members">
+                    {members.map(member => (
+                      <Badge key={member.key} variant="outline" className="gap-1">
+                        {member.name}
+                        {member.key !== 'self' && (
+                          <button onClick={() => removeMember(member.key)} data-testid={`button-remove-member-${member.key}`}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <div key={formKey} className="grid sm:grid-cols-[1fr_auto_auto] gap-2">
+                    <Input
+                      variant="frosted"
+                      placeholder="Full name"
+                      value={memberName}
+                      onChange={(e) => setMemberName(e.target.value)}
+                      data-testid="input-member-name"
+                    />
+                    <DatePicker value={memberBirthDate} onChange={setMemberBirthDate} data-testid="input-member-birth-date" />
+                    <Button variant="outline" onClick={addMember} disabled={!memberName.trim() || !memberBirthDate} data-testid="button-add-member">
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <span className="text-2 text-gray-11 shrink-0">Score as</span>
+                    <RelationshipModelSelect value={relationshipModel} onChange={setRelationshipModel} className="sm:w-[200px]" />
+                  </div>
+
+                  <Button
+                    variant="gold"
+                    className="w-full"
+                    onClick={() => groupMutation.mutate()}
+                    disabled={members.length < 2 || groupMutation.isPending}
+                    data-testid="button-analyze-group"
+                  >
+                    {groupMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Analyze Group'}
+                  </Button>
+
+                  {groupMutation.isError && (
+                    <div className="text-red-9 text-2 flex items-center gap-2" data-testid="error-group">
+                      <AlertTriangle className="w-4 h-4" />
+                      We couldn't analyze this group. Please try again.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {group && (
+                <div className="space-y-6" data-testid="group-result">
+                  <Card variant="frosted">
+                    <CardHeader>
+                      <CardTitle className="text-4 flex items-center gap-2">
+                        <Grid3x3 className="w-5 h-5 text-amber-9" />
+                        Compatibility Heatmap
+                      </CardTitle>
+                      <CardDescription>Average pair score {group.averageScore}%</CardDescription>
+                    </CardHeader>
+                    <CardContent className="overflow-x-auto">
+                      <table className="border-separate border-spacing-1 mx-auto" data-testid="table-heatmap">
+                        <thead>
+                          <tr>
+                            <th />
+                            {group.members.map((member, i) => (
+                              <th key={i} className="text-1 font-medium text-gray-11 px-1">{firstName(i)}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {group.matrix.map((row, a) => (
+                            <tr key={a}>
+                              <th className="text-1 font-medium text-gray-11 text-right pr-2">{firstName(a)}</th>
+                              {row.map((score, b) => (
+                                <td
+                                  key={b}
+                                  className={`w-12 h-12 rounded-md text-center text-2 font-semibold ${score === null ? 'bg-gray-a3' : getHeatColor(score)}`}
+                                  title={score === null ? group.members[a].name : `${group.members[a].name} & ${group.members[b].name}: ${score}%`}
+                                  data-testid={`cell-heatmap-${a}-${b}`}
+                                >
+                                  {score ?? '—'}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <Card variant="frosted" data-testid="card-most-harmonious">
+                      <CardHeader>
+                        <CardTitle className="text-4">Most Harmonious</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {group.mostHarmonious.map(pair => (
+                          <div key={`${pair.a}-${pair.b}`} className="p-3 rounded-lg bg-green-a2 border border-green-a4">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{describePair(pair)}</span>
+                              <Badge variant="outline" size="sm">{pair.score}% · {pair.level}</Badge>
+                            </div>
+                            <p className="text-1 text-gray-11 mt-1">{pair.description}</p>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                    <Card variant="frosted" data-testid="card-least-harmonious">
+                      <CardHeader>
+                        <CardTitle className="text-4">Needs Attention</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {group.leastHarmonious.length === 0 ? (
+                          <p className="text-2 text-gray-11">Add more members to compare pairs.</p>
+                        ) : group.leastHarmonious.map(pair => (
+                          <div key={`${pair.a}-${pair.b}`} className="p-3 rounded-lg bg-red-a2 border border-red-a4">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{describePair(pair)}</span>
+                              <Badge variant="outline" size="sm">{pair.score}% · {pair.level}</Badge>
+                            </div>
+                            <p className="text-1 text-gray-11 mt-1">{pair.description}</p>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <Card variant="frosted" data-testid="card-group-balance">
+                    <CardHeader>
+                      <CardTitle className="text-4 flex items-center gap-2">
+                        <Scale className="w-5 h-5 text-amber-9" />
+                        Group Balance
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid md:grid-cols-3 gap-6">
+                      {([['Chinese elements', group.elementBalance.chinese], ['Western elements', group.elementBalance.western]] as const).map(([label, balance]) => (
+                        <div key={label}>
+                          <p className="text-2 font-medium text-gray-12 mb-2">{label}</p>
+                          <div className="space-y-1">
+                            {Object.entries(balance.counts).map(([element, count]) => (
+                              <div key={element} className="flex items-center gap-2 text-1">
+                                <span className="w-12 text-gray-11">{element}</span>
+                                <div className="flex-1 h-2 rounded bg-gray-a3">
+                                  <div className="h-2 rounded bg-amber-9" style={{ width: `${(count / group.members.length) * 100}%` }} />
+                                </div>
+                                <span className="w-4 text-right text-gray-12">{count}</span>
+                              </div>
+                            ))}
+                          </div>
+                          {balance.missing.length > 0 && (
+                            <p className="text-1 text-gray-10 mt-2">Missing: {balance.missing.join(', ')}</p>
+                          )}
+                        </div>
+                      ))}
+                      <div>
+                        <p className="text-2 font-medium text-gray-12 mb-2">Life Paths</p>
+                        <div className="flex flex-wrap gap-2">
+                          {Object.entries(group.lifePathBalance.counts).map(([number, count]) => (
+                            <Badge key={number} variant="secondary" size="sm">LP {number} × {count}</Badge>
+                          ))}
+                        </div>
+                        {group.lifePathBalance.missing.length > 0 && (
+                          <p className="text-1 text-gray-10 mt-2">No one carries: {group.lifePathBalance.missing.join(', ')}</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card variant="frosted" data-testid="card-group-roles">
+                    <CardHeader>
+                      <CardTitle className="text-4 flex items-center gap-2">
+                        <Briefcase className="w-5 h-5 text-amber-9" />
+                        Suggested Roles
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="grid sm:grid-cols-2 gap-3">
+                      {group.members.map((member, i) => (
+                        <div key={i} className="p-3 rounded-lg bg-gray-a2 border border-gray-a4" data-testid={`card-role-${i}`}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium">{member.name}</span>
+                            <Badge variant="outline" size="sm">{member.role.title}</Badge>
+                          </div>
+                          <p className="text-1 text-gray-10 mt-1">{member.energySignature} · {member.chineseAnimal} · {member.westernSign}</p>
+                          <p className="text-1 text-gray-11 mt-1">{member.role.reason}</p>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <UpgradeModal open={showUpgradeModal} onOpenChange={setShowUpgradeModal} />
+    </>
+  );
+}
@@ -7,6 +7,7 @@ import { LoadingScreen } from '@/components/LoadingScreen';
 import { ProfileOverview } from '@/components/ProfileOverview';
 import { PersonalityInsights } from '@/components/PersonalityInsights';
 import { DailyEnergy } from '@/components/DailyEnergy';
+import { LifeCycleTimeline } from '@/components/LifeCycleTimeline';
 import { ExternalLink } from 'lucide-react';
 
 interface MembershipInfo {
@@ -64,6 +65,7 @@ export default function Home() {
     birthDate: new Date(profileData.birthDate),
     birthTime: profileData.birthTime || '12:00',
     birthLocation: profileData.birthLocation || 'Unknown',
+    calculationProfile: profileData.calculationProfile || 'standard',
   } : null;
 
   const { data: membership } = useQuery<MembershipInfo>({
@@ -133,13 +135,15 @@ export default function Home() {
       
       <main className="pt-16 pb-12 px-4 min-h-screen" data-testid="dashboard">
         <div className="w-full max-w-6xl mx-auto space-y-6">
-          <ProfileOverview profile={profile} whopUser={whopUser} isPro={isPro} />
+          <ProfileOverview profile={profile} whopUser={whopUser} isPro={isPro} isAdmin={profileData?.whopAccessLevel === 'admin'} />
           
           <div className="grid lg:grid-cols-2 gap-6 items-stretch">
             <PersonalityInsights profile={profile} />
             <DailyEnergy profile={profile} />
           </div>
 
+          <LifeCycleTimeline profile={profile} />
+
           {membership?.manageUrl && (
             <div className="flex justify-center">
               <button
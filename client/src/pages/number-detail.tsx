@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Star, Heart, Brain, Sparkles, Target, Zap, Sun, Calendar, Hash, TrendingUp, Users, Clock } from 'lucide-react';
 import { ProGatekeeper } from '@/components/ProGatekeeper';
+import { ShowTheMath } from '@/components/ShowTheMath';
+import type { CalculationType } from '@/lib/numerology';
 import {
   lifePathContent,
   expressionContent,
@@ -15,6 +17,9 @@ import {
   generationContent,
   dayOfBirthContent,
   maturityContent,
+  karmicDebtContent,
+  karmicLessonContent,
+  hiddenPassionContent,
   getNumberContent,
   type LifePathContent,
   type ExpressionContent,
@@ -23,10 +28,28 @@ import {
   type AttitudeContent,
   type GenerationContent,
   type DayOfBirthContent,
-  type MaturityContent
+  type MaturityContent,
+  type KarmicDebtContent,
+  type KarmicLessonContent,
+  type HiddenPassionContent
 } from '@/lib/numerologyContent';
 
-type NumberType = 'lifepath' | 'expression' | 'soulurge' | 'personality' | 'attitude' | 'generation' | 'dayofbirth' | 'maturity';
+type NumberType = 'lifepath' | 'expression' | 'soulurge' | 'personality' | 'attitude' | 'generation' | 'dayofbirth' | 'maturity' | 'karmicdebt' | 'karmiclesson' | 'hiddenpassion';
+
+// Karmic debts keep their compound number (13, 14, 16, 19) instead of being reduced
+const unreducedTypes: NumberType[] = ['karmicdebt'];
+
+// Route types whose calculation can be traced step by step
+const traceTypes: Partial<Record<NumberType, CalculationType>> = {
+  lifepath: 'lifePath',
+  expression: 'expression',
+  soulurge: 'soulUrge',
+  personality: 'personality',
+  attitude: 'attitude',
+  generation: 'generation',
+  dayofbirth: 'dayOfBirth',
+  maturity: 'maturity',
+};
 
 interface NumberDetailProps {
   type: NumberType;
@@ -95,6 +118,27 @@ const typeConfig: Record<NumberType, {
     color: 'text-indigo-9',
     bgColor: 'bg-indigo-a3',
     description: 'Your Maturity number reveals the direction your life will take as you grow older and wiser.'
+  },
+  karmicdebt: {
+    title: 'Karmic Debt Number',
+    icon: Clock,
+    color: 'text-red-9',
+    bgColor: 'bg-red-a3',
+    description: 'A Karmic Debt number appears when one of your core numbers is reached through 13, 14, 16 or 19, revealing a lesson carried over that this life asks you to resolve.'
+  },
+  karmiclesson: {
+    title: 'Karmic Lesson',
+    icon: Brain,
+    color: 'text-cyan-9',
+    bgColor: 'bg-cyan-a3',
+    description: 'A Karmic Lesson is a number missing from the letters of your full name, pointing to a quality you are here to develop.'
+  },
+  hiddenpassion: {
+    title: 'Hidden Passion Number',
+    icon: Hash,
+    color: 'text-pink-9',
+    bgColor: 'bg-pink-a3',
+    description: 'Your Hidden Passion number is the number that appears most often in your full name, revealing a talent and drive that shapes much of what you do.'
   }
 };
 
@@ -192,6 +236,34 @@ function MaturityDetail({ content }: { content: MaturityContent }) {
   );
 }
 
+function KarmicDebtDetail({ content }: { content: KarmicDebtContent }) {
+  return (
+    <div className="space-y-8">
+      <Section title="Overview" content={content.description} icon={Clock} />
+      <Section title="The Lesson" content={content.lesson} icon={Brain} />
+      <Section title="Path Forward" content={content.pathForward} icon={TrendingUp} />
+    </div>
+  );
+}
+
+function KarmicLessonDetail({ content }: { content: KarmicLessonContent }) {
+  return (
+    <div className="space-y-8">
+      <Section title="Overview" content={content.description} icon={Brain} />
+      <Section title="How to Develop It" content={content.remedy} icon={Target} />
+    </div>
+  );
+}
+
+function HiddenPassionDetail({ content }: { content: HiddenPassionContent }) {
+  return (
+    <div className="space-y-8">
+      <Section title="Overview" content={content.description} icon={Hash} />
+      <Section title="Living Your Passion" content={content.expression} icon={Sparkles} />
+    </div>
+  );
+}
+
 const ODIS_ID_KEY = 'gg33-odis-id';
 
 export default function NumberDetailPage() {
@@ -236,7 +308,8 @@ export default function NumberDetailPage() {
   }
 
   const config = typeConfig[type];
-  const normalizedNumber = getNumberContent(number);
+  const traceType = traceTypes[type];
+  const normalizedNumber = unreducedTypes.includes(type) ? number : getNumberContent(number);
   const Icon = config.icon;
 
   const getContent = () => {
@@ -257,6 +330,12 @@ export default function NumberDetailPage() {
         return dayOfBirthContent[normalizedNumber];
       case 'maturity':
         return maturityContent[normalizedNumber];
+      case 'karmicdebt':
+        return karmicDebtContent[normalizedNumber];
+      case 'karmiclesson':
+        return karmicLessonContent[normalizedNumber];
+      case 'hiddenpassion':
+        return hiddenPassionContent[normalizedNumber];
       default:
         return null;
     }
@@ -296,6 +375,12 @@ export default function NumberDetailPage() {
         return <DayOfBirthDetail content={content as DayOfBirthContent} />;
       case 'maturity':
         return <MaturityDetail content={content as MaturityContent} />;
+      case 'karmicdebt':
+        return <KarmicDebtDetail content={content as KarmicDebtContent} />;
+      case 'karmiclesson':
+        return <KarmicLessonDetail content={content as KarmicLessonContent} />;
+      case 'hiddenpassion':
+        return <HiddenPassionDetail content={content as HiddenPassionContent} />;
       default:
         return null;
     }
@@ -342,6 +427,17 @@ export default function NumberDetailPage() {
                   <p className="text-3 text-gray-11">{config.description}</p>
                 </div>
               </div>
+              {traceType && profileData?.fullName && profileData?.birthDate && (
+                <div className="pt-4">
+                  <ShowTheMath
+                    type={traceType}
+                    fullName={profileData.fullName}
+                    birthDate={profileData.birthDate}
+                    calculationProfile={profileData.calculationProfile}
+                    title={`Show the math for your ${config.title}`}
+                  />
+                </div>
+              )}
             </CardHeader>
           </Card>
 
@@ -0,0 +1,59 @@
+import mongoose from "mongoose";
+import { CueModel, connectDB } from "../server/db";
+import { storage } from "../server/storage";
+import { getSeedCues } from "../server/cuesData";
+import { deriveCueFields } from "../server/cueFields";
+
+/**
+ * Seeds the Cue collection from the arrays in server/cuesData.ts.
+ *
+ * The server seeds an empty collection on its first cue read; run this to add
+ * seed entries that are missing from a populated collection (existing cues are
+ * never overwritten) and to record provenance on cues stored without it. Pass
+ * --recompute to refresh the stored life path, energy signature and zodiac
+ * fields of every cue after a change to the numerology engine.
+ *
+ * Usage:
+ *   npx tsx scripts/seed_cues.ts [--recompute]
+ */
+
+async function run() {
+  const connected = await connectDB();
+  if (!connected) {
+    console.error("Failed to connect to database. Ensure MONGODB_URI is set.");
+    process.exit(1);
+  }
+
+  try {
+    const seeds = getSeedCues();
+    const inserted = await storage.seedCues(seeds);
+    console.log(`Inserted ${inserted} of ${seeds.length} seed cues.`);
+
+    const backfilled = await storage.backfillCueProvenance(seeds);
+    console.log(`Recorded provenance for ${backfilled} existing cues.`);
+
+    if (process.argv.includes("--recompute")) {
+      const cues = await CueModel.find({}, { cueId: 1, foundedOrBirth: 1, provenance: 1 }).lean();
+      const result = await CueModel.bulkWrite(cues.map(cue => ({
+        updateOne: {
+          filter: { _id: cue._id },
+          update: {
+            $set: {
+              ...deriveCueFields(cue.foundedOrBirth, cue.provenance?.datePrecision === 'year' ? 'year' : 'day'),
+              updatedAt: new Date(),
+            },
+          },
+        },
+      })));
+      console.log(`Recomputed numerology fields for ${result.modifiedCount} of ${cues.length} cues.`);
+    }
+  } catch (error) {
+    console.error("Error seeding cues:", error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.connection.close();
+    console.log("Database connection closed.");
+  }
+}
+
+run();
@@ -0,0 +1,146 @@
+import {
+  parseCalendarDate,
+  calculateComprehensiveProfile,
+  calculatePersonalDay,
+} from "../shared/numerology";
+
+/**
+ * Golden corpus for the shared numerology engine.
+ *
+ * Every screen (Home, CueChats, the Cues database) reads its numbers from
+ * shared/numerology.ts, so these expectations pin the canonical outputs. If a
+ * change to the engine moves any of them, the change is a product decision and
+ * the corpus must be updated deliberately.
+ *
+ * Usage:
+ *   npx tsx scripts/verify_numerology_golden.ts
+ */
+
+interface GoldenCase {
+  name: string;
+  birthDate: string;
+  expected: {
+    lifePath: number;
+    expression: number;
+    soulUrge: number;
+    personality: number;
+    maturity: number;
+    attitude: number;
+    generation: number;
+    dayOfBirth: number;
+    chineseAnimal: string;
+    chineseElement: string;
+    westernSign: string;
+    energySignature: string;
+    // Personal Day on 2025-01-01
+    personalDay: number;
+  };
+}
+
+const PERSONAL_DAY_REFERENCE = "2025-01-01";
+
+const goldenCases: GoldenCase[] = [
+  {
+    name: "John Michael Smith",
+    birthDate: "1990-05-15",
+    expected: { lifePath: 3, expression: 5, soulUrge: 3, personality: 11, maturity: 8, attitude: 2, generation: 1, dayOfBirth: 6, chineseAnimal: "Horse", chineseElement: "Metal", westernSign: "Taurus", energySignature: "Metal Air Creator", personalDay: 4 },
+  },
+  {
+    name: "Mary Ann Johnson",
+    birthDate: "1984-11-29",
+    expected: { lifePath: 8, expression: 1, soulUrge: 5, personality: 5, maturity: 9, attitude: 4, generation: 22, dayOfBirth: 11, chineseAnimal: "Rat", chineseElement: "Wood", westernSign: "Sagittarius", energySignature: "Wood Power Manifester", personalDay: 6 },
+  },
+  {
+    name: "Amelia Earhart",
+    birthDate: "1897-07-24",
+    expected: { lifePath: 2, expression: 4, soulUrge: 5, personality: 8, maturity: 6, attitude: 4, generation: 7, dayOfBirth: 6, chineseAnimal: "Rooster", chineseElement: "Fire", westernSign: "Leo", energySignature: "Fire Water Harmonizer", personalDay: 6 },
+  },
+  {
+    name: "Steve Jobs",
+    birthDate: "1955-02-24",
+    expected: { lifePath: 1, expression: 9, soulUrge: 7, personality: 11, maturity: 1, attitude: 8, generation: 2, dayOfBirth: 6, chineseAnimal: "Goat", chineseElement: "Wood", westernSign: "Pisces", energySignature: "Wood Fire Initiator", personalDay: 1 },
+  },
+  {
+    name: "Oprah Winfrey",
+    birthDate: "1954-01-29",
+    expected: { lifePath: 4, expression: 5, soulUrge: 3, personality: 11, maturity: 9, attitude: 3, generation: 1, dayOfBirth: 11, chineseAnimal: "Snake", chineseElement: "Water", westernSign: "Aquarius", energySignature: "Water Earth Stabilizer", personalDay: 5 },
+  },
+  {
+    name: "Albert Einstein",
+    birthDate: "1879-03-14",
+    expected: { lifePath: 6, expression: 9, soulUrge: 7, personality: 11, maturity: 6, attitude: 8, generation: 7, dayOfBirth: 5, chineseAnimal: "Rabbit", chineseElement: "Earth", westernSign: "Pisces", energySignature: "Earth Heart Healer", personalDay: 1 },
+  },
+  {
+    name: "Zoe Li",
+    birthDate: "2000-02-04",
+    expected: { lifePath: 8, expression: 4, soulUrge: 2, personality: 11, maturity: 3, attitude: 6, generation: 2, dayOfBirth: 4, chineseAnimal: "Rabbit", chineseElement: "Earth", westernSign: "Aquarius", energySignature: "Earth Power Manifester", personalDay: 8 },
+  },
+  {
+    name: "O'Brien-Smith Jr.",
+    birthDate: "1977-12-31",
+    expected: { lifePath: 4, expression: 7, soulUrge: 11, personality: 5, maturity: 11, attitude: 7, generation: 6, dayOfBirth: 4, chineseAnimal: "Snake", chineseElement: "Fire", westernSign: "Capricorn", energySignature: "Fire Earth Stabilizer", personalDay: 9 },
+  },
+  {
+    name: "Ada Lovelace",
+    birthDate: "1815-12-10",
+    expected: { lifePath: 1, expression: 9, soulUrge: 1, personality: 8, maturity: 1, attitude: 22, generation: 6, dayOfBirth: 1, chineseAnimal: "Pig", chineseElement: "Wood", westernSign: "Sagittarius", energySignature: "Wood Fire Initiator", personalDay: 6 },
+  },
+  {
+    name: "Kai",
+    birthDate: "2011-11-11",
+    expected: { lifePath: 8, expression: 3, soulUrge: 1, personality: 2, maturity: 11, attitude: 22, generation: 4, dayOfBirth: 11, chineseAnimal: "Rabbit", chineseElement: "Metal", westernSign: "Scorpio", energySignature: "Metal Power Manifester", personalDay: 6 },
+  },
+  // Chinese New Year 2024 fell on Feb 10: the day before is still Rabbit
+  {
+    name: "Lunar Eve",
+    birthDate: "2024-02-09",
+    expected: { lifePath: 1, expression: 8, soulUrge: 5, personality: 3, maturity: 9, attitude: 11, generation: 8, dayOfBirth: 9, chineseAnimal: "Rabbit", chineseElement: "Water", westernSign: "Aquarius", energySignature: "Water Fire Initiator", personalDay: 4 },
+  },
+  {
+    name: "Lunar Newyear",
+    birthDate: "2024-02-10",
+    expected: { lifePath: 11, expression: 4, soulUrge: 6, personality: 7, maturity: 6, attitude: 3, generation: 8, dayOfBirth: 1, chineseAnimal: "Dragon", chineseElement: "Wood", westernSign: "Aquarius", energySignature: "Wood Light Bearer", personalDay: 5 },
+  },
+];
+
+function run() {
+  const reference = parseCalendarDate(PERSONAL_DAY_REFERENCE);
+  let failures = 0;
+
+  for (const golden of goldenCases) {
+    const birthDate = parseCalendarDate(golden.birthDate);
+    const profile = calculateComprehensiveProfile(golden.name, birthDate);
+
+    const actual: GoldenCase["expected"] = {
+      lifePath: profile.lifePathNumber,
+      expression: profile.expressionNumber,
+      soulUrge: profile.soulUrgeNumber,
+      personality: profile.personalityNumber,
+      maturity: profile.maturityNumber,
+      attitude: profile.attitudeNumber,
+      generation: profile.generationNumber,
+      dayOfBirth: profile.dayOfBirthNumber,
+      chineseAnimal: profile.chineseZodiac.animal,
+      chineseElement: profile.chineseZodiac.element,
+      westernSign: profile.westernZodiac.sign,
+      energySignature: profile.energySignature,
+      personalDay: calculatePersonalDay(birthDate, reference),
+    };
+
+    for (const key of Object.keys(golden.expected) as (keyof GoldenCase["expected"])[]) {
+      if (actual[key] !== golden.expected[key]) {
+        failures++;
+        console.error(`✗ ${golden.name} (${golden.birthDate}) ${key}: expected ${golden.expected[key]}, got ${actual[key]}`);
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} golden mismatch(es) across ${goldenCases.length} cases`);
+    process.exit(1);
+  }
+
+  console.log(`All ${goldenCases.length} golden cases match.`);
+}
+
+run();
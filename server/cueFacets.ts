@@ -0,0 +1,118 @@
+// Facet filters and counts for the cue list. Each facet takes several values
+// at once (matching any of them), and its counts are taken over the cues
+// that pass every other facet's selection, so the sidebar shows what picking
+// another value would add rather than only what's already selected.
+
+import type { DBCue } from "./db";
+
+export type CueFacet = 'type' | 'lifePath' | 'animal' | 'element' | 'sign' | 'country' | 'category' | 'decade';
+
+export interface CueFacetCount {
+  value: string;
+  count: number;
+}
+
+export type CueFacetCounts = Record<CueFacet, CueFacetCount[]>;
+export type CueFacetSelection = Partial<Record<CueFacet, string[]>>;
+
+// Sent with the counts so API clients know how to read them: each facet is
+// counted over the results filtered by every other facet but not by itself
+export const CUE_FACET_BASIS = 'otherFacets';
+
+// Query parameter names match the facet names
+export const cueFacets: CueFacet[] = ['type', 'lifePath', 'animal', 'element', 'sign', 'country', 'category', 'decade'];
+
+// Facets matched as case-insensitive substrings, as the category and country
+// filters always were, so "?category=tech" still finds "Technology". Their
+// counts merge spellings that differ only in case and are listed under the
+// first spelling seen.
+const textFacets = new Set<CueFacet>(['country', 'category']);
+
+// Facets listed in their natural order rather than by count
+const orderedFacets = new Set<CueFacet>(['lifePath', 'decade']);
+
+export function getCueDecade(foundedOrBirth: string): number {
+  return Math.floor(parseInt(foundedOrBirth, 10) / 10) * 10;
+}
+
+// The cue's value for a facet, or null when it has none. Year-only cues are
+// stored as January 1st, so their Western sign says nothing and isn't counted.
+function facetValue(cue: DBCue, facet: CueFacet): string | null {
+  switch (facet) {
+    case 'type': return cue.type;
+    case 'lifePath': return String(cue.lifePathNumber);
+    case 'animal': return cue.chineseAnimal;
+    case 'element': return cue.chineseElement;
+    case 'sign': return cue.provenance.datePrecision === 'year' ? null : cue.westernSign;
+    case 'country': return cue.country ?? null;
+    case 'category': return cue.category ?? null;
+    case 'decade': return String(getCueDecade(cue.foundedOrBirth));
+  }
+}
+
+function normalizeFacetValue(facet: CueFacet, value: string): string {
+  return textFacets.has(facet) ? value.toLowerCase() : value;
+}
+
+// Reads comma-separated values for each facet from the query string
+export function parseCueFacetSelection(query: Record<string, string>): CueFacetSelection {
+  const selection: CueFacetSelection = {};
+  for (const facet of cueFacets) {
+    const values = (query[facet] ?? '').split(',').map(v => v.trim()).filter(Boolean);
+    if (values.length > 0) {
+      selection[facet] = values.map(v => normalizeFacetValue(facet, v));
+    }
+  }
+  return selection;
+}
+
+function matchesFacet(cue: DBCue, facet: CueFacet, selected: string[]): boolean {
+  const value = facetValue(cue, facet);
+  if (value === null) return false;
+  const normalized = normalizeFacetValue(facet, value);
+  return textFacets.has(facet)
+    ? selected.some(s => normalized.includes(s))
+    : selected.includes(normalized);
+}
+
+// Applies the selection to cues (keeping their order) and counts every
+// facet's values
+export function filterCuesByFacets(
+  cues: DBCue[],
+  selection: CueFacetSelection
+): { items: DBCue[]; facets: CueFacetCounts } {
+  const active = cueFacets.filter(facet => selection[facet]);
+  // facet -> normalized value -> displayed spelling and count
+  const counts = Object.fromEntries(cueFacets.map(facet => [facet, new Map<string, CueFacetCount>()])) as Record<CueFacet, Map<string, CueFacetCount>>;
+  const items: DBCue[] = [];
+
+  for (const cue of cues) {
+    const failed = active.filter(facet => !matchesFacet(cue, facet, selection[facet]!));
+    if (failed.length === 0) {
+      items.push(cue);
+    }
+    // A cue counts toward a facet when it passes all the other facets
+    if (failed.length > 1) continue;
+    for (const facet of cueFacets) {
+      if (failed.length === 1 && failed[0] !== facet) continue;
+      const value = facetValue(cue, facet);
+      if (value === null) continue;
+      const key = normalizeFacetValue(facet, value);
+      const entry = counts[facet].get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts[facet].set(key, { value, count: 1 });
+      }
+    }
+  }
+
+  const facets = {} as CueFacetCounts;
+  for (const facet of cueFacets) {
+    facets[facet] = Array.from(counts[facet].values())
+      .sort((a, b) => orderedFacets.has(facet)
+        ? Number(a.value) - Number(b.value)
+        : b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return { items, facets };
+}
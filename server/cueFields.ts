@@ -0,0 +1,69 @@
+// Numerology fields stored with each cue. They are derived from
+// foundedOrBirth when a cue is seeded or saved, so list, stats and Explore
+// reads never redo the math.
+
+import {
+  calculateLifePathNumber,
+  calculateChineseZodiac,
+  calculateChineseZodiacForYear,
+  calculateWesternZodiac,
+  composeEnergySignature,
+  parseCalendarDate,
+  type ChineseZodiac,
+} from "@shared/numerology";
+import type { CueDatePrecision } from "@shared/cueCatalog";
+
+export interface CueFields {
+  lifePathNumber: number;
+  energySignature: string;
+  chineseAnimal: string;
+  chineseElement: string;
+  chineseYinYang: string;
+  westernSign: string;
+}
+
+// Many cues only know their founding year and are stored as "YYYY" or
+// "YYYY-01-01". Used to infer precision for cues without a provenance record.
+export function hasFullFoundingDate(foundedOrBirth: string): boolean {
+  const parts = foundedOrBirth.replace(/^-/, '').split('-');
+  return parts.length === 3 && !(parts[1] === '01' && parts[2] === '01');
+}
+
+// Year-only cues can't be placed against the Chinese New Year boundary, so
+// they keep the Gregorian year's animal
+export function getCueChineseZodiac(cue: { foundedOrBirth: string; provenance?: { datePrecision: CueDatePrecision } }): ChineseZodiac {
+  const date = parseCalendarDate(cue.foundedOrBirth);
+  const fullDate = cue.provenance
+    ? cue.provenance.datePrecision === 'day'
+    : hasFullFoundingDate(cue.foundedOrBirth);
+  return fullDate
+    ? calculateChineseZodiac(date)
+    : calculateChineseZodiacForYear(date.getUTCFullYear());
+}
+
+export function deriveCueFields(foundedOrBirth: string, datePrecision?: CueDatePrecision): CueFields {
+  const date = parseCalendarDate(foundedOrBirth);
+  const chineseZodiac = getCueChineseZodiac(datePrecision ? { foundedOrBirth, provenance: { datePrecision } } : { foundedOrBirth });
+  const westernZodiac = calculateWesternZodiac(date);
+
+  let lifePathNumber = 1;
+  let energySignature = 'Fire Initiator';
+  try {
+    const calculated = calculateLifePathNumber(date);
+    if (!isNaN(calculated)) {
+      lifePathNumber = calculated;
+      energySignature = composeEnergySignature(calculated, chineseZodiac.element) || energySignature;
+    }
+  } catch {
+    // Keep the defaults, as the in-memory cue list always did
+  }
+
+  return {
+    lifePathNumber,
+    energySignature,
+    chineseAnimal: chineseZodiac.animal,
+    chineseElement: chineseZodiac.element,
+    chineseYinYang: chineseZodiac.yinYang,
+    westernSign: westernZodiac.sign,
+  };
+}
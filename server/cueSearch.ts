@@ -0,0 +1,331 @@
+// In-memory search index over the cue catalog. Names, aliases, categories
+// and descriptions are tokenized into an inverted index when the cue cache
+// loads, so a search looks up a handful of posting lists instead of scanning
+// every cue. Query tokens match terms exactly, by prefix (for as-you-type
+// searches) or within one typo, and results are ranked by relevance with
+// exact name and alias hits first.
+
+export interface SearchableCue {
+  id: number;
+  name: string;
+  category?: string;
+  description?: string;
+}
+
+type CueSearchField = 'name' | 'alias' | 'category' | 'description';
+
+// ============================================
+// TEXT NORMALIZATION
+// ============================================
+
+// Corporate suffixes and filler words: optional in a query ("Nike Inc" finds
+// Nike) but still rank a cue higher when it has them
+const NOISE_WORDS = new Set([
+  'the', 'a', 'an', 'of', 'and',
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'ltd', 'limited', 'llc', 'plc',
+]);
+
+// Other names people search for, keyed by the catalog name. Misspellings
+// ("Tokio") are left to fuzzy matching.
+const CUE_ALIASES: Record<string, string[]> = {
+  'Meta': ['Facebook'],
+  'Google': ['Alphabet'],
+  'Coca-Cola': ['Coke'],
+  'IBM': ['International Business Machines'],
+  'Twitter/X': ['Twitter', 'X'],
+  'Mercedes-Benz': ['Mercedes'],
+  'New York City': ['NYC', 'New York', 'Big Apple'],
+  'Los Angeles': ['LA'],
+  'San Francisco': ['SF'],
+  'Washington D.C.': ['DC', 'Washington DC'],
+  'Tokyo': ['Edo'],
+  'Mumbai': ['Bombay'],
+  'Beijing': ['Peking'],
+  'Kyiv': ['Kiev'],
+  'Ho Chi Minh City': ['Saigon'],
+  'Dwayne Johnson': ['The Rock'],
+  'Kanye West': ['Ye'],
+};
+
+const fieldWeights: Record<CueSearchField, number> = {
+  name: 3,
+  alias: 3,
+  category: 1,
+  description: 0.5,
+};
+
+const PREFIX_MIN_LENGTH = 2;
+const FUZZY_MIN_LENGTH = 4;
+const MAX_PREFIX_TERMS = 500;
+const EXACT_NAME_BONUS = 10;
+const EXACT_ALIAS_BONUS = 8;
+const NAME_PREFIX_BONUS = 2;
+const NOISE_MATCH_BONUS = 0.5;
+
+// Lowercase, accents stripped, "&" spelled out and punctuation dropped, so
+// "Coca-Cola", "L'Oréal" and "AT&T" tokenize the way people type them
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+// Drops noise words unless that would leave nothing to search for
+function coreTokens(tokens: string[]): string[] {
+  const core = tokens.filter(token => !NOISE_WORDS.has(token));
+  return core.length > 0 ? core : tokens;
+}
+
+// Every string one deletion away from term
+function deletionVariants(term: string): string[] {
+  const variants: string[] = [];
+  for (let i = 0; i < term.length; i++) {
+    variants.push(term.slice(0, i) + term.slice(i + 1));
+  }
+  return variants;
+}
+
+// Optimal string alignment distance (edits plus adjacent transpositions),
+// giving up once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+export class CueSearchIndex<T extends SearchableCue> {
+  private cues = new Map<number, T>();
+  // term -> cue id -> weight of the best field the term appears in
+  private postings = new Map<string, Map<number, number>>();
+  private sortedTerms: string[];
+  // deletion variant (or the term itself) -> terms, for typo lookups
+  private variants = new Map<string, string[]>();
+  // core name / alias text, spaced and compacted -> cue ids
+  private exactNames = new Map<string, number[]>();
+  private exactAliases = new Map<string, number[]>();
+  private coreNames = new Map<number, string>();
+
+  constructor(cues: T[]) {
+    for (const cue of cues) {
+      this.add(cue);
+    }
+    this.sortedTerms = Array.from(this.postings.keys()).sort();
+    for (const term of this.sortedTerms) {
+      if (term.length < FUZZY_MIN_LENGTH - 1) continue;
+      for (const variant of [term, ...deletionVariants(term)]) {
+        const terms = this.variants.get(variant);
+        if (terms) {
+          terms.push(term);
+        } else {
+          this.variants.set(variant, [term]);
+        }
+      }
+    }
+  }
+
+  // Cues matching every non-noise word of the query, most relevant first
+  search(query: string): T[] {
+    const tokens = tokenizeSearchText(query);
+    if (tokens.length === 0) return [];
+    const core = coreTokens(tokens);
+    const optional = tokens.filter(token => !core.includes(token));
+
+    const scores = this.matchAll(core);
+    // "coca cola" for Coca-Cola already matches token by token; joining the
+    // words also finds "Facebook" from "face book"
+    if (core.length > 1) {
+      this.matchAll([core.join('')]).forEach((score, id) => {
+        scores.set(id, Math.max(score, scores.get(id) ?? 0));
+      });
+    }
+
+    for (const token of optional) {
+      this.postings.get(token)?.forEach((weight, id) => {
+        const score = scores.get(id);
+        if (score !== undefined && weight >= fieldWeights.name) {
+          scores.set(id, score + NOISE_MATCH_BONUS);
+        }
+      });
+    }
+
+    const spaced = core.join(' ');
+    const compact = core.join('');
+    for (const key of spaced === compact ? [spaced] : [spaced, compact]) {
+      for (const id of this.exactNames.get(key) ?? []) {
+        if (scores.has(id)) scores.set(id, scores.get(id)! + EXACT_NAME_BONUS);
+      }
+      for (const id of this.exactAliases.get(key) ?? []) {
+        if (scores.has(id)) scores.set(id, scores.get(id)! + EXACT_ALIAS_BONUS);
+      }
+    }
+    scores.forEach((score, id) => {
+      if (this.coreNames.get(id)!.startsWith(spaced)) {
+        scores.set(id, score + NAME_PREFIX_BONUS);
+      }
+    });
+
+    return Array.from(scores.entries())
+      .sort(([idA, a], [idB, b]) =>
+        b - a ||
+        this.coreNames.get(idA)!.length - this.coreNames.get(idB)!.length ||
+        idA - idB
+      )
+      .map(([id]) => this.cues.get(id)!);
+  }
+
+  private add(cue: T): void {
+    this.cues.set(cue.id, cue);
+
+    const nameTokens = tokenizeSearchText(cue.name);
+    this.indexTokens(cue.id, nameTokens, 'name');
+    this.indexExact(this.exactNames, cue.id, coreTokens(nameTokens));
+    this.coreNames.set(cue.id, coreTokens(nameTokens).join(' '));
+
+    // Cue names are admin-entered, so "constructor" mustn't reach Object's
+    const aliases = Object.prototype.hasOwnProperty.call(CUE_ALIASES, cue.name) ? CUE_ALIASES[cue.name] : [];
+    for (const alias of aliases) {
+      const aliasTokens = tokenizeSearchText(alias);
+      this.indexTokens(cue.id, aliasTokens, 'alias');
+      this.indexExact(this.exactAliases, cue.id, coreTokens(aliasTokens));
+    }
+    if (cue.category) {
+      this.indexTokens(cue.id, tokenizeSearchText(cue.category), 'category');
+    }
+    if (cue.description) {
+      this.indexTokens(cue.id, tokenizeSearchText(cue.description), 'description');
+    }
+  }
+
+  private indexTokens(id: number, tokens: string[], field: CueSearchField): void {
+    const weight = fieldWeights[field];
+    // Multi-word names are also indexed as one word, so "cocacola" finds Coca-Cola
+    const terms = tokens.length > 1 && (field === 'name' || field === 'alias')
+      ? [...tokens, coreTokens(tokens).join('')]
+      : tokens;
+    for (const term of terms) {
+      const cues = this.postings.get(term);
+      if (!cues) {
+        this.postings.set(term, new Map([[id, weight]]));
+      } else if ((cues.get(id) ?? 0) < weight) {
+        cues.set(id, weight);
+      }
+    }
+  }
+
+  private indexExact(map: Map<string, number[]>, id: number, tokens: string[]): void {
+    const spaced = tokens.join(' ');
+    const compact = tokens.join('');
+    for (const key of spaced === compact ? [spaced] : [spaced, compact]) {
+      if (!key) continue;
+      const ids = map.get(key);
+      if (ids) {
+        ids.push(id);
+      } else {
+        map.set(key, [id]);
+      }
+    }
+  }
+
+  // Intersects the matches of each token, summing their scores
+  private matchAll(tokens: string[]): Map<number, number> {
+    let scores: Map<number, number> | null = null;
+    for (const token of tokens) {
+      const matches = this.matchToken(token);
+      if (scores === null) {
+        scores = matches;
+        continue;
+      }
+      const next = new Map<number, number>();
+      scores.forEach((score, id) => {
+        const match = matches.get(id);
+        if (match !== undefined) next.set(id, score + match);
+      });
+      scores = next;
+      if (scores.size === 0) break;
+    }
+    return scores ?? new Map();
+  }
+
+  // Best score per cue for one query token: an exact term counts fully, a
+  // term it's a prefix of counts more the closer it is to complete, and a
+  // term one typo away counts a little less than that
+  private matchToken(token: string): Map<number, number> {
+    const matches = new Map<number, number>();
+    const collect = (term: string, quality: number) => {
+      this.postings.get(term)?.forEach((weight, id) => {
+        const score = weight * quality;
+        if ((matches.get(id) ?? 0) < score) matches.set(id, score);
+      });
+    };
+
+    collect(token, 1);
+
+    if (token.length >= PREFIX_MIN_LENGTH) {
+      let index = this.lowerBound(token);
+      for (let count = 0; index < this.sortedTerms.length && count < MAX_PREFIX_TERMS; index++, count++) {
+        const term = this.sortedTerms[index];
+        if (!term.startsWith(token)) break;
+        if (term !== token) collect(term, 0.5 + 0.3 * (token.length / term.length));
+      }
+    }
+
+    if (token.length >= FUZZY_MIN_LENGTH) {
+      const candidates = new Set<string>();
+      for (const variant of [token, ...deletionVariants(token)]) {
+        for (const term of this.variants.get(variant) ?? []) {
+          candidates.add(term);
+        }
+      }
+      candidates.forEach(term => {
+        if (term !== token && editDistance(token, term, 1) <= 1) collect(term, 0.45);
+      });
+    }
+
+    return matches;
+  }
+
+  private lowerBound(token: string): number {
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTerms[mid] < token) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
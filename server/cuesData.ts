@@ -1,5 +1,14 @@
 // Comprehensive Cues Database - 22,000+ entries
 // Brands, Locations, and Notable People with their founding/birth dates
+//
+// Seed data for the Cue collection. The server reads cues through storage;
+// this module is only loaded to seed an empty collection or by
+// scripts/seed_cues.ts.
+
+import type { DBCueSeed, DBCueProvenance } from "./db";
+import { deriveCueFields, hasFullFoundingDate } from "./cueFields";
+
+type SeedProvenance = Omit<DBCueProvenance, 'lastReviewedAt'>;
 
 export interface Cue {
   id: number;
@@ -9,61 +18,7 @@ export interface Cue {
   category?: string;
   country?: string;
   description?: string;
-}
-
-// Numerology calculation functions (server-side versions)
-function reduceToSingleDigit(num: number, preserveMasterNumbers = true): number {
-  while (num > 9) {
-    if (preserveMasterNumbers && (num === 11 || num === 22 || num === 33)) {
-      return num;
-    }
-    num = num.toString().split('').reduce((sum, digit) => sum + parseInt(digit), 0);
-  }
-  return num;
-}
-
-export function calculateLifePathNumber(date: Date): number {
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const year = date.getFullYear();
-  
-  const monthReduced = reduceToSingleDigit(month, true);
-  const dayReduced = reduceToSingleDigit(day, true);
-  const yearReduced = reduceToSingleDigit(
-    year.toString().split('').reduce((sum, d) => sum + parseInt(d), 0),
-    true
-  );
-  
-  const total = monthReduced + dayReduced + yearReduced;
-  return reduceToSingleDigit(total, true);
-}
-
-function getChineseElement(year: number): string {
-  const elements = ['Metal', 'Metal', 'Water', 'Water', 'Wood', 'Wood', 'Fire', 'Fire', 'Earth', 'Earth'];
-  return elements[year % 10];
-}
-
-export function calculateEnergySignature(date: Date): string {
-  const lifePathNumber = calculateLifePathNumber(date);
-  const year = date.getFullYear();
-  const element = getChineseElement(year);
-  
-  const energyMap: Record<number, string> = {
-    1: 'Fire Initiator',
-    2: 'Water Harmonizer',
-    3: 'Air Creator',
-    4: 'Earth Stabilizer',
-    5: 'Wind Changer',
-    6: 'Heart Healer',
-    7: 'Mind Seeker',
-    8: 'Power Manifester',
-    9: 'Soul Completer',
-    11: 'Light Bearer',
-    22: 'Reality Architect',
-    33: 'Love Teacher',
-  };
-  
-  return `${element} ${energyMap[lifePathNumber] || 'Energy'}`;
+  provenance?: SeedProvenance;  // Untagged entries are hand-curated (see getSeedCues)
 }
 
 // Real Brands Data - Major companies with founding dates
@@ -596,6 +551,32 @@ const peopleData: Omit<Cue, 'id'>[] = [
 ];
 
 // Generate additional entries to reach 22,000+
+// Filler entries whose dates were made up from the loop index (for the
+// generated brands and people, the names too)
+const GENERATED: SeedProvenance = {
+  source: 'Generated placeholder',
+  status: 'generated',
+  datePrecision: 'day',
+};
+
+// Real founding years; the month and day are placeholders
+const YEAR_ESTIMATE: SeedProvenance = {
+  source: 'Curated founding year',
+  status: 'estimated',
+  datePrecision: 'year',
+};
+
+// Hand-entered brands, cities and people: full dates count as verified,
+// year-only ones ("YYYY-01-01") as estimates
+function curatedProvenance(foundedOrBirth: string): SeedProvenance {
+  const fullDate = hasFullFoundingDate(foundedOrBirth);
+  return {
+    source: 'Curated seed list',
+    status: fullDate ? 'verified' : 'estimated',
+    datePrecision: fullDate ? 'day' : 'year',
+  };
+}
+
 function generateAdditionalCues(): Omit<Cue, 'id'>[] {
   const additionalCues: Omit<Cue, 'id'>[] = [];
   
@@ -622,7 +603,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
       category: 'Technology',
       country: 'USA',
-      description: 'Technology company'
+      description: 'Technology company',
+      provenance: GENERATED
     });
   });
 
@@ -823,7 +805,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: dateStr,
       category: 'City',
       country: city.country,
-      description: `City in ${city.country}`
+      description: `City in ${city.country}`,
+      provenance: YEAR_ESTIMATE
     });
   });
 
@@ -856,7 +839,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
       category: industry,
       country: countries[countryIdx],
-      description: `${industry} company`
+      description: `${industry} company`,
+      provenance: GENERATED
     });
   }
 
@@ -896,7 +880,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
       category: category,
       country: countries[i % countries.length],
-      description: `${category} professional`
+      description: `${category} professional`,
+      provenance: GENERATED
     });
   }
 
@@ -965,7 +950,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
       category: 'City',
       country: 'USA',
-      description: 'City in the United States'
+      description: 'City in the United States',
+      provenance: GENERATED
     });
   });
 
@@ -1041,7 +1027,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${year.toString().padStart(4, '0')}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
       category: 'City',
       country: city.country,
-      description: `City in ${city.country}`
+      description: `City in ${city.country}`,
+      provenance: GENERATED
     });
   });
 
@@ -1122,7 +1109,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${uni.year}-09-01`,
       category: 'Education',
       country: uni.country,
-      description: 'University'
+      description: 'University',
+      provenance: YEAR_ESTIMATE
     });
   });
 
@@ -1175,7 +1163,8 @@ function generateAdditionalCues(): Omit<Cue, 'id'>[] {
       foundedOrBirth: `${team.year}-01-01`,
       category: 'Sports',
       country: team.country,
-      description: 'Sports team'
+      description: 'Sports team',
+      provenance: YEAR_ESTIMATE
     });
   });
 
@@ -1196,55 +1185,15 @@ export const allCues: Cue[] = allCuesWithoutId.map((cue, index) => ({
   id: index + 1,
 }));
 
-// Parsed cues with calculated numerology
-export interface ParsedCue extends Cue {
-  lifePathNumber: number;
-  energySignature: string;
-}
-
-function parseDate(dateStr: string): Date {
-  // Handle negative years (BC dates)
-  if (dateStr.startsWith('-')) {
-    const parts = dateStr.substring(1).split('-');
-    const year = -parseInt(parts[0]);
-    const month = parseInt(parts[1] || '1') - 1;
-    const day = parseInt(parts[2] || '1');
-    return new Date(year, month, day);
-  }
-  
-  // Handle very old dates
-  const parts = dateStr.split('-');
-  const year = parseInt(parts[0]);
-  const month = parseInt(parts[1] || '1') - 1;
-  const day = parseInt(parts[2] || '1');
-  
-  // For years < 100, we need to use setFullYear to avoid the 1900s interpretation
-  const date = new Date(year, month, day);
-  date.setFullYear(year);
-  return date;
-}
-
-// Pre-compute all cues with their numerology data
-export const parsedCues: ParsedCue[] = allCues.map(cue => {
-  try {
-    const date = parseDate(cue.foundedOrBirth);
-    const lifePathNumber = calculateLifePathNumber(date);
-    const energySignature = calculateEnergySignature(date);
+// Seed records with their numerology fields and provenance, keyed by the
+// same ids the in-memory list has always used
+export function getSeedCues(): DBCueSeed[] {
+  return allCues.map(cue => {
+    const provenance = cue.provenance ?? curatedProvenance(cue.foundedOrBirth);
     return {
       ...cue,
-      lifePathNumber: isNaN(lifePathNumber) ? 1 : lifePathNumber,
-      energySignature: energySignature || 'Fire Initiator',
+      ...deriveCueFields(cue.foundedOrBirth, provenance.datePrecision),
+      provenance: { ...provenance, lastReviewedAt: null },
     };
-  } catch {
-    return {
-      ...cue,
-      lifePathNumber: 1,
-      energySignature: 'Fire Initiator',
-    };
-  }
-});
-
-// Get total count
-export const totalCuesCount = parsedCues.length;
-
-console.log(`Cues database loaded: ${totalCuesCount} entries`);
+  });
+}
@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import { circleRelationships } from "@shared/circle";
 
 const MONGODB_URI = process.env.MONGODB_URI;
 
@@ -39,6 +40,7 @@ const userSchema = new mongoose.Schema({
   birthDate: { type: Date, required: true },
   birthTime: { type: String, default: "" },
   birthLocation: { type: String, default: "" },
+  calculationProfile: { type: String, default: "standard" },
   isPro: { type: Boolean, default: false },
   proPaymentReceiptId: { type: String, sparse: true, index: true },
   createdAt: { type: Date, default: Date.now },
@@ -96,6 +98,96 @@ const personalityInsightSchema = new mongoose.Schema({
 
 export const PersonalityInsightModel = mongoose.model("PersonalityInsight", personalityInsightSchema);
 
+// Experience Settings Schema - per-experience defaults chosen by Whop admins
+const experienceSettingsSchema = new mongoose.Schema({
+  experienceId: { type: String, required: true, unique: true, index: true },
+  calculationProfile: { type: String, default: "standard" },
+  updatedBy: { type: String },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+export const ExperienceSettingsModel = mongoose.model("ExperienceSettings", experienceSettingsSchema);
+
+// Compatibility Reading Schema - saved compatibility checks, including the AI insights
+const compatibilityReadingSchema = new mongoose.Schema({
+  odisId: { type: String, required: true, index: true },
+  title: { type: String, required: true },
+  person1: {
+    name: { type: String, required: true },
+    birthDate: { type: String, required: true },
+  },
+  person2: {
+    name: { type: String, required: true },
+    birthDate: { type: String, required: true },
+  },
+  calculationProfile: { type: String, default: "standard" },
+  relationshipModel: { type: String, default: "general" },
+  overallScore: { type: Number, required: true },
+  level: { type: String, required: true },
+  compatibility: { type: mongoose.Schema.Types.Mixed, required: true },
+  insights: { type: mongoose.Schema.Types.Mixed },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+compatibilityReadingSchema.index({ odisId: 1, createdAt: -1 });
+
+export const CompatibilityReadingModel = mongoose.model("CompatibilityReading", compatibilityReadingSchema);
+
+// Contact Schema - people in a user's personal circle
+const contactSchema = new mongoose.Schema({
+  odisId: { type: String, required: true, index: true },
+  name: { type: String, required: true },
+  birthDate: { type: Date, required: true },
+  birthTime: { type: String, default: "" },
+  birthLocation: { type: String, default: "" },
+  relationship: { type: String, enum: circleRelationships, default: "other" },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+export const ContactModel = mongoose.model("Contact", contactSchema);
+
+// Cue Schema - brands, places and people in the Cues database. cueId is the
+// public numeric id; the numerology fields are derived from foundedOrBirth
+// whenever a cue is seeded or saved. provenance records where the date came
+// from and how far it can be trusted.
+const cueSchema = new mongoose.Schema({
+  cueId: { type: Number, required: true, unique: true, index: true },
+  name: { type: String, required: true },
+  type: { type: String, enum: ['Brand', 'Location', 'Person'], required: true, index: true },
+  foundedOrBirth: { type: String, required: true },
+  category: { type: String },
+  country: { type: String },
+  description: { type: String },
+  lifePathNumber: { type: Number, required: true, index: true },
+  energySignature: { type: String, required: true },
+  chineseAnimal: { type: String, required: true },
+  chineseElement: { type: String, required: true },
+  chineseYinYang: { type: String, required: true },
+  westernSign: { type: String, required: true },
+  provenance: {
+    source: { type: String },
+    status: { type: String, enum: ['verified', 'estimated', 'generated'], index: true },
+    datePrecision: { type: String, enum: ['day', 'year'] },
+    lastReviewedAt: { type: Date, default: null },
+  },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+export const CueModel = mongoose.model("Cue", cueSchema);
+
+// Counter Schema - named sequences handed out atomically, so concurrent
+// creates and imports never pick the same id. seq is the last id issued.
+const counterSchema = new mongoose.Schema({
+  _id: { type: String, required: true },
+  seq: { type: Number, required: true, default: 0 },
+});
+
+export const CounterModel = mongoose.model("Counter", counterSchema);
+
 // TypeScript interfaces
 export interface DBUser {
   id: string;
@@ -108,6 +200,7 @@ export interface DBUser {
   birthDate: Date;
   birthTime?: string | null;
   birthLocation?: string | null;
+  calculationProfile: string;
   isPro: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -151,3 +244,72 @@ export interface DBPersonalityInsight {
   createdAt: Date;
   updatedAt: Date;
 }
+
+export interface DBExperienceSettings {
+  id: string;
+  experienceId: string;
+  calculationProfile: string;
+  updatedBy?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DBCompatibilityReading {
+  id: string;
+  odisId: string;
+  title: string;
+  person1: { name: string; birthDate: string };
+  person2: { name: string; birthDate: string };
+  calculationProfile: string;
+  relationshipModel: string;
+  overallScore: number;
+  level: string;
+  compatibility: unknown;       // ComprehensiveCompatibility as computed when saved
+  insights?: unknown | null;    // Gemini insights; null when generation failed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// List view of a reading, without the stored result payloads
+export type DBCompatibilityReadingSummary = Omit<DBCompatibilityReading, 'compatibility' | 'insights'>;
+
+export interface DBContact {
+  id: string;
+  odisId: string;
+  name: string;
+  birthDate: Date;
+  birthTime?: string | null;
+  birthLocation?: string | null;
+  relationship: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DBCue {
+  id: number;                   // cueId
+  name: string;
+  type: 'Brand' | 'Location' | 'Person';
+  foundedOrBirth: string;       // ISO date or year string
+  category?: string;
+  country?: string;
+  description?: string;
+  lifePathNumber: number;
+  energySignature: string;
+  chineseAnimal: string;
+  chineseElement: string;
+  chineseYinYang: string;
+  westernSign: string;
+  provenance: DBCueProvenance;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DBCueProvenance {
+  source: string;
+  status: 'verified' | 'estimated' | 'generated';
+  datePrecision: 'day' | 'year';
+  lastReviewedAt: Date | null;
+}
+
+// A cue as seeded from server/cuesData.ts, before the database stamps it
+export type DBCueSeed = Omit<DBCue, 'createdAt' | 'updatedAt'>;
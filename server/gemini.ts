@@ -1,4 +1,32 @@
 import { GoogleGenAI } from "@google/genai";
+import {
+  calculateLifePathNumber,
+  calculateExpressionNumber,
+  calculateSoulUrgeNumber,
+  calculatePersonalityNumber,
+  calculateMaturityNumber,
+  calculateAttitudeNumber,
+  calculateDayOfBirthNumber,
+  calculatePersonalDay,
+  calculateUniversalDay,
+  calculateWesternZodiac,
+  calculateChineseZodiac,
+  calculateEnergySignature,
+  calculatePinnaclesAndChallenges,
+  calculateComprehensiveCompatibility,
+  getNumberMeaning,
+  getCalculationProfile,
+  calendarToday,
+  getRelationshipModel,
+  DEFAULT_RELATIONSHIP_MODEL,
+  relationshipDateKinds,
+  type FullProfile,
+  type RelationshipModel,
+  type RelationshipModelId,
+  type RelationshipComposite,
+} from "@shared/numerology";
+import { analyzeAnimalPair } from "@shared/chineseRelations";
+import { analyzeSignAspect } from "@shared/westernAspects";
 
 // Gemini AI integration for personalized numerology insights
 // Following @google/genai SDK pattern from integration blueprint
@@ -160,6 +188,24 @@ export interface CompatibilityProfile {
   energySignature: string;
 }
 
+// Flattens a calculated profile into the fields the compatibility prompt uses
+export function toCompatibilityProfile(name: string, profile: FullProfile): CompatibilityProfile {
+  return {
+    name,
+    lifePathNumber: profile.lifePathNumber,
+    expressionNumber: profile.expressionNumber,
+    soulUrgeNumber: profile.soulUrgeNumber,
+    personalityNumber: profile.personalityNumber,
+    attitudeNumber: profile.attitudeNumber,
+    dayOfBirthNumber: profile.dayOfBirthNumber,
+    westernZodiac: profile.westernZodiac.sign,
+    westernElement: profile.westernZodiac.element,
+    chineseZodiac: profile.chineseZodiac.animal,
+    chineseElement: profile.chineseZodiac.element,
+    energySignature: profile.energySignature,
+  };
+}
+
 export interface CompatibilityInsightResponse {
   overviewNarrative: string;
   emotionalConnection: string;
@@ -173,10 +219,24 @@ export async function generateCompatibilityInsights(
   person1: CompatibilityProfile,
   person2: CompatibilityProfile,
   overallScore: number,
-  level: string
+  level: string,
+  model: RelationshipModel = DEFAULT_RELATIONSHIP_MODEL,
+  composite: RelationshipComposite | null = null
 ): Promise<CompatibilityInsightResponse> {
+  const compositeSection = composite ? `
+Relationship Number (from their shared date: ${relationshipDateKinds[composite.kind]}, ${composite.date}):
+- Life Path: ${composite.lifePathNumber} (${composite.title})
+- Chinese Year: ${composite.chineseZodiac.element} ${composite.chineseZodiac.animal}
+- Energy Signature: ${composite.energySignature}
+- Fit with ${composite.person1.name}: ${composite.person1.score}% - ${composite.person1.lifePath.insight}
+- Fit with ${composite.person2.name}: ${composite.person2.score}% - ${composite.person2.lifePath.insight}
+` : '';
+
   const prompt = `You are an expert numerologist and relationship counselor. Based on the following two complete numerology and astrology profiles, generate a deeply personalized compatibility analysis.
 
+Relationship Type: ${model.name}
+${model.promptFocus}
+
 Person 1 - ${person1.name}:
 - Life Path: ${person1.lifePathNumber}
 - Expression: ${person1.expressionNumber}
@@ -199,7 +259,10 @@ Person 2 - ${person2.name}:
 - Chinese Zodiac: ${person2.chineseZodiac} (${person2.chineseElement})
 - Energy Signature: ${person2.energySignature}
 
-Overall Compatibility Score: ${overallScore}% (${level})
+Chinese Zodiac Relation: ${analyzeAnimalPair(person1.chineseZodiac, person2.chineseZodiac).explanations.join(' ')}
+Western Sign Aspect: ${analyzeSignAspect(person1.westernZodiac, person2.westernZodiac)?.insight ?? 'Unknown'}
+${compositeSection}
+Overall Compatibility Score: ${overallScore}% (${level}, scored with the ${model.name.toLowerCase()} model)
 
 Generate a comprehensive, personalized compatibility reading that:
 1. Analyzes how their specific numbers interact - not generic advice
@@ -207,7 +270,9 @@ Generate a comprehensive, personalized compatibility reading that:
 3. Provides genuine insight into their relationship dynamics
 4. Is balanced - acknowledges both strengths and challenges
 5. Uses ${person1.name} and ${person2.name}'s names to make it personal
-
+6. Frames every section for a ${model.name.toLowerCase()} relationship - keep the JSON keys below, but interpret them in that context
+${composite ? `7. Treats the Relationship Number as the relationship's own energy - weave it into the overview and growth sections and say who it comes more naturally to
+` : ''}
 IMPORTANT: Be specific to THESE two people. Reference their actual numbers and signs. Don't give generic relationship advice.
 
 You MUST respond with valid JSON only, no other text. Use this exact format:
@@ -307,169 +372,6 @@ You MUST respond with valid JSON only. Use this exact format:
 // CUECHATS - AI CHAT FUNCTIONALITY
 // ============================================
 
-// Letter to number mapping for name calculations
-const letterValues: Record<string, number> = {
-  'A': 1, 'J': 1, 'S': 1,
-  'B': 2, 'K': 2, 'T': 2,
-  'C': 3, 'L': 3, 'U': 3,
-  'D': 4, 'M': 4, 'V': 4,
-  'E': 5, 'N': 5, 'W': 5,
-  'F': 6, 'O': 6, 'X': 6,
-  'G': 7, 'P': 7, 'Y': 7,
-  'H': 8, 'Q': 8, 'Z': 8,
-  'I': 9, 'R': 9,
-};
-
-const vowels = ['A', 'E', 'I', 'O', 'U'];
-
-function reduceToSingleDigit(num: number, preserveMasterNumbers = true): number {
-  while (num > 9) {
-    if (preserveMasterNumbers && (num === 11 || num === 22 || num === 33)) {
-      return num;
-    }
-    num = num.toString().split('').reduce((sum, digit) => sum + parseInt(digit), 0);
-  }
-  return num;
-}
-
-function calculateLifePathNumber(birthDate: Date): number {
-  const month = birthDate.getMonth() + 1;
-  const day = birthDate.getDate();
-  const year = birthDate.getFullYear();
-
-  const monthReduced = reduceToSingleDigit(month, true);
-  const dayReduced = reduceToSingleDigit(day, true);
-  const yearReduced = reduceToSingleDigit(
-    year.toString().split('').reduce((sum, d) => sum + parseInt(d), 0),
-    true
-  );
-
-  const total = monthReduced + dayReduced + yearReduced;
-  return reduceToSingleDigit(total, true);
-}
-
-function calculateExpressionNumber(fullName: string): number {
-  const cleanName = fullName.toUpperCase().replace(/[^A-Z]/g, '');
-  const sum = cleanName.split('').reduce((total, letter) => total + (letterValues[letter] || 0), 0);
-  return reduceToSingleDigit(sum, true);
-}
-
-function calculateSoulUrgeNumber(fullName: string): number {
-  const cleanName = fullName.toUpperCase().replace(/[^A-Z]/g, '');
-  const sum = cleanName.split('').filter(l => vowels.includes(l)).reduce((total, letter) => total + (letterValues[letter] || 0), 0);
-  return reduceToSingleDigit(sum, true);
-}
-
-function calculatePersonalityNumber(fullName: string): number {
-  const cleanName = fullName.toUpperCase().replace(/[^A-Z]/g, '');
-  const sum = cleanName.split('').filter(l => !vowels.includes(l)).reduce((total, letter) => total + (letterValues[letter] || 0), 0);
-  return reduceToSingleDigit(sum, true);
-}
-
-function calculateMaturityNumber(lifePath: number, expression: number): number {
-  return reduceToSingleDigit(lifePath + expression, true);
-}
-
-function calculateAttitudeNumber(birthDate: Date): number {
-  const month = birthDate.getMonth() + 1;
-  const day = birthDate.getDate();
-  return reduceToSingleDigit(month + day, true);
-}
-
-function calculateDayOfBirthNumber(birthDate: Date): number {
-  return reduceToSingleDigit(birthDate.getDate(), true);
-}
-
-function calculatePersonalDayNumber(birthDate: Date): number {
-  const today = new Date();
-  const month = today.getMonth() + 1;
-  const day = today.getDate();
-  const year = today.getFullYear();
-
-  const lifePathNumber = calculateLifePathNumber(birthDate);
-  const universalDayNumber = reduceToSingleDigit(month + day + reduceToSingleDigit(year.toString().split('').reduce((sum, d) => sum + parseInt(d), 0), false), false);
-
-  return reduceToSingleDigit(lifePathNumber + universalDayNumber, true);
-}
-
-function calculateUniversalDayNumber(): number {
-  const today = new Date();
-  const month = today.getMonth() + 1;
-  const day = today.getDate();
-  const year = today.getFullYear();
-
-  const yearSum = year.toString().split('').reduce((sum, d) => sum + parseInt(d), 0);
-  return reduceToSingleDigit(month + day + yearSum, true);
-}
-
-function getWesternZodiac(birthDate: Date): { sign: string; element: string } {
-  const month = birthDate.getMonth() + 1;
-  const day = birthDate.getDate();
-
-  const zodiacData: Array<{ sign: string; element: string; startMonth: number; startDay: number; endMonth: number; endDay: number }> = [
-    { sign: 'Capricorn', element: 'Earth', startMonth: 12, startDay: 22, endMonth: 1, endDay: 19 },
-    { sign: 'Aquarius', element: 'Air', startMonth: 1, startDay: 20, endMonth: 2, endDay: 18 },
-    { sign: 'Pisces', element: 'Water', startMonth: 2, startDay: 19, endMonth: 3, endDay: 20 },
-    { sign: 'Aries', element: 'Fire', startMonth: 3, startDay: 21, endMonth: 4, endDay: 19 },
-    { sign: 'Taurus', element: 'Earth', startMonth: 4, startDay: 20, endMonth: 5, endDay: 20 },
-    { sign: 'Gemini', element: 'Air', startMonth: 5, startDay: 21, endMonth: 6, endDay: 20 },
-    { sign: 'Cancer', element: 'Water', startMonth: 6, startDay: 21, endMonth: 7, endDay: 22 },
-    { sign: 'Leo', element: 'Fire', startMonth: 7, startDay: 23, endMonth: 8, endDay: 22 },
-    { sign: 'Virgo', element: 'Earth', startMonth: 8, startDay: 23, endMonth: 9, endDay: 22 },
-    { sign: 'Libra', element: 'Air', startMonth: 9, startDay: 23, endMonth: 10, endDay: 22 },
-    { sign: 'Scorpio', element: 'Water', startMonth: 10, startDay: 23, endMonth: 11, endDay: 21 },
-    { sign: 'Sagittarius', element: 'Fire', startMonth: 11, startDay: 22, endMonth: 12, endDay: 21 },
-  ];
-
-  for (const z of zodiacData) {
-    if (z.startMonth === 12 && z.endMonth === 1) {
-      if ((month === 12 && day >= z.startDay) || (month === 1 && day <= z.endDay)) {
-        return { sign: z.sign, element: z.element };
-      }
-    } else if ((month === z.startMonth && day >= z.startDay) || (month === z.endMonth && day <= z.endDay)) {
-      return { sign: z.sign, element: z.element };
-    }
-  }
-
-  return { sign: 'Unknown', element: 'Unknown' };
-}
-
-function getChineseZodiac(birthDate: Date): { animal: string; element: string } {
-  const year = birthDate.getFullYear();
-  const animals = ['Rat', 'Ox', 'Tiger', 'Rabbit', 'Dragon', 'Snake', 'Horse', 'Goat', 'Monkey', 'Rooster', 'Dog', 'Pig'];
-  const elements = ['Metal', 'Metal', 'Water', 'Water', 'Wood', 'Wood', 'Fire', 'Fire', 'Earth', 'Earth'];
-
-  const animalIndex = (year - 4) % 12;
-  const elementIndex = year % 10;
-
-  return {
-    animal: animals[animalIndex],
-    element: elements[elementIndex]
-  };
-}
-
-function calculateEnergySignature(birthDate: Date): string {
-  const lifePathNumber = calculateLifePathNumber(birthDate);
-  const { element } = getChineseZodiac(birthDate);
-
-  const energyMap: Record<number, string> = {
-    1: 'Fire Initiator',
-    2: 'Water Harmonizer',
-    3: 'Air Creator',
-    4: 'Earth Stabilizer',
-    5: 'Wind Changer',
-    6: 'Heart Healer',
-    7: 'Mind Seeker',
-    8: 'Power Manifester',
-    9: 'Soul Completer',
-    11: 'Light Bearer',
-    22: 'Reality Architect',
-    33: 'Love Teacher',
-  };
-
-  return `${element} ${energyMap[lifePathNumber] || 'Energy'}`;
-}
-
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -480,6 +382,15 @@ export interface ChatUserProfile {
   birthDate: Date;
   birthTime?: string;
   birthLocation?: string;
+  calculationProfile?: string;
+}
+
+// Someone from the user's circle the assistant may be asked about by name
+export interface ChatCircleMember {
+  name: string;
+  birthDate: Date;
+  relationship: string;
+  relationshipModel?: RelationshipModelId;
 }
 
 export interface ChatResponse {
@@ -492,30 +403,50 @@ export interface ChatResponse {
 const CHAT_MODEL = PRIMARY_MODEL;
 
 // Build user context once - this is the expensive calculation that should only happen once per session
-export function buildUserContext(profile: ChatUserProfile): { systemContext: string; firstName: string } {
+export function buildUserContext(profile: ChatUserProfile, circle: ChatCircleMember[] = []): { systemContext: string; firstName: string } {
   const birthDate = new Date(profile.birthDate);
-
-  // Calculate all numerology numbers
-  const lifePathNumber = calculateLifePathNumber(birthDate);
-  const expressionNumber = calculateExpressionNumber(profile.fullName);
-  const soulUrgeNumber = calculateSoulUrgeNumber(profile.fullName);
-  const personalityNumber = calculatePersonalityNumber(profile.fullName);
-  const attitudeNumber = calculateAttitudeNumber(birthDate);
-  const dayOfBirthNumber = calculateDayOfBirthNumber(birthDate);
-  const personalDayNumber = calculatePersonalDayNumber(birthDate);
-  const universalDayNumber = calculateUniversalDayNumber();
+  const calculationProfile = getCalculationProfile(profile.calculationProfile);
+  const today = calendarToday();
+
+  // Calculate all numerology numbers under the user's chosen conventions
+  const lifePathNumber = calculateLifePathNumber(birthDate, calculationProfile);
+  const expressionNumber = calculateExpressionNumber(profile.fullName, calculationProfile);
+  const soulUrgeNumber = calculateSoulUrgeNumber(profile.fullName, calculationProfile);
+  const personalityNumber = calculatePersonalityNumber(profile.fullName, calculationProfile);
+  const attitudeNumber = calculateAttitudeNumber(birthDate, calculationProfile);
+  const dayOfBirthNumber = calculateDayOfBirthNumber(birthDate, calculationProfile);
+  const personalDayNumber = calculatePersonalDay(birthDate, today, calculationProfile);
+  const universalDayNumber = calculateUniversalDay(today, calculationProfile);
 
   // Get astrology data
-  const westernZodiac = getWesternZodiac(birthDate);
-  const chineseZodiac = getChineseZodiac(birthDate);
+  const westernZodiac = calculateWesternZodiac(birthDate);
+  const chineseZodiac = calculateChineseZodiac(birthDate);
 
   // Format today's date
-  const today = new Date();
-  const todayFormatted = today.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+  const todayFormatted = new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
 
   const firstName = profile.fullName.split(' ')[0];
-  const maturityNumber = calculateMaturityNumber(lifePathNumber, expressionNumber);
-  const energySignature = calculateEnergySignature(birthDate);
+  const maturityNumber = calculateMaturityNumber(lifePathNumber, expressionNumber, calculationProfile);
+  const energySignature = calculateEnergySignature(birthDate, calculationProfile);
+
+  // Current life cycle (Pinnacle + Challenge) for "this season of my life" questions
+  const cycles = calculatePinnaclesAndChallenges(birthDate, today, calculationProfile);
+  const currentPinnacle = cycles.pinnacles[cycles.currentPhase - 1];
+  const currentChallenge = cycles.challenges[cycles.currentPhase - 1];
+  const pinnacleAges = currentPinnacle.endAge === null
+    ? `ages ${currentPinnacle.startAge}+`
+    : `ages ${currentPinnacle.startAge}-${currentPinnacle.endAge}`;
+
+  // People from their circle, pre-scored against the user under the same profile
+  const circleLines = circle.map(person => {
+    const personDate = new Date(person.birthDate);
+    const match = calculateComprehensiveCompatibility(profile.fullName, birthDate, person.name, personDate, calculationProfile, getRelationshipModel(person.relationshipModel));
+    const other = match.person2Profile;
+    return `- ${person.name} (${person.relationship}): Life Path ${other.lifePathNumber}, Expression ${other.expressionNumber}, Soul Urge ${other.soulUrgeNumber}, ${other.westernZodiac.sign}, ${other.chineseZodiac.element} ${other.chineseZodiac.animal}; compatibility with ${firstName} ${match.overallScore}% (${match.level})`;
+  });
+  const circleSection = circleLines.length > 0
+    ? `\n\nPEOPLE IN ${firstName.toUpperCase()}'S CIRCLE:\n${circleLines.join('\n')}`
+    : '';
 
   const systemContext = `You're ${firstName}'s numerology-savvy friend. You know them deeply through their chart - always show this.
 
@@ -528,10 +459,12 @@ ${firstName.toUpperCase()}'S FULL PROFILE:
 - Day of Birth ${dayOfBirthNumber} (natural talents)
 - Maturity ${maturityNumber} (where they're heading)
 - Energy Signature: ${energySignature}
+- Current Pinnacle ${currentPinnacle.number} "${getNumberMeaning(currentPinnacle.number).title}" (phase ${cycles.currentPhase} of 4, ${pinnacleAges}, now age ${cycles.currentAge}) with Challenge ${currentChallenge.number}
 - Western: ${westernZodiac.sign} (${westernZodiac.element} element)
 - Chinese: ${chineseZodiac.animal} (${chineseZodiac.element} element)
 - Today: ${todayFormatted}
 - Personal Day ${personalDayNumber}, Universal Day ${universalDayNumber}
+- Calculation profile: ${calculationProfile.name} (${calculationProfile.letterSystem} letter values, master numbers ${calculationProfile.masterNumbers.join('/')}, personal year starts ${calculationProfile.personalYearRollover === 'birthday' ? 'on their birthday' : 'on January 1'})${circleSection}
 
 HOW TO RESPOND:
 1. ALWAYS explain WHY using their specific numbers/signs - this is the whole point
@@ -539,8 +472,10 @@ HOW TO RESPOND:
 3. Connect recommendations to their chart (e.g., "Japan's Dragon founding year vibes with your Monkey - that's a power alliance in Chinese astrology")
 4. Keep it conversational - like a knowledgeable friend, not a formal reading
 5. Be concise but substantive: 3-5 sentences, or use a quick list with reasons
-6. For timing questions, use their Personal Day ${personalDayNumber} and Universal Day ${universalDayNumber}
+6. For timing questions, use their Personal Day ${personalDayNumber} and Universal Day ${universalDayNumber}; for questions about this season or chapter of their life, use their current Pinnacle and Challenge
 7. Make them feel truly understood - you KNOW them through these numbers
+8. Their numbers already follow their calculation profile - never recalculate them with a different system
+9. When they mention someone from their circle by name, use that person's numbers and compatibility score above
 
 DON'T:
 - Give vague answers without tying to their profile
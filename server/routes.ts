@@ -1,11 +1,71 @@
-import type { Express } from "express";
+import type { Express, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage, generateOdisId } from "./storage";
 import { whopAuthMiddleware, requireWhopAuth, checkAccess, getWhopUserProfile, type WhopRequest } from "./whop";
-import { generatePersonalityInsights, generateDailyEnergy, generateCompatibilityInsights, generateChatResponse, generateChatResponseWithContext, generateChatResponseStream, buildUserContext, type UserNumerologyProfile, type CompatibilityProfile, type ChatMessage } from "./gemini";
-import { parsedCues, totalCuesCount, type ParsedCue } from "./cuesData";
+import { generatePersonalityInsights, generateDailyEnergy, generateCompatibilityInsights, generateChatResponse, generateChatResponseWithContext, generateChatResponseStream, buildUserContext, toCompatibilityProfile, type UserNumerologyProfile, type ChatMessage } from "./gemini";
+import { getCueChineseZodiac } from "./cueFields";
+import { filterCuesByFacets, parseCueFacetSelection, CUE_FACET_BASIS } from "./cueFacets";
+import {
+  calculatePinnaclesAndChallenges,
+  calculateComprehensiveCompatibility,
+  calculateComprehensiveProfile,
+  calculateKarmicProfile,
+  traceCalculation,
+  isCalculationType,
+  calculateUniversalDay,
+  calculateChineseZodiac,
+  calculateChineseZodiacForYear,
+  chineseAnimals,
+  calculateWesternZodiac,
+  calendarToday,
+  parseCalendarDate,
+  calculationProfiles,
+  getCalculationProfile,
+  isCalculationProfileId,
+  getNumberMeaning,
+  reduceToSingleDigit,
+  calculatePersonalForecast,
+  MAX_FORECAST_MONTHS,
+  getForecastWindowEnd,
+  formatCalendarDate,
+  relationshipModels,
+  getRelationshipModel,
+  isRelationshipModelId,
+  isRelationshipDateKind,
+  type RelationshipDate,
+  type CalculationProfile,
+} from "@shared/numerology";
+import { calculateBaziChart } from "@shared/bazi";
+import { analyzeAnimalPair, isFavorableAnimalPair } from "@shared/chineseRelations";
+import { analyzeSignAspect, westernSigns } from "@shared/westernAspects";
+import { calculateGroupCompatibility, MAX_GROUP_SIZE, type GroupMember } from "@shared/groupCompatibility";
+import { parseScreeningInput, screenCandidates, MAX_SCREENING_ROWS, type ScreeningResult } from "@shared/screening";
+import { validateCueInput, buildCueVocabulary, parseCueImport, findCueDuplicates, cueDuplicateKey, MAX_CUE_IMPORT_ROWS, type CueImportResult } from "@shared/cueCatalog";
+import { isCircleRelationship, circleRelationshipLabels, getRelationshipModelForContact, MAX_CIRCLE_SIZE, type CircleRelationship } from "@shared/circle";
+import { findBestDays, planGroupEvent, buildJointCalendar, isActivityType, timingActivities, MIN_JOINT_CALENDAR_DAYS, MAX_JOINT_CALENDAR_DAYS, type EventParticipant } from "@shared/timing";
 import { Resend } from 'resend';
 
+// The numerology convention for a calculation: the one the request names,
+// else the signed-in user's saved profile, else their experience's default
+async function resolveCalculationProfile(req: WhopRequest, requested: unknown): Promise<CalculationProfile> {
+  if (typeof requested === "string" && isCalculationProfileId(requested)) {
+    return calculationProfiles[requested];
+  }
+  try {
+    if (req.whopUser) {
+      const user = await storage.getUserByWhopId(req.whopUser.userId);
+      if (user?.calculationProfile) return getCalculationProfile(user.calculationProfile);
+    }
+    if (req.experienceId) {
+      const settings = await storage.getExperienceSettings(req.experienceId);
+      if (settings?.calculationProfile) return getCalculationProfile(settings.calculationProfile);
+    }
+  } catch (error) {
+    console.error("Error loading stored calculation profile:", error);
+  }
+  return getCalculationProfile(null);
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -21,20 +81,57 @@ export async function registerRoutes(
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json({ user });
+      res.json({ user, karmic: calculateKarmicProfile(user.fullName, user.birthDate, getCalculationProfile(user.calculationProfile)) });
     } catch (error) {
       console.error("Error getting profile:", error);
       res.status(500).json({ error: "Failed to get profile" });
     }
   });
 
+  // Get the Four Pillars (BaZi) chart for a user's birth date and time
+  app.get("/api/profile/:odisId/bazi", async (req, res) => {
+    const { odisId } = req.params;
+
+    try {
+      const user = await storage.getUserByOdisId(odisId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const chart = calculateBaziChart(user.birthDate, user.birthTime);
+      res.json({ chart });
+    } catch (error) {
+      console.error("Error calculating BaZi chart:", error);
+      res.status(500).json({ error: "Failed to calculate BaZi chart" });
+    }
+  });
+
+  // Get Pinnacle and Challenge life cycles with the user's current phase
+  app.get("/api/profile/:odisId/pinnacles", async (req, res) => {
+    const { odisId } = req.params;
+
+    try {
+      const user = await storage.getUserByOdisId(odisId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ cycles: calculatePinnaclesAndChallenges(user.birthDate, calendarToday(), getCalculationProfile(user.calculationProfile)) });
+    } catch (error) {
+      console.error("Error calculating pinnacles:", error);
+      res.status(500).json({ error: "Failed to calculate pinnacles" });
+    }
+  });
+
   // Create new user profile (generates odisId)
   app.post("/api/profile", async (req: WhopRequest, res) => {
     const { fullName, birthDate, birthTime, birthLocation } = req.body;
+    let { calculationProfile } = req.body;
 
     if (!fullName || !birthDate) {
       return res.status(400).json({ error: "Missing required fields: fullName and birthDate" });
     }
+    if (calculationProfile !== undefined && !isCalculationProfileId(calculationProfile)) {
+      return res.status(400).json({ error: "Invalid calculation profile" });
+    }
 
     try {
       const odisId = generateOdisId();
@@ -59,18 +156,25 @@ export async function registerRoutes(
         }
       }
 
+      // New members start on their experience's default calculation profile
+      if (!calculationProfile && req.experienceId) {
+        const settings = await storage.getExperienceSettings(req.experienceId);
+        calculationProfile = settings?.calculationProfile;
+      }
+
       const user = await storage.createUser({
         odisId,
         fullName,
         birthDate: new Date(birthDate),
         birthTime,
         birthLocation,
+        calculationProfile,
         whopUserId,
         whopUsername,
         whopProfilePictureUrl,
         whopAccessLevel,
       });
-      res.json({ success: true, user });
+      res.json({ success: true, user, karmic: calculateKarmicProfile(user.fullName, user.birthDate, getCalculationProfile(user.calculationProfile)) });
     } catch (error) {
       console.error("Error creating profile:", error);
       res.status(500).json({ error: "Failed to create profile" });
@@ -91,7 +195,7 @@ export async function registerRoutes(
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json({ user });
+      res.json({ user, karmic: calculateKarmicProfile(user.fullName, user.birthDate, getCalculationProfile(user.calculationProfile)) });
     } catch (error) {
       console.error("Error getting user by Whop ID:", error);
       res.status(500).json({ error: "Failed to get user" });
@@ -140,7 +244,7 @@ export async function registerRoutes(
           if (updated) user = updated;
         }
 
-        res.json({ user, needsOnboarding: false });
+        res.json({ user, karmic: calculateKarmicProfile(user.fullName, user.birthDate, getCalculationProfile(user.calculationProfile)), needsOnboarding: false });
       } else {
         // User doesn't exist yet - they need to complete onboarding
         const whopProfile = await getWhopUserProfile(whopUserId);
@@ -163,7 +267,11 @@ export async function registerRoutes(
   // Update existing user profile
   app.put("/api/profile/:odisId", async (req, res) => {
     const { odisId } = req.params;
-    const { fullName, birthDate, birthTime, birthLocation } = req.body;
+    const { fullName, birthDate, birthTime, birthLocation, calculationProfile } = req.body;
+
+    if (calculationProfile !== undefined && !isCalculationProfileId(calculationProfile)) {
+      return res.status(400).json({ error: "Invalid calculation profile" });
+    }
 
     try {
       const user = await storage.updateUser(odisId, {
@@ -171,19 +279,174 @@ export async function registerRoutes(
         birthDate: birthDate ? new Date(birthDate) : undefined,
         birthTime,
         birthLocation,
+        calculationProfile,
       });
 
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
-      res.json({ success: true, user });
+      res.json({ success: true, user, karmic: calculateKarmicProfile(user.fullName, user.birthDate, getCalculationProfile(user.calculationProfile)) });
     } catch (error) {
       console.error("Error updating profile:", error);
       res.status(500).json({ error: "Failed to update profile" });
     }
   });
 
+  // Personal circle: saved people the signed-in user compares against often
+  app.get("/api/circle", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const contacts = await storage.getContacts(owner.odisId);
+      res.json({ contacts });
+    } catch (error) {
+      console.error("Error listing circle:", error);
+      res.status(500).json({ error: "Failed to get circle" });
+    }
+  });
+
+  app.post("/api/circle", requireWhopAuth, async (req: WhopRequest, res) => {
+    const { name, birthDate, birthTime, birthLocation, relationship } = req.body;
+
+    if (typeof name !== "string" || !name.trim() || !birthDate) {
+      return res.status(400).json({ error: "Missing required fields: name, birthDate" });
+    }
+    if (typeof birthDate !== "string") {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    const contactBirthDate = parseCalendarDate(birthDate);
+    if (isNaN(contactBirthDate.getTime())) {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    if (relationship !== undefined && (typeof relationship !== "string" || !isCircleRelationship(relationship))) {
+      return res.status(400).json({ error: "Invalid relationship" });
+    }
+
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const existing = await storage.getContacts(owner.odisId);
+      if (existing.length >= MAX_CIRCLE_SIZE) {
+        return res.status(400).json({ error: `Your circle is limited to ${MAX_CIRCLE_SIZE} people` });
+      }
+
+      const contact = await storage.createContact({
+        odisId: owner.odisId,
+        name: name.trim(),
+        birthDate: contactBirthDate,
+        birthTime: typeof birthTime === "string" ? birthTime : undefined,
+        birthLocation: typeof birthLocation === "string" ? birthLocation.trim() : undefined,
+        relationship: relationship || "other",
+      });
+      res.json({ success: true, contact });
+    } catch (error) {
+      console.error("Error creating contact:", error);
+      res.status(500).json({ error: "Failed to add to circle" });
+    }
+  });
+
+  // One contact with their full profile and compatibility with the owner
+  app.get("/api/circle/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const contact = await storage.getContact(owner.odisId, req.params.id);
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+
+      const calculationProfile = getCalculationProfile(owner.calculationProfile);
+      const profile = calculateComprehensiveProfile(
+        contact.name,
+        contact.birthDate,
+        contact.birthTime || undefined,
+        contact.birthLocation || undefined,
+        calculationProfile
+      );
+      const compatibility = calculateComprehensiveCompatibility(
+        owner.fullName,
+        owner.birthDate,
+        contact.name,
+        contact.birthDate,
+        calculationProfile,
+        getRelationshipModel(getRelationshipModelForContact(contact.relationship))
+      );
+
+      res.json({ contact, profile, compatibility });
+    } catch (error) {
+      console.error("Error getting contact:", error);
+      res.status(500).json({ error: "Failed to get contact" });
+    }
+  });
+
+  app.put("/api/circle/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    const { name, birthDate, birthTime, birthLocation, relationship } = req.body;
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return res.status(400).json({ error: "Name cannot be empty" });
+    }
+    if (birthDate !== undefined && typeof birthDate !== "string") {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    const contactBirthDate = birthDate ? parseCalendarDate(birthDate) : undefined;
+    if (contactBirthDate && isNaN(contactBirthDate.getTime())) {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    if (relationship !== undefined && (typeof relationship !== "string" || !isCircleRelationship(relationship))) {
+      return res.status(400).json({ error: "Invalid relationship" });
+    }
+
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const contact = await storage.updateContact(owner.odisId, req.params.id, {
+        name: name?.trim(),
+        birthDate: contactBirthDate,
+        birthTime: typeof birthTime === "string" ? birthTime : undefined,
+        birthLocation: typeof birthLocation === "string" ? birthLocation.trim() : undefined,
+        relationship,
+      });
+      if (!contact) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      res.json({ success: true, contact });
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      res.status(500).json({ error: "Failed to update contact" });
+    }
+  });
+
+  app.delete("/api/circle/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const deleted = await storage.deleteContact(owner.odisId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Contact not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      res.status(500).json({ error: "Failed to delete contact" });
+    }
+  });
+
   // Get daily energy reading for a user on a specific date
   app.get("/api/daily-energy/:odisId/:date", async (req, res) => {
     const { odisId, date } = req.params;
@@ -329,54 +592,184 @@ export async function registerRoutes(
     }
   });
 
-  // Comprehensive compatibility analysis with AI insights
-  app.post("/api/compatibility", async (req, res) => {
+  // Available calculation profiles (letter system, master numbers, personal year rollover)
+  app.get("/api/calculation-profiles", (_req, res) => {
+    res.json({ profiles: Object.values(calculationProfiles) });
+  });
+
+  // Relationship scoring models (weights, level thresholds and wording per relationship type)
+  app.get("/api/relationship-models", (_req, res) => {
+    res.json({ models: Object.values(relationshipModels) });
+  });
+
+  // Experience-wide settings, including the default calculation profile for new members
+  app.get("/api/experiences/:experienceId/settings", async (req, res) => {
+    const { experienceId } = req.params;
+
     try {
-      const { person1, person2 } = req.body;
-
-      if (!person1 || !person2 || !person1.name || !person2.name || !person1.birthDate || !person2.birthDate) {
-        return res.status(400).json({ error: "Missing required profile data for both persons" });
-      }
-
-      // Build CompatibilityProfile objects for AI
-      const profile1: CompatibilityProfile = {
-        name: person1.name,
-        lifePathNumber: person1.lifePathNumber,
-        expressionNumber: person1.expressionNumber,
-        soulUrgeNumber: person1.soulUrgeNumber,
-        personalityNumber: person1.personalityNumber,
-        attitudeNumber: person1.attitudeNumber,
-        dayOfBirthNumber: person1.dayOfBirthNumber,
-        westernZodiac: person1.westernZodiac,
-        westernElement: person1.westernElement,
-        chineseZodiac: person1.chineseZodiac,
-        chineseElement: person1.chineseElement,
-        energySignature: person1.energySignature,
-      };
+      const settings = await storage.getExperienceSettings(experienceId);
+      res.json({ settings: { experienceId, calculationProfile: settings?.calculationProfile || "standard" } });
+    } catch (error) {
+      console.error("Error getting experience settings:", error);
+      res.status(500).json({ error: "Failed to get experience settings" });
+    }
+  });
 
-      const profile2: CompatibilityProfile = {
-        name: person2.name,
-        lifePathNumber: person2.lifePathNumber,
-        expressionNumber: person2.expressionNumber,
-        soulUrgeNumber: person2.soulUrgeNumber,
-        personalityNumber: person2.personalityNumber,
-        attitudeNumber: person2.attitudeNumber,
-        dayOfBirthNumber: person2.dayOfBirthNumber,
-        westernZodiac: person2.westernZodiac,
-        westernElement: person2.westernElement,
-        chineseZodiac: person2.chineseZodiac,
-        chineseElement: person2.chineseElement,
-        energySignature: person2.energySignature,
-      };
+  // Set the experience's default calculation profile (experience admins only)
+  app.put("/api/experiences/:experienceId/calculation-profile", requireWhopAuth, async (req: WhopRequest, res) => {
+    const { experienceId } = req.params;
+    const { calculationProfile } = req.body;
+    const userId = req.whopUser!.userId;
+
+    if (typeof calculationProfile !== "string" || !isCalculationProfileId(calculationProfile)) {
+      return res.status(400).json({ error: "Invalid calculation profile" });
+    }
+
+    try {
+      const access = await checkAccess(experienceId, userId);
+      if (access.accessLevel !== "admin") {
+        return res.status(403).json({ error: "Only experience admins can change the default calculation profile" });
+      }
+
+      const settings = await storage.setExperienceCalculationProfile(experienceId, calculationProfile, userId);
+      res.json({ success: true, settings: { experienceId, calculationProfile: settings.calculationProfile } });
+    } catch (error) {
+      console.error("Error updating experience calculation profile:", error);
+      res.status(500).json({ error: "Failed to update calculation profile" });
+    }
+  });
+
+  // Step-by-step calculation trace for a single number ("show the math")
+  app.post("/api/numerology/trace", async (req: WhopRequest, res) => {
+    const { type, fullName, birthDate, targetDate, calculationProfile } = req.body;
+
+    if (typeof type !== "string" || !isCalculationType(type)) {
+      return res.status(400).json({ error: "Invalid or missing calculation type" });
+    }
+    if (!birthDate) {
+      return res.status(400).json({ error: "Missing required field: birthDate" });
+    }
+    if (fullName !== undefined && typeof fullName !== "string") {
+      return res.status(400).json({ error: "Invalid fullName" });
+    }
+    if (!fullName && ["expression", "soulUrge", "personality", "maturity"].includes(type)) {
+      return res.status(400).json({ error: "Missing required field: fullName" });
+    }
+    const birth = typeof birthDate === "string" ? parseCalendarDate(birthDate) : new Date(NaN);
+    if (isNaN(birth.getTime())) {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    const target = !targetDate
+      ? calendarToday()
+      : typeof targetDate === "string" ? parseCalendarDate(targetDate) : new Date(NaN);
+    if (isNaN(target.getTime())) {
+      return res.status(400).json({ error: "Invalid target date" });
+    }
+
+    try {
+      const trace = traceCalculation(
+        type,
+        fullName || "",
+        birth,
+        target,
+        await resolveCalculationProfile(req, calculationProfile)
+      );
+      res.json({ trace });
+    } catch (error) {
+      console.error("Error tracing calculation:", error);
+      res.status(500).json({ error: "Failed to trace calculation" });
+    }
+  });
 
-      const overallScore = req.body.overallScore || 50;
-      const level = req.body.level || 'Neutral';
+  // Comprehensive compatibility analysis with AI insights. Scores are always
+  // computed here from names and birth dates; client-sent numbers are ignored.
+  // Signed-in users who send save: true get the reading added to their history.
+  app.post("/api/compatibility", async (req: WhopRequest, res) => {
+    const { person1, person2, calculationProfile, relationshipModel, relationshipDate, relationshipDateKind, save } = req.body;
 
-      const aiInsights = await generateCompatibilityInsights(profile1, profile2, overallScore, level);
+    if (!person1?.name || !person2?.name || !person1?.birthDate || !person2?.birthDate) {
+      return res.status(400).json({ error: "Missing required profile data for both persons" });
+    }
+    if (typeof person1.name !== "string" || !person1.name.trim() || typeof person2.name !== "string" || !person2.name.trim()) {
+      return res.status(400).json({ error: "Invalid name" });
+    }
+    if (typeof person1.birthDate !== "string" || typeof person2.birthDate !== "string") {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    const birthDate1 = parseCalendarDate(person1.birthDate);
+    const birthDate2 = parseCalendarDate(person2.birthDate);
+    if (isNaN(birthDate1.getTime()) || isNaN(birthDate2.getTime())) {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    if (relationshipModel !== undefined && (typeof relationshipModel !== "string" || !isRelationshipModelId(relationshipModel))) {
+      return res.status(400).json({ error: "Invalid relationship model" });
+    }
+
+    // Optional shared date (day they met, wedding, incorporation) for the relationship number
+    let sharedDate: RelationshipDate | null = null;
+    if (relationshipDate) {
+      const date = typeof relationshipDate === "string" ? parseCalendarDate(relationshipDate) : new Date(NaN);
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ error: "Invalid relationship date" });
+      }
+      if (relationshipDateKind !== undefined && (typeof relationshipDateKind !== "string" || !isRelationshipDateKind(relationshipDateKind))) {
+        return res.status(400).json({ error: "Invalid relationship date type" });
+      }
+      sharedDate = { date, kind: relationshipDateKind ?? "met" };
+    }
+
+    try {
+      const model = getRelationshipModel(relationshipModel);
+      const profile = await resolveCalculationProfile(req, calculationProfile);
+      const compatibility = calculateComprehensiveCompatibility(
+        person1.name,
+        birthDate1,
+        person2.name,
+        birthDate2,
+        profile,
+        model,
+        sharedDate
+      );
+
+      const aiInsights = await generateCompatibilityInsights(
+        toCompatibilityProfile(person1.name, compatibility.person1Profile),
+        toCompatibilityProfile(person2.name, compatibility.person2Profile),
+        compatibility.overallScore,
+        compatibility.level,
+        model,
+        compatibility.composite
+      );
+
+      // Saving is best-effort; a database hiccup shouldn't cost the user their result
+      let readingId: string | null = null;
+      if (save === true && req.whopUser) {
+        try {
+          const owner = await storage.getUserByWhopId(req.whopUser.userId);
+          if (owner) {
+            const reading = await storage.saveCompatibilityReading({
+              odisId: owner.odisId,
+              title: `${person1.name} & ${person2.name}`,
+              person1: { name: person1.name, birthDate: formatCalendarDate(birthDate1) },
+              person2: { name: person2.name, birthDate: formatCalendarDate(birthDate2) },
+              calculationProfile: profile.id,
+              relationshipModel: model.id,
+              overallScore: compatibility.overallScore,
+              level: compatibility.level,
+              compatibility,
+              insights: aiInsights,
+            });
+            readingId = reading.id;
+          }
+        } catch (error) {
+          console.error("Error saving compatibility reading:", error);
+        }
+      }
 
       res.json({
         success: true,
-        insights: aiInsights
+        compatibility,
+        insights: aiInsights,
+        readingId,
       });
     } catch (error) {
       console.error("Error generating compatibility insights:", error);
@@ -384,6 +777,223 @@ export async function registerRoutes(
     }
   });
 
+  // Joint timing calendar for a compared pair: both people's days over the next
+  // 30-90 days, flagged strong for both, strong for one, or clashing for either.
+  // start is optional and defaults to today.
+  app.post("/api/compatibility/timing", async (req: WhopRequest, res) => {
+    const { person1, person2, start, days = MIN_JOINT_CALENDAR_DAYS, activity = 'general', calculationProfile } = req.body;
+
+    if (!person1?.name || !person2?.name || !person1?.birthDate || !person2?.birthDate) {
+      return res.status(400).json({ error: "Missing required profile data for both persons" });
+    }
+    if (typeof person1.name !== "string" || !person1.name.trim() || typeof person2.name !== "string" || !person2.name.trim()) {
+      return res.status(400).json({ error: "Invalid name" });
+    }
+    if (typeof person1.birthDate !== "string" || typeof person2.birthDate !== "string") {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    const birthDate1 = parseCalendarDate(person1.birthDate);
+    const birthDate2 = parseCalendarDate(person2.birthDate);
+    if (isNaN(birthDate1.getTime()) || isNaN(birthDate2.getTime())) {
+      return res.status(400).json({ error: "Invalid birth date" });
+    }
+    if (typeof activity !== "string" || !isActivityType(activity)) {
+      return res.status(400).json({ error: "Invalid activity", validActivities: Object.keys(timingActivities) });
+    }
+    if (!Number.isInteger(days) || days < MIN_JOINT_CALENDAR_DAYS || days > MAX_JOINT_CALENDAR_DAYS) {
+      return res.status(400).json({ error: `days must be a whole number from ${MIN_JOINT_CALENDAR_DAYS} to ${MAX_JOINT_CALENDAR_DAYS}` });
+    }
+    if (start !== undefined && typeof start !== "string") {
+      return res.status(400).json({ error: "Invalid start date" });
+    }
+    const startDate = start ? parseCalendarDate(start) : calendarToday();
+    if (isNaN(startDate.getTime())) {
+      return res.status(400).json({ error: "Invalid start date" });
+    }
+
+    try {
+      const calendar = buildJointCalendar(
+        { name: person1.name, birthDate: birthDate1 },
+        { name: person2.name, birthDate: birthDate2 },
+        startDate,
+        days,
+        activity,
+        await resolveCalculationProfile(req, calculationProfile)
+      );
+      res.json({ calendar });
+    } catch (error) {
+      console.error("Error building joint calendar:", error);
+      res.status(500).json({ error: "Failed to build joint calendar" });
+    }
+  });
+
+  // Saved compatibility readings for the signed-in user. Reopening a reading
+  // returns the stored scores and insights; nothing is recomputed.
+  app.get("/api/compatibility/readings", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const readings = await storage.getCompatibilityReadings(owner.odisId);
+      res.json({ readings });
+    } catch (error) {
+      console.error("Error listing compatibility readings:", error);
+      res.status(500).json({ error: "Failed to get readings" });
+    }
+  });
+
+  app.get("/api/compatibility/readings/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const reading = await storage.getCompatibilityReading(owner.odisId, req.params.id);
+      if (!reading) {
+        return res.status(404).json({ error: "Reading not found" });
+      }
+      res.json({ reading });
+    } catch (error) {
+      console.error("Error getting compatibility reading:", error);
+      res.status(500).json({ error: "Failed to get reading" });
+    }
+  });
+
+  app.patch("/api/compatibility/readings/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    const { title } = req.body;
+
+    if (typeof title !== "string" || !title.trim()) {
+      return res.status(400).json({ error: "Missing required field: title" });
+    }
+    if (title.trim().length > 100) {
+      return res.status(400).json({ error: "Title must be 100 characters or fewer" });
+    }
+
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const reading = await storage.renameCompatibilityReading(owner.odisId, req.params.id, title.trim());
+      if (!reading) {
+        return res.status(404).json({ error: "Reading not found" });
+      }
+      res.json({ success: true, reading });
+    } catch (error) {
+      console.error("Error renaming compatibility reading:", error);
+      res.status(500).json({ error: "Failed to rename reading" });
+    }
+  });
+
+  app.delete("/api/compatibility/readings/:id", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      const owner = await storage.getUserByWhopId(req.whopUser!.userId);
+      if (!owner) {
+        return res.status(404).json({ error: "Profile not found" });
+      }
+
+      const deleted = await storage.deleteCompatibilityReading(owner.odisId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Reading not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting compatibility reading:", error);
+      res.status(500).json({ error: "Failed to delete reading" });
+    }
+  });
+
+  // Group compatibility: pairwise matrix, balance and suggested roles
+  app.post("/api/compatibility/group", async (req: WhopRequest, res) => {
+    const { members, calculationProfile, relationshipModel } = req.body;
+
+    if (!Array.isArray(members) || members.length < 2) {
+      return res.status(400).json({ error: "At least two members are required" });
+    }
+    if (members.length > MAX_GROUP_SIZE) {
+      return res.status(400).json({ error: `Groups are limited to ${MAX_GROUP_SIZE} members` });
+    }
+    if (relationshipModel !== undefined && (typeof relationshipModel !== "string" || !isRelationshipModelId(relationshipModel))) {
+      return res.status(400).json({ error: "Invalid relationship model" });
+    }
+
+    const groupMembers: GroupMember[] = [];
+    for (let index = 0; index < members.length; index++) {
+      const member = members[index];
+      const birthDate = typeof member?.birthDate === "string" ? parseCalendarDate(member.birthDate) : null;
+      if (typeof member?.name !== "string" || !member.name.trim() || !birthDate || isNaN(birthDate.getTime())) {
+        return res.status(400).json({ error: `Member ${index + 1}: name and a valid birthDate are required` });
+      }
+      groupMembers.push({ name: member.name, birthDate });
+    }
+
+    try {
+      res.json({
+        group: calculateGroupCompatibility(groupMembers, await resolveCalculationProfile(req, calculationProfile), getRelationshipModel(relationshipModel)),
+      });
+    } catch (error) {
+      console.error("Error calculating group compatibility:", error);
+      res.status(500).json({ error: "Failed to calculate group compatibility" });
+    }
+  });
+
+  // Bulk screening: score an uploaded CSV/JSON list of candidates against one
+  // anchor. Bad rows are reported per line; the rest are still scored.
+  app.post("/api/compatibility/screen", async (req: WhopRequest, res) => {
+    const { anchor, format, content, calculationProfile, relationshipModel } = req.body;
+
+    if (!anchor?.name || !anchor?.birthDate) {
+      return res.status(400).json({ error: "Missing required anchor data: name, birthDate" });
+    }
+    if (typeof anchor.name !== "string" || !anchor.name.trim()) {
+      return res.status(400).json({ error: "Invalid anchor name" });
+    }
+    if (typeof anchor.birthDate !== "string") {
+      return res.status(400).json({ error: "Invalid anchor birth date" });
+    }
+    const anchorBirthDate = parseCalendarDate(anchor.birthDate);
+    if (isNaN(anchorBirthDate.getTime())) {
+      return res.status(400).json({ error: "Invalid anchor birth date" });
+    }
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "format must be 'csv' or 'json'" });
+    }
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Missing file content" });
+    }
+    if (relationshipModel !== undefined && (typeof relationshipModel !== "string" || !isRelationshipModelId(relationshipModel))) {
+      return res.status(400).json({ error: "Invalid relationship model" });
+    }
+
+    try {
+      const { candidates, errors, totalRows } = parseScreeningInput(content, format);
+      if (totalRows > MAX_SCREENING_ROWS) {
+        return res.status(400).json({ error: `Uploads are limited to ${MAX_SCREENING_ROWS} rows` });
+      }
+
+      const profile = await resolveCalculationProfile(req, calculationProfile);
+      const result: ScreeningResult = {
+        anchor: { name: anchor.name, birthDate: formatCalendarDate(anchorBirthDate) },
+        results: screenCandidates(
+          { name: anchor.name, birthDate: anchorBirthDate },
+          candidates,
+          profile,
+          getRelationshipModel(relationshipModel)
+        ),
+        errors,
+        totalRows,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Error screening candidates:", error);
+      res.status(500).json({ error: "Failed to screen candidates" });
+    }
+  });
+
   // Legacy AI endpoints (kept for any direct usage)
   app.post("/api/ai/personality", async (req, res) => {
     try {
@@ -418,8 +1028,9 @@ export async function registerRoutes(
   });
 
   // CueChats - Initialize chat session (builds user context once)
+  // Optional contactIds add those people from the user's circle to the context
   app.post("/api/chat/init", async (req, res) => {
-    const { odisId } = req.body;
+    const { odisId, contactIds } = req.body;
 
     if (!odisId) {
       return res.status(400).json({ error: "Missing odisId" });
@@ -431,13 +1042,26 @@ export async function registerRoutes(
         return res.status(404).json({ error: "User not found" });
       }
 
+      const selectedIds: string[] = Array.isArray(contactIds) ? contactIds.filter((id): id is string => typeof id === "string") : [];
+      const circle = selectedIds.length > 0
+        ? (await storage.getContacts(user.odisId))
+            .filter(contact => selectedIds.includes(contact.id))
+            .map(contact => ({
+              name: contact.name,
+              birthDate: contact.birthDate,
+              relationship: circleRelationshipLabels[contact.relationship as CircleRelationship] ?? contact.relationship,
+              relationshipModel: getRelationshipModelForContact(contact.relationship),
+            }))
+        : [];
+
       // Build the user context once - this does all the expensive calculations
       const { systemContext, firstName } = buildUserContext({
         fullName: user.fullName,
         birthDate: user.birthDate,
         birthTime: user.birthTime || undefined,
         birthLocation: user.birthLocation || undefined,
-      });
+        calculationProfile: user.calculationProfile,
+      }, circle);
 
       res.json({
         success: true,
@@ -521,6 +1145,7 @@ export async function registerRoutes(
           birthDate: user.birthDate,
           birthTime: user.birthTime || undefined,
           birthLocation: user.birthLocation || undefined,
+          calculationProfile: user.calculationProfile,
         },
         normalizedHistory
       );
@@ -571,6 +1196,7 @@ export async function registerRoutes(
           birthDate: user.birthDate,
           birthTime: user.birthTime || undefined,
           birthLocation: user.birthLocation || undefined,
+          calculationProfile: user.calculationProfile,
         },
         normalizedHistory
       );
@@ -615,48 +1241,23 @@ export async function registerRoutes(
   });
 
   // Cues Database API with search, filtering, and pagination
-  app.get("/api/cues", (req, res) => {
+  app.get("/api/cues", async (req, res) => {
     try {
+      const query = req.query as Record<string, string>;
       const {
         q = '',
-        type = '',
-        lifePath = '',
         energy = '',
-        category = '',
-        country = '',
+        verified = '',
         page = '1',
         pageSize = '30',
-      } = req.query as Record<string, string>;
+      } = query;
 
       const pageNum = Math.max(1, parseInt(page) || 1);
       const size = Math.min(100, Math.max(1, parseInt(pageSize) || 30));
 
-      // Filter cues
-      let filtered = parsedCues;
-
-      // Text search (name, description, category)
-      if (q) {
-        const searchTerm = q.toLowerCase();
-        filtered = filtered.filter(cue =>
-          cue.name.toLowerCase().includes(searchTerm) ||
-          (cue.description && cue.description.toLowerCase().includes(searchTerm)) ||
-          (cue.category && cue.category.toLowerCase().includes(searchTerm))
-        );
-      }
-
-      // Filter by type
-      if (type) {
-        const types = type.split(',').map(t => t.trim());
-        filtered = filtered.filter(cue => types.includes(cue.type));
-      }
-
-      // Filter by life path number
-      if (lifePath) {
-        const numbers = lifePath.split(',').map(n => parseInt(n.trim())).filter(n => !isNaN(n));
-        if (numbers.length > 0) {
-          filtered = filtered.filter(cue => numbers.includes(cue.lifePathNumber));
-        }
-      }
+      // Text search (name, alias, category, description) ranks by relevance;
+      // the filters below keep that order
+      let filtered = q.trim() ? await storage.searchCues(q) : await storage.getCues();
 
       // Filter by energy signature
       if (energy) {
@@ -666,21 +1267,17 @@ export async function registerRoutes(
         );
       }
 
-      // Filter by category
-      if (category) {
-        const categories = category.split(',').map(c => c.trim().toLowerCase());
-        filtered = filtered.filter(cue =>
-          cue.category && categories.some(c => cue.category!.toLowerCase().includes(c))
-        );
+      // Only cues whose date has been verified against a source
+      if (verified === 'true') {
+        filtered = filtered.filter(cue => cue.provenance.status === 'verified');
       }
 
-      // Filter by country
-      if (country) {
-        const countries = country.split(',').map(c => c.trim().toLowerCase());
-        filtered = filtered.filter(cue =>
-          cue.country && countries.some(c => cue.country!.toLowerCase().includes(c))
-        );
-      }
+      // Facet filters (type, lifePath, animal, element, sign, country,
+      // category, decade; comma-separated values match any) and their counts.
+      // A facet's counts ignore its own selection (facetBasis), so picking
+      // another value of a multi-select facet shows how many results it adds.
+      const { items: faceted, facets } = filterCuesByFacets(filtered, parseCueFacetSelection(query));
+      filtered = faceted;
 
       // Calculate pagination
       const total = filtered.length;
@@ -696,6 +1293,8 @@ export async function registerRoutes(
         pageSize: size,
         totalPages,
         hasMore: pageNum < totalPages,
+        facets,
+        facetBasis: CUE_FACET_BASIS,
       });
     } catch (error) {
       console.error("Error fetching cues:", error);
@@ -703,144 +1302,275 @@ export async function registerRoutes(
     }
   });
 
-  // Get single cue by ID with enhanced data
-  app.get("/api/cues/:id", (req, res) => {
-    const id = parseInt(req.params.id);
-    const cue = parsedCues.find(c => c.id === id);
-
-    if (!cue) {
-      return res.status(404).json({ error: "Cue not found" });
-    }
-
-    // Parse date for zodiac calculations
-    const date = new Date(cue.foundedOrBirth);
-    const year = date.getFullYear();
-    const month = date.getMonth() + 1;
-    const day = date.getDate();
-
-    // Chinese Zodiac calculation (matches client/src/lib/numerology.ts)
-    const chineseAnimals = ['Rat', 'Ox', 'Tiger', 'Rabbit', 'Dragon', 'Snake', 'Horse', 'Goat', 'Monkey', 'Rooster', 'Dog', 'Pig'];
-    const chineseElements = ['Wood', 'Fire', 'Earth', 'Metal', 'Water'];
-    // Proper modulo that handles all years correctly
-    const animalIndex = ((year - 4) % 12 + 12) % 12;
-    const elementIndex = Math.floor((((year - 4) % 10 + 10) % 10) / 2);
-    const chineseZodiac = {
-      animal: chineseAnimals[animalIndex],
-      element: chineseElements[elementIndex],
-      yinYang: year % 2 === 0 ? 'Yang' : 'Yin'
-    };
-
-    // Western Zodiac calculation (matches client/src/lib/numerology.ts)
-    const zodiacSigns = [
-      { sign: 'Capricorn', element: 'Earth', modality: 'Cardinal', rulingPlanet: 'Saturn', traits: ['Ambitious', 'Disciplined', 'Patient'] },
-      { sign: 'Aquarius', element: 'Air', modality: 'Fixed', rulingPlanet: 'Uranus', traits: ['Innovative', 'Independent', 'Humanitarian'] },
-      { sign: 'Pisces', element: 'Water', modality: 'Mutable', rulingPlanet: 'Neptune', traits: ['Intuitive', 'Compassionate', 'Artistic'] },
-      { sign: 'Aries', element: 'Fire', modality: 'Cardinal', rulingPlanet: 'Mars', traits: ['Bold', 'Ambitious', 'Energetic'] },
-      { sign: 'Taurus', element: 'Earth', modality: 'Fixed', rulingPlanet: 'Venus', traits: ['Reliable', 'Patient', 'Devoted'] },
-      { sign: 'Gemini', element: 'Air', modality: 'Mutable', rulingPlanet: 'Mercury', traits: ['Adaptable', 'Curious', 'Communicative'] },
-      { sign: 'Cancer', element: 'Water', modality: 'Cardinal', rulingPlanet: 'Moon', traits: ['Nurturing', 'Protective', 'Intuitive'] },
-      { sign: 'Leo', element: 'Fire', modality: 'Fixed', rulingPlanet: 'Sun', traits: ['Confident', 'Creative', 'Generous'] },
-      { sign: 'Virgo', element: 'Earth', modality: 'Mutable', rulingPlanet: 'Mercury', traits: ['Analytical', 'Practical', 'Diligent'] },
-      { sign: 'Libra', element: 'Air', modality: 'Cardinal', rulingPlanet: 'Venus', traits: ['Diplomatic', 'Fair', 'Social'] },
-      { sign: 'Scorpio', element: 'Water', modality: 'Fixed', rulingPlanet: 'Pluto', traits: ['Passionate', 'Resourceful', 'Determined'] },
-      { sign: 'Sagittarius', element: 'Fire', modality: 'Mutable', rulingPlanet: 'Jupiter', traits: ['Adventurous', 'Optimistic', 'Philosophical'] },
-    ];
-    const zodiacDateRanges: [number, number, number, number][] = [
-      [12, 22, 1, 19], [1, 20, 2, 18], [2, 19, 3, 20], [3, 21, 4, 19],
-      [4, 20, 5, 20], [5, 21, 6, 20], [6, 21, 7, 22], [7, 23, 8, 22],
-      [8, 23, 9, 22], [9, 23, 10, 22], [10, 23, 11, 21], [11, 22, 12, 21],
-    ];
-
-    let westernZodiac = zodiacSigns[0];
-    for (let i = 0; i < zodiacDateRanges.length; i++) {
-      const [startMonth, startDay, endMonth, endDay] = zodiacDateRanges[i];
-      if (startMonth > endMonth) {
-        if ((month === startMonth && day >= startDay) || (month === endMonth && day <= endDay)) {
-          westernZodiac = zodiacSigns[i];
-          break;
-        }
+  // Get single cue by ID with enhanced data. Pass ?sign=<Western sign> to
+  // include how that sign aspects the cue's sign.
+  app.get("/api/cues/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { sign } = req.query as Record<string, string>;
+
+      if (sign && !westernSigns.includes(sign)) {
+        return res.status(400).json({ error: "Invalid zodiac sign" });
+      }
+      const cue = await storage.getCue(id);
+
+      if (!cue) {
+        return res.status(404).json({ error: "Cue not found" });
+      }
+
+      // Zodiac data comes from the shared numerology engine
+      const date = parseCalendarDate(cue.foundedOrBirth);
+      const chineseZodiac = getCueChineseZodiac(cue);
+      const westernZodiac = calculateWesternZodiac(date);
+
+      // Life Path number meanings (matches client numerology)
+      const lifePathMeanings: Record<number, { title: string; description: string }> = {
+        1: { title: 'The Pioneer', description: 'leadership, innovation, and independence' },
+        2: { title: 'The Diplomat', description: 'cooperation, balance, and intuition' },
+        3: { title: 'The Communicator', description: 'creativity, self-expression, and optimism' },
+        4: { title: 'The Builder', description: 'stability, dedication, and practicality' },
+        5: { title: 'The Freedom Seeker', description: 'change, adventure, and versatility' },
+        6: { title: 'The Nurturer', description: 'responsibility, care, and harmony' },
+        7: { title: 'The Seeker', description: 'wisdom, analysis, and spiritual depth' },
+        8: { title: 'The Achiever', description: 'abundance, power, and material mastery' },
+        9: { title: 'The Humanitarian', description: 'compassion, wisdom, and universal love' },
+        11: { title: 'The Illuminator', description: 'intuition, inspiration, and spiritual insight' },
+        22: { title: 'The Master Builder', description: 'visionary manifestation and global impact' },
+        33: { title: 'The Master Teacher', description: 'compassionate guidance and healing love' },
+      };
+
+      // Chinese animal traits
+      const animalTraits: Record<string, string[]> = {
+        'Rat': ['clever', 'quick-witted', 'resourceful'],
+        'Ox': ['diligent', 'dependable', 'strong'],
+        'Tiger': ['brave', 'confident', 'competitive'],
+        'Rabbit': ['gentle', 'quiet', 'elegant'],
+        'Dragon': ['confident', 'intelligent', 'ambitious'],
+        'Snake': ['enigmatic', 'wise', 'intuitive'],
+        'Horse': ['animated', 'active', 'energetic'],
+        'Goat': ['calm', 'gentle', 'creative'],
+        'Monkey': ['sharp', 'smart', 'curious'],
+        'Rooster': ['observant', 'hardworking', 'courageous'],
+        'Dog': ['loyal', 'honest', 'faithful'],
+        'Pig': ['compassionate', 'generous', 'diligent'],
+      };
+
+      const lifePathInfo = lifePathMeanings[cue.lifePathNumber] || { title: 'Unique Path', description: 'distinctive energy patterns' };
+      const traits = animalTraits[chineseZodiac.animal] || ['unique', 'special'];
+
+      // Generate contextual description based on cue type
+      let aboutDescription = '';
+      if (cue.type === 'Location') {
+        aboutDescription = `${cue.name} thrives on ${chineseZodiac.animal} & ${westernZodiac.sign} energy, aligning with ${chineseZodiac.element}'s ${chineseZodiac.animal} influence. Founded in the Year of the ${chineseZodiac.animal}, the ${westernZodiac.element.toLowerCase()}'s friendly energies have fueled its growth into a ${cue.category ? cue.category.toLowerCase() : 'significant'} powerhouse. ${chineseZodiac.animal}, ${westernZodiac.sign}, & ${lifePathInfo.title} energies flourish here, while those with opposing energies may feel constrained, often finding greater success elsewhere. Fun fact: ${cue.name}'s ${chineseZodiac.element} influence embodies its ${traits.join(', ')} energy literally!`;
+      } else if (cue.type === 'Person') {
+        aboutDescription = `Born under ${westernZodiac.sign} in the Year of the ${chineseZodiac.yinYang} ${chineseZodiac.element} ${chineseZodiac.animal}, this individual carries ${lifePathInfo.title} energy (Life Path ${cue.lifePathNumber}). Their ${westernZodiac.sign} nature, ruled by ${westernZodiac.rulingPlanet}, blends with the ${traits.join(' and ')} qualities of the ${chineseZodiac.animal}. This unique combination creates their ${cue.energySignature} signature, emphasizing ${lifePathInfo.description}. The ${westernZodiac.element} element enhances their ${westernZodiac.traits.join(', ').toLowerCase()} tendencies.`;
       } else {
-        if ((month === startMonth && day >= startDay) || (month === endMonth && day <= endDay) ||
-          (month > startMonth && month < endMonth)) {
-          westernZodiac = zodiacSigns[i];
-          break;
-        }
+        aboutDescription = `${cue.name} was founded under ${westernZodiac.sign} energy in the Year of the ${chineseZodiac.yinYang} ${chineseZodiac.element} ${chineseZodiac.animal}. As ${lifePathInfo.title} (Life Path ${cue.lifePathNumber}), this ${cue.category || 'brand'} embodies ${lifePathInfo.description}. The ${chineseZodiac.animal}'s ${traits.join(', ')} nature combined with ${westernZodiac.sign}'s ${westernZodiac.traits.join(', ').toLowerCase()} influence shapes its ${cue.energySignature} signature. ${westernZodiac.rulingPlanet}'s guidance supports its mission of ${cue.description || 'excellence'}.`;
       }
-    }
 
-    // Life Path number meanings (matches client numerology)
-    const lifePathMeanings: Record<number, { title: string; description: string }> = {
-      1: { title: 'The Pioneer', description: 'leadership, innovation, and independence' },
-      2: { title: 'The Diplomat', description: 'cooperation, balance, and intuition' },
-      3: { title: 'The Communicator', description: 'creativity, self-expression, and optimism' },
-      4: { title: 'The Builder', description: 'stability, dedication, and practicality' },
-      5: { title: 'The Freedom Seeker', description: 'change, adventure, and versatility' },
-      6: { title: 'The Nurturer', description: 'responsibility, care, and harmony' },
-      7: { title: 'The Seeker', description: 'wisdom, analysis, and spiritual depth' },
-      8: { title: 'The Achiever', description: 'abundance, power, and material mastery' },
-      9: { title: 'The Humanitarian', description: 'compassion, wisdom, and universal love' },
-      11: { title: 'The Illuminator', description: 'intuition, inspiration, and spiritual insight' },
-      22: { title: 'The Master Builder', description: 'visionary manifestation and global impact' },
-      33: { title: 'The Master Teacher', description: 'compassionate guidance and healing love' },
-    };
-
-    // Chinese animal traits
-    const animalTraits: Record<string, string[]> = {
-      'Rat': ['clever', 'quick-witted', 'resourceful'],
-      'Ox': ['diligent', 'dependable', 'strong'],
-      'Tiger': ['brave', 'confident', 'competitive'],
-      'Rabbit': ['gentle', 'quiet', 'elegant'],
-      'Dragon': ['confident', 'intelligent', 'ambitious'],
-      'Snake': ['enigmatic', 'wise', 'intuitive'],
-      'Horse': ['animated', 'active', 'energetic'],
-      'Goat': ['calm', 'gentle', 'creative'],
-      'Monkey': ['sharp', 'smart', 'curious'],
-      'Rooster': ['observant', 'hardworking', 'courageous'],
-      'Dog': ['loyal', 'honest', 'faithful'],
-      'Pig': ['compassionate', 'generous', 'diligent'],
-    };
-
-    const lifePathInfo = lifePathMeanings[cue.lifePathNumber] || { title: 'Unique Path', description: 'distinctive energy patterns' };
-    const traits = animalTraits[chineseZodiac.animal] || ['unique', 'special'];
-
-    // Generate contextual description based on cue type
-    let aboutDescription = '';
-    if (cue.type === 'Location') {
-      aboutDescription = `${cue.name} thrives on ${chineseZodiac.animal} & ${westernZodiac.sign} energy, aligning with ${chineseZodiac.element}'s ${chineseZodiac.animal} influence. Founded in the Year of the ${chineseZodiac.animal}, the ${westernZodiac.element.toLowerCase()}'s friendly energies have fueled its growth into a ${cue.category ? cue.category.toLowerCase() : 'significant'} powerhouse. ${chineseZodiac.animal}, ${westernZodiac.sign}, & ${lifePathInfo.title} energies flourish here, while those with opposing energies may feel constrained, often finding greater success elsewhere. Fun fact: ${cue.name}'s ${chineseZodiac.element} influence embodies its ${traits.join(', ')} energy literally!`;
-    } else if (cue.type === 'Person') {
-      aboutDescription = `Born under ${westernZodiac.sign} in the Year of the ${chineseZodiac.yinYang} ${chineseZodiac.element} ${chineseZodiac.animal}, this individual carries ${lifePathInfo.title} energy (Life Path ${cue.lifePathNumber}). Their ${westernZodiac.sign} nature, ruled by ${westernZodiac.rulingPlanet}, blends with the ${traits.join(' and ')} qualities of the ${chineseZodiac.animal}. This unique combination creates their ${cue.energySignature} signature, emphasizing ${lifePathInfo.description}. The ${westernZodiac.element} element enhances their ${westernZodiac.traits.join(', ').toLowerCase()} tendencies.`;
-    } else {
-      aboutDescription = `${cue.name} was founded under ${westernZodiac.sign} energy in the Year of the ${chineseZodiac.yinYang} ${chineseZodiac.element} ${chineseZodiac.animal}. As ${lifePathInfo.title} (Life Path ${cue.lifePathNumber}), this ${cue.category || 'brand'} embodies ${lifePathInfo.description}. The ${chineseZodiac.animal}'s ${traits.join(', ')} nature combined with ${westernZodiac.sign}'s ${westernZodiac.traits.join(', ').toLowerCase()} influence shapes its ${cue.energySignature} signature. ${westernZodiac.rulingPlanet}'s guidance supports its mission of ${cue.description || 'excellence'}.`;
-    }
-
-    res.json({
-      cue: {
-        ...cue,
-        chineseZodiac,
-        westernZodiac,
-        aboutDescription,
-      }
-    });
+      res.json({
+        cue: {
+          ...cue,
+          chineseZodiac,
+          westernZodiac,
+          aboutDescription,
+        },
+        aspect: sign ? analyzeSignAspect(sign, westernZodiac.sign) : null,
+      });
+    } catch (error) {
+      console.error("Error fetching cue:", error);
+      res.status(500).json({ error: "Failed to fetch cue" });
+    }
   });
 
   // Get cues statistics
-  app.get("/api/cues-stats", (_req, res) => {
-    const stats = {
-      total: totalCuesCount,
-      byType: {
-        Brand: parsedCues.filter(c => c.type === 'Brand').length,
-        Location: parsedCues.filter(c => c.type === 'Location').length,
-        Person: parsedCues.filter(c => c.type === 'Person').length,
-      },
-      byLifePath: {} as Record<number, number>,
-    };
-
-    // Count by life path
-    parsedCues.forEach(cue => {
-      stats.byLifePath[cue.lifePathNumber] = (stats.byLifePath[cue.lifePathNumber] || 0) + 1;
-    });
-
-    res.json(stats);
+  app.get("/api/cues-stats", async (_req, res) => {
+    try {
+      const cues = await storage.getCues();
+      const stats = {
+        total: cues.length,
+        byType: {
+          Brand: cues.filter(c => c.type === 'Brand').length,
+          Location: cues.filter(c => c.type === 'Location').length,
+          Person: cues.filter(c => c.type === 'Person').length,
+        },
+        byLifePath: {} as Record<number, number>,
+      };
+
+      // Count by life path
+      cues.forEach(cue => {
+        stats.byLifePath[cue.lifePathNumber] = (stats.byLifePath[cue.lifePathNumber] || 0) + 1;
+      });
+
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching cue stats:", error);
+      res.status(500).json({ error: "Failed to fetch cue stats" });
+    }
+  });
+
+  // ============================================
+  // CUE CATALOG ADMIN (company dashboard)
+  // ============================================
+
+  // The cue catalog is shared by every company using the app, so only admins
+  // of the company that owns the app (WHOP_COMPANY_ID) may change it, and only
+  // from that company's dashboard
+  const canManageCues = async (companyId: string, userId: string): Promise<boolean> => {
+    const ownerCompanyId = process.env.WHOP_COMPANY_ID;
+    if (!ownerCompanyId || companyId !== ownerCompanyId) {
+      return false;
+    }
+    const access = await checkAccess(ownerCompanyId, userId);
+    return access.accessLevel === "admin";
+  };
+
+  const requireCueAdmin = async (req: WhopRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!(await canManageCues(req.params.companyId, req.whopUser!.userId))) {
+        return res.status(403).json({ error: "Only admins of the app owner's company can manage cues" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking cue admin access:", error);
+      res.status(500).json({ error: "Failed to check access" });
+    }
+  };
+
+  app.get("/api/companies/:companyId/cues/access", requireWhopAuth, async (req: WhopRequest, res) => {
+    try {
+      res.json({ canManage: await canManageCues(req.params.companyId, req.whopUser!.userId) });
+    } catch (error) {
+      console.error("Error checking cue admin access:", error);
+      res.status(500).json({ error: "Failed to check access" });
+    }
+  });
+
+  app.post("/api/companies/:companyId/cues", requireWhopAuth, requireCueAdmin, async (req: WhopRequest, res) => {
+    try {
+      const cues = await storage.getCues();
+      const { cue, errors, warnings } = validateCueInput(req.body ?? {}, buildCueVocabulary(cues));
+      if (!cue) {
+        return res.status(400).json({ error: errors[0], errors });
+      }
+
+      const key = cueDuplicateKey(cue.name, cue.foundedOrBirth);
+      const duplicate = cues.find(c => cueDuplicateKey(c.name, c.foundedOrBirth) === key);
+      if (duplicate) {
+        return res.status(409).json({ error: "A cue with this name and date already exists", existingId: duplicate.id });
+      }
+
+      const [created] = await storage.createCues([cue]);
+      res.status(201).json({ cue: created, warnings });
+    } catch (error) {
+      console.error("Error creating cue:", error);
+      res.status(500).json({ error: "Failed to create cue" });
+    }
+  });
+
+  app.put("/api/companies/:companyId/cues/:id", requireWhopAuth, requireCueAdmin, async (req: WhopRequest, res) => {
+    const id = parseInt(req.params.id);
+
+    try {
+      const cues = await storage.getCues();
+      const { cue, errors, warnings } = validateCueInput(req.body ?? {}, buildCueVocabulary(cues));
+      if (!cue) {
+        return res.status(400).json({ error: errors[0], errors });
+      }
+
+      const key = cueDuplicateKey(cue.name, cue.foundedOrBirth);
+      const duplicate = cues.find(c => c.id !== id && cueDuplicateKey(c.name, c.foundedOrBirth) === key);
+      if (duplicate) {
+        return res.status(409).json({ error: "Another cue has this name and date; merge them instead", existingId: duplicate.id });
+      }
+
+      const updated = await storage.updateCue(id, cue);
+      if (!updated) {
+        return res.status(404).json({ error: "Cue not found" });
+      }
+      res.json({ cue: updated, warnings });
+    } catch (error) {
+      console.error("Error updating cue:", error);
+      res.status(500).json({ error: "Failed to update cue" });
+    }
+  });
+
+  // Keeps :id and deletes sourceId, filling the kept cue's empty fields from it
+  app.post("/api/companies/:companyId/cues/:id/merge", requireWhopAuth, requireCueAdmin, async (req: WhopRequest, res) => {
+    const id = parseInt(req.params.id);
+    const sourceId = Number(req.body?.sourceId);
+
+    if (!Number.isInteger(sourceId)) {
+      return res.status(400).json({ error: "Missing required field: sourceId" });
+    }
+    if (sourceId === id) {
+      return res.status(400).json({ error: "A cue can't be merged into itself" });
+    }
+
+    try {
+      const merged = await storage.mergeCues(id, sourceId);
+      if (!merged) {
+        return res.status(404).json({ error: "Cue not found" });
+      }
+      res.json({ cue: merged, removedId: sourceId });
+    } catch (error) {
+      console.error("Error merging cues:", error);
+      res.status(500).json({ error: "Failed to merge cues" });
+    }
+  });
+
+  app.delete("/api/companies/:companyId/cues/:id", requireWhopAuth, requireCueAdmin, async (req: WhopRequest, res) => {
+    const id = parseInt(req.params.id);
+
+    try {
+      const deleted = await storage.deleteCue(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Cue not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting cue:", error);
+      res.status(500).json({ error: "Failed to delete cue" });
+    }
+  });
+
+  // Bulk import from CSV or JSON. With dryRun the response previews what
+  // would be added, skipped as duplicates or rejected, without writing.
+  app.post("/api/companies/:companyId/cues/import", requireWhopAuth, requireCueAdmin, async (req: WhopRequest, res) => {
+    const { format, content, dryRun } = req.body;
+
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "format must be 'csv' or 'json'" });
+    }
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Missing file content" });
+    }
+
+    try {
+      const cues = await storage.getCues();
+      const { rows, errors, warnings, totalRows } = parseCueImport(content, format, buildCueVocabulary(cues));
+      if (totalRows > MAX_CUE_IMPORT_ROWS) {
+        return res.status(400).json({ error: `Imports are limited to ${MAX_CUE_IMPORT_ROWS} rows` });
+      }
+
+      const { unique, duplicates } = findCueDuplicates(rows, cues);
+      const isDryRun = dryRun !== false;
+      const created = isDryRun ? [] : await storage.createCues(unique.map(row => row.cue));
+
+      const result: CueImportResult = {
+        dryRun: isDryRun,
+        totalRows,
+        rows: unique,
+        errors,
+        warnings,
+        duplicates,
+        inserted: created.length,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing cues:", error);
+      res.status(500).json({ error: "Failed to import cues" });
+    }
   });
 
   // ============================================
@@ -848,22 +1578,15 @@ export async function registerRoutes(
   // ============================================
 
   // Trending Energies - Show what energy patterns are most active today
-  app.get("/api/explore/trending-energies", (_req, res) => {
+  app.get("/api/explore/trending-energies", async (_req, res) => {
     try {
-      const today = new Date();
-      const month = today.getMonth() + 1;
-      const day = today.getDate();
-      const year = today.getFullYear();
-
-      // Calculate universal day number
-      const monthReduced = reduceNumber(month);
-      const dayReduced = reduceNumber(day);
-      const yearReduced = reduceNumber(year.toString().split('').reduce((s, d) => s + parseInt(d), 0));
-      const universalDay = reduceNumber(monthReduced + dayReduced + yearReduced);
+      const cues = await storage.getCues();
+      const today = calendarToday();
+      const universalDay = calculateUniversalDay(today);
 
       // Count life paths in cues
       const lifePathCounts: Record<number, number> = {};
-      parsedCues.forEach(cue => {
+      cues.forEach(cue => {
         lifePathCounts[cue.lifePathNumber] = (lifePathCounts[cue.lifePathNumber] || 0) + 1;
       });
 
@@ -875,7 +1598,7 @@ export async function registerRoutes(
 
       // Count elements (from energy signatures)
       const elementCounts: Record<string, number> = {};
-      parsedCues.forEach(cue => {
+      cues.forEach(cue => {
         const element = cue.energySignature.split(' ')[0];
         elementCounts[element] = (elementCounts[element] || 0) + 1;
       });
@@ -885,9 +1608,9 @@ export async function registerRoutes(
         .slice(0, 5)
         .map(([element, count]) => ({ element, count }));
 
-      // Get representative cues for today's universal day
-      const todaysCues = parsedCues
-        .filter(c => c.lifePathNumber === universalDay)
+      // Get representative cues for today's universal day, skipping placeholders
+      const todaysCues = cues
+        .filter(c => c.lifePathNumber === universalDay && c.provenance.status !== 'generated')
         .slice(0, 6)
         .map(c => ({ id: c.id, name: c.name, type: c.type, energySignature: c.energySignature }));
 
@@ -926,129 +1649,149 @@ export async function registerRoutes(
     }
   });
 
-  // Helper function for number reduction
-  function reduceNumber(num: number): number {
-    while (num > 9 && num !== 11 && num !== 22 && num !== 33) {
-      num = num.toString().split('').reduce((sum, d) => sum + parseInt(d), 0);
+  // Best Days - rank days in a window for an activity (contract, launch, travel...).
+  // ?start= and ?end= default to the current calendar month.
+  app.get("/api/explore/best-days/:birthDate", async (req: WhopRequest, res) => {
+    try {
+      const birthDate = parseCalendarDate(req.params.birthDate);
+      if (isNaN(birthDate.getTime())) {
+        return res.status(400).json({ error: "Invalid birth date" });
+      }
+      const { start, end, activity = 'general', calculationProfile } = req.query as Record<string, string | undefined>;
+      if (!isActivityType(activity)) {
+        return res.status(400).json({ error: "Invalid activity", validActivities: Object.keys(timingActivities) });
+      }
+      const profile = await resolveCalculationProfile(req, calculationProfile);
+
+      const today = calendarToday();
+      const startDate = start
+        ? parseCalendarDate(start)
+        : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+      const endDate = end
+        ? parseCalendarDate(end)
+        : new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + 1, 0));
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return res.status(400).json({ error: "Invalid date window" });
+      }
+      if (endDate.getTime() < startDate.getTime()) {
+        return res.status(400).json({ error: "End date must not be before start date" });
+      }
+      if (endDate.getTime() > getForecastWindowEnd(startDate).getTime()) {
+        return res.status(400).json({ error: `Date windows cover at most ${MAX_FORECAST_MONTHS} months` });
+      }
+
+      res.json(findBestDays(birthDate, startDate, endDate, activity, profile));
+    } catch (error) {
+      console.error("Error getting best days:", error);
+      res.status(500).json({ error: "Failed to get best days" });
     }
-    return num;
-  }
+  });
 
-  // Best Days This Month - Calendar with optimal days based on user's numerology
-  app.get("/api/explore/best-days/:birthDate", (req, res) => {
+  // Personal Year / Month / Day forecast with energy scores, up to 12 months ahead.
+  // ?start= defaults to today; ?end= defaults to the end of the 12-month window.
+  app.get("/api/forecast/:birthDate", async (req: WhopRequest, res) => {
     try {
-      const birthDate = new Date(req.params.birthDate);
+      const birthDate = parseCalendarDate(req.params.birthDate);
       if (isNaN(birthDate.getTime())) {
         return res.status(400).json({ error: "Invalid birth date" });
       }
+      const { start, end, calculationProfile } = req.query as Record<string, string | undefined>;
+      const profile = await resolveCalculationProfile(req, calculationProfile);
 
-      const today = new Date();
-      const currentMonth = today.getMonth();
-      const currentYear = today.getFullYear();
+      const startDate = start ? parseCalendarDate(start) : calendarToday();
+      if (isNaN(startDate.getTime())) {
+        return res.status(400).json({ error: "Invalid start date" });
+      }
 
-      // Calculate user's life path number
-      const birthMonth = birthDate.getMonth() + 1;
-      const birthDay = birthDate.getDate();
-      const birthYear = birthDate.getFullYear();
-      const lifePathNumber = reduceNumber(
-        reduceNumber(birthMonth) +
-        reduceNumber(birthDay) +
-        reduceNumber(birthYear.toString().split('').reduce((s, d) => s + parseInt(d), 0))
-      );
+      const windowEnd = getForecastWindowEnd(startDate);
+      const endDate = end ? parseCalendarDate(end) : windowEnd;
+      if (isNaN(endDate.getTime())) {
+        return res.status(400).json({ error: "Invalid end date" });
+      }
+      if (endDate.getTime() < startDate.getTime()) {
+        return res.status(400).json({ error: "End date must not be before start date" });
+      }
+      if (endDate.getTime() > windowEnd.getTime()) {
+        return res.status(400).json({ error: `Forecasts cover at most ${MAX_FORECAST_MONTHS} months` });
+      }
 
-      // Calculate personal year
-      const personalYear = reduceNumber(birthMonth + birthDay + currentYear);
-
-      // Get days in current month
-      const daysInMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
-
-      const dayRatings: Array<{
-        date: string;
-        day: number;
-        personalDay: number;
-        rating: 'excellent' | 'good' | 'neutral' | 'challenging';
-        theme: string;
-        activities: string[];
-      }> = [];
-
-      const personalDayThemes: Record<number, { theme: string; activities: string[] }> = {
-        1: { theme: 'New Beginnings', activities: ['Start projects', 'Take initiative', 'Lead meetings'] },
-        2: { theme: 'Cooperation', activities: ['Partnerships', 'Negotiations', 'Relationship talks'] },
-        3: { theme: 'Creativity', activities: ['Brainstorming', 'Social events', 'Creative work'] },
-        4: { theme: 'Building', activities: ['Planning', 'Organization', 'Detail work'] },
-        5: { theme: 'Change', activities: ['Travel', 'New experiences', 'Networking'] },
-        6: { theme: 'Nurturing', activities: ['Family time', 'Home projects', 'Self-care'] },
-        7: { theme: 'Reflection', activities: ['Research', 'Study', 'Meditation'] },
-        8: { theme: 'Achievement', activities: ['Business deals', 'Financial decisions', 'Career moves'] },
-        9: { theme: 'Completion', activities: ['Finishing projects', 'Giving back', 'Letting go'] },
-        11: { theme: 'Inspiration', activities: ['Spiritual practice', 'Teaching', 'Visionary work'] },
-        22: { theme: 'Manifestation', activities: ['Big projects', 'Long-term planning', 'Building legacy'] },
-        33: { theme: 'Healing', activities: ['Helping others', 'Counseling', 'Community service'] },
-      };
+      res.json({ forecast: calculatePersonalForecast(birthDate, startDate, endDate, profile) });
+    } catch (error) {
+      console.error("Error getting forecast:", error);
+      res.status(500).json({ error: "Failed to get forecast" });
+    }
+  });
 
-      for (let day = 1; day <= daysInMonth; day++) {
-        const dateStr = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-
-        // Calculate personal month and personal day
-        const personalMonth = reduceNumber(personalYear + (currentMonth + 1));
-        const personalDay = reduceNumber(personalMonth + day);
-
-        // Determine rating based on alignment
-        let rating: 'excellent' | 'good' | 'neutral' | 'challenging';
-        if (personalDay === lifePathNumber) {
-          rating = 'excellent';
-        } else if ([1, 3, 5, 9].includes(personalDay)) {
-          rating = 'good';
-        } else if ([4, 7, 8].includes(personalDay)) {
-          rating = 'neutral';
-        } else {
-          rating = 'neutral';
-        }
+  // Event planner - best dates for a group. Participants are saved profiles
+  // ({ odisId }) or ad-hoc people ({ name, birthDate }).
+  app.post("/api/explore/event-planner", async (req: WhopRequest, res) => {
+    const MAX_PARTICIPANTS = 12;
+    const { participants, start, end, eventType = 'general', calculationProfile } = req.body;
 
-        // Master number days are always powerful
-        if ([11, 22, 33].includes(personalDay)) {
-          rating = 'excellent';
-        }
+    if (!Array.isArray(participants) || participants.length < 2) {
+      return res.status(400).json({ error: "At least two participants are required" });
+    }
+    if (participants.length > MAX_PARTICIPANTS) {
+      return res.status(400).json({ error: `At most ${MAX_PARTICIPANTS} participants are supported` });
+    }
+    if (typeof eventType !== "string" || !isActivityType(eventType)) {
+      return res.status(400).json({ error: "Invalid event type", validEventTypes: Object.keys(timingActivities) });
+    }
+    if (!start || !end) {
+      return res.status(400).json({ error: "Missing required fields: start, end" });
+    }
+    if (typeof start !== "string" || typeof end !== "string") {
+      return res.status(400).json({ error: "Invalid date window" });
+    }
+    const startDate = parseCalendarDate(start);
+    const endDate = parseCalendarDate(end);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: "Invalid date window" });
+    }
+    if (endDate.getTime() < startDate.getTime()) {
+      return res.status(400).json({ error: "End date must not be before start date" });
+    }
+    if (endDate.getTime() > getForecastWindowEnd(startDate).getTime()) {
+      return res.status(400).json({ error: `Date windows cover at most ${MAX_FORECAST_MONTHS} months` });
+    }
 
-        const dayInfo = personalDayThemes[personalDay] || { theme: 'Balance', activities: ['Routine tasks', 'Rest'] };
+    try {
+      const people: EventParticipant[] = [];
+      for (let index = 0; index < participants.length; index++) {
+        const participant = participants[index];
+        if (participant?.odisId) {
+          const user = await storage.getUserByOdisId(participant.odisId);
+          if (!user) {
+            return res.status(404).json({ error: `Participant ${index + 1}: profile not found` });
+          }
+          people.push({ name: user.fullName, birthDate: user.birthDate });
+          continue;
+        }
 
-        dayRatings.push({
-          date: dateStr,
-          day,
-          personalDay,
-          rating,
-          theme: dayInfo.theme,
-          activities: dayInfo.activities,
-        });
+        const birthDate = typeof participant?.birthDate === "string" ? parseCalendarDate(participant.birthDate) : null;
+        if (typeof participant?.name !== "string" || !participant.name.trim() || !birthDate || isNaN(birthDate.getTime())) {
+          return res.status(400).json({ error: `Participant ${index + 1}: name and a valid birthDate are required` });
+        }
+        people.push({ name: participant.name, birthDate });
       }
 
-      // Find best days (excellent and good)
-      const bestDays = dayRatings.filter(d => d.rating === 'excellent' || d.rating === 'good');
-
-      res.json({
-        lifePathNumber,
-        personalYear,
-        month: currentMonth + 1,
-        year: currentYear,
-        monthName: new Date(currentYear, currentMonth).toLocaleDateString('en-US', { month: 'long' }),
-        days: dayRatings,
-        bestDays: bestDays.slice(0, 10),
-      });
+      const plan = planGroupEvent(people, startDate, endDate, eventType, await resolveCalculationProfile(req, calculationProfile));
+      res.json({ plan });
     } catch (error) {
-      console.error("Error getting best days:", error);
-      res.status(500).json({ error: "Failed to get best days" });
+      console.error("Error planning event:", error);
+      res.status(500).json({ error: "Failed to plan event" });
     }
   });
 
   // Celebrity Matches - Find celebrities sharing user's energy
-  app.get("/api/explore/celebrity-matches", (req, res) => {
+  app.get("/api/explore/celebrity-matches", async (req, res) => {
     try {
       const { lifePathNumber, energySignature, limit = '12' } = req.query as Record<string, string>;
 
       const limitNum = Math.min(50, parseInt(limit) || 12);
 
-      // Filter to persons only
-      let celebrities = parsedCues.filter(c => c.type === 'Person');
+      // Real people only: generated placeholder names aren't celebrities
+      const celebrities = (await storage.getCues()).filter(c => c.type === 'Person' && c.provenance.status !== 'generated');
 
       // Score and sort by match quality
       const scored = celebrities.map(celeb => {
@@ -1097,7 +1840,7 @@ export async function registerRoutes(
           score: m.score,
           matchReasons: m.matches,
         })),
-        totalCelebrities: parsedCues.filter(c => c.type === 'Person').length,
+        totalCelebrities: celebrities.length,
       });
     } catch (error) {
       console.error("Error getting celebrity matches:", error);
@@ -1108,34 +1851,17 @@ export async function registerRoutes(
   // Travel Destinations - Curated countries with zodiac compatibility
   app.get("/api/explore/travel-destinations", (req, res) => {
     try {
-      const { lifePathNumber, element, birthYear } = req.query as Record<string, string>;
+      const { lifePathNumber, element, birthDate } = req.query as Record<string, string>;
 
       const userLifePath = lifePathNumber ? parseInt(lifePathNumber) : null;
-      const userBirthYear = birthYear ? parseInt(birthYear) : null;
-
-      // Chinese zodiac calculation
-      const getChineseZodiac = (year: number): string => {
-        const animals = ['Monkey', 'Rooster', 'Dog', 'Pig', 'Rat', 'Ox', 'Tiger', 'Rabbit', 'Dragon', 'Snake', 'Horse', 'Goat'];
-        return animals[year % 12];
-      };
+      // The full date, so births before Chinese New Year get the previous
+      // year's animal as they do everywhere else
+      const userBirthDate = birthDate ? parseCalendarDate(birthDate) : null;
+      if (userBirthDate && isNaN(userBirthDate.getTime())) {
+        return res.status(400).json({ error: "Invalid birth date" });
+      }
 
-      const userZodiac = userBirthYear ? getChineseZodiac(userBirthYear) : null;
-
-      // Zodiac compatibility - which signs thrive together
-      const zodiacCompatibility: Record<string, string[]> = {
-        'Rat': ['Rat', 'Ox', 'Dragon', 'Monkey'],
-        'Ox': ['Rat', 'Ox', 'Snake', 'Rooster'],
-        'Tiger': ['Tiger', 'Horse', 'Dog', 'Pig'],
-        'Rabbit': ['Rabbit', 'Goat', 'Dog', 'Pig'],
-        'Dragon': ['Rat', 'Dragon', 'Monkey', 'Rooster'],
-        'Snake': ['Ox', 'Snake', 'Rooster', 'Monkey'],
-        'Horse': ['Tiger', 'Horse', 'Goat', 'Dog'],
-        'Goat': ['Rabbit', 'Horse', 'Goat', 'Pig'],
-        'Monkey': ['Rat', 'Dragon', 'Snake', 'Monkey'],
-        'Rooster': ['Ox', 'Dragon', 'Snake', 'Rooster'],
-        'Dog': ['Tiger', 'Rabbit', 'Horse', 'Dog'],
-        'Pig': ['Tiger', 'Rabbit', 'Goat', 'Pig'],
-      };
+      const userZodiac = userBirthDate ? calculateChineseZodiac(userBirthDate).animal : null;
 
       // Curated list of countries with significant founding/independence years
       const countries: Array<{
@@ -1173,26 +1899,25 @@ export async function registerRoutes(
 
       // Process each country with compatibility info
       const destinations = countries.map((country, index) => {
-        const zodiacAnimal = getChineseZodiac(country.year);
+        const zodiacAnimal = calculateChineseZodiacForYear(country.year).animal;
 
-        // Find all signs compatible with this country's zodiac
-        const compatibleSigns: string[] = [];
-        Object.entries(zodiacCompatibility).forEach(([sign, compatWith]) => {
-          if (compatWith.includes(zodiacAnimal)) {
-            compatibleSigns.push(sign);
-          }
-        });
+        // Signs that lift this country's zodiac: trines, secret friends and
+        // shared signs not outweighed by a clash, harm or punishment
+        const compatibleSigns = chineseAnimals.filter(sign => isFavorableAnimalPair(sign, zodiacAnimal));
 
-        // Calculate score based on user's zodiac match
+        // Score from the user's own relation to the country's animal
         let score = 70; // Base score - all destinations are good
+        const userRelation = userZodiac ? analyzeAnimalPair(userZodiac, zodiacAnimal) : null;
         const isUserMatch = userZodiac ? compatibleSigns.includes(userZodiac) : false;
 
         if (isUserMatch) {
           score = 92; // High score for compatible users
+        } else if (userRelation && userRelation.score < 40) {
+          score = 55; // Clashing or harmful pairing
         }
 
         // Add life path bonus
-        const lifePathFromYear = ((country.year - 1) % 9) + 1;
+        const lifePathFromYear = reduceToSingleDigit(country.year);
         if (userLifePath && userLifePath === lifePathFromYear) {
           score = Math.min(98, score + 5);
         }
@@ -1208,6 +1933,7 @@ export async function registerRoutes(
           bestFor: country.bestFor,
           score,
           isUserMatch,
+          userRelation: userRelation ? { primary: userRelation.primary, explanation: userRelation.explanations[0] } : null,
         };
       });
 
@@ -1231,6 +1957,7 @@ export async function registerRoutes(
           bestFor: d.bestFor,
           score: d.score,
           isUserMatch: d.isUserMatch,
+          userRelation: d.userRelation,
         })),
         userZodiac,
       });
@@ -1245,7 +1972,7 @@ export async function registerRoutes(
     try {
       const lifePathNumber = parseInt(req.params.lifePathNumber);
 
-      if (isNaN(lifePathNumber) || lifePathNumber < 1 || (lifePathNumber > 9 && ![11, 22, 33].includes(lifePathNumber))) {
+      if (isNaN(lifePathNumber) || lifePathNumber < 1 || (lifePathNumber > 9 && ![11, 22, 33, 44].includes(lifePathNumber))) {
         return res.status(400).json({ error: "Invalid life path number" });
       }
 
@@ -1265,7 +1992,7 @@ export async function registerRoutes(
         33: { best: [6, 9], good: [3, 11, 33], challenging: [1, 8], description: 'Your healing presence attracts compassionate souls who share your dedication to service and unconditional love.' },
       };
 
-      const data = compatibilityData[lifePathNumber] || compatibilityData[9];
+      const data = compatibilityData[lifePathNumber] || compatibilityData[reduceToSingleDigit(lifePathNumber, false)];
 
       const lifePathMeanings: Record<number, string> = {
         1: 'The Pioneer', 2: 'The Diplomat', 3: 'The Communicator',
@@ -1276,7 +2003,7 @@ export async function registerRoutes(
 
       res.json({
         lifePathNumber,
-        title: lifePathMeanings[lifePathNumber],
+        title: lifePathMeanings[lifePathNumber] || getNumberMeaning(lifePathNumber).title,
         description: data.description,
         bestMatches: data.best.map(n => ({ number: n, title: lifePathMeanings[n] })),
         goodMatches: data.good.map(n => ({ number: n, title: lifePathMeanings[n] })),
@@ -1299,7 +2026,7 @@ export async function registerRoutes(
     try {
       const lifePathNumber = parseInt(req.params.lifePathNumber);
 
-      if (isNaN(lifePathNumber) || lifePathNumber < 1 || (lifePathNumber > 9 && ![11, 22, 33].includes(lifePathNumber))) {
+      if (isNaN(lifePathNumber) || lifePathNumber < 1 || (lifePathNumber > 9 && ![11, 22, 33, 44].includes(lifePathNumber))) {
         return res.status(400).json({ error: "Invalid life path number" });
       }
 
@@ -1463,7 +2190,7 @@ export async function registerRoutes(
         },
       };
 
-      const data = careerData[lifePathNumber] || careerData[9];
+      const data = careerData[lifePathNumber] || careerData[reduceToSingleDigit(lifePathNumber, false)];
 
       const lifePathMeanings: Record<number, string> = {
         1: 'The Pioneer', 2: 'The Diplomat', 3: 'The Communicator',
@@ -1474,7 +2201,7 @@ export async function registerRoutes(
 
       res.json({
         lifePathNumber,
-        title: lifePathMeanings[lifePathNumber],
+        title: lifePathMeanings[lifePathNumber] || getNumberMeaning(lifePathNumber).title,
         description: data.description,
         whyTheseFit: data.whyTheseFit,
         industries: data.industries,
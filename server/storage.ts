@@ -1,5 +1,9 @@
-import { connectDB, UserModel, DailyEnergyModel, PersonalityInsightModel, type DBUser, type DBDailyEnergy, type DBPersonalityInsight } from "./db";
+import { connectDB, UserModel, DailyEnergyModel, PersonalityInsightModel, ExperienceSettingsModel, CompatibilityReadingModel, ContactModel, CueModel, CounterModel, type DBUser, type DBDailyEnergy, type DBPersonalityInsight, type DBExperienceSettings, type DBCompatibilityReading, type DBCompatibilityReadingSummary, type DBContact, type DBCue, type DBCueSeed, type DBCueProvenance } from "./db";
+import mongoose from "mongoose";
 import crypto from "crypto";
+import { deriveCueFields, hasFullFoundingDate } from "./cueFields";
+import { CueSearchIndex } from "./cueSearch";
+import type { CueInput } from "@shared/cueCatalog";
 
 export interface LessonProgress {
   lessonId: string;
@@ -10,8 +14,8 @@ export interface IStorage {
   // User operations
   getUserByOdisId(odisId: string): Promise<DBUser | null>;
   getUserByWhopId(whopUserId: string): Promise<DBUser | null>;
-  createUser(data: { odisId: string; fullName: string; birthDate: Date; birthTime?: string; birthLocation?: string; whopUserId?: string; whopUsername?: string; whopProfilePictureUrl?: string; whopAccessLevel?: 'customer' | 'admin' | 'no_access' }): Promise<DBUser>;
-  updateUser(odisId: string, data: { fullName?: string; birthDate?: Date; birthTime?: string; birthLocation?: string }): Promise<DBUser | null>;
+  createUser(data: { odisId: string; fullName: string; birthDate: Date; birthTime?: string; birthLocation?: string; calculationProfile?: string; whopUserId?: string; whopUsername?: string; whopProfilePictureUrl?: string; whopAccessLevel?: 'customer' | 'admin' | 'no_access' }): Promise<DBUser>;
+  updateUser(odisId: string, data: { fullName?: string; birthDate?: Date; birthTime?: string; birthLocation?: string; calculationProfile?: string }): Promise<DBUser | null>;
   updateWhopProfile(whopUserId: string, data: { whopUsername?: string; whopProfilePictureUrl?: string; whopAccessLevel?: 'customer' | 'admin' | 'no_access' }): Promise<DBUser | null>;
   upgradeUserToPro(whopUserId: string, receiptId: string): Promise<DBUser | null>;
   syncProStatus(whopUserId: string, isPro: boolean, membershipId?: string | null): Promise<DBUser | null>;
@@ -25,6 +29,35 @@ export interface IStorage {
   getPersonalityInsight(odisId: string): Promise<DBPersonalityInsight | null>;
   savePersonalityInsight(data: Omit<DBPersonalityInsight, 'id' | 'createdAt' | 'updatedAt'>): Promise<DBPersonalityInsight>;
 
+  // Experience Settings operations
+  getExperienceSettings(experienceId: string): Promise<DBExperienceSettings | null>;
+  setExperienceCalculationProfile(experienceId: string, calculationProfile: string, updatedBy: string): Promise<DBExperienceSettings>;
+
+  // Compatibility Reading operations (scoped to the owning odisId)
+  getCompatibilityReadings(odisId: string): Promise<DBCompatibilityReadingSummary[]>;
+  getCompatibilityReading(odisId: string, id: string): Promise<DBCompatibilityReading | null>;
+  saveCompatibilityReading(data: Omit<DBCompatibilityReading, 'id' | 'createdAt' | 'updatedAt'>): Promise<DBCompatibilityReading>;
+  renameCompatibilityReading(odisId: string, id: string, title: string): Promise<DBCompatibilityReading | null>;
+  deleteCompatibilityReading(odisId: string, id: string): Promise<boolean>;
+
+  // Circle operations (contacts scoped to the owning odisId)
+  getContacts(odisId: string): Promise<DBContact[]>;
+  getContact(odisId: string, id: string): Promise<DBContact | null>;
+  createContact(data: { odisId: string; name: string; birthDate: Date; birthTime?: string; birthLocation?: string; relationship: string }): Promise<DBContact>;
+  updateContact(odisId: string, id: string, data: { name?: string; birthDate?: Date; birthTime?: string; birthLocation?: string; relationship?: string }): Promise<DBContact | null>;
+  deleteContact(odisId: string, id: string): Promise<boolean>;
+
+  // Cue operations (the collection is cached in memory and seeded from server/cuesData.ts when empty)
+  getCues(): Promise<DBCue[]>;
+  getCue(id: number): Promise<DBCue | null>;
+  searchCues(query: string): Promise<DBCue[]>;
+  seedCues(cues: DBCueSeed[]): Promise<number>;
+  backfillCueProvenance(seeds: DBCueSeed[]): Promise<number>;
+  createCues(data: CueInput[]): Promise<DBCue[]>;
+  updateCue(id: number, data: CueInput): Promise<DBCue | null>;
+  mergeCues(targetId: number, sourceId: number): Promise<DBCue | null>;
+  deleteCue(id: number): Promise<boolean>;
+
   // Course Progress operations (in-memory)
   getCourseProgress(courseId: string): Promise<LessonProgress[]>;
   markLessonComplete(courseId: string, lessonId: string): Promise<void>;
@@ -36,10 +69,70 @@ function generateOdisId(): string {
 
 export { generateOdisId };
 
+type CueDocument = Omit<DBCue, 'id' | 'type' | 'category' | 'country' | 'description' | 'provenance'> & {
+  cueId: number;
+  type: string;
+  category?: string | null;
+  country?: string | null;
+  description?: string | null;
+  provenance?: {
+    source?: string | null;
+    status?: string | null;
+    datePrecision?: string | null;
+    lastReviewedAt?: Date | null;
+  } | null;
+};
+
+// Cues stored before provenance was recorded count as unreviewed estimates
+function inferCueProvenance(foundedOrBirth: string): DBCueProvenance {
+  return {
+    source: "Unknown",
+    status: "estimated",
+    datePrecision: hasFullFoundingDate(foundedOrBirth) ? "day" : "year",
+    lastReviewedAt: null,
+  };
+}
+
+function toDBCue(cue: CueDocument): DBCue {
+  return {
+    id: cue.cueId,
+    name: cue.name,
+    type: cue.type as DBCue['type'],
+    foundedOrBirth: cue.foundedOrBirth,
+    category: cue.category || undefined,
+    country: cue.country || undefined,
+    description: cue.description || undefined,
+    lifePathNumber: cue.lifePathNumber,
+    energySignature: cue.energySignature,
+    chineseAnimal: cue.chineseAnimal,
+    chineseElement: cue.chineseElement,
+    chineseYinYang: cue.chineseYinYang,
+    westernSign: cue.westernSign,
+    provenance: cue.provenance?.status
+      ? {
+          source: cue.provenance.source || "Unknown",
+          status: cue.provenance.status as DBCueProvenance['status'],
+          datePrecision: (cue.provenance.datePrecision || "day") as DBCueProvenance['datePrecision'],
+          lastReviewedAt: cue.provenance.lastReviewedAt ?? null,
+        }
+      : inferCueProvenance(cue.foundedOrBirth),
+    createdAt: cue.createdAt,
+    updatedAt: cue.updatedAt,
+  };
+}
+
+// Optional text fields an edit clears when left out
+const optionalCueFields = ['category', 'country', 'description'] as const;
+
 export class MongoStorage implements IStorage {
   private initialized = false;
   // In-memory progress storage: Map<courseId, Set<completedLessonIds>>
   private progressStore: Map<string, Set<string>> = new Map();
+  // Every cue, sorted by id. Loaded on first read and dropped on writes.
+  private cueCache: DBCue[] | null = null;
+  private cueCacheLoading: Promise<DBCue[]> | null = null;
+  private cueIndex: { cues: DBCue[]; index: CueSearchIndex<DBCue> } | null = null;
+  private seedCueFallback: DBCue[] | null = null;
 
   private async ensureConnected(): Promise<boolean> {
     if (!this.initialized) {
@@ -70,6 +163,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -101,6 +195,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -111,7 +206,7 @@ export class MongoStorage implements IStorage {
     }
   }
 
-  async createUser(data: { odisId: string; fullName: string; birthDate: Date; birthTime?: string; birthLocation?: string; whopUserId?: string; whopUsername?: string; whopProfilePictureUrl?: string; whopAccessLevel?: 'customer' | 'admin' | 'no_access' }): Promise<DBUser> {
+  async createUser(data: { odisId: string; fullName: string; birthDate: Date; birthTime?: string; birthLocation?: string; calculationProfile?: string; whopUserId?: string; whopUsername?: string; whopProfilePictureUrl?: string; whopAccessLevel?: 'customer' | 'admin' | 'no_access' }): Promise<DBUser> {
     const connected = await this.ensureConnected();
     if (!connected) {
       throw new Error("Database not connected");
@@ -128,6 +223,7 @@ export class MongoStorage implements IStorage {
         birthDate: data.birthDate,
         birthTime: data.birthTime,
         birthLocation: data.birthLocation,
+        calculationProfile: data.calculationProfile,
       });
 
       return {
@@ -141,6 +237,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -151,7 +248,7 @@ export class MongoStorage implements IStorage {
     }
   }
 
-  async updateUser(odisId: string, data: { fullName?: string; birthDate?: Date; birthTime?: string; birthLocation?: string }): Promise<DBUser | null> {
+  async updateUser(odisId: string, data: { fullName?: string; birthDate?: Date; birthTime?: string; birthLocation?: string; calculationProfile?: string }): Promise<DBUser | null> {
     const connected = await this.ensureConnected();
     if (!connected) {
       throw new Error("Database not connected");
@@ -183,6 +280,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -225,6 +323,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -261,6 +360,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -308,6 +408,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -339,6 +440,7 @@ export class MongoStorage implements IStorage {
         birthDate: user.birthDate,
         birthTime: user.birthTime,
         birthLocation: user.birthLocation,
+        calculationProfile: user.calculationProfile || "standard",
         isPro: user.isPro ?? false,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -479,6 +581,634 @@ export class MongoStorage implements IStorage {
     }
   }
 
+  // Experience Settings operations
+  async getExperienceSettings(experienceId: string): Promise<DBExperienceSettings | null> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      return null;
+    }
+
+    try {
+      const settings = await ExperienceSettingsModel.findOne({ experienceId });
+      if (!settings) return null;
+
+      return {
+        id: settings._id.toString(),
+        experienceId: settings.experienceId,
+        calculationProfile: settings.calculationProfile || "standard",
+        updatedBy: settings.updatedBy,
+        createdAt: settings.createdAt,
+        updatedAt: settings.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error getting experience settings:", error);
+      return null;
+    }
+  }
+
+  async setExperienceCalculationProfile(experienceId: string, calculationProfile: string, updatedBy: string): Promise<DBExperienceSettings> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const settings = await ExperienceSettingsModel.findOneAndUpdate(
+        { experienceId },
+        { $set: { calculationProfile, updatedBy, updatedAt: new Date() }, $setOnInsert: { createdAt: new Date() } },
+        { upsert: true, new: true }
+      );
+
+      return {
+        id: settings._id.toString(),
+        experienceId: settings.experienceId,
+        calculationProfile: settings.calculationProfile || "standard",
+        updatedBy: settings.updatedBy,
+        createdAt: settings.createdAt,
+        updatedAt: settings.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error saving experience settings:", error);
+      throw error;
+    }
+  }
+
+  // Compatibility Reading operations
+  async getCompatibilityReadings(odisId: string): Promise<DBCompatibilityReadingSummary[]> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      return [];
+    }
+
+    try {
+      const readings = await CompatibilityReadingModel.find({ odisId })
+        .select("-compatibility -insights")
+        .sort({ createdAt: -1 });
+
+      return readings.map(reading => ({
+        id: reading._id.toString(),
+        odisId: reading.odisId,
+        title: reading.title,
+        person1: { name: reading.person1!.name, birthDate: reading.person1!.birthDate },
+        person2: { name: reading.person2!.name, birthDate: reading.person2!.birthDate },
+        calculationProfile: reading.calculationProfile || "standard",
+        relationshipModel: reading.relationshipModel || "general",
+        overallScore: reading.overallScore,
+        level: reading.level,
+        createdAt: reading.createdAt,
+        updatedAt: reading.updatedAt,
+      }));
+    } catch (error) {
+      console.error("Error listing compatibility readings:", error);
+      return [];
+    }
+  }
+
+  async getCompatibilityReading(odisId: string, id: string): Promise<DBCompatibilityReading | null> {
+    const connected = await this.ensureConnected();
+    if (!connected || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    try {
+      const reading = await CompatibilityReadingModel.findOne({ _id: id, odisId });
+      if (!reading) return null;
+
+      return {
+        id: reading._id.toString(),
+        odisId: reading.odisId,
+        title: reading.title,
+        person1: { name: reading.person1!.name, birthDate: reading.person1!.birthDate },
+        person2: { name: reading.person2!.name, birthDate: reading.person2!.birthDate },
+        calculationProfile: reading.calculationProfile || "standard",
+        relationshipModel: reading.relationshipModel || "general",
+        overallScore: reading.overallScore,
+        level: reading.level,
+        compatibility: reading.compatibility,
+        insights: reading.insights ?? null,
+        createdAt: reading.createdAt,
+        updatedAt: reading.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error getting compatibility reading:", error);
+      return null;
+    }
+  }
+
+  async saveCompatibilityReading(data: Omit<DBCompatibilityReading, 'id' | 'createdAt' | 'updatedAt'>): Promise<DBCompatibilityReading> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const reading = await CompatibilityReadingModel.create(data);
+
+      return {
+        id: reading._id.toString(),
+        odisId: reading.odisId,
+        title: reading.title,
+        person1: { name: reading.person1!.name, birthDate: reading.person1!.birthDate },
+        person2: { name: reading.person2!.name, birthDate: reading.person2!.birthDate },
+        calculationProfile: reading.calculationProfile || "standard",
+        relationshipModel: reading.relationshipModel || "general",
+        overallScore: reading.overallScore,
+        level: reading.level,
+        compatibility: reading.compatibility,
+        insights: reading.insights ?? null,
+        createdAt: reading.createdAt,
+        updatedAt: reading.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error saving compatibility reading:", error);
+      throw error;
+    }
+  }
+
+  async renameCompatibilityReading(odisId: string, id: string, title: string): Promise<DBCompatibilityReading | null> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    try {
+      const reading = await CompatibilityReadingModel.findOneAndUpdate(
+        { _id: id, odisId },
+        { $set: { title, updatedAt: new Date() } },
+        { new: true }
+      );
+
+      if (!reading) return null;
+
+      return {
+        id: reading._id.toString(),
+        odisId: reading.odisId,
+        title: reading.title,
+        person1: { name: reading.person1!.name, birthDate: reading.person1!.birthDate },
+        person2: { name: reading.person2!.name, birthDate: reading.person2!.birthDate },
+        calculationProfile: reading.calculationProfile || "standard",
+        relationshipModel: reading.relationshipModel || "general",
+        overallScore: reading.overallScore,
+        level: reading.level,
+        compatibility: reading.compatibility,
+        insights: reading.insights ?? null,
+        createdAt: reading.createdAt,
+        updatedAt: reading.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error renaming compatibility reading:", error);
+      throw error;
+    }
+  }
+
+  async deleteCompatibilityReading(odisId: string, id: string): Promise<boolean> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+    if (!mongoose.isValidObjectId(id)) {
+      return false;
+    }
+
+    try {
+      const result = await CompatibilityReadingModel.deleteOne({ _id: id, odisId });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting compatibility reading:", error);
+      throw error;
+    }
+  }
+
+  // Circle operations
+  async getContacts(odisId: string): Promise<DBContact[]> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      return [];
+    }
+
+    try {
+      const contacts = await ContactModel.find({ odisId }).sort({ name: 1 });
+
+      return contacts.map(contact => ({
+        id: contact._id.toString(),
+        odisId: contact.odisId,
+        name: contact.name,
+        birthDate: contact.birthDate,
+        birthTime: contact.birthTime,
+        birthLocation: contact.birthLocation,
+        relationship: contact.relationship || "other",
+        createdAt: contact.createdAt,
+        updatedAt: contact.updatedAt,
+      }));
+    } catch (error) {
+      console.error("Error listing contacts:", error);
+      return [];
+    }
+  }
+
+  async getContact(odisId: string, id: string): Promise<DBContact | null> {
+    const connected = await this.ensureConnected();
+    if (!connected || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    try {
+      const contact = await ContactModel.findOne({ _id: id, odisId });
+      if (!contact) return null;
+
+      return {
+        id: contact._id.toString(),
+        odisId: contact.odisId,
+        name: contact.name,
+        birthDate: contact.birthDate,
+        birthTime: contact.birthTime,
+        birthLocation: contact.birthLocation,
+        relationship: contact.relationship || "other",
+        createdAt: contact.createdAt,
+        updatedAt: contact.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error getting contact:", error);
+      return null;
+    }
+  }
+
+  async createContact(data: { odisId: string; name: string; birthDate: Date; birthTime?: string; birthLocation?: string; relationship: string }): Promise<DBContact> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const contact = await ContactModel.create(data);
+
+      return {
+        id: contact._id.toString(),
+        odisId: contact.odisId,
+        name: contact.name,
+        birthDate: contact.birthDate,
+        birthTime: contact.birthTime,
+        birthLocation: contact.birthLocation,
+        relationship: contact.relationship || "other",
+        createdAt: contact.createdAt,
+        updatedAt: contact.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error creating contact:", error);
+      throw error;
+    }
+  }
+
+  async updateContact(odisId: string, id: string, data: { name?: string; birthDate?: Date; birthTime?: string; birthLocation?: string; relationship?: string }): Promise<DBContact | null> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+    if (!mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    try {
+      // Filter out undefined values to prevent overwriting existing data
+      const updateData: Record<string, unknown> = { updatedAt: new Date() };
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) updateData[key] = value;
+      }
+
+      const contact = await ContactModel.findOneAndUpdate(
+        { _id: id, odisId },
+        { $set: updateData },
+        { new: true }
+      );
+
+      if (!contact) return null;
+
+      return {
+        id: contact._id.toString(),
+        odisId: contact.odisId,
+        name: contact.name,
+        birthDate: contact.birthDate,
+        birthTime: contact.birthTime,
+        birthLocation: contact.birthLocation,
+        relationship: contact.relationship || "other",
+        createdAt: contact.createdAt,
+        updatedAt: contact.updatedAt,
+      };
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      throw error;
+    }
+  }
+
+  async deleteContact(odisId: string, id: string): Promise<boolean> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+    if (!mongoose.isValidObjectId(id)) {
+      return false;
+    }
+
+    try {
+      const result = await ContactModel.deleteOne({ _id: id, odisId });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      throw error;
+    }
+  }
+
+  // Cue operations
+  private async loadCues(): Promise<DBCue[]> {
+    if (await CueModel.estimatedDocumentCount() === 0) {
+      const { getSeedCues } = await import("./cuesData");
+      const inserted = await this.seedCues(getSeedCues());
+      console.log(`Seeded cue collection with ${inserted} entries`);
+    } else if (await CueModel.exists({ "provenance.status": { $exists: false } })) {
+      const { getSeedCues } = await import("./cuesData");
+      const updated = await this.backfillCueProvenance(getSeedCues());
+      console.log(`Recorded provenance for ${updated} existing cues`);
+    }
+
+    const cues = await CueModel.find().sort({ cueId: 1 }).lean();
+    return cues.map(toDBCue);
+  }
+
+  // Writes patch the cached list in place rather than reloading every cue
+  private patchCueCache(update: (cues: DBCue[]) => DBCue[]): void {
+    if (this.cueCache) {
+      this.cueCache = update(this.cueCache);
+      this.indexCues(this.cueCache);
+    }
+  }
+
+  // The search index is rebuilt whenever the cached list changes, so searches
+  // never pay for it
+  private indexCues(cues: DBCue[]): CueSearchIndex<DBCue> {
+    if (this.cueIndex?.cues !== cues) {
+      this.cueIndex = { cues, index: new CueSearchIndex(cues) };
+    }
+    return this.cueIndex.index;
+  }
+
+  // Without a database (or when loading from it fails) the catalog is served
+  // read-only from the seed data, so cue lookups and the matching features
+  // still work
+  private async getSeedCueFallback(): Promise<DBCue[]> {
+    if (!this.seedCueFallback) {
+      const { getSeedCues } = await import("./cuesData");
+      const stamped = new Date();
+      this.seedCueFallback = getSeedCues().map(cue => ({ ...cue, createdAt: stamped, updatedAt: stamped }));
+    }
+    return this.seedCueFallback;
+  }
+
+  async getCues(): Promise<DBCue[]> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      return this.getSeedCueFallback();
+    }
+    if (this.cueCache) {
+      return this.cueCache;
+    }
+
+    try {
+      // Concurrent first reads share one load
+      if (!this.cueCacheLoading) {
+        this.cueCacheLoading = this.loadCues();
+      }
+      this.cueCache = await this.cueCacheLoading;
+      this.indexCues(this.cueCache);
+      return this.cueCache;
+    } catch (error) {
+      // Nothing is cached, so the next read tries the database again
+      console.error("Error loading cues, serving the seed catalog:", error);
+      return this.getSeedCueFallback();
+    } finally {
+      this.cueCacheLoading = null;
+    }
+  }
+
+  // Cues matching the query by name, alias, category or description, most
+  // relevant first
+  async searchCues(query: string): Promise<DBCue[]> {
+    const cues = await this.getCues();
+    return this.indexCues(cues).search(query);
+  }
+
+  async getCue(id: number): Promise<DBCue | null> {
+    const cues = await this.getCues();
+    return cues.find(cue => cue.id === id) ?? null;
+  }
+
+  // Inserts seed cues whose id isn't stored yet; existing cues are left as
+  // they are so edits made since the last seed survive. Returns the number added.
+  async seedCues(cues: DBCueSeed[]): Promise<number> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const existingIds = new Set(await CueModel.distinct("cueId"));
+      const missing = cues
+        .filter(cue => !existingIds.has(cue.id))
+        .map(({ id, ...cue }) => ({ ...cue, cueId: id }));
+
+      if (missing.length > 0) {
+        await CueModel.insertMany(missing, { ordered: false });
+        this.cueCache = null;
+      }
+      return missing.length;
+    } catch (error) {
+      console.error("Error seeding cues:", error);
+      throw error;
+    }
+  }
+
+  // Gives cues stored without provenance the record of the seed entry with
+  // the same id (re-deriving the numerology fields for its date precision),
+  // or an unreviewed estimate when there is none. Returns the number updated.
+  async backfillCueProvenance(seeds: DBCueSeed[]): Promise<number> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const seedsById = new Map(seeds.map(seed => [seed.id, seed]));
+      const pending = await CueModel.find(
+        { "provenance.status": { $exists: false } },
+        { cueId: 1, foundedOrBirth: 1 }
+      ).lean();
+      if (pending.length === 0) return 0;
+
+      await CueModel.bulkWrite(pending.map(cue => {
+        const seed = seedsById.get(cue.cueId);
+        const provenance = seed && seed.foundedOrBirth === cue.foundedOrBirth
+          ? seed.provenance
+          : inferCueProvenance(cue.foundedOrBirth);
+        return {
+          updateOne: {
+            filter: { _id: cue._id },
+            update: { $set: { ...deriveCueFields(cue.foundedOrBirth, provenance.datePrecision), provenance } },
+          },
+        };
+      }));
+
+      this.cueCache = null;
+      return pending.length;
+    } catch (error) {
+      console.error("Error backfilling cue provenance:", error);
+      throw error;
+    }
+  }
+
+  // Reserves count consecutive cue ids and returns the first. The counter
+  // is first raised to the highest stored id, so seeded cues and cues created
+  // before the counter existed are never reused.
+  private async allocateCueIds(count: number): Promise<number> {
+    const last = await CueModel.findOne().sort({ cueId: -1 }).select({ cueId: 1 }).lean();
+    await CounterModel.updateOne({ _id: "cueId" }, { $max: { seq: last?.cueId ?? 0 } }, { upsert: true });
+    const counter = await CounterModel.findOneAndUpdate(
+      { _id: "cueId" },
+      { $inc: { seq: count } },
+      { new: true, upsert: true }
+    ).lean();
+    return counter!.seq - count + 1;
+  }
+
+  // New cues get ids after the highest one issued
+  async createCues(data: CueInput[]): Promise<DBCue[]> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+    if (data.length === 0) {
+      return [];
+    }
+
+    try {
+      const firstId = await this.allocateCueIds(data.length);
+
+      const reviewedAt = new Date();
+      const created = await CueModel.insertMany(data.map((cue, i) => ({
+        ...cue,
+        ...deriveCueFields(cue.foundedOrBirth, cue.provenance.datePrecision),
+        provenance: { ...cue.provenance, lastReviewedAt: reviewedAt },
+        cueId: firstId + i,
+      })));
+
+      const cues = created.map(cue => toDBCue(cue.toObject()));
+      this.patchCueCache(cached => [...cached, ...cues]);
+      return cues;
+    } catch (error) {
+      console.error("Error creating cues:", error);
+      throw error;
+    }
+  }
+
+  // Replaces every editable field and marks the cue reviewed; the numerology
+  // fields follow the date
+  async updateCue(id: number, data: CueInput): Promise<DBCue | null> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const unset: Record<string, 1> = {};
+      optionalCueFields.forEach(field => {
+        if (data[field] === undefined) unset[field] = 1;
+      });
+
+      const cue = await CueModel.findOneAndUpdate(
+        { cueId: id },
+        {
+          $set: {
+            ...data,
+            ...deriveCueFields(data.foundedOrBirth, data.provenance.datePrecision),
+            provenance: { ...data.provenance, lastReviewedAt: new Date() },
+            updatedAt: new Date(),
+          },
+          ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+        },
+        { new: true }
+      ).lean();
+
+      if (!cue) return null;
+
+      const updated = toDBCue(cue);
+      this.patchCueCache(cached => cached.map(c => (c.id === id ? updated : c)));
+      return updated;
+    } catch (error) {
+      console.error("Error updating cue:", error);
+      throw error;
+    }
+  }
+
+  // Folds a duplicate into the cue that is kept: the target fills any empty
+  // category, country or description from the source, then the source is deleted
+  async mergeCues(targetId: number, sourceId: number): Promise<DBCue | null> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const [target, source] = await Promise.all([
+        CueModel.findOne({ cueId: targetId }).lean(),
+        CueModel.findOne({ cueId: sourceId }).lean(),
+      ]);
+      if (!target || !source) return null;
+
+      const fill: Record<string, string> = {};
+      optionalCueFields.forEach(field => {
+        const value = source[field];
+        if (!target[field] && value) fill[field] = value;
+      });
+
+      const merged = await CueModel.findOneAndUpdate(
+        { cueId: targetId },
+        { $set: { ...fill, "provenance.lastReviewedAt": new Date(), updatedAt: new Date() } },
+        { new: true }
+      ).lean();
+      await CueModel.deleteOne({ cueId: sourceId });
+
+      if (!merged) return null;
+
+      const updated = toDBCue(merged);
+      this.patchCueCache(cached => cached
+        .filter(c => c.id !== sourceId)
+        .map(c => (c.id === targetId ? updated : c)));
+      return updated;
+    } catch (error) {
+      console.error("Error merging cues:", error);
+      throw error;
+    }
+  }
+
+  async deleteCue(id: number): Promise<boolean> {
+    const connected = await this.ensureConnected();
+    if (!connected) {
+      throw new Error("Database not connected");
+    }
+
+    try {
+      const result = await CueModel.deleteOne({ cueId: id });
+      if (result.deletedCount > 0) {
+        this.patchCueCache(cached => cached.filter(c => c.id !== id));
+      }
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error("Error deleting cue:", error);
+      throw error;
+    }
+  }
+
   // Course Progress operations (in-memory)
   async getCourseProgress(courseId: string): Promise<LessonProgress[]> {
     const completedLessons = this.progressStore.get(courseId);
@@ -0,0 +1,254 @@
+// Four Pillars (BaZi) Calculation System
+//
+// Builds the year, month, day and hour pillars from a birth date and optional
+// birth time. Dates follow the same calendar-date convention as numerology.ts
+// (read through UTC components); the birth time is taken as local clock time
+// at the birthplace, without true-solar-time correction.
+
+import { chineseAnimals, chineseElements } from './numerology';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export interface BaziPillar {
+  stem: string;          // Heavenly stem, e.g. "Jia"
+  stemChinese: string;
+  branch: string;        // Earthly branch, e.g. "Zi"
+  branchChinese: string;
+  animal: string;
+  element: string;       // Element of the stem
+  branchElement: string;
+  yinYang: 'Yang' | 'Yin';
+}
+
+export interface DayMaster {
+  stem: string;
+  stemChinese: string;
+  element: string;
+  yinYang: 'Yang' | 'Yin';
+  image: string;
+  description: string;
+}
+
+export interface BaziChart {
+  year: BaziPillar;
+  month: BaziPillar;
+  day: BaziPillar;
+  hour: BaziPillar | null;  // null when no usable birth time is known
+  dayMaster: DayMaster;
+  elementBalance: Record<string, number>;  // Visible stems and branches per element
+  dominantElement: string;
+  missingElements: string[];
+}
+
+// ============================================
+// STEMS & BRANCHES
+// ============================================
+
+const heavenlyStems = ['Jia', 'Yi', 'Bing', 'Ding', 'Wu', 'Ji', 'Geng', 'Xin', 'Ren', 'Gui'];
+const heavenlyStemsChinese = ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'];
+
+const earthlyBranches = ['Zi', 'Chou', 'Yin', 'Mao', 'Chen', 'Si', 'Wu', 'Wei', 'Shen', 'You', 'Xu', 'Hai'];
+const earthlyBranchesChinese = ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'];
+const branchElements = ['Water', 'Earth', 'Wood', 'Wood', 'Earth', 'Fire', 'Fire', 'Earth', 'Metal', 'Metal', 'Earth', 'Water'];
+
+const dayMasterProfiles: Record<string, { image: string; description: string }> = {
+  'Jia': { image: 'Towering Tree', description: 'Upright, principled and growth-minded. You lead by example and stand firm once rooted.' },
+  'Yi': { image: 'Flowering Vine', description: 'Adaptable, diplomatic and resilient. You find a way around obstacles rather than through them.' },
+  'Bing': { image: 'Blazing Sun', description: 'Warm, generous and expressive. You light up a room and inspire others with your optimism.' },
+  'Ding': { image: 'Candle Flame', description: 'Thoughtful, perceptive and quietly passionate. You illuminate what others overlook.' },
+  'Wu': { image: 'Mountain', description: 'Steady, dependable and protective. People rely on you as their solid ground.' },
+  'Ji': { image: 'Fertile Field', description: 'Nurturing, practical and versatile. You cultivate people and ideas until they flourish.' },
+  'Geng': { image: 'Raw Steel', description: 'Decisive, loyal and direct. You thrive on challenge and cut straight to what matters.' },
+  'Xin': { image: 'Polished Jewel', description: 'Refined, precise and self-aware. You value quality and carry yourself with quiet dignity.' },
+  'Ren': { image: 'Great Ocean', description: 'Visionary, free-flowing and resourceful. Your ambition moves like a powerful current.' },
+  'Gui': { image: 'Gentle Rain', description: 'Intuitive, imaginative and sensitive. You nourish others in subtle, lasting ways.' },
+};
+
+// ============================================
+// SOLAR TERMS
+// ============================================
+
+// Gregorian day of the twelve "jie" solar terms that open each BaZi month
+// (Minor Cold, Start of Spring, Awakening of Insects, Clear and Bright,
+// Start of Summer, Grain in Ear, Minor Heat, Start of Autumn, White Dew,
+// Cold Dew, Start of Winter, Major Snow), one digit per calendar month, in
+// China Standard Time for 1900-2100. Births on a term day are counted in the
+// new month; the exact hour of the term is not tracked.
+const SOLAR_TERM_TABLE_START = 1900;
+const solarTermTable: string[] = [
+  '646566788987', '646566888988', '656667888988', '657677899988', '756566788987',  // 1900-1904
+  '646566888988', '656666888988', '657677899988', '756566788987', '646566888988',  // 1905-1909
+  '656666888988', '657677899988', '756566788987', '646566888988', '646566888988',  // 1910-1914
+  '656667889988', '656566788887', '646566888988', '646566888988', '656667889988',  // 1915-1919
+  '656566788887', '646566888987', '646566888988', '656667889988', '656566788887',  // 1920-1924
+  '646566888987', '646566888988', '656667889988', '656566788877', '646566788987',  // 1925-1929
+  '646566888988', '656667888988', '656566788877', '646566788987', '646566888988',  // 1930-1934
+  '656666888988', '656566788877', '646566788987', '646566888988', '656666888988',  // 1935-1939
+  '656566788877', '646566788987', '646566888988', '656666888988', '656556788877',  // 1940-1944
+  '646566788887', '646566888988', '646566888988', '655556778877', '546566788887',  // 1945-1949
+  '646566888988', '646566888988', '655556778877', '546566788887', '646566888987',  // 1950-1954
+  '646566888988', '655556778877', '546566788887', '646566788987', '646566888988',  // 1955-1959
+  '655556777877', '546566788877', '646566788987', '646566888988', '655556777877',  // 1960-1964
+  '546566788877', '646566788987', '646566888988', '655555777877', '546566788877',  // 1965-1969
+  '646566788987', '646566888988', '655555777877', '546556788877', '646566788987',  // 1970-1974
+  '646566888988', '655455777877', '546556778877', '646566788887', '646566888988',  // 1975-1979
+  '655455777877', '546556778877', '646566788887', '646566888988', '645455777877',  // 1980-1984
+  '545556778877', '546566788887', '646566788987', '645455777877', '545556777877',  // 1985-1989
+  '546566788887', '646566788987', '645455777877', '545556777877', '546566788877',  // 1990-1994
+  '646566788987', '645455777877', '545555777877', '546566788877', '646566788987',  // 1995-1999
+  '645455777877', '545555777877', '546566788877', '646566788987', '645455777877',  // 2000-2004
+  '545555777877', '546556778877', '646566788987', '645455777877', '545455777877',  // 2005-2009
+  '546556778877', '646566788887', '645455777877', '545455777877', '546556778877',  // 2010-2014
+  '646566788887', '645455777877', '535455777877', '545556778877', '546566788887',  // 2015-2019
+  '645455677877', '535455777877', '545556777877', '546566788887', '645455677876',  // 2020-2024
+  '535455777877', '545555777877', '546566788877', '645455677876', '535455777877',  // 2025-2029
+  '545555777877', '546566788877', '645455677876', '535455777877', '545555777877',  // 2030-2034
+  '546556778877', '645455677876', '535455777877', '545555777877', '546556778877',  // 2035-2039
+  '645455677876', '535455777877', '545455777877', '546556778877', '645455677776',  // 2040-2044
+  '535455777877', '545455777877', '546556778877', '645455677776', '535455677877',  // 2045-2049
+  '535455777877', '545556777877', '545455677776', '535455677877', '535455777877',  // 2050-2054
+  '545555777877', '545455677776', '535455677876', '535455777877', '545555777877',  // 2055-2059
+  '545455677766', '535455677876', '535455777877', '545555777877', '545455677766',  // 2060-2064
+  '535455677876', '535455777877', '545555777877', '545445667766', '535455677876',  // 2065-2069
+  '535455777877', '545555777877', '545445667766', '535455677776', '535455777877',  // 2070-2074
+  '545455777877', '545445667766', '535455677776', '535455677877', '545455777877',  // 2075-2079
+  '545445667766', '535455677776', '535455677877', '535455777877', '544445666766',  // 2080-2084
+  '435455677776', '535455677877', '535455777877', '544444666766', '435455677776',  // 2085-2089
+  '535455677876', '535455777877', '544444666766', '435455677766', '535455677876',  // 2090-2094
+  '535455777877', '544444666766', '435455667766', '535455677876', '535455777877',  // 2095-2099
+  '545555777877',  // 2100
+];
+
+// Day of the month on which the given Gregorian month's jie term falls.
+// Years outside the table use the nearest year in it.
+function getSolarTermDay(year: number, monthIndex: number): number {
+  const offset = Math.min(Math.max(year - SOLAR_TERM_TABLE_START, 0), solarTermTable.length - 1);
+  return parseInt(solarTermTable[offset][monthIndex]);
+}
+
+// ============================================
+// PILLAR CALCULATIONS
+// ============================================
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+function buildPillar(stemIndex: number, branchIndex: number): BaziPillar {
+  return {
+    stem: heavenlyStems[stemIndex],
+    stemChinese: heavenlyStemsChinese[stemIndex],
+    branch: earthlyBranches[branchIndex],
+    branchChinese: earthlyBranchesChinese[branchIndex],
+    animal: chineseAnimals[branchIndex],
+    element: chineseElements[Math.floor(stemIndex / 2)],
+    branchElement: branchElements[branchIndex],
+    yinYang: stemIndex % 2 === 0 ? 'Yang' : 'Yin',
+  };
+}
+
+// The BaZi year starts at Start of Spring (around Feb 4), not Chinese New Year
+export function getBaziYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  if (month === 0 || (month === 1 && date.getUTCDate() < getSolarTermDay(year, 1))) {
+    return year - 1;
+  }
+  return year;
+}
+
+export function calculateYearPillar(date: Date): BaziPillar {
+  const baziYear = getBaziYear(date);
+  return buildPillar(mod(baziYear - 4, 10), mod(baziYear - 4, 12));
+}
+
+// Months run from one jie term to the next; month 0 is the Tiger (Yin) month
+// opened by Start of Spring. Its stem follows from the year stem.
+export function calculateMonthPillar(date: Date): BaziPillar {
+  const gregorianMonth = date.getUTCMonth();
+  const beforeTerm = date.getUTCDate() < getSolarTermDay(date.getUTCFullYear(), gregorianMonth);
+  const monthIndex = mod(gregorianMonth - 1 - (beforeTerm ? 1 : 0), 12);
+
+  const yearStem = mod(getBaziYear(date) - 4, 10);
+  const firstMonthStem = mod((yearStem % 5) * 2 + 2, 10);
+  return buildPillar(mod(firstMonthStem + monthIndex, 10), mod(monthIndex + 2, 12));
+}
+
+// 1900-01-01 was a Jia-Xu day, position 10 in the sixty-day cycle
+const DAY_CYCLE_EPOCH = Date.UTC(1900, 0, 1);
+const DAY_CYCLE_EPOCH_INDEX = 10;
+
+export function calculateDayPillar(date: Date): BaziPillar {
+  const dayUtc = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const days = Math.round((dayUtc - DAY_CYCLE_EPOCH) / 86400000);
+  const cycleIndex = mod(DAY_CYCLE_EPOCH_INDEX + days, 60);
+  return buildPillar(cycleIndex % 10, cycleIndex % 12);
+}
+
+// Hours are two-hour branches starting with Zi at 23:00; the stem follows
+// from the day stem.
+export function calculateHourPillar(dayStem: string, hour: number): BaziPillar {
+  const branchIndex = Math.floor((hour + 1) / 2) % 12;
+  const ziStem = (heavenlyStems.indexOf(dayStem) % 5) * 2;
+  return buildPillar(mod(ziStem + branchIndex, 10), branchIndex);
+}
+
+// Accepts 'HH:mm' (24-hour); returns null when the time is missing or invalid
+export function parseBirthHour(birthTime?: string | null): number | null {
+  const match = birthTime?.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hour = parseInt(match[1]);
+  const minute = parseInt(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return hour;
+}
+
+// ============================================
+// FULL CHART
+// ============================================
+
+export function calculateBaziChart(birthDate: Date, birthTime?: string | null): BaziChart {
+  const hour = parseBirthHour(birthTime);
+
+  // A late Zi hour (23:00-23:59) already belongs to the next day
+  const pillarDate = hour === 23
+    ? new Date(Date.UTC(birthDate.getUTCFullYear(), birthDate.getUTCMonth(), birthDate.getUTCDate() + 1))
+    : birthDate;
+
+  const year = calculateYearPillar(pillarDate);
+  const month = calculateMonthPillar(pillarDate);
+  const day = calculateDayPillar(pillarDate);
+  const hourPillar = hour === null ? null : calculateHourPillar(day.stem, hour);
+
+  const elementBalance: Record<string, number> = {};
+  chineseElements.forEach(element => { elementBalance[element] = 0; });
+  [year, month, day, hourPillar].forEach(pillar => {
+    if (!pillar) return;
+    elementBalance[pillar.element]++;
+    elementBalance[pillar.branchElement]++;
+  });
+
+  const dominantElement = chineseElements.reduce((best, element) =>
+    elementBalance[element] > elementBalance[best] ? element : best
+  );
+  const missingElements = chineseElements.filter(element => elementBalance[element] === 0);
+
+  return {
+    year,
+    month,
+    day,
+    hour: hourPillar,
+    dayMaster: {
+      stem: day.stem,
+      stemChinese: day.stemChinese,
+      element: day.element,
+      yinYang: day.yinYang,
+      ...dayMasterProfiles[day.stem],
+    },
+    elementBalance,
+    dominantElement,
+    missingElements,
+  };
+}
@@ -0,0 +1,324 @@
+// Chinese Zodiac Relations
+//
+// Classifies any pair of animals (earthly branches) into the traditional
+// relations: the four trines, the six secret friends, the six clashes, the
+// six harms and the punishments. Element pairs are read through the Wu Xing
+// generating and controlling cycles. Every relation carries a short
+// explanation so callers can show why a pairing scores the way it does.
+//
+// Tables are keyed by animal name, so this module has no dependency on
+// numerology.ts and can be used from it.
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type AnimalRelation =
+  | 'same'
+  | 'trine'
+  | 'secretFriend'
+  | 'clash'
+  | 'harm'
+  | 'punishment'
+  | 'selfPunishment';
+
+export type ElementRelation = 'same' | 'generates' | 'generatedBy' | 'controls' | 'controlledBy';
+
+export type ChineseCompatibilityLevel = 'Challenging' | 'Neutral' | 'Harmonious' | 'Excellent';
+
+export interface AnimalPairAnalysis {
+  animals: [string, string];
+  relations: AnimalRelation[];          // Every relation the pair holds, strongest first
+  primary: AnimalRelation | 'neutral';  // The relation that best describes the pair
+  score: number;                        // 0-100 from the animals alone
+  explanations: string[];
+}
+
+export interface ElementPairAnalysis {
+  elements: [string, string];
+  relation: ElementRelation | null;     // null for unknown elements
+  adjustment: number;                   // Points added to the animal score
+  explanation: string;
+}
+
+export interface ChineseCompatibility {
+  score: number;
+  level: ChineseCompatibilityLevel;
+  insight: string;
+  animal: AnimalPairAnalysis;
+  element: ElementPairAnalysis | null;  // null when either element is unknown
+}
+
+// ============================================
+// RELATION TABLES
+// ============================================
+
+// San He: animals four years apart share an element and a way of working
+const trines: Array<{ name: string; element: string; animals: string[] }> = [
+  { name: 'Water trine', element: 'Water', animals: ['Rat', 'Dragon', 'Monkey'] },
+  { name: 'Metal trine', element: 'Metal', animals: ['Ox', 'Snake', 'Rooster'] },
+  { name: 'Fire trine', element: 'Fire', animals: ['Tiger', 'Horse', 'Dog'] },
+  { name: 'Wood trine', element: 'Wood', animals: ['Rabbit', 'Goat', 'Pig'] },
+];
+
+// Liu He: the six secret friends (hidden allies)
+const secretFriends: Array<[string, string]> = [
+  ['Rat', 'Ox'],
+  ['Tiger', 'Pig'],
+  ['Rabbit', 'Dog'],
+  ['Dragon', 'Rooster'],
+  ['Snake', 'Monkey'],
+  ['Horse', 'Goat'],
+];
+
+// Liu Chong: opposite signs, six years apart
+const clashes: Array<[string, string]> = [
+  ['Rat', 'Horse'],
+  ['Ox', 'Goat'],
+  ['Tiger', 'Monkey'],
+  ['Rabbit', 'Rooster'],
+  ['Dragon', 'Dog'],
+  ['Snake', 'Pig'],
+];
+
+// Liu Hai: each harm disrupts one of the other's secret friendships
+const harms: Array<[string, string]> = [
+  ['Rat', 'Goat'],
+  ['Ox', 'Horse'],
+  ['Tiger', 'Snake'],
+  ['Rabbit', 'Dragon'],
+  ['Monkey', 'Pig'],
+  ['Rooster', 'Dog'],
+];
+
+// Xing: punishment groups. Any two members of a group punish each other.
+const punishments: Array<{ name: string; animals: string[] }> = [
+  { name: 'ungrateful punishment', animals: ['Tiger', 'Snake', 'Monkey'] },
+  { name: 'bullying punishment', animals: ['Ox', 'Goat', 'Dog'] },
+  { name: 'uncivil punishment', animals: ['Rat', 'Rabbit'] },
+];
+
+// These four punish themselves: two of the same sign amplify each other's flaws
+const selfPunishingAnimals = ['Dragon', 'Horse', 'Rooster', 'Pig'];
+
+// Points each relation moves a pair away from the neutral score. Relations
+// stack, so a secret friendship that is also a punishment lands in between.
+const NEUTRAL_SCORE = 55;
+const relationAdjustments: Record<AnimalRelation, number> = {
+  secretFriend: 37,
+  trine: 33,
+  same: 15,
+  selfPunishment: -10,
+  punishment: -15,
+  harm: -20,
+  clash: -35,
+};
+
+// Order used to list relations and pick the primary one
+const relationOrder: AnimalRelation[] = ['clash', 'secretFriend', 'trine', 'same', 'harm', 'punishment', 'selfPunishment'];
+
+export const animalRelationLabels: Record<AnimalRelation | 'neutral', string> = {
+  same: 'Same sign',
+  trine: 'Trine',
+  secretFriend: 'Secret friend',
+  clash: 'Clash',
+  harm: 'Harm',
+  punishment: 'Punishment',
+  selfPunishment: 'Self-punishment',
+  neutral: 'Neutral',
+};
+
+// Wu Xing: each element feeds the next and restrains the one after that
+const generatingCycle: Record<string, string> = {
+  Wood: 'Fire',
+  Fire: 'Earth',
+  Earth: 'Metal',
+  Metal: 'Water',
+  Water: 'Wood',
+};
+
+const controllingCycle: Record<string, string> = {
+  Wood: 'Earth',
+  Earth: 'Water',
+  Water: 'Fire',
+  Fire: 'Metal',
+  Metal: 'Wood',
+};
+
+const elementAdjustments: Record<ElementRelation, number> = {
+  same: 5,
+  generates: 10,
+  generatedBy: 10,
+  controls: -5,
+  controlledBy: -5,
+};
+
+// ============================================
+// ANIMAL RELATIONS
+// ============================================
+
+function isPair(pairs: Array<[string, string]>, a: string, b: string): boolean {
+  return pairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+}
+
+function findTrine(a: string, b: string) {
+  return trines.find(trine => trine.animals.includes(a) && trine.animals.includes(b));
+}
+
+function findPunishment(a: string, b: string) {
+  return punishments.find(group => group.animals.includes(a) && group.animals.includes(b));
+}
+
+export function getTrine(animal: string): { name: string; element: string; animals: string[] } | null {
+  return trines.find(trine => trine.animals.includes(animal)) ?? null;
+}
+
+export function getSecretFriend(animal: string): string | null {
+  const pair = secretFriends.find(([x, y]) => x === animal || y === animal);
+  if (!pair) return null;
+  return pair[0] === animal ? pair[1] : pair[0];
+}
+
+export function getClashAnimal(animal: string): string | null {
+  const pair = clashes.find(([x, y]) => x === animal || y === animal);
+  if (!pair) return null;
+  return pair[0] === animal ? pair[1] : pair[0];
+}
+
+// Every traditional relation between two animals, strongest first. Unrelated
+// pairs return an empty list.
+export function getAnimalRelations(a: string, b: string): AnimalRelation[] {
+  const found = new Set<AnimalRelation>();
+
+  if (a === b) {
+    found.add('same');
+    if (selfPunishingAnimals.includes(a)) found.add('selfPunishment');
+  } else {
+    if (findTrine(a, b)) found.add('trine');
+    if (isPair(secretFriends, a, b)) found.add('secretFriend');
+    if (isPair(clashes, a, b)) found.add('clash');
+    if (isPair(harms, a, b)) found.add('harm');
+    if (findPunishment(a, b)) found.add('punishment');
+  }
+
+  return relationOrder.filter(relation => found.has(relation));
+}
+
+function explainAnimalRelation(relation: AnimalRelation, a: string, b: string): string {
+  switch (relation) {
+    case 'same':
+      return `Two ${a}s see the world the same way and understand each other's instincts.`;
+    case 'trine': {
+      const trine = findTrine(a, b)!;
+      return `${a} and ${b} share the ${trine.name} (${trine.animals.join(', ')}): natural allies who think alike.`;
+    }
+    case 'secretFriend':
+      return `${a} and ${b} are secret friends, a hidden bond of loyalty and quiet support.`;
+    case 'clash':
+      return `${a} and ${b} sit opposite each other on the zodiac wheel, so their needs pull in opposite directions.`;
+    case 'harm':
+      return `${a} and ${b} form a harm: small misunderstandings can quietly wear down trust.`;
+    case 'punishment': {
+      const group = findPunishment(a, b)!;
+      return `${a} and ${b} fall in the ${group.name} (${group.animals.join(', ')}), which brings friction and tests of patience.`;
+    }
+    case 'selfPunishment':
+      return `${a} is a self-punishing sign, so two of them can amplify each other's blind spots.`;
+  }
+}
+
+export function analyzeAnimalPair(a: string, b: string): AnimalPairAnalysis {
+  const relations = getAnimalRelations(a, b);
+  const score = relations.reduce((total, relation) => total + relationAdjustments[relation], NEUTRAL_SCORE);
+
+  return {
+    animals: [a, b],
+    relations,
+    primary: relations[0] ?? 'neutral',
+    score: Math.max(10, Math.min(100, score)),
+    explanations: relations.length > 0
+      ? relations.map(relation => explainAnimalRelation(relation, a, b))
+      : [`${a} and ${b} have no traditional bond or conflict, leaving room to build on shared values.`],
+  };
+}
+
+// Pairings that lift each other: a trine, secret friend or shared sign that
+// isn't outweighed by a conflict
+export function isFavorableAnimalPair(a: string, b: string): boolean {
+  return analyzeAnimalPair(a, b).score >= 60;
+}
+
+// ============================================
+// ELEMENT RELATIONS
+// ============================================
+
+export function getElementRelation(a: string, b: string): ElementRelation | null {
+  if (!generatingCycle[a] || !generatingCycle[b]) return null;
+  if (a === b) return 'same';
+  if (generatingCycle[a] === b) return 'generates';
+  if (generatingCycle[b] === a) return 'generatedBy';
+  if (controllingCycle[a] === b) return 'controls';
+  return 'controlledBy';
+}
+
+export function analyzeElementPair(a: string, b: string): ElementPairAnalysis {
+  const relation = getElementRelation(a, b);
+
+  let explanation: string;
+  switch (relation) {
+    case 'same':
+      explanation = `Shared ${a} element: the same rhythm and priorities.`;
+      break;
+    case 'generates':
+      explanation = `${a} feeds ${b} in the generating cycle, so the first naturally nurtures the second.`;
+      break;
+    case 'generatedBy':
+      explanation = `${b} feeds ${a} in the generating cycle, so the second naturally nurtures the first.`;
+      break;
+    case 'controls':
+      explanation = `${a} restrains ${b} in the controlling cycle, which can feel like pressure from the first.`;
+      break;
+    case 'controlledBy':
+      explanation = `${b} restrains ${a} in the controlling cycle, which can feel like pressure from the second.`;
+      break;
+    default:
+      explanation = `${a} meets ${b}`;
+  }
+
+  return {
+    elements: [a, b],
+    relation,
+    adjustment: relation ? elementAdjustments[relation] : 0,
+    explanation,
+  };
+}
+
+// ============================================
+// COMBINED SCORE
+// ============================================
+
+function getLevel(score: number): ChineseCompatibilityLevel {
+  if (score >= 80) return 'Excellent';
+  if (score >= 60) return 'Harmonious';
+  if (score >= 40) return 'Neutral';
+  return 'Challenging';
+}
+
+// Animal relations set the base score; the element cycle nudges it
+export function calculateChineseCompatibility(
+  a: { animal: string; element?: string },
+  b: { animal: string; element?: string }
+): ChineseCompatibility {
+  const animal = analyzeAnimalPair(a.animal, b.animal);
+  const element = a.element && b.element ? analyzeElementPair(a.element, b.element) : null;
+
+  const score = Math.max(0, Math.min(100, animal.score + (element?.adjustment ?? 0)));
+
+  return {
+    score,
+    level: getLevel(score),
+    insight: animal.explanations[0],
+    animal,
+    element,
+  };
+}
@@ -0,0 +1,76 @@
+// Personal Circle
+//
+// The people a user compares against again and again (partner, boss, kids).
+// Contacts are stored per user on the server; this module holds the
+// relationship tags both sides validate and display.
+
+import type { RelationshipModelId } from './numerology';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type CircleRelationship =
+  | 'partner'
+  | 'spouse'
+  | 'child'
+  | 'parent'
+  | 'sibling'
+  | 'family'
+  | 'friend'
+  | 'boss'
+  | 'coworker'
+  | 'client'
+  | 'other';
+
+export interface CircleContact {
+  id: string;
+  name: string;
+  birthDate: string;     // ISO date; read through UTC components like user birth dates
+  birthTime?: string | null;
+  birthLocation?: string | null;
+  relationship: CircleRelationship;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MAX_CIRCLE_SIZE = 100;
+
+export const circleRelationshipLabels: Record<CircleRelationship, string> = {
+  partner: 'Partner',
+  spouse: 'Spouse',
+  child: 'Child',
+  parent: 'Parent',
+  sibling: 'Sibling',
+  family: 'Family',
+  friend: 'Friend',
+  boss: 'Boss',
+  coworker: 'Coworker',
+  client: 'Client',
+  other: 'Other',
+};
+
+export const circleRelationships = Object.keys(circleRelationshipLabels) as CircleRelationship[];
+
+export function isCircleRelationship(value: string): value is CircleRelationship {
+  return Object.prototype.hasOwnProperty.call(circleRelationshipLabels, value);
+}
+
+// Scoring model a contact is compared under unless the user picks another
+const defaultModelByRelationship: Record<CircleRelationship, RelationshipModelId> = {
+  partner: 'romantic',
+  spouse: 'romantic',
+  child: 'family',
+  parent: 'family',
+  sibling: 'family',
+  family: 'family',
+  friend: 'friendship',
+  boss: 'business',
+  coworker: 'business',
+  client: 'business',
+  other: 'general',
+};
+
+export function getRelationshipModelForContact(relationship: string): RelationshipModelId {
+  return isCircleRelationship(relationship) ? defaultModelByRelationship[relationship] : 'general';
+}
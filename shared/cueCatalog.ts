@@ -0,0 +1,410 @@
+// Cue Catalog
+//
+// Validation shared by the admin cue editor and the bulk importer. A cue is a
+// brand, place or person with a founding or birth date; the server derives
+// its numerology fields. Imports (CSV or JSON) are checked row by row, and
+// rows matching an existing cue (or an earlier row) on name plus date are
+// reported as duplicates instead of being added twice.
+//
+// Every cue also carries provenance: where its date came from, whether it has
+// been verified, is an estimate or is a generated placeholder, and whether the
+// date is known to the day or only to the year.
+
+import { parseCalendarDate, calendarToday } from './numerology';
+import { parseCsvRecords } from './screening';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type CueType = 'Brand' | 'Location' | 'Person';
+
+export type CueImportFormat = 'csv' | 'json';
+
+export type CueVerification = 'verified' | 'estimated' | 'generated';
+
+// Year-only dates are stored as YYYY-01-01 (or with a placeholder day), so
+// anything derived from the month or day is not meaningful for them
+export type CueDatePrecision = 'day' | 'year';
+
+export interface CueProvenance {
+  source: string;
+  status: CueVerification;
+  datePrecision: CueDatePrecision;
+  lastReviewedAt: string | null;  // ISO timestamp of the last admin review
+}
+
+export interface CueInput {
+  name: string;
+  type: CueType;
+  foundedOrBirth: string;   // Normalized to [-]YYYY-MM-DD
+  category?: string;
+  country?: string;
+  description?: string;
+  provenance: Omit<CueProvenance, 'lastReviewedAt'>;
+}
+
+// Spellings already in the catalog, used to normalize case and flag new values
+export interface CueVocabulary {
+  categories: string[];
+  countries: string[];
+}
+
+export interface CueRowIssue {
+  line: number;             // CSV line or 1-based JSON array position
+  message: string;
+}
+
+export interface CueImportRow {
+  line: number;
+  cue: CueInput;
+}
+
+export interface CueDuplicate {
+  line: number;
+  name: string;
+  foundedOrBirth: string;
+  existingId?: number;      // Set when the row matches a stored cue
+  duplicateOfLine?: number; // Set when the row repeats an earlier row
+}
+
+export interface CueImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  rows: CueImportRow[];     // Valid, non-duplicate rows (added unless dryRun)
+  errors: CueRowIssue[];
+  warnings: CueRowIssue[];
+  duplicates: CueDuplicate[];
+  inserted: number;
+}
+
+export const MAX_CUE_IMPORT_ROWS = 5000;
+
+export const cueTypes: CueType[] = ['Brand', 'Location', 'Person'];
+
+export const cueVerificationLabels: Record<CueVerification, string> = {
+  verified: 'Verified',
+  estimated: 'Estimated',
+  generated: 'Generated',
+};
+
+export const cueVerifications = Object.keys(cueVerificationLabels) as CueVerification[];
+
+export const cueDatePrecisionLabels: Record<CueDatePrecision, string> = {
+  day: 'Full date',
+  year: 'Year only',
+};
+
+export const YEAR_ONLY_NOTE = 'Only the year is known, so the life path, Western sign and other day-level numbers are not meaningful for this entry.';
+
+const MAX_NAME_LENGTH = 120;
+const MAX_TAG_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// ============================================
+// FIELD VALIDATION
+// ============================================
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, '0');
+}
+
+// Accepts a year ("1886"), "YYYY-MM-DD" (with a leading "-" for BC years) or
+// US-style "M/D/YYYY". Year-only dates are stored as January 1st, as the
+// seed data does. Returns null for impossible or future dates.
+export function normalizeFoundedOrBirth(value: string): string | null {
+  const trimmed = value.trim();
+  const yearOnly = trimmed.match(/^(-?)(\d{1,4})$/);
+  const iso = trimmed.match(/^(-?)(\d{1,4})-(\d{1,2})-(\d{1,2})$/);
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+
+  let sign = '';
+  let parts: number[];
+  if (yearOnly) {
+    sign = yearOnly[1];
+    parts = [parseInt(yearOnly[2]), 1, 1];
+  } else if (iso) {
+    sign = iso[1];
+    parts = [parseInt(iso[2]), parseInt(iso[3]), parseInt(iso[4])];
+  } else if (us) {
+    parts = [parseInt(us[3]), parseInt(us[1]), parseInt(us[2])];
+  } else {
+    return null;
+  }
+
+  const [year, month, day] = parts;
+  const normalized = `${sign}${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}`;
+  const date = parseCalendarDate(normalized);
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== (sign ? -year : year) ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    date.getTime() > calendarToday().getTime()
+  ) {
+    return null;
+  }
+  return normalized;
+}
+
+export function isCueType(value: string): value is CueType {
+  return (cueTypes as string[]).includes(value);
+}
+
+function matchCueType(value: string): CueType | null {
+  const lowered = value.trim().toLowerCase();
+  return cueTypes.find(type => type.toLowerCase() === lowered) ?? null;
+}
+
+export function isCueVerification(value: string): value is CueVerification {
+  return Object.prototype.hasOwnProperty.call(cueVerificationLabels, value);
+}
+
+function matchOption<T extends string>(value: unknown, options: T[]): T | null {
+  if (typeof value !== 'string') return null;
+  const lowered = value.trim().toLowerCase();
+  return options.find(option => option === lowered) ?? null;
+}
+
+// Category and country are free text but should reuse the catalog's spelling
+function validateTag(
+  label: string,
+  value: unknown,
+  known: string[],
+  errors: string[],
+  warnings: string[]
+): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    errors.push(`${label} must be text`);
+    return undefined;
+  }
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return undefined;
+  if (trimmed.length > MAX_TAG_LENGTH || !/[a-zÀ-ɏ]/i.test(trimmed)) {
+    errors.push(`Invalid ${label.toLowerCase()} "${value}"`);
+    return undefined;
+  }
+  const existing = known.find(k => k.toLowerCase() === trimmed.toLowerCase());
+  if (!existing) {
+    warnings.push(`New ${label.toLowerCase()} "${trimmed}"`);
+  }
+  return existing ?? trimmed;
+}
+
+// Checks one cue as sent by the editor or read from an import row. Errors
+// reject the cue; warnings (a category or country not yet in the catalog)
+// don't. Provenance defaults to an unverified estimate from defaultSource,
+// known to the year when only a year was given.
+export function validateCueInput(
+  record: Record<string, unknown>,
+  vocabulary: CueVocabulary,
+  defaultSource = 'Admin entry'
+): { cue: CueInput | null; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const name = typeof record.name === 'string' ? record.name.trim().replace(/\s+/g, ' ') : '';
+  if (!name) {
+    errors.push('Missing name');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`Name is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const type = typeof record.type === 'string' ? matchCueType(record.type) : null;
+  if (!type) {
+    errors.push(record.type ? `Invalid type "${record.type}" (use Brand, Location or Person)` : 'Missing type');
+  }
+
+  let foundedOrBirth: string | null = null;
+  if (typeof record.foundedOrBirth !== 'string' || !record.foundedOrBirth.trim()) {
+    errors.push('Missing founding or birth date');
+  } else {
+    foundedOrBirth = normalizeFoundedOrBirth(record.foundedOrBirth);
+    if (!foundedOrBirth) {
+      errors.push(`Invalid date "${record.foundedOrBirth}" (use YYYY, YYYY-MM-DD or MM/DD/YYYY, not in the future)`);
+    }
+  }
+
+  const category = validateTag('Category', record.category, vocabulary.categories, errors, warnings);
+  const country = validateTag('Country', record.country, vocabulary.countries, errors, warnings);
+
+  let description: string | undefined;
+  if (typeof record.description === 'string' && record.description.trim()) {
+    description = record.description.trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.push(`Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+  }
+
+  const source = typeof record.source === 'string' && record.source.trim()
+    ? record.source.trim().slice(0, MAX_TAG_LENGTH * 2)
+    : defaultSource;
+
+  const status = record.status ? matchOption(record.status, cueVerifications) : 'estimated';
+  if (!status) {
+    errors.push(`Invalid status "${record.status}" (use verified, estimated or generated)`);
+  }
+
+  const yearOnly = typeof record.foundedOrBirth === 'string' && /^-?\d{1,4}$/.test(record.foundedOrBirth.trim());
+  const datePrecision = record.datePrecision
+    ? matchOption(record.datePrecision, ['day', 'year'] as CueDatePrecision[])
+    : yearOnly ? 'year' : 'day';
+  if (!datePrecision) {
+    errors.push(`Invalid date precision "${record.datePrecision}" (use day or year)`);
+  } else if (yearOnly && datePrecision === 'day') {
+    errors.push('A year-only date can\'t have day precision');
+  }
+
+  if (errors.length > 0 || !type || !foundedOrBirth || !status || !datePrecision) {
+    return { cue: null, errors, warnings };
+  }
+  return {
+    cue: { name, type, foundedOrBirth, category, country, description, provenance: { source, status, datePrecision } },
+    errors,
+    warnings,
+  };
+}
+
+export function buildCueVocabulary(cues: Array<{ category?: string; country?: string }>): CueVocabulary {
+  const categories = new Set<string>();
+  const countries = new Set<string>();
+  cues.forEach(cue => {
+    if (cue.category) categories.add(cue.category);
+    if (cue.country) countries.add(cue.country);
+  });
+  return { categories: Array.from(categories).sort(), countries: Array.from(countries).sort() };
+}
+
+// ============================================
+// BULK IMPORT
+// ============================================
+
+const columnHeaders: Record<Exclude<keyof CueInput, 'provenance'>, string[]> = {
+  name: ['name'],
+  type: ['type', 'kind'],
+  foundedOrBirth: ['foundedorbirth', 'founded_or_birth', 'founded', 'born', 'date', 'founded or birth'],
+  category: ['category'],
+  country: ['country'],
+  description: ['description'],
+};
+
+// Provenance columns are optional and read by name only
+const provenanceHeaders: Record<'source' | 'status' | 'datePrecision', string[]> = {
+  source: ['source'],
+  status: ['status', 'verification'],
+  datePrecision: ['dateprecision', 'date_precision', 'precision'],
+};
+
+type ImportColumn = Exclude<keyof CueInput, 'provenance'> | keyof typeof provenanceHeaders;
+
+const columnOrder: ImportColumn[] = ['name', 'type', 'foundedOrBirth', 'category', 'country', 'description'];
+const importHeaders: Record<ImportColumn, string[]> = { ...columnHeaders, ...provenanceHeaders };
+
+function collectRow(
+  line: number,
+  record: Record<string, unknown>,
+  vocabulary: CueVocabulary,
+  rows: CueImportRow[],
+  errors: CueRowIssue[],
+  warnings: CueRowIssue[]
+): void {
+  const result = validateCueInput(record, vocabulary, 'Bulk import');
+  result.errors.forEach(message => errors.push({ line, message }));
+  result.warnings.forEach(message => warnings.push({ line, message }));
+  if (result.cue) rows.push({ line, cue: result.cue });
+}
+
+// Reads cues from CSV or JSON text. A CSV header row is optional; without one
+// the columns are taken as name, type, foundedOrBirth, category, country,
+// description. Source, status and datePrecision columns need a header.
+export function parseCueImport(
+  content: string,
+  format: CueImportFormat,
+  vocabulary: CueVocabulary
+): { rows: CueImportRow[]; errors: CueRowIssue[]; warnings: CueRowIssue[]; totalRows: number } {
+  const rows: CueImportRow[] = [];
+  const errors: CueRowIssue[] = [];
+  const warnings: CueRowIssue[] = [];
+
+  if (format === 'json') {
+    let records: unknown;
+    try {
+      records = JSON.parse(content);
+    } catch {
+      errors.push({ line: 0, message: 'File is not valid JSON' });
+      return { rows, errors, warnings, totalRows: 0 };
+    }
+    if (!Array.isArray(records)) {
+      errors.push({ line: 0, message: 'JSON must be an array of { name, type, foundedOrBirth } objects' });
+      return { rows, errors, warnings, totalRows: 0 };
+    }
+    records.forEach((record, i) => {
+      collectRow(i + 1, (record ?? {}) as Record<string, unknown>, vocabulary, rows, errors, warnings);
+    });
+    return { rows, errors, warnings, totalRows: records.length };
+  }
+
+  let columns: Array<ImportColumn | null> = columnOrder;
+  let totalRows = 0;
+
+  const { records, unclosedQuoteLine } = parseCsvRecords(content);
+  records.forEach(({ line, fields }) => {
+    const lowered = fields.map(f => f.toLowerCase());
+
+    if (totalRows === 0 && lowered.includes('name')) {
+      const known = Object.keys(importHeaders) as ImportColumn[];
+      columns = lowered.map(header => known.find(key => importHeaders[key].includes(header)) ?? null);
+      if (!columns.includes('type') || !columns.includes('foundedOrBirth')) {
+        errors.push({ line, message: 'Header needs name, type and foundedOrBirth columns' });
+      }
+      return;
+    }
+
+    totalRows++;
+    const record: Record<string, unknown> = {};
+    columns.forEach((key, column) => {
+      if (key) record[key] = fields[column];
+    });
+    collectRow(line, record, vocabulary, rows, errors, warnings);
+  });
+  if (unclosedQuoteLine !== null) {
+    errors.push({ line: unclosedQuoteLine, message: 'Unclosed quote; the rest of the file was skipped' });
+  }
+
+  return { rows, errors, warnings, totalRows };
+}
+
+// Name (case and spacing ignored) plus normalized date identifies a cue
+export function cueDuplicateKey(name: string, foundedOrBirth: string): string {
+  return `${name.trim().replace(/\s+/g, ' ').toLowerCase()}|${foundedOrBirth}`;
+}
+
+// Splits import rows into new cues and duplicates of stored cues or of an
+// earlier row in the same file
+export function findCueDuplicates(
+  rows: CueImportRow[],
+  existing: Array<{ id: number; name: string; foundedOrBirth: string }>
+): { unique: CueImportRow[]; duplicates: CueDuplicate[] } {
+  const stored = new Map<string, number>();
+  existing.forEach(cue => stored.set(cueDuplicateKey(cue.name, cue.foundedOrBirth), cue.id));
+
+  const seen = new Map<string, number>();
+  const unique: CueImportRow[] = [];
+  const duplicates: CueDuplicate[] = [];
+
+  rows.forEach(row => {
+    const key = cueDuplicateKey(row.cue.name, row.cue.foundedOrBirth);
+    const base = { line: row.line, name: row.cue.name, foundedOrBirth: row.cue.foundedOrBirth };
+    if (stored.has(key)) {
+      duplicates.push({ ...base, existingId: stored.get(key) });
+    } else if (seen.has(key)) {
+      duplicates.push({ ...base, duplicateOfLine: seen.get(key) });
+    } else {
+      seen.set(key, row.line);
+      unique.push(row);
+    }
+  });
+
+  return { unique, duplicates };
+}
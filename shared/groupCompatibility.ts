@@ -0,0 +1,198 @@
+// Group Compatibility
+//
+// N-way analysis for teams and families: every pair is scored with the same
+// calculateComprehensiveCompatibility used for one-to-one readings, then the
+// group is summarized by element and life-path balance and each member gets a
+// suggested role from their numbers.
+
+import {
+  calculateComprehensiveCompatibility,
+  calculateComprehensiveProfile,
+  reduceToSingleDigit,
+  chineseElements,
+  DEFAULT_CALCULATION_PROFILE,
+  DEFAULT_RELATIONSHIP_MODEL,
+  type CalculationProfile,
+  type ComprehensiveCompatibility,
+  type RelationshipModel,
+} from './numerology';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export interface GroupMember {
+  name: string;
+  birthDate: Date;
+}
+
+export interface GroupRole {
+  title: string;
+  reason: string;
+}
+
+export interface GroupMemberSummary {
+  name: string;
+  lifePathNumber: number;
+  expressionNumber: number;
+  chineseAnimal: string;
+  chineseElement: string;
+  westernSign: string;
+  westernElement: string;
+  energySignature: string;
+  role: GroupRole;
+}
+
+export interface GroupPair {
+  a: number;             // Member indexes
+  b: number;
+  score: number;
+  level: ComprehensiveCompatibility['level'];
+  description: string;
+}
+
+export interface ElementBalance {
+  counts: Record<string, number>;
+  dominant: string;
+  missing: string[];
+}
+
+export interface GroupCompatibility {
+  members: GroupMemberSummary[];
+  matrix: (number | null)[][];  // Overall scores; the diagonal is null
+  averageScore: number;
+  mostHarmonious: GroupPair[];
+  leastHarmonious: GroupPair[];
+  elementBalance: {
+    chinese: ElementBalance;
+    western: ElementBalance;
+  };
+  lifePathBalance: {
+    counts: Record<number, number>;
+    missing: number[];   // Root digits 1-9 nobody in the group carries
+  };
+}
+
+export const MAX_GROUP_SIZE = 20;
+const HIGHLIGHTED_PAIRS = 3;
+
+const westernElements = ['Fire', 'Earth', 'Air', 'Water'];
+
+// ============================================
+// ROLES
+// ============================================
+
+const lifePathRoles: Record<number, { title: string; strength: string }> = {
+  1: { title: 'Initiator', strength: 'drives new work forward and makes the first call' },
+  2: { title: 'Mediator', strength: 'keeps people aligned and smooths friction' },
+  3: { title: 'Communicator', strength: 'pitches, presents and keeps morale up' },
+  4: { title: 'Organizer', strength: 'builds the plan, process and structure' },
+  5: { title: 'Catalyst', strength: 'adapts fast and opens new channels' },
+  6: { title: 'Team Anchor', strength: 'looks after people and quality' },
+  7: { title: 'Analyst', strength: 'researches, questions and finds what others miss' },
+  8: { title: 'Executive', strength: 'owns results, budgets and hard decisions' },
+  9: { title: 'Mentor', strength: 'sees the big picture and develops others' },
+  11: { title: 'Visionary', strength: 'sets direction and inspires the group' },
+  22: { title: 'Architect', strength: 'turns large visions into working systems' },
+  33: { title: 'Guide', strength: 'leads through service and example' },
+};
+
+const expressionSkills: Record<number, string> = {
+  1: 'independent execution',
+  2: 'partnership and diplomacy',
+  3: 'writing and presenting',
+  4: 'detail and reliability',
+  5: 'networking and sales',
+  6: 'client care',
+  7: 'research and analysis',
+  8: 'management and finance',
+  9: 'big-picture thinking',
+};
+
+function suggestRole(lifePathNumber: number, expressionNumber: number): GroupRole {
+  const role = lifePathRoles[lifePathNumber] ?? lifePathRoles[reduceToSingleDigit(lifePathNumber, false)];
+  const skill = expressionSkills[reduceToSingleDigit(expressionNumber, false)];
+  return {
+    title: role.title,
+    reason: `Life Path ${lifePathNumber} ${role.strength}; Expression ${expressionNumber} adds ${skill}.`,
+  };
+}
+
+// ============================================
+// GROUP ANALYSIS
+// ============================================
+
+function getElementBalance(elements: string[], values: string[]): ElementBalance {
+  const counts: Record<string, number> = Object.fromEntries(elements.map(element => [element, 0]));
+  for (const value of values) counts[value] = (counts[value] || 0) + 1;
+  return {
+    counts,
+    dominant: Object.entries(counts).sort((x, y) => y[1] - x[1])[0][0],
+    missing: elements.filter(element => counts[element] === 0),
+  };
+}
+
+export function calculateGroupCompatibility(
+  members: GroupMember[],
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE,
+  model: RelationshipModel = DEFAULT_RELATIONSHIP_MODEL
+): GroupCompatibility {
+  const profiles = members.map(member =>
+    calculateComprehensiveProfile(member.name, member.birthDate, undefined, undefined, profile)
+  );
+
+  const matrix: (number | null)[][] = members.map(() => members.map(() => null));
+  const pairs: GroupPair[] = [];
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      const result = calculateComprehensiveCompatibility(
+        members[a].name, members[a].birthDate,
+        members[b].name, members[b].birthDate,
+        profile,
+        model
+      );
+      matrix[a][b] = result.overallScore;
+      matrix[b][a] = result.overallScore;
+      pairs.push({ a, b, score: result.overallScore, level: result.level, description: result.description });
+    }
+  }
+
+  // Split the ranking so a small group never lists a pair as both best and worst
+  const ranked = [...pairs].sort((x, y) => y.score - x.score);
+  const highlighted = Math.min(HIGHLIGHTED_PAIRS, Math.ceil(ranked.length / 2));
+  const averageScore = pairs.length > 0
+    ? Math.round(pairs.reduce((sum, pair) => sum + pair.score, 0) / pairs.length)
+    : 0;
+
+  const lifePathCounts: Record<number, number> = {};
+  for (const p of profiles) {
+    lifePathCounts[p.lifePathNumber] = (lifePathCounts[p.lifePathNumber] || 0) + 1;
+  }
+  const presentRoots = new Set(profiles.map(p => reduceToSingleDigit(p.lifePathNumber, false)));
+
+  return {
+    members: profiles.map((p, i) => ({
+      name: members[i].name,
+      lifePathNumber: p.lifePathNumber,
+      expressionNumber: p.expressionNumber,
+      chineseAnimal: p.chineseZodiac.animal,
+      chineseElement: p.chineseZodiac.element,
+      westernSign: p.westernZodiac.sign,
+      westernElement: p.westernZodiac.element,
+      energySignature: p.energySignature,
+      role: suggestRole(p.lifePathNumber, p.expressionNumber),
+    })),
+    matrix,
+    averageScore,
+    mostHarmonious: ranked.slice(0, highlighted),
+    leastHarmonious: ranked.slice(highlighted).slice(-highlighted).reverse(),
+    elementBalance: {
+      chinese: getElementBalance(chineseElements, profiles.map(p => p.chineseZodiac.element)),
+      western: getElementBalance(westernElements, profiles.map(p => p.westernZodiac.element)),
+    },
+    lifePathBalance: {
+      counts: lifePathCounts,
+      missing: [1, 2, 3, 4, 5, 6, 7, 8, 9].filter(n => !presentRoots.has(n)),
+    },
+  };
+}
@@ -0,0 +1,2367 @@
+// GG33 Comprehensive Numerology & Astrology Calculation System
+//
+// Canonical engine shared by the client and the server. Every Date passed in
+// is treated as a calendar date and read through its UTC components, so a
+// birth date stored as "1990-05-15" gives the same numbers everywhere. Use
+// parseCalendarDate() for stored date strings and calendarToday() for "today".
+
+import { calculateChineseCompatibility, type AnimalRelation } from './chineseRelations';
+import { analyzeSignAspect, type WesternAspect } from './westernAspects';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export interface FullProfile {
+  // Core Numbers (from birth date)
+  lifePathNumber: number;
+  attitudeNumber: number;
+  generationNumber: number;
+  dayOfBirthNumber: number;
+  
+  // Name Numbers (from full name)
+  expressionNumber: number;
+  soulUrgeNumber: number;
+  personalityNumber: number;
+  maturityNumber: number;
+  
+  // Karmic Numbers
+  karmicDebts: KarmicDebt[];
+  karmicLessons: number[];
+  hiddenPassionNumber: number;
+  
+  // Astrology
+  chineseZodiac: ChineseZodiac;
+  westernZodiac: WesternZodiac;
+  
+  // Energy
+  energySignature: string;
+  dailyEnergy: number;
+  
+  // Insights
+  personality: PersonalityInsights;
+}
+
+export interface ChineseZodiac {
+  animal: string;
+  element: string;
+  yinYang: string;
+  traits: string[];
+}
+
+export interface WesternZodiac {
+  sign: string;
+  element: string;
+  modality: string;
+  rulingPlanet: string;
+  traits: string[];
+}
+
+export interface PersonalityInsights {
+  paragraph: string;
+  strengths: string[];
+  challenges: string[];
+  bestDays: number[];
+  luckyColors: string[];
+}
+
+export interface NumerologyProfile {
+  lifePathNumber: number;
+  chineseZodiac: ChineseZodiac;
+  energySignature: string;
+  personality: {
+    strengths: string[];
+    challenges: string[];
+    bestDays: number[];
+    luckyColors: string[];
+  };
+}
+
+// ============================================
+// LETTER TO NUMBER MAPPING
+// ============================================
+
+export type LetterSystem = 'pythagorean' | 'chaldean';
+
+const letterSystems: Record<LetterSystem, Record<string, number>> = {
+  pythagorean: {
+    'A': 1, 'J': 1, 'S': 1,
+    'B': 2, 'K': 2, 'T': 2,
+    'C': 3, 'L': 3, 'U': 3,
+    'D': 4, 'M': 4, 'V': 4,
+    'E': 5, 'N': 5, 'W': 5,
+    'F': 6, 'O': 6, 'X': 6,
+    'G': 7, 'P': 7, 'Y': 7,
+    'H': 8, 'Q': 8, 'Z': 8,
+    'I': 9, 'R': 9,
+  },
+  // Chaldean values follow the sound of each letter; 9 is sacred and never assigned
+  chaldean: {
+    'A': 1, 'I': 1, 'J': 1, 'Q': 1, 'Y': 1,
+    'B': 2, 'K': 2, 'R': 2,
+    'C': 3, 'G': 3, 'L': 3, 'S': 3,
+    'D': 4, 'M': 4, 'T': 4,
+    'E': 5, 'H': 5, 'N': 5, 'X': 5,
+    'U': 6, 'V': 6, 'W': 6,
+    'O': 7, 'Z': 7,
+    'F': 8, 'P': 8,
+  },
+};
+
+const vowels = ['A', 'E', 'I', 'O', 'U'];
+
+// ============================================
+// CALCULATION PROFILES
+// ============================================
+
+// A named set of conventions the whole engine follows. Every calculation takes
+// an optional profile and falls back to the standard Pythagorean rules.
+export type CalculationProfileId = 'standard' | 'chaldean' | 'master44' | 'birthdayYear';
+
+export interface CalculationProfile {
+  id: CalculationProfileId;
+  name: string;
+  description: string;
+  letterSystem: LetterSystem;
+  masterNumbers: number[];
+  personalYearRollover: 'january' | 'birthday';
+}
+
+export const calculationProfiles: Record<CalculationProfileId, CalculationProfile> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard (Pythagorean)',
+    description: 'Pythagorean letter values, master numbers 11, 22 and 33, personal year starting on January 1.',
+    letterSystem: 'pythagorean',
+    masterNumbers: [11, 22, 33],
+    personalYearRollover: 'january',
+  },
+  chaldean: {
+    id: 'chaldean',
+    name: 'Chaldean',
+    description: 'Chaldean letter values (1-8, no letter is worth 9) with master numbers 11, 22 and 33.',
+    letterSystem: 'chaldean',
+    masterNumbers: [11, 22, 33],
+    personalYearRollover: 'january',
+  },
+  master44: {
+    id: 'master44',
+    name: 'Master 44',
+    description: 'Pythagorean letter values with 44 kept as a master number alongside 11, 22 and 33.',
+    letterSystem: 'pythagorean',
+    masterNumbers: [11, 22, 33, 44],
+    personalYearRollover: 'january',
+  },
+  birthdayYear: {
+    id: 'birthdayYear',
+    name: 'Birthday Year',
+    description: 'Pythagorean letter values with the personal year rolling over on your birthday instead of January 1.',
+    letterSystem: 'pythagorean',
+    masterNumbers: [11, 22, 33],
+    personalYearRollover: 'birthday',
+  },
+};
+
+export const DEFAULT_CALCULATION_PROFILE = calculationProfiles.standard;
+
+export function isCalculationProfileId(value: string): value is CalculationProfileId {
+  // Own keys only: "constructor" or "toString" must not pass
+  return Object.prototype.hasOwnProperty.call(calculationProfiles, value);
+}
+
+// Resolves a stored profile id, falling back to the standard profile
+export function getCalculationProfile(id?: string | null): CalculationProfile {
+  return id && isCalculationProfileId(id) ? calculationProfiles[id] : DEFAULT_CALCULATION_PROFILE;
+}
+
+export function isMasterNumber(num: number, profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE): boolean {
+  return profile.masterNumbers.includes(num);
+}
+
+// ============================================
+// CALENDAR DATE HELPERS
+// ============================================
+
+// Parses "YYYY", "YYYY-MM" or "YYYY-MM-DD" (negative years allowed for BC dates)
+// into a UTC-midnight Date. Years below 100 are kept literal, not mapped to 19xx.
+// Out-of-range months and days ("2024-13-45", "2023-02-29") give an Invalid
+// Date rather than rolling over into the next month or year.
+export function parseCalendarDate(dateStr: string): Date {
+  const negative = dateStr.startsWith('-');
+  const parts = (negative ? dateStr.substring(1) : dateStr).split('T')[0].split('-');
+  const year = (negative ? -1 : 1) * parseInt(parts[0]);
+  const month = parseInt(parts[1] || '1') - 1;
+  const day = parseInt(parts[2] || '1');
+
+  const date = new Date(Date.UTC(2000, month, day));
+  date.setUTCFullYear(year);
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return new Date(NaN);
+  }
+  return date;
+}
+
+// Today's local calendar date, expressed as a UTC-midnight Date
+export function calendarToday(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+}
+
+// Formats a UTC-midnight calendar date back to "YYYY-MM-DD"
+export function formatCalendarDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function sumDigits(num: number): number {
+  return Math.abs(num).toString().split('').reduce((sum, d) => sum + parseInt(d), 0);
+}
+
+// ============================================
+// CORE REDUCTION FUNCTION
+// ============================================
+
+// Every digit sum taken on the way down from num, e.g. 29 -> [11] or 1990 -> [19, 10, 1]
+function reductionSteps(
+  num: number,
+  preserveMasterNumbers = true,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number[] {
+  const steps: number[] = [];
+  let n = Math.abs(num);
+  while (n > 9) {
+    if (preserveMasterNumbers && isMasterNumber(n, profile)) {
+      break;
+    }
+    n = sumDigits(n);
+    steps.push(n);
+  }
+  return steps;
+}
+
+export function reduceToSingleDigit(
+  num: number,
+  preserveMasterNumbers = true,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  if (num === 0) return 0;
+  const steps = reductionSteps(num, preserveMasterNumbers, profile);
+  return steps.length > 0 ? steps[steps.length - 1] : Math.abs(num);
+}
+
+// ============================================
+// CALCULATION TRACES ("show the math")
+// ============================================
+
+export type CalculationType =
+  | 'lifePath' | 'expression' | 'soulUrge' | 'personality' | 'attitude' | 'maturity'
+  | 'generation' | 'dayOfBirth' | 'personalYear' | 'personalMonth' | 'personalDay';
+
+export interface TraceComponent {
+  label: string;
+  value: number;
+  reductions: number[];  // Digit sums applied to this component before adding
+  reduced: number;
+}
+
+export interface LetterValue {
+  letter: string;
+  value: number;
+  counted: boolean;  // False for letters a vowel/consonant-only number skips
+}
+
+export interface CalculationTrace {
+  type: CalculationType;
+  label: string;
+  letters?: LetterValue[];
+  components: TraceComponent[];
+  total: number;
+  reductions: number[];
+  compound: string;  // e.g. "29/11" or "19/10/1"
+  result: number;
+  masterPreserved: boolean;
+}
+
+const calculationLabels: Record<CalculationType, string> = {
+  lifePath: 'Life Path',
+  expression: 'Expression',
+  soulUrge: 'Soul Urge',
+  personality: 'Personality',
+  attitude: 'Attitude',
+  maturity: 'Maturity',
+  generation: 'Generation',
+  dayOfBirth: 'Day of Birth',
+  personalYear: 'Personal Year',
+  personalMonth: 'Personal Month',
+  personalDay: 'Personal Day',
+};
+
+function traceComponent(label: string, value: number, reductions: number[] = []): TraceComponent {
+  return {
+    label,
+    value,
+    reductions,
+    reduced: reductions.length > 0 ? reductions[reductions.length - 1] : value,
+  };
+}
+
+function buildTrace(
+  type: CalculationType,
+  components: TraceComponent[],
+  letters?: LetterValue[],
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  const total = components.reduce((sum, component) => sum + component.reduced, 0);
+  const reductions = reductionSteps(total, true, profile);
+  const result = total === 0 ? 0 : reductions.length > 0 ? reductions[reductions.length - 1] : Math.abs(total);
+
+  return {
+    type,
+    label: calculationLabels[type],
+    ...(letters ? { letters } : {}),
+    components,
+    total,
+    reductions,
+    compound: [total, ...reductions].join('/'),
+    result,
+    masterPreserved: result > 9,
+  };
+}
+
+// ============================================
+// LIFE PATH NUMBER (from birth date)
+// ============================================
+
+export function traceLifePathNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  // Use UTC components to avoid timezone shifts
+  const month = birthDate.getUTCMonth() + 1;
+  const day = birthDate.getUTCDate();
+  const year = birthDate.getUTCFullYear();
+  
+  // Reduce each component separately first; for year, sum digits first then reduce
+  const yearDigitsSum = sumDigits(year);
+  return buildTrace('lifePath', [
+    traceComponent('Month', month, reductionSteps(month, true, profile)),
+    traceComponent('Day', day, reductionSteps(day, true, profile)),
+    traceComponent('Year', year, [yearDigitsSum, ...reductionSteps(yearDigitsSum, true, profile)]),
+  ], undefined, profile);
+}
+
+export function calculateLifePathNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceLifePathNumber(birthDate, profile).result;
+}
+
+// ============================================
+// NAME NUMBERS
+// ============================================
+
+function cleanNameLetters(fullName: string): string {
+  return fullName.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+// Letter values summed over all letters, or only vowels or consonants
+function traceNameNumber(
+  type: CalculationType,
+  fullName: string,
+  letters: 'all' | 'vowels' | 'consonants',
+  profile: CalculationProfile
+): CalculationTrace {
+  const values = letterSystems[profile.letterSystem];
+  const letterTrace: LetterValue[] = cleanNameLetters(fullName).split('').map(letter => {
+    const isVowel = vowels.includes(letter);
+    return {
+      letter,
+      value: values[letter] || 0,
+      counted: letters === 'all' || (letters === 'vowels') === isVowel,
+    };
+  });
+
+  const counted = letterTrace.filter(l => l.counted);
+  const total = counted.reduce((sum, l) => sum + l.value, 0);
+  return buildTrace(type, [traceComponent('Letter values', total)], letterTrace, profile);
+}
+
+// ============================================
+// EXPRESSION NUMBER (from full name - all letters)
+// ============================================
+
+export function traceExpressionNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return traceNameNumber('expression', fullName, 'all', profile);
+}
+
+export function calculateExpressionNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceExpressionNumber(fullName, profile).result;
+}
+
+// ============================================
+// SOUL URGE NUMBER (from vowels only)
+// ============================================
+
+export function traceSoulUrgeNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return traceNameNumber('soulUrge', fullName, 'vowels', profile);
+}
+
+export function calculateSoulUrgeNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceSoulUrgeNumber(fullName, profile).result;
+}
+
+// ============================================
+// PERSONALITY NUMBER (from consonants only)
+// ============================================
+
+export function tracePersonalityNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return traceNameNumber('personality', fullName, 'consonants', profile);
+}
+
+export function calculatePersonalityNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return tracePersonalityNumber(fullName, profile).result;
+}
+
+// ============================================
+// MATURITY NUMBER (Life Path + Expression)
+// ============================================
+
+export function traceMaturityNumber(
+  lifePathNumber: number,
+  expressionNumber: number,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  // Use base values for master numbers in calculation
+  return buildTrace('maturity', [
+    traceComponent('Life Path', lifePathNumber, lifePathNumber > 9 ? reductionSteps(lifePathNumber, false) : []),
+    traceComponent('Expression', expressionNumber, expressionNumber > 9 ? reductionSteps(expressionNumber, false) : []),
+  ], undefined, profile);
+}
+
+export function calculateMaturityNumber(
+  lifePathNumber: number,
+  expressionNumber: number,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceMaturityNumber(lifePathNumber, expressionNumber, profile).result;
+}
+
+// ============================================
+// ATTITUDE NUMBER (Month + Day of birth)
+// ============================================
+
+export function traceAttitudeNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return buildTrace('attitude', [
+    traceComponent('Month', birthDate.getUTCMonth() + 1),
+    traceComponent('Day', birthDate.getUTCDate()),
+  ], undefined, profile);
+}
+
+export function calculateAttitudeNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceAttitudeNumber(birthDate, profile).result;
+}
+
+// ============================================
+// GENERATION NUMBER (Year of birth reduced)
+// ============================================
+
+export function traceGenerationNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  const year = birthDate.getUTCFullYear();
+  
+  // Sum all digits of the year
+  return buildTrace('generation', [traceComponent('Year', year, [sumDigits(year)])], undefined, profile);
+}
+
+export function calculateGenerationNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceGenerationNumber(birthDate, profile).result;
+}
+
+// ============================================
+// DAY OF BIRTH NUMBER (Birth day reduced)
+// ============================================
+
+export function traceDayOfBirthNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return buildTrace('dayOfBirth', [traceComponent('Day', birthDate.getUTCDate())], undefined, profile);
+}
+
+export function calculateDayOfBirthNumber(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return traceDayOfBirthNumber(birthDate, profile).result;
+}
+
+// ============================================
+// KARMIC NUMBERS
+// ============================================
+
+export const KARMIC_DEBT_NUMBERS = [13, 14, 16, 19];
+
+export type KarmicDebtSource = 'lifePath' | 'expression' | 'soulUrge' | 'personality' | 'dayOfBirth';
+
+export interface KarmicDebt {
+  source: KarmicDebtSource;
+  number: number;  // 13, 14, 16 or 19
+}
+
+export interface KarmicProfile {
+  karmicDebts: KarmicDebt[];
+  karmicLessons: number[];    // Letter values missing from the full name
+  hiddenPassionNumber: number;
+}
+
+// The karmic debt number a compound total passes through on its way down, if any
+function findKarmicDebt(total: number, profile: CalculationProfile): number | null {
+  let n = Math.abs(total);
+  while (n > 9) {
+    if (KARMIC_DEBT_NUMBERS.includes(n)) return n;
+    if (isMasterNumber(n, profile)) return null;
+    n = sumDigits(n);
+  }
+  return null;
+}
+
+export function calculateKarmicDebts(
+  fullName: string,
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): KarmicDebt[] {
+  const totals: [KarmicDebtSource, number][] = [
+    ['lifePath', traceLifePathNumber(birthDate, profile).total],
+    ['expression', traceExpressionNumber(fullName, profile).total],
+    ['soulUrge', traceSoulUrgeNumber(fullName, profile).total],
+    ['personality', tracePersonalityNumber(fullName, profile).total],
+    ['dayOfBirth', birthDate.getUTCDate()],
+  ];
+
+  const debts: KarmicDebt[] = [];
+  for (const [source, total] of totals) {
+    const number = findKarmicDebt(total, profile);
+    if (number !== null) debts.push({ source, number });
+  }
+  return debts;
+}
+
+// Letter value counts for every digit the profile's letter system can produce
+// (1-9 for Pythagorean, 1-8 for Chaldean)
+function countNameDigits(fullName: string, profile: CalculationProfile): Map<number, number> {
+  const values = letterSystems[profile.letterSystem];
+  const digits = Array.from(new Set(Object.values(values))).sort((a, b) => a - b);
+  const counts = new Map(digits.map(digit => [digit, 0]));
+  for (const letter of cleanNameLetters(fullName)) {
+    counts.set(values[letter], (counts.get(values[letter]) || 0) + 1);
+  }
+  return counts;
+}
+
+export function calculateKarmicLessons(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number[] {
+  const counts = countNameDigits(fullName, profile);
+  return Array.from(counts.keys()).filter(digit => counts.get(digit) === 0);
+}
+
+// Most frequent letter value in the name; ties go to the lower digit
+export function calculateHiddenPassionNumber(
+  fullName: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  const counts = countNameDigits(fullName, profile);
+  return Array.from(counts.keys()).reduce((best, digit) =>
+    counts.get(digit)! > counts.get(best)! ? digit : best
+  );
+}
+
+export function calculateKarmicProfile(
+  fullName: string,
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): KarmicProfile {
+  return {
+    karmicDebts: calculateKarmicDebts(fullName, birthDate, profile),
+    karmicLessons: calculateKarmicLessons(fullName, profile),
+    hiddenPassionNumber: calculateHiddenPassionNumber(fullName, profile),
+  };
+}
+
+// ============================================
+// CHINESE ZODIAC
+// ============================================
+
+export const chineseAnimals = [
+  'Rat', 'Ox', 'Tiger', 'Rabbit', 'Dragon', 'Snake',
+  'Horse', 'Goat', 'Monkey', 'Rooster', 'Dog', 'Pig'
+];
+
+export const chineseElements = ['Wood', 'Fire', 'Earth', 'Metal', 'Water'];
+
+// Chinese New Year (first day of the first lunar month) for 1900-2100,
+// encoded as month * 100 + day in the Gregorian calendar.
+const LUNAR_TABLE_START = 1900;
+const chineseNewYearTable: number[] = [
+  131, 219, 208, 129, 216, 204, 125, 213, 202, 122,  // 1900-1909
+  210, 130, 218, 206, 126, 214, 203, 123, 211, 201,  // 1910-1919
+  220, 208, 128, 216, 205, 124, 213, 202, 123, 210,  // 1920-1929
+  130, 217, 206, 126, 214, 204, 124, 211, 131, 219,  // 1930-1939
+  208, 127, 215, 205, 125, 213, 202, 122, 210, 129,  // 1940-1949
+  217, 206, 127, 214, 203, 124, 212, 131, 218, 208,  // 1950-1959
+  128, 215, 205, 125, 213, 202, 121, 209, 130, 217,  // 1960-1969
+  206, 127, 215, 203, 123, 211, 131, 218, 207, 128,  // 1970-1979
+  216, 205, 125, 213, 202, 220, 209, 129, 217, 206,  // 1980-1989
+  127, 215, 204, 123, 210, 131, 219, 207, 128, 216,  // 1990-1999
+  205, 124, 212, 201, 122, 209, 129, 218, 207, 126,  // 2000-2009
+  214, 203, 123, 210, 131, 219, 208, 128, 216, 205,  // 2010-2019
+  125, 212, 201, 122, 210, 129, 217, 206, 126, 213,  // 2020-2029
+  203, 123, 211, 131, 219, 208, 128, 215, 204, 124,  // 2030-2039
+  212, 201, 122, 210, 130, 217, 206, 126, 214, 202,  // 2040-2049
+  123, 211, 201, 219, 208, 128, 215, 204, 124, 212,  // 2050-2059
+  202, 121, 209, 129, 217, 205, 126, 214, 203, 123,  // 2060-2069
+  211, 131, 219, 207, 127, 215, 205, 124, 212, 202,  // 2070-2079
+  122, 209, 129, 217, 206, 126, 214, 203, 124, 210,  // 2080-2089
+  130, 218, 207, 127, 215, 205, 125, 212, 201, 121,  // 2090-2099
+  209,  // 2100
+];
+
+export function getChineseNewYear(year: number): Date | null {
+  const encoded = chineseNewYearTable[year - LUNAR_TABLE_START];
+  if (encoded === undefined) return null;
+  return new Date(Date.UTC(year, Math.floor(encoded / 100) - 1, encoded % 100));
+}
+
+// The Chinese zodiac year a date falls in. Dates before that year's Chinese
+// New Year belong to the previous animal; outside the table we fall back to
+// the Gregorian year.
+export function getChineseZodiacYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const newYear = getChineseNewYear(year);
+  if (newYear && date.getTime() < newYear.getTime()) {
+    return year - 1;
+  }
+  return year;
+}
+
+export function calculateChineseZodiac(birthDate: Date): ChineseZodiac {
+  return calculateChineseZodiacForYear(getChineseZodiacYear(birthDate));
+}
+
+// For cues and places where only a year is known
+export function calculateChineseZodiacForYear(year: number): ChineseZodiac {
+  // Proper modulo so BC years index correctly
+  const animalIndex = ((year - 4) % 12 + 12) % 12;
+  const elementIndex = Math.floor((((year - 4) % 10 + 10) % 10) / 2);
+  const yinYang = ((year % 2) + 2) % 2 === 0 ? 'Yang' : 'Yin';
+  
+  const animal = chineseAnimals[animalIndex];
+  const element = chineseElements[elementIndex];
+  
+  return {
+    animal,
+    element,
+    yinYang,
+    traits: getAnimalTraits(animal),
+  };
+}
+
+export function getAnimalTraits(animal: string): string[] {
+  const traits: Record<string, string[]> = {
+    'Rat': ['Clever', 'Quick-witted', 'Resourceful', 'Versatile'],
+    'Ox': ['Diligent', 'Dependable', 'Strong', 'Determined'],
+    'Tiger': ['Brave', 'Confident', 'Competitive', 'Unpredictable'],
+    'Rabbit': ['Gentle', 'Quiet', 'Elegant', 'Kind'],
+    'Dragon': ['Confident', 'Intelligent', 'Enthusiastic', 'Ambitious'],
+    'Snake': ['Enigmatic', 'Intelligent', 'Wise', 'Intuitive'],
+    'Horse': ['Animated', 'Active', 'Energetic', 'Free-spirited'],
+    'Goat': ['Calm', 'Gentle', 'Creative', 'Thoughtful'],
+    'Monkey': ['Sharp', 'Smart', 'Curious', 'Playful'],
+    'Rooster': ['Observant', 'Hardworking', 'Courageous', 'Talented'],
+    'Dog': ['Loyal', 'Honest', 'Helpful', 'Faithful'],
+    'Pig': ['Compassionate', 'Generous', 'Diligent', 'Calm'],
+  };
+  
+  return traits[animal] || ['Mysterious', 'Unique'];
+}
+
+// ============================================
+// WESTERN ZODIAC
+// ============================================
+
+const zodiacSigns: WesternZodiac[] = [
+  { sign: 'Capricorn', element: 'Earth', modality: 'Cardinal', rulingPlanet: 'Saturn', traits: ['Ambitious', 'Disciplined', 'Patient'] },
+  { sign: 'Aquarius', element: 'Air', modality: 'Fixed', rulingPlanet: 'Uranus', traits: ['Innovative', 'Independent', 'Humanitarian'] },
+  { sign: 'Pisces', element: 'Water', modality: 'Mutable', rulingPlanet: 'Neptune', traits: ['Intuitive', 'Compassionate', 'Artistic'] },
+  { sign: 'Aries', element: 'Fire', modality: 'Cardinal', rulingPlanet: 'Mars', traits: ['Bold', 'Ambitious', 'Energetic'] },
+  { sign: 'Taurus', element: 'Earth', modality: 'Fixed', rulingPlanet: 'Venus', traits: ['Reliable', 'Patient', 'Devoted'] },
+  { sign: 'Gemini', element: 'Air', modality: 'Mutable', rulingPlanet: 'Mercury', traits: ['Adaptable', 'Curious', 'Communicative'] },
+  { sign: 'Cancer', element: 'Water', modality: 'Cardinal', rulingPlanet: 'Moon', traits: ['Nurturing', 'Protective', 'Intuitive'] },
+  { sign: 'Leo', element: 'Fire', modality: 'Fixed', rulingPlanet: 'Sun', traits: ['Confident', 'Creative', 'Generous'] },
+  { sign: 'Virgo', element: 'Earth', modality: 'Mutable', rulingPlanet: 'Mercury', traits: ['Analytical', 'Practical', 'Diligent'] },
+  { sign: 'Libra', element: 'Air', modality: 'Cardinal', rulingPlanet: 'Venus', traits: ['Diplomatic', 'Fair', 'Social'] },
+  { sign: 'Scorpio', element: 'Water', modality: 'Fixed', rulingPlanet: 'Pluto', traits: ['Passionate', 'Resourceful', 'Determined'] },
+  { sign: 'Sagittarius', element: 'Fire', modality: 'Mutable', rulingPlanet: 'Jupiter', traits: ['Adventurous', 'Optimistic', 'Philosophical'] },
+];
+
+// Date ranges for zodiac signs (month, day)
+const zodiacDateRanges: [number, number, number, number][] = [
+  [12, 22, 1, 19],   // Capricorn: Dec 22 - Jan 19
+  [1, 20, 2, 18],    // Aquarius: Jan 20 - Feb 18
+  [2, 19, 3, 20],    // Pisces: Feb 19 - Mar 20
+  [3, 21, 4, 19],    // Aries: Mar 21 - Apr 19
+  [4, 20, 5, 20],    // Taurus: Apr 20 - May 20
+  [5, 21, 6, 20],    // Gemini: May 21 - Jun 20
+  [6, 21, 7, 22],    // Cancer: Jun 21 - Jul 22
+  [7, 23, 8, 22],    // Leo: Jul 23 - Aug 22
+  [8, 23, 9, 22],    // Virgo: Aug 23 - Sep 22
+  [9, 23, 10, 22],   // Libra: Sep 23 - Oct 22
+  [10, 23, 11, 21],  // Scorpio: Oct 23 - Nov 21
+  [11, 22, 12, 21],  // Sagittarius: Nov 22 - Dec 21
+];
+
+export function calculateWesternZodiac(birthDate: Date): WesternZodiac {
+  const month = birthDate.getUTCMonth() + 1;
+  const day = birthDate.getUTCDate();
+  
+  for (let i = 0; i < zodiacDateRanges.length; i++) {
+    const [startMonth, startDay, endMonth, endDay] = zodiacDateRanges[i];
+    
+    // Handle Capricorn which spans year boundary
+    if (startMonth > endMonth) {
+      if ((month === startMonth && day >= startDay) || (month === endMonth && day <= endDay)) {
+        return zodiacSigns[i];
+      }
+    } else {
+      if ((month === startMonth && day >= startDay) || (month === endMonth && day <= endDay) ||
+          (month > startMonth && month < endMonth)) {
+        return zodiacSigns[i];
+      }
+    }
+  }
+  
+  // Default to Capricorn
+  return zodiacSigns[0];
+}
+
+// ============================================
+// NUMBER MEANINGS
+// ============================================
+
+interface NumberMeaning {
+  title: string;
+  description: string;
+  strengths: string[];
+  challenges: string[];
+  bestDays: number[];
+  luckyColors: string[];
+  keywords: string[];
+}
+
+const numberMeanings: Record<number, NumberMeaning> = {
+  1: {
+    title: 'The Pioneer',
+    description: 'Natural-born leaders with original ideas and strong determination. You carve your own path and inspire others to follow.',
+    strengths: ['Leadership', 'Innovation', 'Independence', 'Courage', 'Originality'],
+    challenges: ['Impatience', 'Stubbornness', 'Self-criticism', 'Domineering tendencies'],
+    bestDays: [1, 10, 19, 28],
+    luckyColors: ['Gold', 'Orange', 'Yellow'],
+    keywords: ['Initiative', 'Ambition', 'Individuality'],
+  },
+  2: {
+    title: 'The Diplomat',
+    description: 'Peacemakers with a gift for cooperation and balance. You bring harmony to all situations and excel in partnerships.',
+    strengths: ['Diplomacy', 'Intuition', 'Partnership', 'Sensitivity', 'Cooperation'],
+    challenges: ['Indecision', 'Over-sensitivity', 'Self-doubt', 'Dependency'],
+    bestDays: [2, 11, 20, 29],
+    luckyColors: ['Silver', 'White', 'Light Blue'],
+    keywords: ['Balance', 'Harmony', 'Receptivity'],
+  },
+  3: {
+    title: 'The Communicator',
+    description: 'Creative expressionists who inspire others. Your words and ideas light up the world and bring joy to those around you.',
+    strengths: ['Creativity', 'Self-expression', 'Optimism', 'Joy', 'Charisma'],
+    challenges: ['Scattered energy', 'Superficiality', 'Moodiness', 'Exaggeration'],
+    bestDays: [3, 12, 21, 30],
+    luckyColors: ['Purple', 'Pink', 'Turquoise'],
+    keywords: ['Expression', 'Creativity', 'Sociability'],
+  },
+  4: {
+    title: 'The Builder',
+    description: 'Master organizers who create lasting foundations. You turn dreams into reality through dedication and hard work.',
+    strengths: ['Stability', 'Organization', 'Dedication', 'Practicality', 'Reliability'],
+    challenges: ['Rigidity', 'Stubbornness', 'Limitation', 'Resistance to change'],
+    bestDays: [4, 13, 22, 31],
+    luckyColors: ['Green', 'Brown', 'Blue'],
+    keywords: ['Foundation', 'Structure', 'Discipline'],
+  },
+  5: {
+    title: 'The Freedom Seeker',
+    description: 'Adventurous spirits who embrace change. You thrive on variety and new experiences, bringing excitement wherever you go.',
+    strengths: ['Versatility', 'Adventure', 'Freedom', 'Curiosity', 'Adaptability'],
+    challenges: ['Restlessness', 'Inconsistency', 'Excess', 'Impulsiveness'],
+    bestDays: [5, 14, 23],
+    luckyColors: ['Turquoise', 'Light Blue', 'Silver'],
+    keywords: ['Freedom', 'Change', 'Adventure'],
+  },
+  6: {
+    title: 'The Nurturer',
+    description: 'Compassionate caretakers who create beauty and harmony. Your love heals and your presence brings comfort to all.',
+    strengths: ['Responsibility', 'Love', 'Service', 'Healing', 'Harmony'],
+    challenges: ['Perfectionism', 'Self-sacrifice', 'Control', 'Over-protectiveness'],
+    bestDays: [6, 15, 24],
+    luckyColors: ['Blue', 'Pink', 'Green'],
+    keywords: ['Nurturing', 'Responsibility', 'Domesticity'],
+  },
+  7: {
+    title: 'The Seeker',
+    description: 'Deep thinkers on a spiritual quest for truth. You see beyond the surface and possess profound wisdom.',
+    strengths: ['Analysis', 'Spirituality', 'Wisdom', 'Intuition', 'Research'],
+    challenges: ['Isolation', 'Skepticism', 'Aloofness', 'Overthinking'],
+    bestDays: [7, 16, 25],
+    luckyColors: ['Purple', 'Violet', 'Pearl'],
+    keywords: ['Spirituality', 'Analysis', 'Introspection'],
+  },
+  8: {
+    title: 'The Powerhouse',
+    description: 'Natural achievers with business acumen. You manifest abundance and success through determination and vision.',
+    strengths: ['Ambition', 'Authority', 'Abundance', 'Achievement', 'Executive ability'],
+    challenges: ['Materialism', 'Workaholism', 'Power struggles', 'Ruthlessness'],
+    bestDays: [8, 17, 26],
+    luckyColors: ['Black', 'Dark Blue', 'Brown'],
+    keywords: ['Power', 'Success', 'Material mastery'],
+  },
+  9: {
+    title: 'The Humanitarian',
+    description: 'Old souls with universal compassion. You serve humanity with wisdom and your generosity knows no bounds.',
+    strengths: ['Compassion', 'Wisdom', 'Generosity', 'Idealism', 'Universal love'],
+    challenges: ['Martyrdom', 'Letting go', 'Impracticality', 'Moodiness'],
+    bestDays: [9, 18, 27],
+    luckyColors: ['Gold', 'Red', 'Pink'],
+    keywords: ['Humanitarianism', 'Completion', 'Universal love'],
+  },
+  11: {
+    title: 'The Illuminator',
+    description: 'Master number of spiritual insight and inspiration. You light the way for others with your visionary gifts.',
+    strengths: ['Inspiration', 'Intuition', 'Illumination', 'Vision', 'Spiritual insight'],
+    challenges: ['Nervous energy', 'Self-doubt', 'Impracticality', 'Sensitivity'],
+    bestDays: [11, 22, 29],
+    luckyColors: ['White', 'Silver', 'Gold'],
+    keywords: ['Illumination', 'Inspiration', 'Idealism'],
+  },
+  22: {
+    title: 'The Master Builder',
+    description: 'Master number combining vision with action. You build empires that serve humanity with practical wisdom.',
+    strengths: ['Mastery', 'Vision', 'Practicality', 'Leadership', 'Large-scale achievement'],
+    challenges: ['Overwhelm', 'Self-pressure', 'Extremes', 'Controlling tendencies'],
+    bestDays: [4, 22, 31],
+    luckyColors: ['Gold', 'Coral', 'Cream'],
+    keywords: ['Master Builder', 'Practical idealism', 'Large undertakings'],
+  },
+  33: {
+    title: 'The Master Teacher',
+    description: 'Rarest master number of unconditional love. You uplift all of humanity through selfless service and wisdom.',
+    strengths: ['Healing', 'Blessing', 'Teaching', 'Selflessness', 'Spiritual mastery'],
+    challenges: ['Martyrdom', 'Perfectionism', 'Self-sacrifice', 'Emotional burden'],
+    bestDays: [3, 6, 33],
+    luckyColors: ['Turquoise', 'Pink', 'Gold'],
+    keywords: ['Master Teacher', 'Cosmic parent', 'Selfless service'],
+  },
+  44: {
+    title: 'The Master Healer',
+    description: 'Master number of discipline and material mastery, only kept by profiles that honor it. You build lasting structures that heal and protect the people who depend on them.',
+    strengths: ['Endurance', 'Discipline', 'Healing', 'Stewardship', 'Practical mastery'],
+    challenges: ['Rigidity', 'Overwork', 'Heavy responsibility', 'Control'],
+    bestDays: [4, 8, 26],
+    luckyColors: ['Deep Green', 'Bronze', 'Navy'],
+    keywords: ['Master Healer', 'Material mastery', 'Steadfast service'],
+  },
+};
+
+export function getLifePathMeaning(number: number): NumberMeaning {
+  return getNumberMeaning(number);
+}
+
+// Numbers without their own entry fall back to their root digit
+export function getNumberMeaning(number: number): NumberMeaning {
+  return numberMeanings[number] || numberMeanings[reduceToSingleDigit(number, false)] || numberMeanings[9];
+}
+
+// ============================================
+// ENERGY SIGNATURE
+// ============================================
+
+const energyMap: Record<number, string> = {
+  1: 'Fire Initiator',
+  2: 'Water Harmonizer',
+  3: 'Air Creator',
+  4: 'Earth Stabilizer',
+  5: 'Wind Changer',
+  6: 'Heart Healer',
+  7: 'Mind Seeker',
+  8: 'Power Manifester',
+  9: 'Soul Completer',
+  11: 'Light Bearer',
+  22: 'Reality Architect',
+  33: 'Love Teacher',
+  44: 'Master Healer',
+};
+
+export function calculateEnergySignature(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): string {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const zodiac = calculateChineseZodiac(birthDate);
+  
+  return composeEnergySignature(lifePathNumber, zodiac.element);
+}
+
+export function composeEnergySignature(lifePathNumber: number, element: string): string {
+  return `${element} ${energyMap[lifePathNumber] || 'Energy'}`;
+}
+
+// ============================================
+// DAILY ENERGY SCORE
+// ============================================
+
+export function calculateDailyEnergyScore(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const personalYear = calculatePersonalYear(birthDate, targetDate, profile);
+  const personalMonth = calculatePersonalMonth(birthDate, targetDate, profile);
+  const personalDay = calculatePersonalDay(birthDate, targetDate, profile);
+  const universalDay = calculateUniversalDay(targetDate, profile);
+  
+  // Base score
+  let score = 50;
+  
+  // Life path alignment with universal day
+  if (lifePathNumber === universalDay) score += 20;
+  else if (Math.abs(lifePathNumber - universalDay) <= 2) score += 10;
+  
+  // Personal cycles alignment
+  if (personalDay === lifePathNumber) score += 15;
+  if (personalMonth === lifePathNumber) score += 10;
+  if (personalYear === lifePathNumber) score += 5;
+  
+  // Master number bonus
+  if (isMasterNumber(universalDay, profile)) score += 5;
+  if (isMasterNumber(lifePathNumber, profile)) score += 3;
+  
+  // Clamp between 0-100
+  return Math.max(0, Math.min(100, score));
+}
+
+// Universal Day is the date's own reduction, the same way a Life Path is built
+export function calculateUniversalDay(
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return calculateLifePathNumber(targetDate, profile);
+}
+
+// The calendar year a personal year is counted from. Profiles that roll over on
+// the birthday keep using the previous year until the birthday comes around.
+export function getPersonalYearStart(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  const year = targetDate.getUTCFullYear();
+  if (profile.personalYearRollover === 'january') return year;
+
+  const beforeBirthday =
+    targetDate.getUTCMonth() < birthDate.getUTCMonth() ||
+    (targetDate.getUTCMonth() === birthDate.getUTCMonth() && targetDate.getUTCDate() < birthDate.getUTCDate());
+  return beforeBirthday ? year - 1 : year;
+}
+
+export function tracePersonalYear(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return buildTrace('personalYear', [
+    traceComponent('Birth month', birthDate.getUTCMonth() + 1),
+    traceComponent('Birth day', birthDate.getUTCDate()),
+    traceComponent('Year', getPersonalYearStart(birthDate, targetDate, profile)),
+  ], undefined, profile);
+}
+
+export function calculatePersonalYear(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return tracePersonalYear(birthDate, targetDate, profile).result;
+}
+
+export function tracePersonalMonth(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return buildTrace('personalMonth', [
+    traceComponent('Personal Year', calculatePersonalYear(birthDate, targetDate, profile)),
+    traceComponent('Month', targetDate.getUTCMonth() + 1),
+  ], undefined, profile);
+}
+
+export function calculatePersonalMonth(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return tracePersonalMonth(birthDate, targetDate, profile).result;
+}
+
+export function tracePersonalDay(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  return buildTrace('personalDay', [
+    traceComponent('Personal Month', calculatePersonalMonth(birthDate, targetDate, profile)),
+    traceComponent('Day', targetDate.getUTCDate()),
+  ], undefined, profile);
+}
+
+export function calculatePersonalDay(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): number {
+  return tracePersonalDay(birthDate, targetDate, profile).result;
+}
+
+// Trace any supported number for a person; targetDate only matters for the
+// personal year/month/day
+export function traceCalculation(
+  type: CalculationType,
+  fullName: string,
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): CalculationTrace {
+  switch (type) {
+    case 'lifePath': return traceLifePathNumber(birthDate, profile);
+    case 'expression': return traceExpressionNumber(fullName, profile);
+    case 'soulUrge': return traceSoulUrgeNumber(fullName, profile);
+    case 'personality': return tracePersonalityNumber(fullName, profile);
+    case 'attitude': return traceAttitudeNumber(birthDate, profile);
+    case 'maturity':
+      return traceMaturityNumber(
+        calculateLifePathNumber(birthDate, profile),
+        calculateExpressionNumber(fullName, profile),
+        profile
+      );
+    case 'generation': return traceGenerationNumber(birthDate, profile);
+    case 'dayOfBirth': return traceDayOfBirthNumber(birthDate, profile);
+    case 'personalYear': return tracePersonalYear(birthDate, targetDate, profile);
+    case 'personalMonth': return tracePersonalMonth(birthDate, targetDate, profile);
+    case 'personalDay': return tracePersonalDay(birthDate, targetDate, profile);
+  }
+}
+
+export function isCalculationType(value: string): value is CalculationType {
+  return Object.prototype.hasOwnProperty.call(calculationLabels, value);
+}
+
+// ============================================
+// PINNACLES & CHALLENGES (life cycles)
+// ============================================
+
+export interface LifeCyclePeriod {
+  phase: number;          // 1-4
+  number: number;
+  startAge: number;
+  endAge: number | null;  // null for the open-ended fourth phase
+}
+
+export interface PinnaclesAndChallenges {
+  pinnacles: LifeCyclePeriod[];
+  challenges: LifeCyclePeriod[];
+  currentAge: number;
+  currentPhase: number;
+}
+
+export function calculateAge(birthDate: Date, targetDate: Date = calendarToday()): number {
+  let age = targetDate.getUTCFullYear() - birthDate.getUTCFullYear();
+  const hadBirthday =
+    targetDate.getUTCMonth() > birthDate.getUTCMonth() ||
+    (targetDate.getUTCMonth() === birthDate.getUTCMonth() && targetDate.getUTCDate() >= birthDate.getUTCDate());
+  if (!hadBirthday) age--;
+  return Math.max(0, age);
+}
+
+// Age boundaries of the four phases: the first ends at 36 minus the Life Path
+// (master numbers counted as their root), the next two last nine years each.
+function getLifeCycleAges(
+  birthDate: Date,
+  profile: CalculationProfile
+): { startAge: number; endAge: number | null }[] {
+  const lifePathRoot = reduceToSingleDigit(calculateLifePathNumber(birthDate, profile), false);
+  const firstEnd = 36 - lifePathRoot;
+  return [
+    { startAge: 0, endAge: firstEnd },
+    { startAge: firstEnd, endAge: firstEnd + 9 },
+    { startAge: firstEnd + 9, endAge: firstEnd + 18 },
+    { startAge: firstEnd + 18, endAge: null },
+  ];
+}
+
+export function calculatePinnaclesAndChallenges(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): PinnaclesAndChallenges {
+  const month = reduceToSingleDigit(birthDate.getUTCMonth() + 1, false);
+  const day = reduceToSingleDigit(birthDate.getUTCDate(), false);
+  const year = reduceToSingleDigit(birthDate.getUTCFullYear(), false);
+
+  const firstPinnacle = reduceToSingleDigit(month + day, true, profile);
+  const secondPinnacle = reduceToSingleDigit(day + year, true, profile);
+  const pinnacleNumbers = [
+    firstPinnacle,
+    secondPinnacle,
+    reduceToSingleDigit(firstPinnacle + secondPinnacle, true, profile),
+    reduceToSingleDigit(month + year, true, profile),
+  ];
+
+  const firstChallenge = Math.abs(month - day);
+  const secondChallenge = Math.abs(day - year);
+  const challengeNumbers = [
+    firstChallenge,
+    secondChallenge,
+    Math.abs(firstChallenge - secondChallenge),
+    Math.abs(month - year),
+  ];
+
+  const ages = getLifeCycleAges(birthDate, profile);
+  const toPeriods = (numbers: number[]): LifeCyclePeriod[] =>
+    numbers.map((number, i) => ({ phase: i + 1, number, ...ages[i] }));
+
+  const currentAge = calculateAge(birthDate, targetDate);
+  const currentIndex = ages.findIndex(({ endAge }) => endAge === null || currentAge < endAge);
+
+  return {
+    pinnacles: toPeriods(pinnacleNumbers),
+    challenges: toPeriods(challengeNumbers),
+    currentAge,
+    currentPhase: currentIndex + 1,
+  };
+}
+
+export function getCurrentPinnacle(
+  birthDate: Date,
+  targetDate: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): LifeCyclePeriod {
+  const cycles = calculatePinnaclesAndChallenges(birthDate, targetDate, profile);
+  return cycles.pinnacles[cycles.currentPhase - 1];
+}
+
+// ============================================
+// GENERATE PERSONALITY PARAGRAPH
+// ============================================
+
+export function generatePersonalityParagraph(
+  fullName: string,
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): string {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const expressionNumber = calculateExpressionNumber(fullName, profile);
+  const soulUrgeNumber = calculateSoulUrgeNumber(fullName, profile);
+  const maturityNumber = calculateMaturityNumber(lifePathNumber, expressionNumber, profile);
+  
+  const lifePathMeaning = getNumberMeaning(lifePathNumber);
+  const expressionMeaning = getNumberMeaning(expressionNumber);
+  const soulUrgeMeaning = getNumberMeaning(soulUrgeNumber);
+  const maturityMeaning = getNumberMeaning(maturityNumber);
+  
+  const firstName = fullName.split(' ')[0];
+  
+  // Build a personalized paragraph
+  let paragraph = `${firstName}'s Life Path Number ${lifePathNumber} suggests a foundational desire for ${lifePathMeaning.keywords.join(', ').toLowerCase()}. `;
+  paragraph += `You are a natural ${lifePathMeaning.title.toLowerCase().replace('the ', '')}, someone who thrives on ${lifePathMeaning.strengths[0].toLowerCase()} and ${lifePathMeaning.strengths[1].toLowerCase()}. `;
+  
+  if (isMasterNumber(expressionNumber, profile)) {
+    paragraph += `However, the Expression Number ${expressionNumber}, a Master Number, elevates this with a powerful ${expressionMeaning.keywords[0].toLowerCase()} quality. `;
+    paragraph += `You possess a unique ability to bridge the material and spiritual, often having profound insights and a vision for the greater good. `;
+  } else {
+    paragraph += `Your Expression Number ${expressionNumber} reveals how you present yourself to the world through ${expressionMeaning.keywords[0].toLowerCase()} and ${expressionMeaning.strengths[0].toLowerCase()}. `;
+  }
+  
+  paragraph += `Your Soul Urge ${soulUrgeNumber} reinforces a deep craving for ${soulUrgeMeaning.keywords[0].toLowerCase()}, desiring ${soulUrgeMeaning.strengths[0].toLowerCase()} in all endeavors. `;
+  paragraph += `The Maturity Number ${maturityNumber} indicates that as you grow, you will increasingly embody ${maturityMeaning.strengths[0].toLowerCase()}, ${maturityMeaning.strengths[1].toLowerCase()}, and a strong sense of ${maturityMeaning.keywords[0].toLowerCase()}, becoming a pillar of support for others.`;
+  
+  return paragraph;
+}
+
+// ============================================
+// GENERATE COMPREHENSIVE INSIGHTS
+// ============================================
+
+export function generateComprehensiveInsights(
+  fullName: string,
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): PersonalityInsights {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const expressionNumber = calculateExpressionNumber(fullName, profile);
+  const soulUrgeNumber = calculateSoulUrgeNumber(fullName, profile);
+  const westernZodiac = calculateWesternZodiac(birthDate);
+  const chineseZodiac = calculateChineseZodiac(birthDate);
+  
+  const lifePathMeaning = getNumberMeaning(lifePathNumber);
+  const expressionMeaning = getNumberMeaning(expressionNumber);
+  const soulUrgeMeaning = getNumberMeaning(soulUrgeNumber);
+  
+  // Get western zodiac traits from the zodiacSigns array
+  const westernZodiacInfo = zodiacSigns.find(z => z.sign === westernZodiac.sign);
+  const westernTraits = westernZodiacInfo?.traits || [];
+  
+  // Combine strengths from multiple sources
+  const allStrengths = [
+    ...lifePathMeaning.strengths.slice(0, 2),
+    ...expressionMeaning.strengths.slice(0, 2),
+    ...soulUrgeMeaning.strengths.slice(0, 1),
+    ...westernTraits.slice(0, 1),
+    ...chineseZodiac.traits.slice(0, 1),
+  ];
+  
+  // Combine challenges
+  const allChallenges = [
+    ...lifePathMeaning.challenges.slice(0, 2),
+    ...expressionMeaning.challenges.slice(0, 2),
+    ...soulUrgeMeaning.challenges.slice(0, 1),
+    `Balancing ${lifePathMeaning.keywords[0]} with ${expressionMeaning.keywords[0]}`,
+    'Potential for overthinking',
+  ];
+  
+  // Generate paragraph
+  const paragraph = generatePersonalityParagraph(fullName, birthDate, profile);
+  
+  // Deduplicate arrays
+  const uniqueStrengths = Array.from(new Set(allStrengths)).slice(0, 7);
+  const uniqueChallenges = Array.from(new Set(allChallenges)).slice(0, 7);
+  const uniqueColors = Array.from(new Set([...lifePathMeaning.luckyColors, ...expressionMeaning.luckyColors.slice(0, 1)]));
+  
+  return {
+    paragraph,
+    strengths: uniqueStrengths,
+    challenges: uniqueChallenges,
+    bestDays: lifePathMeaning.bestDays,
+    luckyColors: uniqueColors,
+  };
+}
+
+// ============================================
+// FULL PROFILE CALCULATION
+// ============================================
+
+export function calculateFullProfile(
+  birthDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): NumerologyProfile {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const chineseZodiac = calculateChineseZodiac(birthDate);
+  const energySignature = calculateEnergySignature(birthDate, profile);
+  const meaning = getLifePathMeaning(lifePathNumber);
+  
+  return {
+    lifePathNumber,
+    chineseZodiac,
+    energySignature,
+    personality: {
+      strengths: meaning.strengths,
+      challenges: meaning.challenges,
+      bestDays: meaning.bestDays,
+      luckyColors: meaning.luckyColors,
+    },
+  };
+}
+
+export function calculateComprehensiveProfile(
+  fullName: string,
+  birthDate: Date,
+  birthTime?: string,
+  birthLocation?: string,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): FullProfile {
+  // Core Numbers (from birth date)
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const attitudeNumber = calculateAttitudeNumber(birthDate, profile);
+  const generationNumber = calculateGenerationNumber(birthDate, profile);
+  const dayOfBirthNumber = calculateDayOfBirthNumber(birthDate, profile);
+  
+  // Name Numbers (from full name)
+  const expressionNumber = calculateExpressionNumber(fullName, profile);
+  const soulUrgeNumber = calculateSoulUrgeNumber(fullName, profile);
+  const personalityNumber = calculatePersonalityNumber(fullName, profile);
+  const maturityNumber = calculateMaturityNumber(lifePathNumber, expressionNumber, profile);
+  
+  const karmic = calculateKarmicProfile(fullName, birthDate, profile);
+  
+  const chineseZodiac = calculateChineseZodiac(birthDate);
+  const westernZodiac = calculateWesternZodiac(birthDate);
+  
+  const energySignature = calculateEnergySignature(birthDate, profile);
+  const dailyEnergy = calculateDailyEnergyScore(birthDate, calendarToday(), profile);
+  
+  const personality = generateComprehensiveInsights(fullName, birthDate, profile);
+  
+  return {
+    // Core Numbers
+    lifePathNumber,
+    attitudeNumber,
+    generationNumber,
+    dayOfBirthNumber,
+    // Name Numbers
+    expressionNumber,
+    soulUrgeNumber,
+    personalityNumber,
+    maturityNumber,
+    // Karmic Numbers
+    ...karmic,
+    // Astrology
+    chineseZodiac,
+    westernZodiac,
+    // Energy
+    energySignature,
+    dailyEnergy,
+    // Insights
+    personality,
+  };
+}
+
+// ============================================
+// DAILY ENERGY (for DailyEnergy component)
+// ============================================
+
+export function calculateDailyEnergy(
+  date: Date = calendarToday(),
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): {
+  universalDay: number;
+  theme: string;
+  advice: string;
+  dos: string[];
+  donts: string[];
+} {
+  const dayNumber = calculateUniversalDay(date, profile);
+  
+  const dailyThemes: Record<number, {
+    theme: string;
+    advice: string;
+    dos: string[];
+    donts: string[];
+  }> = {
+    1: {
+      theme: 'New Beginnings',
+      advice: 'Start fresh projects and take initiative. Your leadership shines today.',
+      dos: ['Launch new ventures', 'Take the lead', 'Set intentions', 'Be assertive'],
+      donts: ['Follow blindly', 'Procrastinate', 'Be passive', 'Doubt yourself'],
+    },
+    2: {
+      theme: 'Cooperation',
+      advice: 'Focus on partnerships and diplomacy. Patience brings rewards.',
+      dos: ['Collaborate', 'Listen deeply', 'Seek balance', 'Show sensitivity'],
+      donts: ['Force outcomes', 'Go it alone', 'Be impatient', 'Ignore details'],
+    },
+    3: {
+      theme: 'Expression',
+      advice: 'Creativity flows freely. Express yourself and spread joy.',
+      dos: ['Create art', 'Socialize', 'Express feelings', 'Play'],
+      donts: ['Suppress creativity', 'Isolate', 'Overthink', 'Be too serious'],
+    },
+    4: {
+      theme: 'Foundation',
+      advice: 'Build solid foundations. Hard work pays off today.',
+      dos: ['Organize', 'Plan ahead', 'Work steadily', 'Be practical'],
+      donts: ['Cut corners', 'Avoid work', 'Be rigid', 'Resist structure'],
+    },
+    5: {
+      theme: 'Change',
+      advice: 'Embrace change and adventure. Freedom brings growth.',
+      dos: ['Try new things', 'Travel', 'Be flexible', 'Take risks'],
+      donts: ['Cling to routine', 'Be reckless', 'Overindulge', 'Fear change'],
+    },
+    6: {
+      theme: 'Love & Service',
+      advice: 'Focus on home, family, and service to others.',
+      dos: ['Nurture relationships', 'Create beauty', 'Help others', 'Balance give/take'],
+      donts: ['Neglect self', 'Control others', 'Perfectionism', 'Martyr yourself'],
+    },
+    7: {
+      theme: 'Reflection',
+      advice: 'Seek inner wisdom. Spiritual insights come through solitude.',
+      dos: ['Meditate', 'Study', 'Trust intuition', 'Seek truth'],
+      donts: ['Avoid introspection', 'Be superficial', 'Isolate too much', 'Overthink'],
+    },
+    8: {
+      theme: 'Achievement',
+      advice: 'Focus on material goals and career advancement.',
+      dos: ['Make deals', 'Lead projects', 'Manifest abundance', 'Assert authority'],
+      donts: ['Abuse power', 'Be greedy', 'Ignore ethics', 'Overwork'],
+    },
+    9: {
+      theme: 'Completion',
+      advice: 'Release what no longer serves you. Give generously.',
+      dos: ['Let go', 'Be charitable', 'Complete projects', 'Forgive'],
+      donts: ['Hold grudges', 'Start new things', 'Be selfish', 'Cling to past'],
+    },
+  };
+  
+  const lookupNumber = reduceToSingleDigit(dayNumber, false);
+  const daily = dailyThemes[lookupNumber] || dailyThemes[1];
+  
+  return {
+    universalDay: dayNumber,
+    ...daily,
+  };
+}
+
+// ============================================
+// PERSONAL FORECAST (year / month / day outlook)
+// ============================================
+
+export type PersonalCycle = 'year' | 'month' | 'day';
+
+export interface CycleTheme {
+  number: number;
+  theme: string;
+  description: string;
+  activities: string[];
+}
+
+export interface ForecastDay {
+  date: string;
+  personalYear: number;
+  personalMonth: number;
+  personalDay: number;
+  universalDay: number;
+  energyScore: number;
+  theme: CycleTheme;
+}
+
+export interface ForecastMonth {
+  month: string;
+  // Cycle values on the first forecast day of the month; with a birthday
+  // rollover they can change mid-month, so each day carries its own
+  personalYear: number;
+  personalMonth: number;
+  yearTheme: CycleTheme;
+  monthTheme: CycleTheme;
+  averageEnergy: number;
+  // Highest-scoring dates of the month, best first
+  peakDays: string[];
+  days: ForecastDay[];
+}
+
+export interface PersonalForecast {
+  startDate: string;
+  endDate: string;
+  calculationProfile: CalculationProfileId;
+  months: ForecastMonth[];
+}
+
+export const MAX_FORECAST_MONTHS = 12;
+const FORECAST_PEAK_DAYS = 3;
+
+// Last day a forecast starting on startDate may cover: the day before the
+// same date MAX_FORECAST_MONTHS later
+export function getForecastWindowEnd(startDate: Date): Date {
+  return new Date(Date.UTC(
+    startDate.getUTCFullYear(),
+    startDate.getUTCMonth() + MAX_FORECAST_MONTHS,
+    startDate.getUTCDate() - 1
+  ));
+}
+
+const personalCycleContent: Record<number, {
+  theme: string;
+  year: string;
+  month: string;
+  day: string;
+  activities: string[];
+}> = {
+  1: {
+    theme: 'New Beginnings',
+    year: 'A fresh nine-year cycle starts. Plant seeds, take the lead and commit to what you want to build.',
+    month: 'Open new doors this month. Initiative is rewarded more than caution.',
+    day: 'Start something and act on your own judgment.',
+    activities: ['Start projects', 'Take initiative', 'Lead meetings'],
+  },
+  2: {
+    theme: 'Cooperation',
+    year: 'A patient year of partnerships. Progress comes through others, diplomacy and timing.',
+    month: 'Slow down and build alliances. Details and relationships need your attention.',
+    day: 'Listen, negotiate and let others meet you halfway.',
+    activities: ['Partnerships', 'Negotiations', 'Relationship talks'],
+  },
+  3: {
+    theme: 'Creativity',
+    year: 'A social, expressive year. Share your ideas, create and let joy guide your choices.',
+    month: 'Visibility is high. Write, speak, create and reconnect with people.',
+    day: 'Express yourself and enjoy good company.',
+    activities: ['Brainstorming', 'Social events', 'Creative work'],
+  },
+  4: {
+    theme: 'Building',
+    year: 'A year of foundations. Steady work, systems and discipline set up the years ahead.',
+    month: 'Get organized and do the groundwork. Consistency beats shortcuts.',
+    day: 'Plan, organize and work through the details.',
+    activities: ['Planning', 'Organization', 'Detail work'],
+  },
+  5: {
+    theme: 'Change',
+    year: 'A year of movement and freedom. Expect change, travel and new experiences.',
+    month: 'Stay flexible. New opportunities arrive through change and variety.',
+    day: 'Say yes to something new and keep plans loose.',
+    activities: ['Travel', 'New experiences', 'Networking'],
+  },
+  6: {
+    theme: 'Nurturing',
+    year: 'A year centered on home, family and responsibility. Relationships deepen or rebalance.',
+    month: 'Care for the people and spaces around you, and for yourself.',
+    day: 'Tend to home, loved ones and commitments.',
+    activities: ['Family time', 'Home projects', 'Self-care'],
+  },
+  7: {
+    theme: 'Reflection',
+    year: 'An inward year for study, rest and spiritual growth. Quality over quantity.',
+    month: 'Step back, research and trust your intuition before committing.',
+    day: 'Think, study and give yourself quiet time.',
+    activities: ['Research', 'Study', 'Meditation'],
+  },
+  8: {
+    theme: 'Achievement',
+    year: 'A power year for career, money and recognition. Effort from earlier years pays off.',
+    month: 'Push on business and financial goals. Authority and results are within reach.',
+    day: 'Make decisions, close deals and claim your results.',
+    activities: ['Business deals', 'Financial decisions', 'Career moves'],
+  },
+  9: {
+    theme: 'Completion',
+    year: 'The cycle closes. Finish, release and make room for what comes next.',
+    month: 'Wrap up loose ends and let go of what no longer fits.',
+    day: 'Finish things, forgive and give back.',
+    activities: ['Finishing projects', 'Giving back', 'Letting go'],
+  },
+  11: {
+    theme: 'Inspiration',
+    year: 'A heightened year of intuition and insight. Trust the vision even when it is ahead of its time.',
+    month: 'Inspiration runs high. Channel it into teaching or visionary work.',
+    day: 'Follow your intuition and share what you see.',
+    activities: ['Spiritual practice', 'Teaching', 'Visionary work'],
+  },
+  22: {
+    theme: 'Manifestation',
+    year: 'A master builder year. Large, practical plans can take real shape.',
+    month: 'Think big and build methodically toward a lasting result.',
+    day: 'Move long-term plans forward in concrete steps.',
+    activities: ['Big projects', 'Long-term planning', 'Building legacy'],
+  },
+  33: {
+    theme: 'Healing',
+    year: 'A year of service and compassion. Your care has unusual reach.',
+    month: 'Support others and lead by example.',
+    day: 'Help, heal and show up for your community.',
+    activities: ['Helping others', 'Counseling', 'Community service'],
+  },
+};
+
+// Theme content for a personal year, month or day number. Master numbers
+// without their own content (e.g. 44) read as their root digit.
+export function getPersonalCycleTheme(cycle: PersonalCycle, number: number): CycleTheme {
+  const content = personalCycleContent[number] ?? personalCycleContent[reduceToSingleDigit(number, false)];
+  return {
+    number,
+    theme: content.theme,
+    description: content[cycle],
+    activities: content.activities,
+  };
+}
+
+// Day-by-day outlook between two calendar dates (inclusive), grouped by month.
+// Callers are expected to cap the range at MAX_FORECAST_MONTHS.
+export function calculatePersonalForecast(
+  birthDate: Date,
+  startDate: Date,
+  endDate: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): PersonalForecast {
+  const months: ForecastMonth[] = [];
+  let current: ForecastMonth | null = null;
+
+  for (
+    let date = new Date(startDate.getTime());
+    date.getTime() <= endDate.getTime();
+    date = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+  ) {
+    const personalYear = calculatePersonalYear(birthDate, date, profile);
+    const personalMonth = calculatePersonalMonth(birthDate, date, profile);
+    const personalDay = calculatePersonalDay(birthDate, date, profile);
+    const day: ForecastDay = {
+      date: formatCalendarDate(date),
+      personalYear,
+      personalMonth,
+      personalDay,
+      universalDay: calculateUniversalDay(date, profile),
+      energyScore: calculateDailyEnergyScore(birthDate, date, profile),
+      theme: getPersonalCycleTheme('day', personalDay),
+    };
+
+    const monthKey = day.date.substring(0, 7);
+    if (!current || current.month !== monthKey) {
+      current = {
+        month: monthKey,
+        personalYear,
+        personalMonth,
+        yearTheme: getPersonalCycleTheme('year', personalYear),
+        monthTheme: getPersonalCycleTheme('month', personalMonth),
+        averageEnergy: 0,
+        peakDays: [],
+        days: [],
+      };
+      months.push(current);
+    }
+    current.days.push(day);
+  }
+
+  for (const month of months) {
+    const total = month.days.reduce((sum, day) => sum + day.energyScore, 0);
+    month.averageEnergy = Math.round(total / month.days.length);
+    month.peakDays = [...month.days]
+      .sort((a, b) => b.energyScore - a.energyScore)
+      .slice(0, FORECAST_PEAK_DAYS)
+      .map(day => day.date);
+  }
+
+  return {
+    startDate: formatCalendarDate(startDate),
+    endDate: formatCalendarDate(endDate),
+    calculationProfile: profile.id,
+    months,
+  };
+}
+
+// ============================================
+// COMPATIBILITY - COMPREHENSIVE SYSTEM
+// ============================================
+
+export interface DimensionScore {
+  score: number;
+  level: 'Low' | 'Moderate' | 'Good' | 'Excellent';
+  person1Value: number;
+  person2Value: number;
+  insight: string;
+}
+
+export interface ZodiacCompatibility {
+  chineseScore: number;
+  chineseLevel: 'Challenging' | 'Neutral' | 'Harmonious' | 'Excellent';
+  chineseInsight: string;
+  chineseRelations: AnimalRelation[];   // Trine, secret friend, clash, harm, punishment...
+  westernScore: number;
+  westernLevel: 'Challenging' | 'Neutral' | 'Harmonious' | 'Excellent';
+  westernInsight: string;
+  westernAspect: WesternAspect;         // Angle between the two sun signs
+  elementHarmony: string;
+}
+
+export interface ComprehensiveCompatibility {
+  overallScore: number;
+  level: 'Avoid' | 'Challenging' | 'Neutral' | 'Harmonious' | 'Ideal';
+  description: string;
+  relationshipModel: RelationshipModelId;   // Model that set the weights, level cut-offs and text
+  
+  dimensions: {
+    lifePath: DimensionScore;
+    expression: DimensionScore;
+    soulUrge: DimensionScore;
+    personality: DimensionScore;
+    attitude: DimensionScore;
+    dayOfBirth: DimensionScore;
+  };
+  
+  zodiac: ZodiacCompatibility;
+  
+  strengths: string[];
+  challenges: string[];
+  growthOpportunities: string[];
+  communicationTips: string[];
+  
+  person1Profile: FullProfile;
+  person2Profile: FullProfile;
+
+  composite: RelationshipComposite | null;   // Only when a shared date was given
+}
+
+// What the shared date marks; only changes how the reading is worded
+export type RelationshipDateKind = 'met' | 'together' | 'wedding' | 'founded';
+
+export interface RelationshipDate {
+  date: Date;
+  kind: RelationshipDateKind;
+}
+
+// How the relationship's own energy sits with one partner
+export interface CompositeFit {
+  name: string;
+  score: number;                        // Average of the life path and Chinese fits
+  lifePath: DimensionScore;
+  chineseScore: number;
+  chineseInsight: string;
+}
+
+export interface RelationshipComposite {
+  date: string;                         // YYYY-MM-DD
+  kind: RelationshipDateKind;
+  lifePathNumber: number;
+  title: string;                        // Meaning title of the life path, e.g. "The Builder"
+  chineseZodiac: ChineseZodiac;
+  energySignature: string;
+  person1: CompositeFit;
+  person2: CompositeFit;
+  insight: string;
+}
+
+// Life Path compatibility matrix - based on numerology traditions
+const lifePathCompatibility: Record<number, { ideal: number[]; good: number[]; challenging: number[] }> = {
+  1: { ideal: [3, 5], good: [1, 7, 9], challenging: [4, 6, 8] },
+  2: { ideal: [4, 8], good: [2, 6, 9], challenging: [5, 7] },
+  3: { ideal: [1, 5], good: [3, 6, 9], challenging: [4, 7, 8] },
+  4: { ideal: [2, 8], good: [4, 6, 7], challenging: [1, 3, 5] },
+  5: { ideal: [1, 3], good: [5, 7, 9], challenging: [2, 4, 6] },
+  6: { ideal: [2, 9], good: [3, 4, 6], challenging: [1, 5, 7] },
+  7: { ideal: [4, 5], good: [1, 7, 9], challenging: [2, 3, 6, 8] },
+  8: { ideal: [2, 4], good: [6, 8], challenging: [1, 3, 7, 9] },
+  9: { ideal: [2, 6], good: [1, 3, 5, 9], challenging: [4, 7, 8] },
+  11: { ideal: [2, 6, 9], good: [4, 7, 11], challenging: [1, 5, 8] },
+  22: { ideal: [4, 6, 8], good: [2, 22], challenging: [1, 3, 5, 7] },
+  33: { ideal: [6, 9], good: [2, 3, 33], challenging: [1, 4, 5, 7, 8] },
+};
+
+function calculateNumberCompatibility(num1: number, num2: number, context: string): DimensionScore {
+  // Normalize master numbers for comparison
+  const n1 = reduceToSingleDigit(num1, false);
+  const n2 = reduceToSingleDigit(num2, false);
+  
+  const compat = lifePathCompatibility[num1] || lifePathCompatibility[n1];
+  
+  let score = 50;
+  let level: 'Low' | 'Moderate' | 'Good' | 'Excellent' = 'Moderate';
+  
+  if (num1 === num2) {
+    score = 85;
+    level = 'Excellent';
+  } else if (compat?.ideal.includes(num2) || compat?.ideal.includes(n2)) {
+    score = 90;
+    level = 'Excellent';
+  } else if (compat?.good.includes(num2) || compat?.good.includes(n2)) {
+    score = 70;
+    level = 'Good';
+  } else if (compat?.challenging.includes(num2) || compat?.challenging.includes(n2)) {
+    score = 35;
+    level = 'Low';
+  }
+  
+  const insights = getNumberCompatibilityInsight(num1, num2, context, level);
+  
+  return {
+    score,
+    level,
+    person1Value: num1,
+    person2Value: num2,
+    insight: insights,
+  };
+}
+
+function getNumberCompatibilityInsight(num1: number, num2: number, context: string, level: string): string {
+  const contextInsights: Record<string, Record<string, string>> = {
+    lifePath: {
+      'Excellent': `Your life purposes are deeply aligned. Both paths support each other's growth.`,
+      'Good': `Your life directions complement each other with room for mutual growth.`,
+      'Moderate': `Different life paths can bring new perspectives and learning opportunities.`,
+      'Low': `Your life directions may sometimes pull in different ways. Conscious effort needed.`,
+    },
+    expression: {
+      'Excellent': `Your communication styles are naturally in sync. Easy expression together.`,
+      'Good': `You communicate well with some adaptation. Understanding comes naturally.`,
+      'Moderate': `Different expression styles can enrich conversations with effort.`,
+      'Low': `Communication may require patience. Learn each other's language.`,
+    },
+    soulUrge: {
+      'Excellent': `Your hearts desire the same things. Deep emotional connection likely.`,
+      'Good': `Your inner desires are compatible. Emotional understanding flows well.`,
+      'Moderate': `Different inner motivations can create depth when understood.`,
+      'Low': `Your heart's desires differ. Respecting each other's needs is essential.`,
+    },
+    personality: {
+      'Excellent': `You present yourselves to the world similarly. Natural social harmony.`,
+      'Good': `Your outer personalities complement each other well in social settings.`,
+      'Moderate': `Different social styles can balance each other out.`,
+      'Low': `Your public personas may sometimes clash. Embrace the differences.`,
+    },
+    attitude: {
+      'Excellent': `Your daily approaches to life are beautifully aligned.`,
+      'Good': `Your attitudes complement each other in day-to-day interactions.`,
+      'Moderate': `Different daily rhythms can work with understanding.`,
+      'Low': `Your daily approaches differ. Finding common ground is key.`,
+    },
+    dayOfBirth: {
+      'Excellent': `Your natural talents and birth energies harmonize wonderfully.`,
+      'Good': `Your birth day energies support and enhance each other.`,
+      'Moderate': `Different birth energies bring variety to the relationship.`,
+      'Low': `Your birth energies may create friction. Awareness helps.`,
+    },
+    composite: {
+      'Excellent': `The relationship's purpose echoes this person's own path; it feels like home.`,
+      'Good': `The relationship's direction supports this person's path.`,
+      'Moderate': `The relationship asks this person to stretch beyond their usual path.`,
+      'Low': `The relationship pulls against this person's natural path. It will challenge them most.`,
+    },
+  };
+  
+  return contextInsights[context]?.[level] || `Compatibility is ${level.toLowerCase()} in this dimension.`;
+}
+
+// ============================================
+// RELATIONSHIP MODELS
+// ============================================
+
+// A business partnership and a marriage shouldn't be judged alike. Each model
+// weights the compatibility factors for its kind of relationship, sets its own
+// cut-offs for the level labels and words strengths and challenges to suit.
+// 'general' is the original balanced scoring.
+export type RelationshipModelId = 'general' | 'romantic' | 'business' | 'friendship' | 'family';
+
+export type CompatibilityFactor =
+  | 'lifePath' | 'expression' | 'soulUrge' | 'personality' | 'attitude' | 'dayOfBirth' | 'chinese' | 'western';
+
+type CompatibilityLevel = ComprehensiveCompatibility['level'];
+
+export interface RelationshipModel {
+  id: RelationshipModelId;
+  name: string;
+  description: string;
+  weights: Record<CompatibilityFactor, number>;  // Sums to 1
+  thresholds: Record<Exclude<CompatibilityLevel, 'Avoid'>, number>;  // Minimum score per level; below 'Challenging' is 'Avoid'
+  promptFocus: string;   // What the AI reading should concentrate on
+  strengthText: Partial<Record<CompatibilityFactor, string>>;
+  challengeText: Partial<Record<CompatibilityFactor, string>>;
+  fallbackStrength: string;
+  descriptions: Record<CompatibilityLevel, string>;
+}
+
+export const relationshipModels: Record<RelationshipModelId, RelationshipModel> = {
+  general: {
+    id: 'general',
+    name: 'General',
+    description: 'Balanced scoring across every dimension, for any kind of connection.',
+    weights: { lifePath: 0.25, expression: 0.15, soulUrge: 0.20, personality: 0.10, attitude: 0.10, dayOfBirth: 0.05, chinese: 0.10, western: 0.05 },
+    thresholds: { Ideal: 80, Harmonious: 60, Neutral: 45, Challenging: 30 },
+    promptFocus: 'Treat this as a general relationship and cover emotional, practical and social dynamics evenly.',
+    strengthText: {
+      lifePath: 'Aligned life purposes create a strong foundation',
+      soulUrge: 'Deep emotional understanding and shared inner values',
+      expression: 'Natural communication flow and mutual understanding',
+      personality: 'Harmonious social presence as a pair',
+      attitude: 'Compatible daily rhythms and approaches',
+      chinese: 'Favorable Chinese zodiac pairing',
+      western: 'Cosmic harmony in Western astrology',
+    },
+    challengeText: {
+      lifePath: 'Life directions may pull in different ways',
+      soulUrge: 'Inner desires and emotional needs differ',
+      expression: 'Communication styles require adaptation',
+      personality: 'Social approaches may sometimes clash',
+      attitude: 'Daily rhythms and habits may differ',
+      chinese: 'Chinese zodiac indicates friction areas',
+      western: 'Elemental energies require balance',
+    },
+    fallbackStrength: 'Opportunity for growth through differences',
+    descriptions: {
+      'Avoid': 'This pairing presents significant challenges that require careful navigation. Growth is possible but demands conscious effort and mutual understanding.',
+      'Challenging': 'There are friction points in this relationship, but they offer valuable opportunities for personal growth. Patience and open communication are essential.',
+      'Neutral': 'A balanced connection with potential in both directions. Your compatibility depends greatly on how you choose to navigate your differences.',
+      'Harmonious': 'Your energies flow together naturally. This pairing supports mutual growth and understanding, with natural resonance in key areas.',
+      'Ideal': 'Exceptional alignment across multiple dimensions! Your energies amplify each other\'s strengths, creating a powerful and supportive connection.',
+    },
+  },
+  romantic: {
+    id: 'romantic',
+    name: 'Romantic',
+    description: 'Weights emotional needs, attraction and long-term life direction for partners and spouses.',
+    weights: { lifePath: 0.20, expression: 0.10, soulUrge: 0.25, personality: 0.10, attitude: 0.10, dayOfBirth: 0.05, chinese: 0.12, western: 0.08 },
+    thresholds: { Ideal: 80, Harmonious: 62, Neutral: 45, Challenging: 30 },
+    promptFocus: 'Judge this as a romantic partnership: emotional intimacy, attraction, how they handle conflict and whether they can build a shared life.',
+    strengthText: {
+      lifePath: 'You want to build the same kind of life together',
+      soulUrge: 'You meet each other\'s deepest emotional needs',
+      expression: 'Affection comes across the way it is meant',
+      personality: 'Natural chemistry and attraction as a couple',
+      attitude: 'Easy to share a home and daily routine',
+      chinese: 'A classic romantic match in the Chinese zodiac',
+      western: 'Your elements spark passion and warmth',
+    },
+    challengeText: {
+      lifePath: 'Long-term plans may pull you in different directions',
+      soulUrge: 'You may need love shown in different ways',
+      expression: 'Misread signals can turn into arguments',
+      personality: 'First impressions and social lives may not mesh',
+      attitude: 'Living together will take compromise on habits',
+      chinese: 'The Chinese zodiac warns of romantic friction',
+      western: 'Your elements can cool or overheat the romance',
+    },
+    fallbackStrength: 'Differences that can keep the attraction alive',
+    descriptions: {
+      'Avoid': 'As a romantic match this pairing faces deep friction. Love is possible, but it asks for constant patience and honest conversations about needs.',
+      'Challenging': 'The spark may be there, but emotional needs and life plans differ. A romance here grows through effort and compromise.',
+      'Neutral': 'A workable romance with real potential. How well you talk about feelings and plans will decide where it goes.',
+      'Harmonious': 'Strong romantic resonance. You understand each other\'s hearts and can build a shared life with ease.',
+      'Ideal': 'A rare romantic alignment. Your emotional needs, attraction and life direction reinforce each other.',
+    },
+  },
+  business: {
+    id: 'business',
+    name: 'Business',
+    description: 'Weights communication, work style and shared direction for co-founders, colleagues and clients.',
+    weights: { lifePath: 0.20, expression: 0.25, soulUrge: 0.05, personality: 0.10, attitude: 0.20, dayOfBirth: 0.10, chinese: 0.07, western: 0.03 },
+    thresholds: { Ideal: 78, Harmonious: 60, Neutral: 45, Challenging: 32 },
+    promptFocus: 'Judge this as a business partnership: decision-making, communication at work, complementary skills, trust around money and who should lead what.',
+    strengthText: {
+      lifePath: 'You share a vision for where the work is going',
+      expression: 'Clear, efficient communication on the job',
+      soulUrge: 'Aligned motivations behind the work',
+      personality: 'A credible, united front with clients',
+      attitude: 'Compatible work pace and day-to-day habits',
+      dayOfBirth: 'Talents that complement each other',
+      chinese: 'A productive pairing in the Chinese zodiac',
+      western: 'Elements that keep projects moving',
+    },
+    challengeText: {
+      lifePath: 'You may disagree on the long-term direction',
+      expression: 'Expect misunderstandings in meetings and written briefs',
+      soulUrge: 'Different reasons for doing the work',
+      personality: 'Mismatched styles in front of clients',
+      attitude: 'Work pace and deadlines will need agreeing up front',
+      dayOfBirth: 'Overlapping strengths can leave gaps in the team',
+      chinese: 'The Chinese zodiac signals power struggles',
+      western: 'Elemental friction can stall decisions',
+    },
+    fallbackStrength: 'Different perspectives that can catch each other\'s blind spots',
+    descriptions: {
+      'Avoid': 'As a business partnership this pairing is high-risk. Put roles, decision rights and money agreements in writing before committing.',
+      'Challenging': 'You can work together, but styles and priorities clash. Clear roles and regular check-ins are essential.',
+      'Neutral': 'A serviceable working relationship. Success depends on dividing responsibilities to suit each person\'s strengths.',
+      'Harmonious': 'A strong working partnership. You communicate well and complement each other\'s skills.',
+      'Ideal': 'An exceptional business match. Vision, communication and work style line up for a productive partnership.',
+    },
+  },
+  friendship: {
+    id: 'friendship',
+    name: 'Friendship',
+    description: 'Weights social style, communication and everyday ease for friends.',
+    weights: { lifePath: 0.15, expression: 0.20, soulUrge: 0.15, personality: 0.20, attitude: 0.15, dayOfBirth: 0.05, chinese: 0.05, western: 0.05 },
+    thresholds: { Ideal: 75, Harmonious: 58, Neutral: 42, Challenging: 28 },
+    promptFocus: 'Judge this as a friendship: shared interests, how they have fun, loyalty and how they support each other through hard times.',
+    strengthText: {
+      lifePath: 'You grow in the same direction over the years',
+      soulUrge: 'You get what matters to each other',
+      expression: 'Conversation flows without effort',
+      personality: 'You enjoy the same social scenes',
+      attitude: 'Easy to spend time together',
+      chinese: 'Loyal companions in the Chinese zodiac',
+      western: 'Your elements keep things lively',
+    },
+    challengeText: {
+      lifePath: 'Life changes may pull the friendship apart',
+      soulUrge: 'You may value different things in a friend',
+      expression: 'Jokes and comments can land the wrong way',
+      personality: 'You may prefer different social settings',
+      attitude: 'Plans and timing can be a sore point',
+      chinese: 'The Chinese zodiac hints at rivalry',
+      western: 'Elemental differences can cause misunderstandings',
+    },
+    fallbackStrength: 'A friendship that widens both your worlds',
+    descriptions: {
+      'Avoid': 'As friends you may rub each other the wrong way. Keep expectations light and respect your differences.',
+      'Challenging': 'A friendship that takes work. You may not share much naturally, but it can teach you both a lot.',
+      'Neutral': 'A pleasant friendship with room to deepen through shared experiences.',
+      'Harmonious': 'Natural friends. You enjoy each other\'s company and support each other easily.',
+      'Ideal': 'A lifelong-friend pairing. You understand each other, have fun together and show up for each other.',
+    },
+  },
+  family: {
+    id: 'family',
+    name: 'Family',
+    description: 'Weights values, daily rhythms and life lessons for parents, children and siblings.',
+    weights: { lifePath: 0.20, expression: 0.10, soulUrge: 0.20, personality: 0.05, attitude: 0.20, dayOfBirth: 0.10, chinese: 0.10, western: 0.05 },
+    thresholds: { Ideal: 78, Harmonious: 58, Neutral: 42, Challenging: 28 },
+    promptFocus: 'Judge this as a family bond: how they show care, household rhythms, generational differences and what each teaches the other.',
+    strengthText: {
+      lifePath: 'You share core values about how to live',
+      soulUrge: 'You instinctively understand each other\'s needs',
+      expression: 'Family conversations come easily',
+      attitude: 'Household rhythms fit together',
+      dayOfBirth: 'Your gifts balance each other at home',
+      chinese: 'A supportive family pairing in the Chinese zodiac',
+      western: 'Your elements nurture each other',
+    },
+    challengeText: {
+      lifePath: 'Different values may surface at family milestones',
+      soulUrge: 'You may need care shown in different ways',
+      expression: 'Old communication patterns can repeat',
+      attitude: 'Routines and house rules may cause friction',
+      dayOfBirth: 'Similar temperaments can butt heads',
+      chinese: 'The Chinese zodiac points to generational friction',
+      western: 'Elemental differences call for patience at home',
+    },
+    fallbackStrength: 'A bond where each of you teaches the other',
+    descriptions: {
+      'Avoid': 'This family bond carries real friction. Boundaries and patience help keep the relationship healthy.',
+      'Challenging': 'You love each other but see the world differently. Family harmony comes from accepting those differences.',
+      'Neutral': 'A steady family bond with both easy and difficult moments.',
+      'Harmonious': 'A warm family connection. You understand and support each other naturally.',
+      'Ideal': 'A deeply aligned family bond. Shared values and care flow easily between you.',
+    },
+  },
+};
+
+export const DEFAULT_RELATIONSHIP_MODEL = relationshipModels.general;
+
+export function isRelationshipModelId(value: string): value is RelationshipModelId {
+  return Object.prototype.hasOwnProperty.call(relationshipModels, value);
+}
+
+// Resolves a requested model id, falling back to the general model
+export function getRelationshipModel(id?: string | null): RelationshipModel {
+  return id && isRelationshipModelId(id) ? relationshipModels[id] : DEFAULT_RELATIONSHIP_MODEL;
+}
+
+// Factors in the order strengths and challenges are listed: heaviest weight
+// first, ties keeping this base order
+const factorOrder: CompatibilityFactor[] = ['lifePath', 'soulUrge', 'expression', 'personality', 'attitude', 'dayOfBirth', 'chinese', 'western'];
+
+function getFactorLevels(dimensions: ComprehensiveCompatibility['dimensions'], zodiac: ZodiacCompatibility): Record<CompatibilityFactor, { strong: boolean; weak: boolean }> {
+  const fromDimension = (dim: DimensionScore) => ({
+    strong: dim.level === 'Excellent' || dim.level === 'Good',
+    weak: dim.level === 'Low',
+  });
+  return {
+    lifePath: fromDimension(dimensions.lifePath),
+    expression: fromDimension(dimensions.expression),
+    soulUrge: fromDimension(dimensions.soulUrge),
+    personality: fromDimension(dimensions.personality),
+    attitude: fromDimension(dimensions.attitude),
+    dayOfBirth: fromDimension(dimensions.dayOfBirth),
+    chinese: { strong: zodiac.chineseLevel === 'Excellent' || zodiac.chineseLevel === 'Harmonious', weak: zodiac.chineseLevel === 'Challenging' },
+    western: { strong: zodiac.westernLevel === 'Excellent' || zodiac.westernLevel === 'Harmonious', weak: zodiac.westernLevel === 'Challenging' },
+  };
+}
+
+function getOrderedFactors(model: RelationshipModel): CompatibilityFactor[] {
+  return [...factorOrder].sort((a, b) => model.weights[b] - model.weights[a]);
+}
+
+function getCompatibilityLevel(score: number, model: RelationshipModel): CompatibilityLevel {
+  if (score >= model.thresholds.Ideal) return 'Ideal';
+  if (score >= model.thresholds.Harmonious) return 'Harmonious';
+  if (score >= model.thresholds.Neutral) return 'Neutral';
+  if (score >= model.thresholds.Challenging) return 'Challenging';
+  return 'Avoid';
+}
+
+function generateStrengths(
+  dimensions: ComprehensiveCompatibility['dimensions'],
+  zodiac: ZodiacCompatibility,
+  model: RelationshipModel
+): string[] {
+  const levels = getFactorLevels(dimensions, zodiac);
+  const strengths = getOrderedFactors(model)
+    .filter(factor => levels[factor].strong && model.strengthText[factor])
+    .map(factor => model.strengthText[factor]!);
+
+  if (strengths.length === 0) {
+    strengths.push(model.fallbackStrength);
+  }
+
+  return strengths.slice(0, 5);
+}
+
+function generateChallenges(
+  dimensions: ComprehensiveCompatibility['dimensions'],
+  zodiac: ZodiacCompatibility,
+  model: RelationshipModel
+): string[] {
+  const levels = getFactorLevels(dimensions, zodiac);
+  return getOrderedFactors(model)
+    .filter(factor => levels[factor].weak && model.challengeText[factor])
+    .map(factor => model.challengeText[factor]!)
+    .slice(0, 4);
+}
+
+function generateGrowthOpportunities(dimensions: ComprehensiveCompatibility['dimensions']): string[] {
+  const opportunities: string[] = [];
+  
+  if (dimensions.lifePath.level === 'Moderate' || dimensions.lifePath.level === 'Low') {
+    opportunities.push('Learn to appreciate different life approaches');
+  }
+  if (dimensions.expression.level === 'Moderate' || dimensions.expression.level === 'Low') {
+    opportunities.push('Develop new communication skills together');
+  }
+  if (dimensions.soulUrge.level === 'Moderate' || dimensions.soulUrge.level === 'Low') {
+    opportunities.push('Explore each other\'s emotional depths');
+  }
+  if (dimensions.personality.level === 'Moderate' || dimensions.personality.level === 'Low') {
+    opportunities.push('Expand social horizons through different perspectives');
+  }
+  
+  opportunities.push('Use differences as teachers for personal growth');
+  opportunities.push('Build bridges through patience and understanding');
+  
+  return opportunities.slice(0, 4);
+}
+
+function generateCommunicationTips(p1: FullProfile, p2: FullProfile): string[] {
+  const tips: string[] = [];
+  
+  // Based on Expression numbers
+  const exp1 = p1.expressionNumber;
+  const exp2 = p2.expressionNumber;
+  
+  if (exp1 === 1 || exp2 === 1) {
+    tips.push('Give space for individual expression and leadership');
+  }
+  if (exp1 === 2 || exp2 === 2) {
+    tips.push('Practice active listening and create safe spaces for sharing');
+  }
+  if (exp1 === 3 || exp2 === 3) {
+    tips.push('Use creativity and humor to lighten conversations');
+  }
+  if (exp1 === 4 || exp2 === 4) {
+    tips.push('Be practical and clear when discussing important matters');
+  }
+  if (exp1 === 5 || exp2 === 5) {
+    tips.push('Keep communication fresh and avoid routine');
+  }
+  if (exp1 === 6 || exp2 === 6) {
+    tips.push('Show care and concern in your words');
+  }
+  if (exp1 === 7 || exp2 === 7) {
+    tips.push('Allow time for reflection before expecting responses');
+  }
+  if (exp1 === 8 || exp2 === 8) {
+    tips.push('Be direct but tactful about practical matters');
+  }
+  if (exp1 === 9 || exp2 === 9) {
+    tips.push('Connect through shared ideals and bigger picture discussions');
+  }
+  
+  tips.push('Acknowledge and validate different communication styles');
+  
+  return tips.slice(0, 4);
+}
+
+export function calculateComprehensiveCompatibility(
+  name1: string,
+  date1: Date,
+  name2: string,
+  date2: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE,
+  model: RelationshipModel = DEFAULT_RELATIONSHIP_MODEL,
+  relationshipDate: RelationshipDate | null = null
+): ComprehensiveCompatibility {
+  // Calculate full profiles for both, under the same calculation profile
+  const p1 = calculateComprehensiveProfile(name1, date1, undefined, undefined, profile);
+  const p2 = calculateComprehensiveProfile(name2, date2, undefined, undefined, profile);
+  
+  // Calculate dimension scores
+  const dimensions = {
+    lifePath: calculateNumberCompatibility(p1.lifePathNumber, p2.lifePathNumber, 'lifePath'),
+    expression: calculateNumberCompatibility(p1.expressionNumber, p2.expressionNumber, 'expression'),
+    soulUrge: calculateNumberCompatibility(p1.soulUrgeNumber, p2.soulUrgeNumber, 'soulUrge'),
+    personality: calculateNumberCompatibility(p1.personalityNumber, p2.personalityNumber, 'personality'),
+    attitude: calculateNumberCompatibility(p1.attitudeNumber, p2.attitudeNumber, 'attitude'),
+    dayOfBirth: calculateNumberCompatibility(p1.dayOfBirthNumber, p2.dayOfBirthNumber, 'dayOfBirth'),
+  };
+  
+  // Calculate zodiac compatibility
+  const chineseCompat = calculateChineseCompatibility(p1.chineseZodiac, p2.chineseZodiac);
+  // Sun signs from calculateWesternZodiac are always on the wheel
+  const westernCompat = analyzeSignAspect(p1.westernZodiac.sign, p2.westernZodiac.sign)!;
+  
+  const zodiac: ZodiacCompatibility = {
+    chineseScore: chineseCompat.score,
+    chineseLevel: chineseCompat.level,
+    chineseInsight: chineseCompat.insight,
+    chineseRelations: chineseCompat.animal.relations,
+    westernScore: westernCompat.score,
+    westernLevel: westernCompat.level,
+    westernInsight: westernCompat.insight,
+    westernAspect: westernCompat.aspect,
+    elementHarmony: chineseCompat.element?.explanation ?? `${p1.chineseZodiac.element} meets ${p2.chineseZodiac.element}`,
+  };
+  
+  // Calculate weighted overall score under the relationship model
+  const { weights } = model;
+  const overallScore = Math.round(
+    dimensions.lifePath.score * weights.lifePath +
+    dimensions.expression.score * weights.expression +
+    dimensions.soulUrge.score * weights.soulUrge +
+    dimensions.personality.score * weights.personality +
+    dimensions.attitude.score * weights.attitude +
+    dimensions.dayOfBirth.score * weights.dayOfBirth +
+    zodiac.chineseScore * weights.chinese +
+    zodiac.westernScore * weights.western
+  );
+  
+  const level = getCompatibilityLevel(overallScore, model);
+  
+  return {
+    overallScore,
+    level,
+    description: model.descriptions[level],
+    relationshipModel: model.id,
+    dimensions,
+    zodiac,
+    strengths: generateStrengths(dimensions, zodiac, model),
+    challenges: generateChallenges(dimensions, zodiac, model),
+    growthOpportunities: generateGrowthOpportunities(dimensions),
+    communicationTips: generateCommunicationTips(p1, p2),
+    person1Profile: p1,
+    person2Profile: p2,
+    composite: relationshipDate
+      ? calculateRelationshipComposite(relationshipDate, { name: name1, profile: p1 }, { name: name2, profile: p2 }, profile)
+      : null,
+  };
+}
+
+// Keep the simple compatibility function for backward compatibility
+export function calculateCompatibility(
+  date1: Date,
+  date2: Date,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): {
+  score: number;
+  level: 'Avoid' | 'Challenging' | 'Neutral' | 'Harmonious' | 'Ideal';
+  description: string;
+  strengths: string[];
+  challenges: string[];
+} {
+  const result = calculateComprehensiveCompatibility('Person 1', date1, 'Person 2', date2, profile);
+  return {
+    score: result.overallScore,
+    level: result.level,
+    description: result.description,
+    strengths: result.strengths,
+    challenges: result.challenges,
+  };
+}
+
+// ============================================
+// RELATIONSHIP NUMBER
+// ============================================
+
+// A couple's or partnership's shared date (the day they met, the wedding, the
+// incorporation) read as if the relationship were born that day. Its numbers
+// describe the relationship itself; comparing them with each partner shows
+// who the relationship comes naturally to. They don't change the pair score.
+export const relationshipDateKinds: Record<RelationshipDateKind, string> = {
+  met: 'Day we met',
+  together: 'Got together',
+  wedding: 'Wedding',
+  founded: 'Incorporation',
+};
+
+export function isRelationshipDateKind(value: string): value is RelationshipDateKind {
+  return Object.prototype.hasOwnProperty.call(relationshipDateKinds, value);
+}
+
+function calculateCompositeFit(
+  name: string,
+  partner: FullProfile,
+  lifePathNumber: number,
+  zodiac: ChineseZodiac
+): CompositeFit {
+  const lifePath = calculateNumberCompatibility(partner.lifePathNumber, lifePathNumber, 'composite');
+  const chinese = calculateChineseCompatibility(partner.chineseZodiac, zodiac);
+
+  return {
+    name,
+    score: Math.round((lifePath.score + chinese.score) / 2),
+    lifePath,
+    chineseScore: chinese.score,
+    chineseInsight: chinese.insight,
+  };
+}
+
+export function calculateRelationshipComposite(
+  relationshipDate: RelationshipDate,
+  partner1: { name: string; profile: FullProfile },
+  partner2: { name: string; profile: FullProfile },
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): RelationshipComposite {
+  const { date, kind } = relationshipDate;
+  const lifePathNumber = calculateLifePathNumber(date, profile);
+  const chineseZodiac = calculateChineseZodiac(date);
+  const title = getNumberMeaning(lifePathNumber).title;
+
+  const person1 = calculateCompositeFit(partner1.name, partner1.profile, lifePathNumber, chineseZodiac);
+  const person2 = calculateCompositeFit(partner2.name, partner2.profile, lifePathNumber, chineseZodiac);
+
+  // A gap this wide means one partner carries the relationship's energy more easily
+  const gap = person1.score - person2.score;
+  const insight = Math.abs(gap) >= 15
+    ? `As ${title} (Life Path ${lifePathNumber}) in a ${chineseZodiac.element} ${chineseZodiac.animal} year, this relationship comes more naturally to ${gap > 0 ? person1.name : person2.name}.`
+    : `As ${title} (Life Path ${lifePathNumber}) in a ${chineseZodiac.element} ${chineseZodiac.animal} year, this relationship sits evenly with both partners.`;
+
+  return {
+    date: formatCalendarDate(date),
+    kind,
+    lifePathNumber,
+    title,
+    chineseZodiac,
+    energySignature: composeEnergySignature(lifePathNumber, chineseZodiac.element),
+    person1,
+    person2,
+    insight,
+  };
+}
@@ -0,0 +1,295 @@
+// Bulk Compatibility Screening
+//
+// Scores a list of candidates (CSV or JSON) against one anchor profile with
+// calculateComprehensiveCompatibility. Rows are validated one by one so a
+// malformed line is reported back instead of failing the whole batch.
+
+import {
+  calculateComprehensiveCompatibility,
+  parseCalendarDate,
+  formatCalendarDate,
+  DEFAULT_CALCULATION_PROFILE,
+  DEFAULT_RELATIONSHIP_MODEL,
+  type CalculationProfile,
+  type RelationshipModel,
+  type ComprehensiveCompatibility,
+  type DimensionScore,
+} from './numerology';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type ScreeningFormat = 'csv' | 'json';
+
+export interface ScreeningCandidate {
+  line: number;          // CSV line or 1-based JSON array position
+  name: string;
+  birthDate: Date;
+}
+
+export interface ScreeningRowError {
+  line: number;
+  message: string;
+}
+
+export type DimensionKey = keyof ComprehensiveCompatibility['dimensions'];
+
+export interface ScreeningResultRow {
+  rank: number;
+  line: number;
+  name: string;
+  birthDate: string;
+  overallScore: number;
+  level: ComprehensiveCompatibility['level'];
+  dimensions: Record<DimensionKey, Pick<DimensionScore, 'score' | 'level'>>;
+  chineseScore: number;
+  westernScore: number;
+}
+
+export interface ScreeningResult {
+  anchor: { name: string; birthDate: string };
+  results: ScreeningResultRow[];   // Best match first
+  errors: ScreeningRowError[];
+  totalRows: number;
+}
+
+export const MAX_SCREENING_ROWS = 500;
+
+export const dimensionLabels: Record<DimensionKey, string> = {
+  lifePath: 'Life Path',
+  expression: 'Expression',
+  soulUrge: 'Soul Urge',
+  personality: 'Personality',
+  attitude: 'Attitude',
+  dayOfBirth: 'Day of Birth',
+};
+const dimensionKeys = Object.keys(dimensionLabels) as DimensionKey[];
+
+// ============================================
+// PARSING
+// ============================================
+
+const nameHeaders = ['name', 'full name', 'fullname', 'full_name'];
+const birthDateHeaders = ['birthdate', 'birth date', 'birth_date', 'dob', 'date of birth'];
+
+export interface CsvRecord {
+  line: number;       // 1-based line the record starts on
+  fields: string[];
+}
+
+// Splits CSV text into records, honoring double-quoted fields with "" escapes
+// and line breaks inside quotes. Blank lines are skipped. A quote left open
+// swallows the rest of the file, so its record is dropped and its line reported.
+export function parseCsvRecords(content: string): { records: CsvRecord[]; unclosedQuoteLine: number | null } {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(current.trim());
+    if (fields.length > 1 || fields[0]) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    current = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else if (char === '\r' && content[i + 1] === '\n') {
+        continue;
+      } else {
+        if (char === '\n') line++;
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    return { records, unclosedQuoteLine: recordLine };
+  }
+  endRecord();
+  return { records, unclosedQuoteLine: null };
+}
+
+// Accepts "YYYY-MM-DD" or US-style "M/D/YYYY"
+function parseCandidateDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(p => parseInt(p));
+  const date = parseCalendarDate(`${parts[0]}-${parts[1].padStart(2, '0')}-${parts[2].padStart(2, '0')}`);
+  if (isNaN(date.getTime()) || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function validateCandidate(
+  line: number,
+  name: unknown,
+  birthDate: unknown,
+  candidates: ScreeningCandidate[],
+  errors: ScreeningRowError[]
+): void {
+  if (typeof name !== 'string' || !name.trim()) {
+    errors.push({ line, message: 'Missing name' });
+    return;
+  }
+  if (typeof birthDate !== 'string' || !birthDate.trim()) {
+    errors.push({ line, message: 'Missing birth date' });
+    return;
+  }
+  const date = parseCandidateDate(birthDate.trim());
+  if (!date) {
+    errors.push({ line, message: `Invalid birth date "${birthDate}" (use YYYY-MM-DD or MM/DD/YYYY)` });
+    return;
+  }
+  candidates.push({ line, name: name.trim(), birthDate: date });
+}
+
+// Reads candidates from CSV or JSON text. A CSV header row is optional; without
+// one the columns are taken as name, birth date.
+export function parseScreeningInput(
+  content: string,
+  format: ScreeningFormat
+): { candidates: ScreeningCandidate[]; errors: ScreeningRowError[]; totalRows: number } {
+  const candidates: ScreeningCandidate[] = [];
+  const errors: ScreeningRowError[] = [];
+
+  if (format === 'json') {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(content);
+    } catch {
+      errors.push({ line: 0, message: 'File is not valid JSON' });
+      return { candidates, errors, totalRows: 0 };
+    }
+    if (!Array.isArray(rows)) {
+      errors.push({ line: 0, message: 'JSON must be an array of { name, birthDate } objects' });
+      return { candidates, errors, totalRows: 0 };
+    }
+    rows.forEach((row, i) => {
+      const record = (row ?? {}) as Record<string, unknown>;
+      validateCandidate(i + 1, record.name ?? record.fullName, record.birthDate ?? record.dob, candidates, errors);
+    });
+    return { candidates, errors, totalRows: rows.length };
+  }
+
+  const { records, unclosedQuoteLine } = parseCsvRecords(content);
+  let nameColumn = 0;
+  let birthDateColumn = 1;
+  let totalRows = 0;
+
+  records.forEach(({ line, fields }) => {
+    const lowered = fields.map(f => f.toLowerCase());
+
+    if (totalRows === 0 && lowered.some(f => nameHeaders.includes(f) || birthDateHeaders.includes(f))) {
+      nameColumn = lowered.findIndex(f => nameHeaders.includes(f));
+      birthDateColumn = lowered.findIndex(f => birthDateHeaders.includes(f));
+      if (nameColumn < 0 || birthDateColumn < 0) {
+        errors.push({ line, message: 'Header needs a name column and a birth date column' });
+      }
+      return;
+    }
+
+    totalRows++;
+    if (nameColumn < 0 || birthDateColumn < 0) return;
+    validateCandidate(line, fields[nameColumn], fields[birthDateColumn], candidates, errors);
+  });
+  if (unclosedQuoteLine !== null) {
+    errors.push({ line: unclosedQuoteLine, message: 'Unclosed quote; the rest of the file was skipped' });
+  }
+
+  return { candidates, errors, totalRows };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+export function screenCandidates(
+  anchor: { name: string; birthDate: Date },
+  candidates: ScreeningCandidate[],
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE,
+  model: RelationshipModel = DEFAULT_RELATIONSHIP_MODEL
+): ScreeningResultRow[] {
+  const rows = candidates.map(candidate => {
+    const result = calculateComprehensiveCompatibility(
+      anchor.name,
+      anchor.birthDate,
+      candidate.name,
+      candidate.birthDate,
+      profile,
+      model
+    );
+    const dimensions = Object.fromEntries(
+      dimensionKeys.map(key => [key, { score: result.dimensions[key].score, level: result.dimensions[key].level }])
+    ) as ScreeningResultRow['dimensions'];
+
+    return {
+      rank: 0,
+      line: candidate.line,
+      name: candidate.name,
+      birthDate: formatCalendarDate(candidate.birthDate),
+      overallScore: result.overallScore,
+      level: result.level,
+      dimensions,
+      chineseScore: result.zodiac.chineseScore,
+      westernScore: result.zodiac.westernScore,
+    };
+  });
+
+  rows.sort((a, b) => b.overallScore - a.overallScore);
+  rows.forEach((row, i) => { row.rank = i + 1; });
+  return rows;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+// Quotes fields that need it and defuses values a spreadsheet would run as a formula
+function escapeCsv(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function screeningResultsToCsv(rows: ScreeningResultRow[]): string {
+  const header = [
+    'Rank', 'Name', 'Birth Date', 'Overall Score', 'Level',
+    ...dimensionKeys.flatMap(key => [`${dimensionLabels[key]} Score`, `${dimensionLabels[key]} Level`]),
+    'Chinese Zodiac Score', 'Western Zodiac Score', 'Source Line',
+  ];
+  const lines = rows.map(row => [
+    row.rank, row.name, row.birthDate, row.overallScore, row.level,
+    ...dimensionKeys.flatMap(key => [row.dimensions[key].score, row.dimensions[key].level]),
+    row.chineseScore, row.westernScore, row.line,
+  ].map(escapeCsv).join(','));
+
+  return [header.map(escapeCsv).join(','), ...lines].join('\n');
+}
@@ -0,0 +1,506 @@
+// Timing: ranking calendar days for a chosen activity
+//
+// Each activity has its own rules over the person's Personal Day, the
+// Universal Day and the Chinese day animal (from the BaZi day pillar). Days
+// are scored 0-100 and every adjustment is recorded as a reason, so the UI
+// can explain why a day ranks where it does.
+
+import {
+  calculateLifePathNumber,
+  calculatePersonalDay,
+  calculateUniversalDay,
+  calculateChineseZodiac,
+  calculateDailyEnergyScore,
+  formatCalendarDate,
+  getPersonalCycleTheme,
+  reduceToSingleDigit,
+  DEFAULT_CALCULATION_PROFILE,
+  type CalculationProfile,
+} from './numerology';
+import { calculateDayPillar } from './bazi';
+import { getAnimalRelations } from './chineseRelations';
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type ActivityType =
+  | 'general'
+  | 'contract'
+  | 'launch'
+  | 'travel'
+  | 'firstDate'
+  | 'hardConversation'
+  | 'wedding'
+  | 'partnerMeeting';
+
+export interface TimingActivity {
+  id: ActivityType;
+  label: string;
+  description: string;
+  personalDays: { favored: number[]; avoid: number[] };
+  universalDays: { favored: number[]; avoid: number[] };
+  dayAnimals: { favored: string[]; avoid: string[] };
+}
+
+export type DayRating = 'excellent' | 'good' | 'neutral' | 'challenging';
+
+export interface RankedDay {
+  date: string;
+  score: number;
+  rating: DayRating;
+  personalDay: number;
+  universalDay: number;
+  dayAnimal: string;
+  dayPillar: string;     // e.g. "Jia-Zi"
+  theme: string;
+  reasons: string[];
+}
+
+export interface EventParticipant {
+  name: string;
+  birthDate: Date;
+}
+
+export interface ParticipantDay {
+  name: string;
+  score: number;         // Average of activity score and daily energy score
+  activityScore: number;
+  energyScore: number;
+  personalDay: number;
+  reasons: string[];
+}
+
+export interface GroupEventDate {
+  date: string;
+  score: number;
+  rating: DayRating;
+  universalDay: number;
+  dayAnimal: string;
+  weakestParticipant: string;
+  participants: ParticipantDay[];
+}
+
+export interface GroupEventPlan {
+  activity: ActivityType;
+  startDate: string;
+  endDate: string;
+  participants: Array<{ name: string; lifePathNumber: number; chineseAnimal: string }>;
+  bestDates: GroupEventDate[];  // Highest score first
+}
+
+// Joint calendar: how one day sits with two people at once
+export type JointDayStatus = 'bothStrong' | 'oneStrong' | 'clash' | 'neutral';
+
+export interface JointPersonDay {
+  name: string;
+  score: number;         // Average of activity score and daily energy score
+  personalDay: number;
+  theme: string;
+  strong: boolean;
+  clash: boolean;        // Weak day, or the day animal clashes with their sign
+  reasons: string[];
+}
+
+export interface JointDay {
+  date: string;
+  status: JointDayStatus;
+  score: number;         // Same weakest-person weighting as group events
+  universalDay: number;
+  dayAnimal: string;
+  strongFor: string[];
+  clashFor: string[];
+  people: [JointPersonDay, JointPersonDay];
+}
+
+export interface JointCalendar {
+  activity: ActivityType;
+  startDate: string;
+  endDate: string;
+  people: Array<{ name: string; lifePathNumber: number; chineseAnimal: string }>;
+  days: JointDay[];      // Chronological
+  counts: Record<JointDayStatus, number>;
+}
+
+export interface BestDaysResult {
+  activity: ActivityType;
+  startDate: string;
+  endDate: string;
+  lifePathNumber: number;
+  chineseAnimal: string;
+  days: RankedDay[];      // Chronological
+  bestDays: RankedDay[];  // Highest score first
+}
+
+// ============================================
+// ACTIVITIES
+// ============================================
+
+export const timingActivities: Record<ActivityType, TimingActivity> = {
+  general: {
+    id: 'general',
+    label: 'Any activity',
+    description: 'Days when your personal energy is strongest overall',
+    personalDays: { favored: [1, 3, 5, 8, 9], avoid: [] },
+    universalDays: { favored: [], avoid: [] },
+    dayAnimals: { favored: [], avoid: [] },
+  },
+  contract: {
+    id: 'contract',
+    label: 'Signing a contract',
+    description: 'Commitments, agreements and anything you want to last',
+    personalDays: { favored: [4, 8, 22], avoid: [5, 7] },
+    universalDays: { favored: [4, 8], avoid: [5] },
+    dayAnimals: { favored: ['Ox', 'Dog', 'Rooster'], avoid: ['Monkey'] },
+  },
+  launch: {
+    id: 'launch',
+    label: 'Launching',
+    description: 'Product launches, openings and public announcements',
+    personalDays: { favored: [1, 3, 8], avoid: [7, 9] },
+    universalDays: { favored: [1, 8], avoid: [9] },
+    dayAnimals: { favored: ['Dragon', 'Tiger', 'Horse'], avoid: ['Pig'] },
+  },
+  travel: {
+    id: 'travel',
+    label: 'Travel',
+    description: 'Trips, relocations and time on the road',
+    personalDays: { favored: [3, 5, 9], avoid: [4] },
+    universalDays: { favored: [3, 5], avoid: [4] },
+    dayAnimals: { favored: ['Horse', 'Monkey', 'Tiger'], avoid: ['Ox'] },
+  },
+  firstDate: {
+    id: 'firstDate',
+    label: 'A first date',
+    description: 'Meeting someone new and making a warm first impression',
+    personalDays: { favored: [2, 3, 6], avoid: [4, 7] },
+    universalDays: { favored: [2, 6], avoid: [7] },
+    dayAnimals: { favored: ['Rabbit', 'Goat', 'Pig'], avoid: ['Tiger'] },
+  },
+  hardConversation: {
+    id: 'hardConversation',
+    label: 'A hard conversation',
+    description: 'Difficult talks, negotiations and clearing the air',
+    personalDays: { favored: [2, 6, 7, 9], avoid: [1, 5] },
+    universalDays: { favored: [2, 9], avoid: [1] },
+    dayAnimals: { favored: ['Ox', 'Dog', 'Snake'], avoid: ['Tiger', 'Horse'] },
+  },
+  wedding: {
+    id: 'wedding',
+    label: 'A wedding',
+    description: 'Ceremonies, engagements and lifelong commitments',
+    personalDays: { favored: [2, 6, 3], avoid: [5, 7] },
+    universalDays: { favored: [6, 2], avoid: [5] },
+    dayAnimals: { favored: ['Rabbit', 'Goat', 'Dragon'], avoid: ['Tiger'] },
+  },
+  partnerMeeting: {
+    id: 'partnerMeeting',
+    label: 'A partner meeting',
+    description: 'Partner, investor and board meetings',
+    personalDays: { favored: [2, 4, 8], avoid: [7] },
+    universalDays: { favored: [2, 8], avoid: [] },
+    dayAnimals: { favored: ['Ox', 'Rat', 'Rooster'], avoid: [] },
+  },
+};
+
+export function isActivityType(value: string): value is ActivityType {
+  return Object.prototype.hasOwnProperty.call(timingActivities, value);
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+// Master numbers count under their own value or their root digit
+function matchesNumber(list: number[], num: number): boolean {
+  return list.includes(num) || list.includes(reduceToSingleDigit(num, false));
+}
+
+function getDayRating(score: number): DayRating {
+  if (score >= 75) return 'excellent';
+  if (score >= 60) return 'good';
+  if (score < 40) return 'challenging';
+  return 'neutral';
+}
+
+export function scoreDayForActivity(
+  birthDate: Date,
+  date: Date,
+  activity: TimingActivity,
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): RankedDay {
+  const lifePathNumber = calculateLifePathNumber(birthDate, profile);
+  const ownAnimal = calculateChineseZodiac(birthDate).animal;
+  const personalDay = calculatePersonalDay(birthDate, date, profile);
+  const universalDay = calculateUniversalDay(date, profile);
+  const pillar = calculateDayPillar(date);
+  const theme = getPersonalCycleTheme('day', personalDay);
+
+  let score = 50;
+  const reasons: string[] = [];
+
+  if (matchesNumber(activity.personalDays.favored, personalDay)) {
+    score += 20;
+    reasons.push(`Personal Day ${personalDay} (${theme.theme}) supports this`);
+  } else if (matchesNumber(activity.personalDays.avoid, personalDay)) {
+    score -= 20;
+    reasons.push(`Personal Day ${personalDay} (${theme.theme}) works against this`);
+  }
+
+  if (personalDay === lifePathNumber) {
+    score += 10;
+    reasons.push(`Personal Day matches your Life Path ${lifePathNumber}`);
+  }
+
+  if (matchesNumber(activity.universalDays.favored, universalDay)) {
+    score += 10;
+    reasons.push(`Universal Day ${universalDay} sets a helpful tone`);
+  } else if (matchesNumber(activity.universalDays.avoid, universalDay)) {
+    score -= 10;
+    reasons.push(`Universal Day ${universalDay} sets a difficult tone`);
+  }
+
+  // Relations can stack (a secret friend that is also a punishment), so each one counts
+  for (const relation of getAnimalRelations(ownAnimal, pillar.animal)) {
+    switch (relation) {
+      case 'same':
+        score += 5;
+        reasons.push(`${pillar.animal} day matches your own sign`);
+        break;
+      case 'trine':
+        score += 10;
+        reasons.push(`${pillar.animal} day is in your ${ownAnimal} trine`);
+        break;
+      case 'secretFriend':
+        score += 10;
+        reasons.push(`${pillar.animal} day is your ${ownAnimal} secret friend`);
+        break;
+      case 'clash':
+        score -= 25;
+        reasons.push(`${pillar.animal} day clashes with your ${ownAnimal} sign`);
+        break;
+      case 'harm':
+        score -= 10;
+        reasons.push(`${pillar.animal} day harms your ${ownAnimal} sign`);
+        break;
+      case 'punishment':
+      case 'selfPunishment':
+        score -= 5;
+        reasons.push(`${pillar.animal} day brings a punishment for your ${ownAnimal} sign`);
+        break;
+    }
+  }
+
+  if (activity.dayAnimals.favored.includes(pillar.animal)) {
+    score += 10;
+    reasons.push(`${pillar.animal} days favor this activity`);
+  } else if (activity.dayAnimals.avoid.includes(pillar.animal)) {
+    score -= 10;
+    reasons.push(`${pillar.animal} days are poorly suited to this activity`);
+  }
+
+  score = Math.max(0, Math.min(100, score));
+
+  return {
+    date: formatCalendarDate(date),
+    score,
+    rating: getDayRating(score),
+    personalDay,
+    universalDay,
+    dayAnimal: pillar.animal,
+    dayPillar: `${pillar.stem}-${pillar.branch}`,
+    theme: theme.theme,
+    reasons: reasons.length > 0 ? reasons : ['No strong signals either way'],
+  };
+}
+
+// Scores every day between startDate and endDate (inclusive)
+export function findBestDays(
+  birthDate: Date,
+  startDate: Date,
+  endDate: Date,
+  activityType: ActivityType = 'general',
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE,
+  limit: number = 10
+): BestDaysResult {
+  const activity = timingActivities[activityType];
+  const days: RankedDay[] = [];
+
+  for (
+    let date = new Date(startDate.getTime());
+    date.getTime() <= endDate.getTime();
+    date = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+  ) {
+    days.push(scoreDayForActivity(birthDate, date, activity, profile));
+  }
+
+  const bestDays = days
+    .filter(day => day.rating === 'excellent' || day.rating === 'good')
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return {
+    activity: activityType,
+    startDate: formatCalendarDate(startDate),
+    endDate: formatCalendarDate(endDate),
+    lifePathNumber: calculateLifePathNumber(birthDate, profile),
+    chineseAnimal: calculateChineseZodiac(birthDate).animal,
+    days,
+    bestDays,
+  };
+}
+
+// ============================================
+// GROUP EVENT PLANNING
+// ============================================
+
+// How much the weakest participant's day pulls the group score down; a date
+// that is great for most but bad for one person should not top the list
+const WEAKEST_PARTICIPANT_WEIGHT = 0.4;
+
+// Ranks the dates in a window for an event involving several people. Each
+// person's day combines the activity rules with their daily energy score.
+export function planGroupEvent(
+  participants: EventParticipant[],
+  startDate: Date,
+  endDate: Date,
+  activityType: ActivityType = 'general',
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE,
+  limit: number = 10
+): GroupEventPlan {
+  const activity = timingActivities[activityType];
+  const dates: GroupEventDate[] = [];
+
+  for (
+    let date = new Date(startDate.getTime());
+    date.getTime() <= endDate.getTime();
+    date = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+  ) {
+    const breakdown: ParticipantDay[] = participants.map(person => {
+      const day = scoreDayForActivity(person.birthDate, date, activity, profile);
+      const energyScore = calculateDailyEnergyScore(person.birthDate, date, profile);
+      return {
+        name: person.name,
+        score: Math.round((day.score + energyScore) / 2),
+        activityScore: day.score,
+        energyScore,
+        personalDay: day.personalDay,
+        reasons: day.reasons,
+      };
+    });
+
+    const average = breakdown.reduce((sum, p) => sum + p.score, 0) / breakdown.length;
+    const weakest = breakdown.reduce((low, p) => (p.score < low.score ? p : low));
+    const score = Math.round(average * (1 - WEAKEST_PARTICIPANT_WEIGHT) + weakest.score * WEAKEST_PARTICIPANT_WEIGHT);
+
+    dates.push({
+      date: formatCalendarDate(date),
+      score,
+      rating: getDayRating(score),
+      universalDay: calculateUniversalDay(date, profile),
+      dayAnimal: calculateDayPillar(date).animal,
+      weakestParticipant: weakest.name,
+      participants: breakdown,
+    });
+  }
+
+  return {
+    activity: activityType,
+    startDate: formatCalendarDate(startDate),
+    endDate: formatCalendarDate(endDate),
+    participants: participants.map(person => ({
+      name: person.name,
+      lifePathNumber: calculateLifePathNumber(person.birthDate, profile),
+      chineseAnimal: calculateChineseZodiac(person.birthDate).animal,
+    })),
+    bestDates: dates.sort((a, b) => b.score - a.score).slice(0, limit),
+  };
+}
+
+// ============================================
+// JOINT CALENDAR
+// ============================================
+
+// The "when should we do this together?" view for a compared pair. Each day
+// is scored per person exactly as in group planning, then labelled by whether
+// it suits both, only one, or clashes for either of them.
+export const MIN_JOINT_CALENDAR_DAYS = 30;
+export const MAX_JOINT_CALENDAR_DAYS = 90;
+
+const STRONG_DAY_SCORE = 65;
+const WEAK_DAY_SCORE = 40;
+
+function scoreJointPersonDay(person: EventParticipant, date: Date, activity: TimingActivity, profile: CalculationProfile): JointPersonDay {
+  const day = scoreDayForActivity(person.birthDate, date, activity, profile);
+  const energyScore = calculateDailyEnergyScore(person.birthDate, date, profile);
+  const score = Math.round((day.score + energyScore) / 2);
+  const ownAnimal = calculateChineseZodiac(person.birthDate).animal;
+  const animalClash = getAnimalRelations(ownAnimal, day.dayAnimal).includes('clash');
+
+  return {
+    name: person.name,
+    score,
+    personalDay: day.personalDay,
+    theme: day.theme,
+    strong: score >= STRONG_DAY_SCORE && !animalClash,
+    clash: animalClash || score < WEAK_DAY_SCORE,
+    reasons: day.reasons,
+  };
+}
+
+export function buildJointCalendar(
+  person1: EventParticipant,
+  person2: EventParticipant,
+  startDate: Date,
+  dayCount: number = MIN_JOINT_CALENDAR_DAYS,
+  activityType: ActivityType = 'general',
+  profile: CalculationProfile = DEFAULT_CALCULATION_PROFILE
+): JointCalendar {
+  const activity = timingActivities[activityType];
+  const days: JointDay[] = [];
+  const counts: Record<JointDayStatus, number> = { bothStrong: 0, oneStrong: 0, clash: 0, neutral: 0 };
+
+  for (let offset = 0; offset < dayCount; offset++) {
+    const date = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate() + offset));
+    const people: [JointPersonDay, JointPersonDay] = [
+      scoreJointPersonDay(person1, date, activity, profile),
+      scoreJointPersonDay(person2, date, activity, profile),
+    ];
+
+    const strongFor = people.filter(p => p.strong).map(p => p.name);
+    const clashFor = people.filter(p => p.clash).map(p => p.name);
+    const status: JointDayStatus =
+      clashFor.length > 0 ? 'clash' :
+      strongFor.length === 2 ? 'bothStrong' :
+      strongFor.length === 1 ? 'oneStrong' :
+      'neutral';
+    counts[status]++;
+
+    const average = (people[0].score + people[1].score) / 2;
+    const weakest = Math.min(people[0].score, people[1].score);
+
+    days.push({
+      date: formatCalendarDate(date),
+      status,
+      score: Math.round(average * (1 - WEAKEST_PARTICIPANT_WEIGHT) + weakest * WEAKEST_PARTICIPANT_WEIGHT),
+      universalDay: calculateUniversalDay(date, profile),
+      dayAnimal: calculateDayPillar(date).animal,
+      strongFor,
+      clashFor,
+      people,
+    });
+  }
+
+  return {
+    activity: activityType,
+    startDate: formatCalendarDate(startDate),
+    endDate: days[days.length - 1]?.date ?? formatCalendarDate(startDate),
+    people: [person1, person2].map(person => ({
+      name: person.name,
+      lifePathNumber: calculateLifePathNumber(person.birthDate, profile),
+      chineseAnimal: calculateChineseZodiac(person.birthDate).animal,
+    })),
+    days,
+    counts,
+  };
+}
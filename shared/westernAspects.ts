@@ -0,0 +1,165 @@
+// Western Sign Aspects
+//
+// Sun-sign compatibility from the angle between two signs on the zodiac
+// wheel (conjunction, semi-sextile, sextile, square, trine, quincunx,
+// opposition) plus how their modalities work together. Used for person to
+// person compatibility and for comparing a user's sign with a cue's founding
+// or birth sign.
+//
+// Signs are looked up by name, so this module has no dependency on
+// numerology.ts and can be used from it.
+
+// ============================================
+// TYPES & INTERFACES
+// ============================================
+
+export type WesternAspect =
+  | 'conjunction'
+  | 'semiSextile'
+  | 'sextile'
+  | 'square'
+  | 'trine'
+  | 'quincunx'
+  | 'opposition';
+
+export type Modality = 'Cardinal' | 'Fixed' | 'Mutable';
+
+export type WesternCompatibilityLevel = 'Challenging' | 'Neutral' | 'Harmonious' | 'Excellent';
+
+export interface SignAspectAnalysis {
+  signs: [string, string];
+  aspect: WesternAspect;
+  distance: number;            // Signs apart along the shorter arc, 0-6
+  angle: number;               // distance * 30 degrees
+  modalities: [Modality, Modality];
+  score: number;
+  level: WesternCompatibilityLevel;
+  aspectInsight: string;
+  modalityInsight: string;
+  insight: string;             // Both insights combined for display
+}
+
+// ============================================
+// SIGNS & ASPECTS
+// ============================================
+
+// Wheel order. Modality repeats every three signs, element every four.
+export const westernSigns = [
+  'Aries', 'Taurus', 'Gemini', 'Cancer', 'Leo', 'Virgo',
+  'Libra', 'Scorpio', 'Sagittarius', 'Capricorn', 'Aquarius', 'Pisces',
+];
+
+const modalityOrder: Modality[] = ['Cardinal', 'Fixed', 'Mutable'];
+
+const aspectByDistance: WesternAspect[] = [
+  'conjunction', 'semiSextile', 'sextile', 'square', 'trine', 'quincunx', 'opposition',
+];
+
+export const westernAspectLabels: Record<WesternAspect, string> = {
+  conjunction: 'Conjunction',
+  semiSextile: 'Semi-sextile',
+  sextile: 'Sextile',
+  square: 'Square',
+  trine: 'Trine',
+  quincunx: 'Quincunx',
+  opposition: 'Opposition',
+};
+
+const aspectScores: Record<WesternAspect, number> = {
+  trine: 88,
+  conjunction: 80,
+  sextile: 76,
+  opposition: 55,
+  semiSextile: 52,
+  quincunx: 42,
+  square: 35,
+};
+
+function describeAspect(aspect: WesternAspect, a: string, b: string): string {
+  switch (aspect) {
+    case 'conjunction':
+      return `Two ${a}s share the same sign and recognise themselves in each other, strengths and blind spots alike.`;
+    case 'semiSextile':
+      return `${a} and ${b} are neighbours on the wheel: different enough to learn from each other, close enough to feel familiar.`;
+    case 'sextile':
+      return `${a} and ${b} form a sextile, an easy friendship of compatible elements that rewards a little effort.`;
+    case 'square':
+      return `${a} and ${b} form a square: their priorities collide, creating tension that can drive growth or frustration.`;
+    case 'trine':
+      return `${a} and ${b} form a trine, sharing an element and a natural, effortless flow.`;
+    case 'quincunx':
+      return `${a} and ${b} form a quincunx, with little in common, so the relationship needs constant adjustment.`;
+    case 'opposition':
+      return `${a} and ${b} sit opposite each other, a magnetic pull between complementary halves that must find balance.`;
+  }
+}
+
+// ============================================
+// MODALITY INTERPLAY
+// ============================================
+
+function modalityKey(a: Modality, b: Modality): string {
+  return [a, b].sort().join('+');
+}
+
+const modalityInterplay: Record<string, { adjustment: number; insight: string }> = {
+  'Cardinal+Cardinal': { adjustment: -5, insight: 'Both are initiators, so expect competition over who leads.' },
+  'Fixed+Fixed': { adjustment: -5, insight: 'Both are fixed signs: loyal and steady, but neither likes to yield.' },
+  'Mutable+Mutable': { adjustment: 0, insight: 'Both are mutable and adapt easily, though plans can drift without an anchor.' },
+  'Cardinal+Fixed': { adjustment: 5, insight: 'The cardinal sign starts things and the fixed sign sees them through.' },
+  'Cardinal+Mutable': { adjustment: 5, insight: 'The cardinal sign sets direction while the mutable sign adapts and refines.' },
+  'Fixed+Mutable': { adjustment: 5, insight: 'Fixed stability meets mutable flexibility, each softening the other\'s extremes.' },
+};
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+export function getSignModality(sign: string): Modality | null {
+  const index = westernSigns.indexOf(sign);
+  return index < 0 ? null : modalityOrder[index % 3];
+}
+
+export function getSignAspect(a: string, b: string): WesternAspect | null {
+  const i = westernSigns.indexOf(a);
+  const j = westernSigns.indexOf(b);
+  if (i < 0 || j < 0) return null;
+  const distance = Math.abs(i - j);
+  return aspectByDistance[Math.min(distance, 12 - distance)];
+}
+
+function getLevel(score: number): WesternCompatibilityLevel {
+  if (score >= 80) return 'Excellent';
+  if (score >= 60) return 'Harmonious';
+  if (score >= 40) return 'Neutral';
+  return 'Challenging';
+}
+
+// Null when either sign isn't one of the twelve
+export function analyzeSignAspect(a: string, b: string): SignAspectAnalysis | null {
+  const i = westernSigns.indexOf(a);
+  const j = westernSigns.indexOf(b);
+  if (i < 0 || j < 0) return null;
+
+  const rawDistance = Math.abs(i - j);
+  const distance = Math.min(rawDistance, 12 - rawDistance);
+  const aspect = aspectByDistance[distance];
+  const modalities: [Modality, Modality] = [modalityOrder[i % 3], modalityOrder[j % 3]];
+  const interplay = modalityInterplay[modalityKey(modalities[0], modalities[1])];
+
+  const score = Math.max(0, Math.min(100, aspectScores[aspect] + interplay.adjustment));
+  const aspectInsight = describeAspect(aspect, a, b);
+
+  return {
+    signs: [a, b],
+    aspect,
+    distance,
+    angle: distance * 30,
+    modalities,
+    score,
+    level: getLevel(score),
+    aspectInsight,
+    modalityInsight: interplay.insight,
+    insight: `${aspectInsight} ${interplay.insight}`,
+  };
+}